@@ -0,0 +1,34 @@
+// Types for server/sync-server.js, which node runs as plain JS
+import type { SyncOp } from '../src/lib/crdt'
+
+export interface RelaySnapshot {
+  seq: number
+  entries: Array<{ seq: number; op: SyncOp }>
+}
+
+export interface Relay {
+  // Returns how many ops were newer than what the server had
+  push(ops: SyncOp[]): number
+  pull(since: number): { ops: SyncOp[]; cursor: number }
+  snapshot(): RelaySnapshot
+}
+
+// The parts of node's http.Server the tests use
+export interface SyncServer {
+  listen(port: number, host: string, callback?: () => void): SyncServer
+  address(): { address: string; port: number }
+  close(callback?: (err?: Error) => void): SyncServer
+}
+
+export function createRelay(saved?: RelaySnapshot): Relay
+
+export interface SyncServerOptions {
+  // Where ops are persisted; in memory only without one
+  file?: string
+  // Shared secret every request must send as a bearer token
+  token: string
+  // The one browser origin allowed to call the server
+  origin?: string
+}
+
+export function createSyncServer(options: SyncServerOptions): Promise<SyncServer>
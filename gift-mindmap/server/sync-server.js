@@ -0,0 +1,166 @@
+// Self-hostable sync server for gift-mindmap, meant for the home network. Devices push CRDT ops
+// and pull what other devices pushed; the server keeps the newest op per register and never
+// looks inside them (ideas of passphrase-protected profiles stay encrypted). Merging, and checking
+// each change against the family's sharing, is up to the clients, see src/lib/crdt.ts.
+//
+// Every request needs `Authorization: Bearer <SYNC_TOKEN>`. Browsers only get CORS access from
+// SYNC_ORIGIN, the address the app is served from.
+//
+//   SYNC_TOKEN=… npm run sync-server                     listens on 127.0.0.1:8787, stores ops in ./sync-data.json
+//   SYNC_TOKEN=… HOST=0.0.0.0 SYNC_ORIGIN=http://192.168.1.10:5173 npm run sync-server
+//   PORT=9000 SYNC_DATA=/srv/gifts.json                  other port and data file
+//
+// GET  /ops?since=<cursor>  ->  { ops, cursor }
+// POST /ops { ops }         ->  { cursor }
+
+import http from 'node:http'
+import { createHash, timingSafeEqual } from 'node:crypto'
+import { readFile, rename, writeFile } from 'node:fs/promises'
+import { pathToFileURL } from 'node:url'
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024
+const COLLECTIONS = new Set(['profiles', 'groups', 'seasons', 'nodes', 'edges'])
+
+const registerKey = (op) => JSON.stringify([op.collection, op.key, op.field])
+
+const newer = (a, b) => (a.clock !== b.clock ? a.clock > b.clock : a.device > b.device)
+
+function isOp(op) {
+  return !!op && typeof op.key === 'string' && typeof op.field === 'string' && COLLECTIONS.has(op.collection) &&
+    !!op.stamp && Number.isFinite(op.stamp.clock) && typeof op.stamp.device === 'string' &&
+    (op.author === undefined || typeof op.author === 'string')
+}
+
+// Compared as hashes so the check takes as long whatever the guess
+const digest = (text) => createHash('sha256').update(text).digest()
+
+function authorized(req, token) {
+  const header = req.headers.authorization ?? ''
+  return header.startsWith('Bearer ') && timingSafeEqual(digest(header.slice(7)), digest(token))
+}
+
+// The same relay as createMemoryRelay in src/lib/sync.ts, plus a snapshot to persist
+export function createRelay(saved = { seq: 0, entries: [] }) {
+  const registers = new Map(saved.entries.map((e) => [registerKey(e.op), e]))
+  let seq = saved.seq
+  return {
+    push(ops) {
+      let accepted = 0
+      for (const op of ops) {
+        const current = registers.get(registerKey(op))
+        if (current && !newer(op.stamp, current.op.stamp)) continue
+        registers.set(registerKey(op), { seq: ++seq, op })
+        accepted++
+      }
+      return accepted
+    },
+    pull(since) {
+      const ops = [...registers.values()].filter((e) => e.seq > since).sort((a, b) => a.seq - b.seq).map((e) => e.op)
+      return { ops, cursor: seq }
+    },
+    snapshot: () => ({ seq, entries: [...registers.values()] }),
+  }
+}
+
+async function load(file) {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'))
+  } catch (err) {
+    if (err.code === 'ENOENT') return undefined
+    throw err
+  }
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = []
+    let size = 0
+    req.on('data', (chunk) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        // Stop buffering; the caller answers 413 before the connection is dropped
+        req.removeAllListeners('data')
+        req.pause()
+        reject(Object.assign(new Error('Request body too large'), { status: 413 }))
+      } else {
+        chunks.push(chunk)
+      }
+    })
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    req.on('error', reject)
+  })
+}
+
+// The app is served from another origin (vite, a static host); only `origin` may call from a browser
+const corsHeaders = (origin) => (origin
+  ? {
+      'Access-Control-Allow-Origin': origin,
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      Vary: 'Origin',
+    }
+  : {})
+
+// Without `file` the ops only live in memory. Writes go to a temporary file first so a crash
+// never leaves a half-written log behind.
+export async function createSyncServer({ file, token, origin } = {}) {
+  if (!token) throw new Error('sync-server: a token is required')
+  const relay = createRelay(file ? await load(file) : undefined)
+  const send = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...corsHeaders(origin) })
+    res.end(body === undefined ? undefined : JSON.stringify(body))
+  }
+  let writing = Promise.resolve()
+  const persist = () => {
+    if (!file) return writing
+    writing = writing.then(async () => {
+      await writeFile(`${file}.tmp`, JSON.stringify(relay.snapshot()))
+      await rename(`${file}.tmp`, file)
+    }).catch((err) => console.error('sync-server: could not save ops', err))
+    return writing
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    // Preflights carry no credentials; they only learn which origin is allowed
+    if (req.method === 'OPTIONS') return send(res, 204)
+    if (!authorized(req, token)) return send(res, 401, { error: 'unauthorized' })
+    if (url.pathname !== '/ops') return send(res, 404, { error: 'not_found' })
+    try {
+      if (req.method === 'GET') {
+        const since = Number(url.searchParams.get('since') ?? 0)
+        if (!Number.isInteger(since) || since < 0) return send(res, 400, { error: 'bad_cursor' })
+        return send(res, 200, relay.pull(since))
+      }
+      if (req.method === 'POST') {
+        const body = JSON.parse(await readBody(req))
+        if (!Array.isArray(body?.ops) || !body.ops.every(isOp)) return send(res, 400, { error: 'bad_ops' })
+        if (relay.push(body.ops) > 0) await persist()
+        return send(res, 200, { cursor: relay.pull(Number.MAX_SAFE_INTEGER).cursor })
+      }
+      return send(res, 405, { error: 'method_not_allowed' })
+    } catch (err) {
+      if (err.status) {
+        // The rest of the body is never read, so close the connection once the answer is out
+        res.setHeader('Connection', 'close')
+        res.on('finish', () => req.destroy())
+        return send(res, err.status, { error: 'too_large' })
+      }
+      if (err instanceof SyntaxError) return send(res, 400, { error: 'bad_json' })
+      console.error('sync-server:', err)
+      return send(res, 500, { error: 'internal' })
+    }
+  })
+  return server
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT ?? 8787)
+  const host = process.env.HOST ?? '127.0.0.1'
+  if (!process.env.SYNC_TOKEN) {
+    console.error('Set SYNC_TOKEN to a secret shared with your devices, e.g. SYNC_TOKEN=$(openssl rand -hex 16)')
+    process.exit(1)
+  }
+  const server = await createSyncServer({ file: process.env.SYNC_DATA ?? 'sync-data.json', token: process.env.SYNC_TOKEN, origin: process.env.SYNC_ORIGIN })
+  server.listen(port, host, () => console.log(`gift-mindmap sync server on http://${host}:${port}`))
+}
@@ -1,5 +1,5 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import ReactFlow from "reactflow";
+import ReactFlow, { type Connection, type ReactFlowInstance } from "reactflow";
 import "reactflow/dist/style.css";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -10,13 +10,32 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Slider } from "@/components/ui/slider";
 import { Upload, Download, Plus, CheckCircle2, Pencil, Trash2, RefreshCcw, UserPlus, Send, MessageSquare, ChevronDown, ChevronUp, Users, Lock, Eye, EyeOff } from "lucide-react";
-import { useGiftStore } from "@/store/giftStore";
+import { connectSync, saveIdeaImage, syncNow, useGiftStore } from "@/store/giftStore";
+import type { ExportedState, GiftEdge, GiftNode } from "@/types/gift";
 import { parseExportJSON } from "@/lib/schema";
-import { colorForProfile } from "@/lib/colors";
+import { budgetByPerson, budgetByProfile, buildProfileColorMap, canSeeEdge, filterByStatus, ideaParents, viewableNodes, visibleProfileIds } from "@/store/selectors";
+import { isPurchased } from "@/lib/status";
+import { pastGiftsFor } from "@/lib/seasons";
+import { conflictsForProfile, detectConflicts } from "@/lib/duplicates";
+import { pairingsFromEdges, verifyDraw } from "@/lib/exchange";
+import { checkConnection, hierarchyParents } from "@/lib/hierarchy";
+import { can } from "@/lib/permissions";
+import { repairState, validateState, type IntegrityIssue } from "@/lib/integrity";
+import { parseProductUrl } from "@/lib/productUrl";
+import { renderMapSVG, svgToPng, type MapImageOptions } from "@/lib/mapImage";
+import { exportIdeasCSV, guessMapping, parseCSV, planCsvImport, type CsvMapping } from "@/lib/csv";
+import type { ImageError } from "@/lib/images";
 import GraphCanvas from '@/features/canvas/GraphCanvas'
-import ChatPanel from '@/features/panels/ChatPanel'
+import GiftChatPanel from '@/features/panels/GiftChatPanel'
 import SideTabs from '@/features/panels/SideTabs'
 import TopBar from '@/features/panels/TopBar'
+import RecoveryPrompt from '@/features/panels/RecoveryPrompt'
+import ImportReport from '@/features/panels/ImportReport'
+import CsvImportDialog from '@/features/panels/CsvImportDialog'
+import type { ImageFormat } from '@/features/panels/ImageExportPanel'
+import { giftTagsHTML, needsTag, openPrintable, printableIdeas, shoppingListHTML, type ShoppingGroup } from '@/features/print/printDocuments'
+import ShortcutSheet from '@/features/shortcuts/ShortcutSheet'
+import { useShortcuts } from '@/features/shortcuts/useShortcuts'
 
 /*****************
  * Helper utils  *
@@ -87,19 +106,19 @@ function buildSeedGraph() {
   return { nodes, edges };
 }
 
-/*******************
- * Security model (front-end simulated)  *
- *******************/
-type Profile = { id: string; name: string; shareWith: string[] };
-const LS_KEY = "giftmindmap_profiles_v1";
-const LS_PROFILE = "giftmindmap_current_profile_v1";
+const IMPORT_NOT_ALLOWED = "This map has nodes you may not delete, so it can't be replaced from this profile.";
+
+const IMAGE_ERROR_MESSAGES: Record<ImageError, string> = {
+  not_an_image: "That file isn't an image.",
+  too_large: "Images must be 5 MB or smaller.",
+  write_failed: "The image couldn't be saved.",
+};
 
-function loadProfiles(): Profile[] {
-  try { return JSON.parse(localStorage.getItem(LS_KEY) || "[]"); } catch { return []; }
+// Blank input clears the field; anything unparsable is treated the same way
+function parseAmount(v: string): number | undefined {
+  const n = Number.parseFloat(v);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
 }
-function saveProfiles(p: Profile[]) { localStorage.setItem(LS_KEY, JSON.stringify(p)); }
-function loadCurrentProfile(): string | null { return localStorage.getItem(LS_PROFILE); }
-function saveCurrentProfile(id: string) { localStorage.setItem(LS_PROFILE, id); }
 
 /*******************
  * Main component  *
@@ -118,26 +137,18 @@ export default function GiftMindMap() {
   const onConnectStore = useGiftStore((s) => s.onConnect);
   const selectedId = useGiftStore((s) => s.selectedId);
   const selectNodeStore = useGiftStore((s) => s.selectNode);
+  const selectedIds = useGiftStore((s) => s.selectedIds);
   const [zoom, setZoom] = useState(1);
   const [canvasCollapsed, setCanvasCollapsed] = useState(false);
   
 
-  // Keyboard shortcuts for undo/redo
-  useEffect(() => {
-    const onKey = (e: KeyboardEvent) => {
-      const isMod = e.ctrlKey || e.metaKey
-      if (!isMod) return
-      if (e.key.toLowerCase() === 'z' && !e.shiftKey) {
-        e.preventDefault()
-        useGiftStore.getState().undo()
-      } else if ((e.key.toLowerCase() === 'z' && e.shiftKey) || (e.key.toLowerCase() === 'y')) {
-        e.preventDefault()
-        useGiftStore.getState().redo()
-      }
-    }
-    window.addEventListener('keydown', onKey)
-    return () => window.removeEventListener('keydown', onKey)
-  }, [])
+  const rfInstance = useRef<ReactFlowInstance | null>(null);
+  const [sideTab, setSideTab] = useState("edit");
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  // A parsed import with integrity issues, held until the user picks repair or import-as-is
+  const [pendingImport, setPendingImport] = useState<{ state: ExportedState; issues: IntegrityIssue[] } | null>(null);
+  // A parsed CSV waiting on its column mapping and preview
+  const [csvImport, setCsvImport] = useState<{ fileName: string; rows: string[][]; mapping: CsvMapping } | null>(null);
 
   // Profiles + permissions (store-backed)
   const profiles = useGiftStore((s) => s.profiles);
@@ -145,16 +156,44 @@ export default function GiftMindMap() {
   const setCurrentProfile = useGiftStore((s) => s.setCurrentProfile);
   const addProfileStore = useGiftStore((s) => s.addProfile);
   const shareWithToggleStore = useGiftStore((s) => s.shareWithToggle);
+  const setShareRole = useGiftStore((s) => s.setShareRole);
+  const unlockedProfiles = useGiftStore((s) => s.unlockedProfiles);
+  const groups = useGiftStore((s) => s.groups);
   const treeMode = useGiftStore((s) => s.treeMode);
   const setTreeMode = useGiftStore((s) => s.setTreeMode);
   const treeProfiles = useGiftStore((s) => s.treeProfiles);
   const setTreeProfiles = useGiftStore((s) => s.setTreeProfiles);
+  const statusPipeline = useGiftStore((s) => s.statusPipeline);
+  const setStatusPipeline = useGiftStore((s) => s.setStatusPipeline);
+  const statusFilter = useGiftStore((s) => s.statusFilter);
+  const setStatusFilter = useGiftStore((s) => s.setStatusFilter);
+  const seasons = useGiftStore((s) => s.seasons);
+  const currentSeasonId = useGiftStore((s) => s.currentSeasonId);
+  const switchSeason = useGiftStore((s) => s.switchSeason);
+  const addSeason = useGiftStore((s) => s.addSeason);
+  const exchange = useGiftStore((s) => s.exchange);
+  const layout = useGiftStore((s) => s.layout);
+  const setLayout = useGiftStore((s) => s.setLayout);
+  const [exchangeError, setExchangeError] = useState<string | undefined>();
+  const persistence = useGiftStore((s) => s.persistence);
+  const recovery = useGiftStore((s) => s.recovery);
+  const saveSlots = useGiftStore((s) => s.saveSlots);
+  const historyPast = useGiftStore((s) => s.past);
+  const historyFuture = useGiftStore((s) => s.future);
+  const historyBranches = useGiftStore((s) => s.branches);
+
+  // Multi-device sync; the connection itself is started with the app (see startApp)
+  const syncStatus = useGiftStore((s) => s.sync);
+  const syncServer = useGiftStore((s) => s.syncServer);
+  const [newSeasonName, setNewSeasonName] = useState("");
+  const [cloneSeasonPeople, setCloneSeasonPeople] = useState(true);
   const importState = useGiftStore((s) => s.importState);
   const [newProfileName, setNewProfileName] = useState("");
 
   // ---- FORM STATE FIRST (fix TDZ)
   const [ideaTitle, setIdeaTitle] = useState("");
   const [ideaNotes, setIdeaNotes] = useState("");
+  const [ideaUrl, setIdeaUrl] = useState("");
   const [personInterests, setPersonInterests] = useState("");
   const [newMemberName, setNewMemberName] = useState("");
   const [newMemberInterests, setNewMemberInterests] = useState("");
@@ -162,8 +201,16 @@ export default function GiftMindMap() {
   // Edit fields (for selected node)
   const [editPersonName, setEditPersonName] = useState("");
   const [editPersonInterests, setEditPersonInterests] = useState("");
+  const [editPersonBudget, setEditPersonBudget] = useState("");
   const [editIdeaTitle, setEditIdeaTitle] = useState("");
   const [editIdeaNotes, setEditIdeaNotes] = useState("");
+  const [editIdeaPrice, setEditIdeaPrice] = useState("");
+  const [editIdeaCurrency, setEditIdeaCurrency] = useState("");
+  const [editIdeaQuantity, setEditIdeaQuantity] = useState("");
+  const [editIdeaUrl, setEditIdeaUrl] = useState("");
+  const [editIdeaStore, setEditIdeaStore] = useState("");
+  const [editIdeaSize, setEditIdeaSize] = useState("");
+  const [editIdeaVariantColor, setEditIdeaVariantColor] = useState("");
 
   // Organizer state
   const [peopleQuery, setPeopleQuery] = useState("");
@@ -178,33 +225,75 @@ export default function GiftMindMap() {
   // Profiles are now initialized and persisted via the central store (no local boot/persist effects)
 
   // Derived: which profile IDs are allowed to show
-  const allowedProfileIds = useMemo(() => {
-    if (!currentProfileId) return new Set<string>();
-    if (!treeMode) return new Set<string>([currentProfileId]);
-    const mine = new Set<string>([currentProfileId]);
-    const curId = currentProfileId;
-    for (const pid of treeProfiles) {
-      if (pid === curId) { mine.add(pid); continue; }
-      const prof = profiles.find((p) => p.id === pid);
-      if (prof && prof.shareWith.includes(curId)) mine.add(pid);
+  const allowedProfileIds = useMemo(
+    () => visibleProfileIds(profiles, currentProfileId, treeMode, treeProfiles, groups),
+    [currentProfileId, treeMode, treeProfiles, profiles, groups]
+  );
+
+  // Filter visibility by allowedProfileIds (root is global) and decorate with colors and budget totals.
+  // Gifts for the current profile's own person node are redacted before anything else reads them.
+  const filteredNodes = useMemo(() => {
+    return viewableNodes(nodes, edges, currentProfileId, allowedProfileIds);
+  }, [nodes, edges, currentProfileId, allowedProfileIds]);
+
+  // Derived selections (from the redacted view, so the edit panel can't leak either)
+  const selectedNode = useMemo(() => filteredNodes.find((n) => n.id === selectedId), [filteredNodes, selectedId]);
+
+  const personBudgets = useMemo(() => budgetByPerson(filteredNodes, edges), [filteredNodes, edges]);
+  const profileBudgets = useMemo(() => budgetByProfile(filteredNodes, edges), [filteredNodes, edges]);
+
+  // Duplicate detection looks at every profile's ideas; the per-profile view redacts what wasn't shared
+  const conflicts = useMemo(() => detectConflicts(nodes, edges), [nodes, edges]);
+  const conflictViews = useMemo(() => conflictsForProfile(conflicts, nodes, profiles, currentProfileId), [conflicts, nodes, profiles, currentProfileId]);
+  const conflictBadges = useMemo(() => {
+    const rank = { claimed_by_other: 2, open: 1, claimed_by_me: 0 } as const;
+    const map = new Map<string, keyof typeof rank>();
+    for (const v of conflictViews) {
+      const prev = map.get(v.mine.id);
+      if (!prev || rank[v.badge] > rank[prev]) map.set(v.mine.id, v.badge);
     }
-    return mine;
-  }, [currentProfileId, treeMode, treeProfiles, profiles]);
+    return map;
+  }, [conflictViews]);
 
-  // Derived selections
-  const selectedNode = useMemo(() => nodes.find((n) => n.id === selectedId), [nodes, selectedId]);
+  const profileColors = useMemo(() => buildProfileColorMap(profiles, groups), [profiles, groups]);
 
-  // Filter visibility by allowedProfileIds (root is global) and decorate with colors
+  // Status filter only hides ideas on the canvas; budgets above still count everything in view
   const visibleNodes = useMemo(() => {
-    return nodes
-      .filter((n) => n.id === "root" || allowedProfileIds.has(n.data?.owner))
-      .map((n) => ({ ...n, data: { ...n.data, __color: colorForProfile(n.data?.owner) } }));
-  }, [nodes, allowedProfileIds]);
+    return filterByStatus(filteredNodes, edges, statusFilter).nodes.map((n) => ({
+      ...n,
+      selected: selectedIds.includes(n.id),
+      data: {
+        ...n.data,
+        __color: (n.type !== "root" && n.data.color) || (n.data?.owner ? profileColors[n.data.owner] : undefined),
+        ...(n.type === "person" ? { __budget: personBudgets[n.id] } : {}),
+        ...(n.type === "idea" ? { __conflict: conflictBadges.get(n.id) } : {}),
+      },
+    }));
+  }, [filteredNodes, edges, statusFilter, personBudgets, conflictBadges, selectedIds, profileColors]);
 
   const visibleEdges = useMemo(() => {
     const visibleIds = new Set(visibleNodes.map((n) => n.id));
-    return edges.filter((e) => visibleIds.has(e.source) && visibleIds.has(e.target));
-  }, [edges, visibleNodes]);
+    return edges.filter((e) => visibleIds.has(e.source) && visibleIds.has(e.target) && canSeeEdge(e, currentProfileId));
+  }, [edges, visibleNodes, currentProfileId]);
+
+  // Gift exchange: the proof only reports counts, and the assignment shown is the viewer's own
+  const exchangePairings = useMemo(() => pairingsFromEdges(edges), [edges]);
+  const exchangeProof = useMemo(
+    () => (exchangePairings.length > 0 ? verifyDraw(exchange, exchangePairings) : undefined),
+    [exchange, exchangePairings]
+  );
+  const myExchangeReceiver = useMemo(() => {
+    const mine = edges.find((e) => e.data?.kind === "exchange" && !!currentProfileId && e.data.owner === currentProfileId);
+    const receiver = nodes.find((n) => n.id === mine?.target);
+    return receiver?.type === "person" ? receiver.data.label : undefined;
+  }, [edges, nodes, currentProfileId]);
+
+  // Gifts already given to the selected person in other seasons (matched by name)
+  const pastGifts = useMemo(() => {
+    if (selectedNode?.type !== "person") return [];
+    const visible = (n: GiftNode[], e: GiftEdge[]) => viewableNodes(n, e, currentProfileId, allowedProfileIds);
+    return pastGiftsFor(seasons, currentSeasonId, selectedNode.data.label, visible);
+  }, [selectedNode, seasons, currentSeasonId, currentProfileId, allowedProfileIds]);
 
   // Sync edit inputs when selection changes
   useEffect(() => {
@@ -212,9 +301,17 @@ export default function GiftMindMap() {
     if (selectedNode.type === "person") {
       setEditPersonName(selectedNode.data?.label || "");
       setEditPersonInterests(selectedNode.data?.interests || "");
+      setEditPersonBudget(selectedNode.data?.budget === undefined ? "" : String(selectedNode.data.budget));
     } else if (selectedNode.type === "idea") {
       setEditIdeaTitle(selectedNode.data?.title || "");
       setEditIdeaNotes(selectedNode.data?.notes || "");
+      setEditIdeaPrice(selectedNode.data?.price === undefined ? "" : String(selectedNode.data.price));
+      setEditIdeaCurrency(selectedNode.data?.currency || "");
+      setEditIdeaQuantity(selectedNode.data?.quantity === undefined ? "" : String(selectedNode.data.quantity));
+      setEditIdeaUrl(selectedNode.data?.url || "");
+      setEditIdeaStore(selectedNode.data?.store || "");
+      setEditIdeaSize(selectedNode.data?.variant?.size || "");
+      setEditIdeaVariantColor(selectedNode.data?.variant?.color || "");
     }
   }, [selectedNode]);
 
@@ -227,13 +324,24 @@ export default function GiftMindMap() {
   const addPersonStore = useGiftStore((s) => s.addPerson);
 
   const onConnect = useCallback((params: any) => onConnectStore(params), [onConnectStore]);
+  // Greys out drop targets that would break the root → person → idea tree while a handle is dragged
+  const isValidConnection = useCallback((c: Connection) => {
+    const s = useGiftStore.getState();
+    return !!c.source && !!c.target && checkConnection(s.nodes, s.edges, c.source, c.target).ok;
+  }, []);
+
+  // Dropping an idea onto a different person moves it there
+  const onNodeDragStop = useCallback((_: React.MouseEvent, dragged: any) => {
+    if (dragged.type !== "idea" || !rfInstance.current) return;
+    const s = useGiftStore.getState();
+    const parents = hierarchyParents(s.edges, dragged.id);
+    const target = rfInstance.current.getIntersectingNodes(dragged).find((n) => n.type === "person" && !parents.includes(n.id));
+    if (target) s.reparentIdea(dragged.id, target.id);
+  }, []);
 
   const addIdeaTo = useCallback((personId: string, idea: any) => {
-  const person = nodes.find((n) => n.id === personId);
-  if (!person) return;
-  if (person.data?.owner && person.data.owner !== currentProfileId) return;
-  addIdeaStore(currentProfileId || undefined, personId, idea.title || "Idea", idea.notes || undefined);
-}, [nodes, currentProfileId, addIdeaStore]);
+  addIdeaStore(currentProfileId || undefined, personId, idea.title || "Idea", idea.notes || undefined, { url: idea.url, store: idea.store });
+}, [currentProfileId, addIdeaStore]);
 
 const updateIdea = useCallback((id: string, patch: any) => {
   updateIdeaStore(id, patch);
@@ -243,20 +351,18 @@ const updatePerson = useCallback((id: string, patch: any) => {
   updatePersonStore(id, patch);
 }, [updatePersonStore]);
 
+// The store refuses nodes the current profile may not delete and drops deleted ones from the selection
 const deleteNode = useCallback((id: string) => {
-  const victim = nodes.find((n) => n.id === id);
-  if (!victim) return;
-  if (victim.data?.owner && victim.data.owner !== currentProfileId) return;
   deleteNodeStore(id);
-  selectNodeStore(undefined as any);
-}, [nodes, currentProfileId, deleteNodeStore, selectNodeStore]);
-const exportJSON = useCallback(() => {
+}, [deleteNodeStore]);
+// Exports carry the same encryption as the autosave
+const exportJSON = useCallback(async () => {
+    const state = await useGiftStore.getState().exportSealedState();
     const payload = {
-      nodes: nodes.map(({ id, type, position, data }) => ({ id, type, position, data })),
-      edges: edges.map(({ id, source, target }) => ({ id, source, target })),
+      ...state,
+      nodes: state.nodes.map(({ id, type, position, data }) => ({ id, type, position, data })),
+      edges: state.edges.map(({ id, source, target, label, data }) => ({ id, source, target, label, data })),
       updatedAt: new Date().toISOString(),
-      profiles,
-      currentProfileId,
     };
     const blob = new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
@@ -267,6 +373,23 @@ const exportJSON = useCallback(() => {
     URL.revokeObjectURL(url);
   }, [nodes, edges, profiles, currentProfileId]);
 
+  const downloadRecoveryBackup = useCallback(() => {
+    if (!recovery) return;
+    const blob = new Blob([recovery.raw], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `gift-mindmap-backup-${Date.now()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, [recovery]);
+
+  const loadSlot = useCallback(async (id: string) => {
+    const res = await useGiftStore.getState().loadFromSlot(id);
+    if (res.ok) selectNodeStore(undefined);
+    else alert(res.error === "not_allowed" ? IMPORT_NOT_ALLOWED : "Could not load save: " + res.error);
+  }, [selectNodeStore]);
+
   const importJSON = useCallback(
     (file: File) => {
       const reader = new FileReader();
@@ -274,11 +397,17 @@ const exportJSON = useCallback(() => {
         try {
           const json = String(reader.result)
           const res = parseExportJSON(json)
-          if (res.ok) {
-            importState(res.data)
+          if (!res.ok) {
+            alert("Invalid file: " + res.error)
+            return
+          }
+          const issues = validateState(res.data)
+          if (issues.length > 0) {
+            setPendingImport({ state: res.data, issues })
+          } else if (importState(res.data).ok) {
             selectNodeStore(undefined as any)
           } else {
-            alert("Invalid file: " + res.error)
+            alert(IMPORT_NOT_ALLOWED)
           }
         } catch (e) {
           alert("Invalid file")
@@ -289,6 +418,127 @@ const exportJSON = useCallback(() => {
     [importState, selectNodeStore]
   );
 
+  // Like printing, the CSV only holds what the current profile may see, redacted for the recipient
+  const exportCSV = useCallback(() => {
+    const ids = new Set(filteredNodes.map((n) => n.id));
+    const seen = edges.filter((e) => ids.has(e.source) && ids.has(e.target) && canSeeEdge(e, currentProfileId));
+    const blob = new Blob([exportIdeasCSV(filteredNodes, seen, profiles)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `gift-ideas-${Date.now()}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, [filteredNodes, edges, profiles, currentProfileId]);
+
+  const importCSV = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const rows = parseCSV(String(reader.result));
+      if (rows.length < 2) {
+        alert("That CSV has no rows to import.");
+        return;
+      }
+      setCsvImport({ fileName: file.name, rows, mapping: guessMapping(rows[0]) });
+    };
+    reader.readAsText(file);
+  }, []);
+
+  // Printing works from the same redacted, permission-filtered nodes the map shows
+  const printable = useMemo(() => printableIdeas(filteredNodes, edges, profiles, currentProfileId), [filteredNodes, edges, profiles, currentProfileId]);
+  const printProps = useMemo(() => {
+    const seasonName = seasons.find((x) => x.id === currentSeasonId)?.name;
+    const prefix = seasonName ? `${seasonName} ` : "";
+    return {
+      pendingCount: printable.filter((i) => !isPurchased(i.idea.status)).length,
+      tagCount: printable.filter((i) => needsTag(i.idea)).length,
+      onShoppingList: (groupBy: ShoppingGroup) => openPrintable(shoppingListHTML(printable, { groupBy, title: `${prefix}Shopping list` }), "shopping-list.html"),
+      onGiftTags: () => openPrintable(giftTagsHTML(printable, { title: `${prefix}Gift tags` }), "gift-tags.html"),
+    };
+  }, [printable, seasons, currentSeasonId]);
+
+  const manageProps = useMemo(() => {
+    const store = useGiftStore.getState();
+    return {
+      profiles,
+      currentProfileId,
+      unlockedProfiles,
+      onRename: store.renameProfile,
+      onRecolor: store.recolorProfile,
+      onDelete: store.deleteProfile,
+      onMerge: store.mergeProfiles,
+    };
+  }, [profiles, currentProfileId, unlockedProfiles]);
+
+  const groupsProps = useMemo(() => {
+    const store = useGiftStore.getState();
+    return {
+      groups,
+      profiles,
+      currentProfileId,
+      onCreate: store.addGroup,
+      onRename: store.renameGroup,
+      onSetMember: store.setGroupMember,
+      onDelete: store.deleteGroup,
+      onShareToggle: store.shareWithGroupToggle,
+      onSetRole: store.setShareRole,
+    };
+  }, [groups, profiles, currentProfileId]);
+
+  // Unlocking a profile switches straight into it
+  const lockProps = useMemo(() => {
+    const store = useGiftStore.getState();
+    return {
+      profiles,
+      currentProfileId,
+      unlockedProfiles,
+      onSetPassphrase: store.setPassphrase,
+      onRemovePassphrase: store.removePassphrase,
+      onUnlock: async (id: string, passphrase: string) => {
+        const res = await store.unlockProfile(id, passphrase);
+        if (res.ok) setCurrentProfile(id);
+        return res;
+      },
+      onLock: (id: string) => void store.lockProfile(id),
+    };
+  }, [profiles, currentProfileId, unlockedProfiles, setCurrentProfile]);
+
+  // Snapshot of exactly what's on screen (current filters and visibility), minus any spoilers
+  const exportImage = useCallback(async (format: ImageFormat, opts: MapImageOptions) => {
+    const image = renderMapSVG(visibleNodes as GiftNode[], visibleEdges, opts);
+    let blob: Blob;
+    try {
+      blob = format === "svg" ? new Blob([image.svg], { type: "image/svg+xml" }) : await svgToPng(image);
+    } catch (e) {
+      alert("Could not export the image: " + (e as Error).message);
+      return;
+    }
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `gift-map-${Date.now()}.${format}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, [visibleNodes, visibleEdges]);
+
+  const csvPlan = useMemo(
+    () => (csvImport ? planCsvImport(csvImport.rows.slice(1), csvImport.mapping, { nodes, profiles }) : null),
+    [csvImport, nodes, profiles]
+  );
+
+  const finishCsvImport = useCallback(() => {
+    if (!csvPlan) return;
+    useGiftStore.getState().importCsv(csvPlan);
+    setCsvImport(null);
+  }, [csvPlan]);
+
+  const finishImport = useCallback((repair: boolean) => {
+    if (!pendingImport) return;
+    if (importState(repair ? repairState(pendingImport.state) : pendingImport.state).ok) selectNodeStore(undefined as any);
+    else alert(IMPORT_NOT_ALLOWED);
+    setPendingImport(null);
+  }, [pendingImport, importState, selectNodeStore]);
+
   // Profiles helpers
   const createProfile = useCallback(() => {
     const name = newProfileName.trim();
@@ -318,8 +568,38 @@ const exportJSON = useCallback(() => {
     setNewMemberInterests("");
   }, [addMember, newMemberName, newMemberInterests]);
 
+  const claimSelected = useCallback(() => {
+    if (selectedNode?.type !== "idea") return;
+    const store = useGiftStore.getState();
+    if (selectedNode.data.claimedBy === currentProfileId) store.unclaimIdea(selectedNode.id);
+    else store.claimIdea(selectedNode.id);
+  }, [selectedNode, currentProfileId]);
+
+  const linkSelectedPerson = useCallback((profileId?: string) => {
+    if (selectedNode?.type !== "person") return;
+    useGiftStore.getState().linkPersonToProfile(selectedNode.id, profileId || undefined);
+  }, [selectedNode]);
+
+  const resolveConflict = useCallback((ideaId: string, otherIdeaId: string, resolution?: "dismissed" | "claimed") => {
+    useGiftStore.getState().setConflictResolution(ideaId, otherIdeaId, resolution);
+  }, []);
+
+  const drawExchange = useCallback(() => {
+    const res = useGiftStore.getState().runExchangeDraw();
+    setExchangeError(res.ok ? undefined : res.error === "no_valid_assignment"
+      ? "No assignment satisfies these rules. Remove an exclusion or household and try again."
+      : "Pick at least two participants.");
+  }, []);
+
+  const createSeason = useCallback(() => {
+    const name = newSeasonName.trim();
+    if (!name) return;
+    addSeason(name, cloneSeasonPeople ? { clonePeopleFrom: currentSeasonId } : undefined);
+    setNewSeasonName("");
+  }, [newSeasonName, cloneSeasonPeople, currentSeasonId, addSeason]);
+
   const resetLayout = useCallback(() => {
-    // store handles radial layout
+    // store applies the selected layout
     useGiftStore.getState().resetLayout();
     selectNodeStore(undefined as any);
   }, [selectNodeStore]);
@@ -328,31 +608,72 @@ const exportJSON = useCallback(() => {
     if (!selectedNode) return;
     const personId = selectedNode.type === "person" ? selectedNode.id : edges.find((e) => e.target === selectedNode.id)?.source;
     if (!personId) return;
-    const parent = nodes.find((n) => n.id === personId);
-    if (!parent || (parent.data?.owner && parent.data.owner !== currentProfileId)) return; // view-only enforcement
-    const idea = { title: ideaTitle || "New idea", notes: ideaNotes };
+    const product = parseProductUrl(ideaUrl);
+    const idea = { title: ideaTitle || "New idea", notes: ideaNotes, url: product?.url, store: product?.store };
     addIdeaTo(personId, idea);
     setIdeaTitle("");
     setIdeaNotes("");
-  }, [selectedNode, edges, ideaTitle, ideaNotes, addIdeaTo, nodes, currentProfileId]);
+    setIdeaUrl("");
+  }, [selectedNode, edges, ideaTitle, ideaNotes, ideaUrl, addIdeaTo]);
+
+  // Pasting a product link fills in whatever the user hasn't typed yet
+  const changeIdeaUrl = useCallback((v: string) => {
+    setIdeaUrl(v);
+    const product = parseProductUrl(v);
+    if (product?.title) setIdeaTitle((t) => t || product.title!);
+  }, []);
+
+  const changeEditIdeaUrl = useCallback((v: string) => {
+    setEditIdeaUrl(v);
+    const product = parseProductUrl(v);
+    if (!product) return;
+    setEditIdeaStore((s) => s || product.store);
+    if (product.title) setEditIdeaTitle((t) => t || product.title!);
+  }, []);
+
+  const setIdeaImage = useCallback(async (file?: File) => {
+    if (!selectedNode || selectedNode.type !== "idea") return;
+    // Checked up front so a rejected edit doesn't leave an orphaned image behind
+    if (!can(profiles, currentProfileId, selectedNode, "edit", groups)) return;
+    if (!file) return updateIdea(selectedNode.id, { imageId: undefined });
+    const res = await saveIdeaImage(selectedNode.data.owner, file);
+    if (res.ok) updateIdea(selectedNode.id, { imageId: res.imageId });
+    else alert(IMAGE_ERROR_MESSAGES[res.error]);
+  }, [selectedNode, profiles, currentProfileId, groups, updateIdea]);
 
   const togglePurchased = useCallback(() => {
     if (!selectedNode || selectedNode.type !== "idea") return;
-    if (selectedNode.data?.owner && selectedNode.data.owner !== currentProfileId) return; // view-only enforcement
-    const next = selectedNode.data?.status === "purchased" ? "pending" : "purchased";
-    updateIdea(selectedNode.id, { status: next });
-  }, [selectedNode, updateIdea, currentProfileId]);
+    useGiftStore.getState().togglePurchased(selectedNode.id);
+  }, [selectedNode]);
+
+  const stepStatus = useCallback((direction: "advance" | "rewind") => {
+    if (!selectedNode || selectedNode.type !== "idea") return;
+    const store = useGiftStore.getState();
+    if (direction === "advance") store.advanceStatus(selectedNode.id);
+    else store.rewindStatus(selectedNode.id);
+  }, [selectedNode]);
 
-  // Save edits for selected node (view-only enforced)
+  // Save edits for selected node (the store ignores nodes the current profile can't edit)
   const saveEdits = useCallback(() => {
     if (!selectedNode) return;
-    if (selectedNode.data?.owner && selectedNode.data.owner !== currentProfileId) return; // view-only enforcement
     if (selectedNode.type === "person") {
-      updatePerson(selectedNode.id, { label: editPersonName, interests: editPersonInterests });
+      updatePerson(selectedNode.id, { label: editPersonName, interests: editPersonInterests, budget: parseAmount(editPersonBudget) });
     } else if (selectedNode.type === "idea") {
-      updateIdea(selectedNode.id, { title: editIdeaTitle, notes: editIdeaNotes });
+      const url = editIdeaUrl.trim() ? parseProductUrl(editIdeaUrl)?.url : undefined;
+      if (editIdeaUrl.trim() && !url) return alert("That link isn't a web address. Links must start with http:// or https://.");
+      const quantity = parseAmount(editIdeaQuantity);
+      updateIdea(selectedNode.id, {
+        title: editIdeaTitle,
+        notes: editIdeaNotes,
+        price: parseAmount(editIdeaPrice),
+        currency: editIdeaCurrency.trim().toUpperCase() || undefined,
+        quantity: quantity === undefined ? undefined : Math.max(1, Math.round(quantity)),
+        url,
+        store: editIdeaStore.trim() || undefined,
+        variant: editIdeaSize.trim() || editIdeaVariantColor.trim() ? { size: editIdeaSize.trim() || undefined, color: editIdeaVariantColor.trim() || undefined } : undefined,
+      });
     }
-  }, [selectedNode, editPersonName, editPersonInterests, editIdeaTitle, editIdeaNotes, updateIdea, updatePerson, currentProfileId]);
+  }, [selectedNode, editPersonName, editPersonInterests, editPersonBudget, editIdeaTitle, editIdeaNotes, editIdeaPrice, editIdeaCurrency, editIdeaQuantity, editIdeaUrl, editIdeaStore, editIdeaSize, editIdeaVariantColor, updateIdea, updatePerson]);
 
   // --- Simple local AI chat handler (no backend) ---
   const [chatHelpCollapsed, setChatHelpCollapsed] = useState(false);
@@ -369,8 +690,7 @@ const exportJSON = useCallback(() => {
       const [, who, title, notes] = match;
       const person = visibleNodes.find((n) => n.type === "person" && String(n.data?.label).toLowerCase() === who.toLowerCase());
       if (person) {
-        // view-only enforcement: person must be owned by current profile
-        if (person.data?.owner && person.data.owner !== currentProfileId) {
+        if (!can(profiles, currentProfileId, person as GiftNode, "edit", groups)) {
           setMessages((m) => m.concat({ id: uid("m"), role: "assistant", text: `"${who}" is view-only. Switch to their profile to edit.` }));
           return;
         }
@@ -384,15 +704,16 @@ const exportJSON = useCallback(() => {
 
     // default assistant response
     setMessages((m) => m.concat({ id: uid("m"), role: "assistant", text: "(Demo) I can add ideas if you say: add idea for Bella: cozy socks - ankle length." }));
-  }, [chatInput, visibleNodes, addIdeaTo, currentProfileId]);
+  }, [chatInput, visibleNodes, addIdeaTo, profiles, currentProfileId, groups]);
 
   const onDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
       const file = e.dataTransfer.files?.[0];
-      if (file) importJSON(file);
+      if (file && /\.csv$/i.test(file.name)) importCSV(file);
+      else if (file) importJSON(file);
     },
-    [importJSON]
+    [importJSON, importCSV]
   );
 
   const onDragOver = useCallback((e: React.DragEvent) => {
@@ -404,11 +725,12 @@ const exportJSON = useCallback(() => {
   const visiblePeople = useMemo(() => visibleNodes.filter((n) => n.type === "person"), [visibleNodes]);
   const peopleList = useMemo(() => {
     const q = peopleQuery.trim().toLowerCase();
+    const parents = ideaParents(filteredNodes, visibleEdges);
     let list = visiblePeople.filter((p: any) => !q || String(p.data?.label).toLowerCase().includes(q));
     list = list.map((p: any) => {
-      const allIdeas = (p.data?.ideas || []) as any[];
-      const purchased = allIdeas.filter((i) => i.status === "purchased").length;
-      return { ...p, _stats: { ideas: allIdeas.length, purchased } };
+      const allIdeas = filteredNodes.filter((n) => n.type === "idea" && parents.get(n.id) === p.id);
+      const purchased = allIdeas.filter((i: any) => isPurchased(i.data?.status)).length;
+      return { ...p, _stats: { ideas: allIdeas.length, purchased, budget: personBudgets[p.id] } };
     });
     list.sort((a: any, b: any) => {
       if (peopleSort === "name") return String(a.data?.label).localeCompare(String(b.data?.label));
@@ -416,18 +738,79 @@ const exportJSON = useCallback(() => {
       return b._stats.purchased - a._stats.purchased;
     });
     return list;
-  }, [visiblePeople, peopleQuery, peopleSort]);
+  }, [visiblePeople, filteredNodes, visibleEdges, peopleQuery, peopleSort, personBudgets]);
 
   // Legend profiles (in view)
   const legendProfiles = useMemo(() => {
     const ids = new Set<string>();
     for (const n of visibleNodes) if (n.data?.owner) ids.add(n.data.owner);
-    return profiles.filter((p) => ids.has(p.id));
-  }, [visibleNodes, profiles]);
+    return [...profiles, ...groups].filter((p) => ids.has(p.id));
+  }, [visibleNodes, profiles, groups]);
+
+  // Bulk actions only touch selected nodes that are in view and editable by the current profile
+  const editableSelection = useMemo(() => {
+    const picked = new Set(selectedIds);
+    return filteredNodes.filter((n) => picked.has(n.id) && n.type !== "root" && can(profiles, currentProfileId, n as GiftNode, "edit", groups));
+  }, [filteredNodes, selectedIds, profiles, currentProfileId, groups]);
+  const editableIds = useMemo(() => editableSelection.map((n) => n.id), [editableSelection]);
+
+  const bulkActions = useMemo(() => {
+    if (selectedIds.length < 2) return undefined;
+    const store = useGiftStore.getState();
+    return {
+      editableCount: editableIds.length,
+      ideaCount: editableSelection.filter((n) => n.type === "idea").length,
+      totalCount: selectedIds.length,
+      people: visiblePeople
+        .filter((p: any) => can(profiles, currentProfileId, p, "edit", groups))
+        .map((p: any) => ({ id: p.id, label: p.data?.label })),
+      // Groups can own nodes too, so they're offered as owners alongside profiles
+      profiles: [...profiles, ...groups].map((p) => ({ id: p.id, name: p.name })),
+      onMarkPurchased: (purchased: boolean) => store.setIdeasPurchased(editableIds, purchased),
+      onMove: (personId: string) => store.moveIdeas(editableIds, personId),
+      onSetOwner: (profileId: string) => store.setOwner(editableIds, profileId),
+      onRecolor: (color?: string) => store.recolorNodes(editableIds, color),
+      onDelete: () => store.deleteNodes(editableIds),
+      onClear: () => store.setSelection([]),
+    };
+  }, [selectedIds, editableIds, editableSelection, visiblePeople, profiles, currentProfileId, groups]);
+
+  // The people search only exists while its tab is mounted, so switch first and focus next frame
+  const focusSearch = useCallback(() => {
+    setSideTab("people");
+    requestAnimationFrame(() => document.getElementById("people-search")?.focus());
+  }, []);
+
+  useShortcuts({
+    undo: useGiftStore.getState().undo,
+    redo: useGiftStore.getState().redo,
+    deleteSelected: () => (selectedIds.length > 1 ? useGiftStore.getState().deleteNodes(editableIds) : selectedId && deleteNode(selectedId)),
+    addIdea: addIdeaFromForm,
+    togglePurchased,
+    nextProfile: () => useGiftStore.getState().cycleProfile(1),
+    prevProfile: () => useGiftStore.getState().cycleProfile(-1),
+    focusSearch,
+    fitView: () => rfInstance.current?.fitView({ padding: 0.2 }),
+    showHelp: () => setShortcutsOpen((open) => !open),
+  });
 
   return (
     <TooltipProvider>
       <div className="w-full h-[86vh] flex flex-col gap-3 p-4 bg-gradient-to-br from-emerald-50 to-sky-50" onDrop={onDrop} onDragOver={onDragOver}>
+        <ShortcutSheet open={shortcutsOpen} onClose={() => setShortcutsOpen(false)} />
+        {csvImport && csvPlan && (
+          <CsvImportDialog
+            fileName={csvImport.fileName}
+            headers={csvImport.rows[0]}
+            mapping={csvImport.mapping}
+            onMappingChange={(mapping) => setCsvImport({ ...csvImport, mapping })}
+            plan={csvPlan}
+            onConfirm={finishCsvImport}
+            onCancel={() => setCsvImport(null)}
+          />
+        )}
+        {pendingImport && <ImportReport issues={pendingImport.issues} onRepair={() => finishImport(true)} onImportAsIs={() => finishImport(false)} onCancel={() => setPendingImport(null)} />}
+        {recovery && <RecoveryPrompt error={recovery.error} onDownload={downloadRecoveryBackup} onDiscard={useGiftStore.getState().discardRecovery} />}
         {/* Main area: permanent sidebar + collapsible canvas */}
         <div className="flex-1 grid grid-cols-12 gap-4 min-h-0">
           {/* Canvas column */}
@@ -435,7 +818,7 @@ const exportJSON = useCallback(() => {
             <Card className="h-full overflow-hidden">
               <div className="flex items-center justify-between px-3 pt-3">
               <TopBar
-                legend={legendProfiles.map((p) => ({ id: p.id, name: p.name, color: colorForProfile(p.id) || '#6b7280' }))}
+                legend={legendProfiles.map((p) => ({ id: p.id, name: p.name, color: profileColors[p.id] }))}
                 onReset={resetLayout}
                 onExport={exportJSON}
                 onImport={importJSON}
@@ -444,11 +827,20 @@ const exportJSON = useCallback(() => {
                 canUndo={useGiftStore((s)=>s.past.length>0)}
                 canRedo={useGiftStore((s)=>s.future.length>0)}
                 onHideCanvas={() => setCanvasCollapsed(true)}
+                statuses={statusPipeline}
+                statusFilter={statusFilter}
+                onStatusFilterChange={setStatusFilter}
+                seasons={seasons}
+                currentSeasonId={currentSeasonId}
+                onSwitchSeason={switchSeason}
+                onShowShortcuts={() => setShortcutsOpen(true)}
+                layout={layout}
+                onLayoutChange={setLayout}
               />
               </div>
               <CardContent className="p-0 h-[calc(100%-2.75rem)]">
                 <div className="h-full">
-                  <GraphCanvas rfRef={rfRef} nodes={visibleNodes} edges={visibleEdges} onNodesChange={onNodesChange} onEdgesChange={onEdgesChange} onConnect={onConnect} onNodeClick={(_, n) => selectNodeStore(n.id)} onMoveEnd={(_: any, vp: any) => setZoom(vp.zoom)} />
+                  <GraphCanvas rfRef={rfRef} onInit={(instance: ReactFlowInstance) => { rfInstance.current = instance; }} nodes={visibleNodes} edges={visibleEdges} onNodesChange={onNodesChange} onEdgesChange={onEdgesChange} onConnect={onConnect} isValidConnection={isValidConnection} onNodeDragStop={onNodeDragStop} onNodeClick={(e: React.MouseEvent, n: any) => { if (!(e.shiftKey || e.metaKey || e.ctrlKey)) selectNodeStore(n.id); }} onMoveEnd={(_: any, vp: any) => setZoom(vp.zoom)} />
                 </div>
               </CardContent>
             </Card>
@@ -481,6 +873,7 @@ const exportJSON = useCallback(() => {
                   setNewProfileName={setNewProfileName}
                   createProfile={createProfile}
                   shareWithToggle={shareWithToggle}
+                  setShareRole={setShareRole}
                   treeMode={treeMode}
                   setTreeMode={setTreeMode}
                   treeProfiles={treeProfiles}
@@ -491,17 +884,40 @@ const exportJSON = useCallback(() => {
                   setEditPersonName={setEditPersonName}
                   editPersonInterests={editPersonInterests}
                   setEditPersonInterests={setEditPersonInterests}
+                  editPersonBudget={editPersonBudget}
+                  setEditPersonBudget={setEditPersonBudget}
                   editIdeaTitle={editIdeaTitle}
                   setEditIdeaTitle={setEditIdeaTitle}
                   editIdeaNotes={editIdeaNotes}
                   setEditIdeaNotes={setEditIdeaNotes}
+                  editIdeaPrice={editIdeaPrice}
+                  setEditIdeaPrice={setEditIdeaPrice}
+                  editIdeaCurrency={editIdeaCurrency}
+                  setEditIdeaCurrency={setEditIdeaCurrency}
+                  editIdeaQuantity={editIdeaQuantity}
+                  setEditIdeaQuantity={setEditIdeaQuantity}
+                  editIdeaUrl={editIdeaUrl}
+                  setEditIdeaUrl={changeEditIdeaUrl}
+                  editIdeaStore={editIdeaStore}
+                  setEditIdeaStore={setEditIdeaStore}
+                  editIdeaSize={editIdeaSize}
+                  setEditIdeaSize={setEditIdeaSize}
+                  editIdeaVariantColor={editIdeaVariantColor}
+                  setEditIdeaVariantColor={setEditIdeaVariantColor}
+                  setIdeaImage={setIdeaImage}
                   saveEdits={saveEdits}
                   deleteNode={deleteNode}
                   togglePurchased={togglePurchased}
+                  advanceStatus={() => stepStatus("advance")}
+                  rewindStatus={() => stepStatus("rewind")}
+                  statusPipeline={statusPipeline}
+                  setStatusPipeline={setStatusPipeline}
                   ideaTitle={ideaTitle}
                   setIdeaTitle={setIdeaTitle}
                   ideaNotes={ideaNotes}
                   setIdeaNotes={setIdeaNotes}
+                  ideaUrl={ideaUrl}
+                  setIdeaUrl={changeIdeaUrl}
                   addIdeaFromForm={addIdeaFromForm}
                   newMemberName={newMemberName}
                   setNewMemberName={setNewMemberName}
@@ -510,8 +926,71 @@ const exportJSON = useCallback(() => {
                   handleAddMember={handleAddMember}
                   exportJSON={exportJSON}
                   importJSON={importJSON}
+                  exportCSV={exportCSV}
+                  importCSV={importCSV}
                   resetLayout={resetLayout}
-                  setCurrentProfile={setCurrentProfile as any}
+                  setCurrentProfile={setCurrentProfile}
+                  peopleList={peopleList}
+                  peopleQuery={peopleQuery}
+                  setPeopleQuery={setPeopleQuery}
+                  peopleSort={peopleSort}
+                  setPeopleSort={setPeopleSort}
+                  profileBudgets={profileBudgets}
+                  selectNode={selectNodeStore}
+                  pastGifts={pastGifts}
+                  seasons={seasons}
+                  currentSeasonId={currentSeasonId}
+                  switchSeason={switchSeason}
+                  newSeasonName={newSeasonName}
+                  setNewSeasonName={setNewSeasonName}
+                  cloneSeasonPeople={cloneSeasonPeople}
+                  setCloneSeasonPeople={setCloneSeasonPeople}
+                  createSeason={createSeason}
+                  conflicts={conflictViews}
+                  resolveConflict={resolveConflict}
+                  claimSelected={claimSelected}
+                  exchange={{
+                    people: visiblePeople.map((p: any) => ({ id: p.id, label: p.data?.label, linked: !!p.data?.profileId })),
+                    config: exchange,
+                    onChange: useGiftStore.getState().setExchangeConfig,
+                    onDraw: drawExchange,
+                    onClear: () => { useGiftStore.getState().clearExchange(); setExchangeError(undefined); },
+                    hasDraw: exchangePairings.length > 0,
+                    proof: exchangeProof,
+                    error: exchangeError,
+                    myReceiver: myExchangeReceiver,
+                  }}
+                  history={{
+                    past: historyPast,
+                    future: historyFuture,
+                    branches: historyBranches,
+                    onJump: useGiftStore.getState().jumpToHistory,
+                  }}
+                  print={printProps}
+                  lock={lockProps}
+                  manage={manageProps}
+                  groups={groupsProps}
+                  image={{ onExport: exportImage }}
+                  sync={{
+                    server: syncServer,
+                    status: syncStatus,
+                    onConnect: connectSync,
+                    onDisconnect: () => connectSync(undefined),
+                    onSyncNow: () => void syncNow(),
+                  }}
+                  saves={{
+                    slots: saveSlots,
+                    status: persistence.status,
+                    lastSavedAt: persistence.lastSavedAt,
+                    error: persistence.error,
+                    onSave: useGiftStore.getState().saveToSlot,
+                    onLoad: loadSlot,
+                    onDelete: useGiftStore.getState().deleteSaveSlot,
+                  }}
+                  linkSelectedPerson={linkSelectedPerson}
+                  bulk={bulkActions}
+                  activeTab={sideTab}
+                  onTabChange={setSideTab}
                 />
               </CardContent>
             </Card>
@@ -519,8 +998,8 @@ const exportJSON = useCallback(() => {
         </div>
 
         {/* Bottom AI Chat */}
-        <ChatPanel
-          messages={messages as any}
+        <GiftChatPanel
+          messages={messages}
           chatInput={chatInput}
           onChatInputChange={setChatInput}
           onSend={sendMessage}
@@ -1,13 +1,17 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Code2, Network, Settings } from "lucide-react";
 import LiveCodingApp from "./LiveCodingApp";
-import GiftMindMap from "./GiftMindMap-standalone";
+import GiftMindMap from "./GiftMindMap";
+import { startApp } from "@/store/giftStore";
 import { SettingsPanel } from "./SettingsPanel";
 
 export default function MainApp() {
   const [activeTab, setActiveTab] = useState<"code" | "canvas" | "settings">("code");
 
+  // Restore, autosave and sync keep running while other tabs are open
+  useEffect(() => startApp(), []);
+
   return (
     <div className="w-full h-screen flex flex-col">
       {/* Top Navigation Bar */}
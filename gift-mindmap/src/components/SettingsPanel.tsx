@@ -19,6 +19,14 @@ import {
   CheckCircle2,
   AlertCircle
 } from "lucide-react";
+import { clearStoredData, loadAiSettings, saveAiSettings, storageUsage } from "@/lib/settings";
+import { getStorage, type StorageAdapter } from "@/lib/storage";
+
+const STORAGE_LABELS: Record<StorageAdapter["kind"], string> = {
+  indexeddb: "IndexedDB",
+  local: "Local Storage",
+  memory: "Memory only",
+};
 
 export function SettingsPanel() {
   const [apiKey, setApiKey] = useState("");
@@ -33,18 +41,24 @@ export function SettingsPanel() {
   const [localModelUrl, setLocalModelUrl] = useState("http://localhost:11434/api/chat");
   const [localModelName, setLocalModelName] = useState("llama3.2");
   const [modelConfigSaved, setModelConfigSaved] = useState(false);
+  const [storageBytes, setStorageBytes] = useState<number | null>(null);
+  const [saveError, setSaveError] = useState(false);
 
-  const handleSaveApiKey = () => {
+  const handleSaveApiKey = async () => {
     if (apiKey.startsWith("sk-")) {
-      localStorage.setItem("openai_api_key", apiKey);
+      const ok = await saveAiSettings({ openaiApiKey: apiKey });
+      setSaveError(!ok);
+      if (!ok) return;
       setApiKeySaved(true);
       setTimeout(() => setApiKeySaved(false), 3000);
     }
   };
 
-  const handleSaveAnthropicKey = () => {
+  const handleSaveAnthropicKey = async () => {
     if (anthropicApiKey.startsWith("sk-ant-")) {
-      localStorage.setItem("anthropic_api_key", anthropicApiKey);
+      const ok = await saveAiSettings({ anthropicApiKey });
+      setSaveError(!ok);
+      if (!ok) return;
       setAnthropicKeySaved(true);
       setTimeout(() => setAnthropicKeySaved(false), 3000);
     }
@@ -52,52 +66,35 @@ export function SettingsPanel() {
 
   const handleClearApiKey = () => {
     setApiKey("");
-    localStorage.removeItem("openai_api_key");
+    void saveAiSettings({ openaiApiKey: undefined });
   };
 
   const handleClearAnthropicKey = () => {
     setAnthropicApiKey("");
-    localStorage.removeItem("anthropic_api_key");
+    void saveAiSettings({ anthropicApiKey: undefined });
   };
 
-  const handleSaveModelConfig = () => {
-    localStorage.setItem("ai_provider", selectedProvider);
-    localStorage.setItem("ai_model", selectedModel);
-    localStorage.setItem("local_model_url", localModelUrl);
-    localStorage.setItem("local_model_name", localModelName);
+  const handleSaveModelConfig = async () => {
+    const ok = await saveAiSettings({ provider: selectedProvider, model: selectedModel, localModelUrl, localModelName });
+    setSaveError(!ok);
+    if (!ok) return;
     setModelConfigSaved(true);
     setTimeout(() => setModelConfigSaved(false), 3000);
   };
 
-  const loadSavedApiKey = () => {
-    const saved = localStorage.getItem("openai_api_key");
-    if (saved) {
-      setApiKey(saved);
-    }
-    const savedAnthropic = localStorage.getItem("anthropic_api_key");
-    if (savedAnthropic) {
-      setAnthropicApiKey(savedAnthropic);
-    }
-    const savedProvider = localStorage.getItem("ai_provider");
-    if (savedProvider) {
-      setSelectedProvider(savedProvider);
-    }
-    const savedModel = localStorage.getItem("ai_model");
-    if (savedModel) {
-      setSelectedModel(savedModel);
-    }
-    const savedLocalUrl = localStorage.getItem("local_model_url");
-    if (savedLocalUrl) {
-      setLocalModelUrl(savedLocalUrl);
-    }
-    const savedLocalName = localStorage.getItem("local_model_name");
-    if (savedLocalName) {
-      setLocalModelName(savedLocalName);
-    }
+  const loadSavedSettings = async () => {
+    const saved = await loadAiSettings();
+    if (saved.openaiApiKey) setApiKey(saved.openaiApiKey);
+    if (saved.anthropicApiKey) setAnthropicApiKey(saved.anthropicApiKey);
+    setSelectedProvider(saved.provider);
+    setSelectedModel(saved.model);
+    setLocalModelUrl(saved.localModelUrl);
+    if (saved.localModelName) setLocalModelName(saved.localModelName);
+    setStorageBytes(await storageUsage());
   };
 
   React.useEffect(() => {
-    loadSavedApiKey();
+    void loadSavedSettings();
   }, []);
 
   // Update model when provider changes
@@ -157,6 +154,13 @@ export function SettingsPanel() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                  {saveError && (
+                    <div className="flex items-center gap-2 text-sm text-red-600">
+                      <AlertCircle className="w-4 h-4" />
+                      Settings couldn't be saved. Check that your browser allows site storage.
+                    </div>
+                  )}
+
                   {/* Provider Selection */}
                   <div className="space-y-2">
                     <label className="text-sm font-medium">AI Provider</label>
@@ -474,9 +478,9 @@ export function SettingsPanel() {
                   <div className="space-y-2">
                     <label className="text-sm font-medium">Storage Status</label>
                     <div className="flex items-center gap-2">
-                      <Badge variant="outline">Local Storage</Badge>
+                      <Badge variant="outline">{STORAGE_LABELS[getStorage().kind]}</Badge>
                       <span className="text-sm text-muted-foreground">
-                        {(JSON.stringify(localStorage).length / 1024).toFixed(1)} KB used
+                        {storageBytes === null ? "…" : `${(storageBytes / 1024).toFixed(1)} KB used`}
                       </span>
                     </div>
                   </div>
@@ -485,11 +489,10 @@ export function SettingsPanel() {
                     <Button 
                       variant="outline"
                       className="text-red-600 hover:text-red-700"
-                      onClick={() => {
+                      onClick={async () => {
                         if (confirm("Are you sure? This will clear all local data except API keys.")) {
-                          const apiKey = localStorage.getItem("openai_api_key");
-                          localStorage.clear();
-                          if (apiKey) localStorage.setItem("openai_api_key", apiKey);
+                          await clearStoredData();
+                          setStorageBytes(await storageUsage());
                           alert("Data cleared successfully!");
                         }
                       }}
@@ -13,12 +13,15 @@ export interface GraphCanvasProps {
   onNodesChange: any
   onEdgesChange: any
   onConnect: any
+  isValidConnection?: any
+  onNodeDragStop?: any
   onNodeClick: any
   onMoveEnd?: any
+  onInit?: any
 }
 
 export default function GraphCanvas(props: GraphCanvasProps) {
-  const { rfRef, nodes, edges, onNodesChange, onEdgesChange, onConnect, onNodeClick, onMoveEnd } = props
+  const { rfRef, nodes, edges, onNodesChange, onEdgesChange, onConnect, isValidConnection, onNodeDragStop, onNodeClick, onMoveEnd, onInit } = props
   return (
     <ReactFlow
       ref={rfRef}
@@ -28,12 +31,19 @@ export default function GraphCanvas(props: GraphCanvasProps) {
       onNodesChange={onNodesChange}
       onEdgesChange={onEdgesChange}
       onConnect={onConnect}
+      isValidConnection={isValidConnection}
+      onNodeDragStop={onNodeDragStop}
       onNodeClick={onNodeClick}
       fitView
       fitViewOptions={{ padding: 0.2 }}
       minZoom={0.2}
       maxZoom={2}
       onMoveEnd={onMoveEnd}
+      onInit={onInit}
+      // Deleting goes through the app's shortcut handler so permissions and history apply
+      deleteKeyCode={null}
+      // Shift-click adds to the selection; shift-drag on the pane draws a selection box
+      multiSelectionKeyCode={['Shift', 'Meta', 'Control']}
     >
       <Background variant={BackgroundVariant.Dots} gap={18} size={1} />
       <MiniMap pannable zoomable />
@@ -1,16 +1,50 @@
 import React from 'react'
 import ColorDot from './ColorDot'
-import { CheckCircle2, Plus } from 'lucide-react'
+import { CheckCircle2, Copy, ExternalLink, Hand, Lock, Plus } from 'lucide-react'
+import { STATUS_LABELS, isPurchased } from '@/lib/status'
+import { useImageUrl } from './useImageUrl'
+import { isWebUrl } from '@/lib/productUrl'
 
 export default function IdeaNode({ data }: any) {
   const borderStyle = data.__color ? { borderLeft: `4px solid ${data.__color}` } : undefined
+  const purchased = isPurchased(data.status)
+  const imageUrl = useImageUrl(data.imageId)
+  const variant = [data.variant?.size, data.variant?.color].filter(Boolean).join(' · ')
   return (
-    <div className={`rounded-xl border shadow px-3 py-2 bg-white w-56 ${data.status === 'purchased' ? 'opacity-70' : ''}`} style={borderStyle}>
-      <div className="text-sm font-medium flex items-center gap-2">
-        <ColorDot color={data.__color} />
-        {data.status === 'purchased' ? <CheckCircle2 className="w-4 h-4" /> : <Plus className="w-4 h-4" />} {data.title || 'Idea'}
+    <div className={`rounded-xl border shadow px-3 py-2 bg-white w-56 ${purchased ? 'opacity-70' : ''}`} style={borderStyle}>
+      <div className="flex items-start gap-2">
+        {imageUrl && <img src={imageUrl} alt="" className="w-10 h-10 rounded object-cover shrink-0" />}
+        <div className="min-w-0">
+          <div className="text-sm font-medium flex items-center gap-2">
+            <ColorDot color={data.__color} />
+            {data.sealed ? <Lock className="w-4 h-4" /> : purchased ? <CheckCircle2 className="w-4 h-4" /> : <Plus className="w-4 h-4" />} {data.title || 'Idea'}
+          </div>
+          {(data.store || variant) && (
+            <div className="text-[10px] text-muted-foreground flex items-center gap-1 truncate">
+              {isWebUrl(data.url) ? (
+                <a href={data.url} target="_blank" rel="noreferrer noopener" className="inline-flex items-center gap-0.5 hover:underline nodrag" onClick={(e) => e.stopPropagation()}>
+                  {data.store || 'Link'} <ExternalLink className="w-2.5 h-2.5" />
+                </a>
+              ) : data.store}
+              {variant && <span>{data.store ? '· ' : ''}{variant}</span>}
+            </div>
+          )}
+        </div>
       </div>
+      {data.status && <div className="text-[10px] uppercase tracking-wide text-muted-foreground mt-0.5">{STATUS_LABELS[data.status as keyof typeof STATUS_LABELS] ?? data.status}</div>}
+      {data.claimedBy && (
+        <div className="text-[10px] mt-1 inline-flex items-center gap-1 rounded px-1.5 py-0.5 bg-sky-100 text-sky-800">
+          <Hand className="w-3 h-3" /> Claimed
+        </div>
+      )}
+      {data.__conflict && (
+        <div className={`text-[10px] mt-1 inline-flex items-center gap-1 rounded px-1.5 py-0.5 ${data.__conflict === 'claimed_by_me' ? 'bg-emerald-100 text-emerald-800' : 'bg-amber-100 text-amber-800'}`}>
+          <Copy className="w-3 h-3" />
+          {data.__conflict === 'open' && 'Possible duplicate'}
+          {data.__conflict === 'claimed_by_me' && 'You claimed this gift'}
+          {data.__conflict === 'claimed_by_other' && 'Claimed by someone else'}
+        </div>
+      )}
       {data.notes && <div className="text-xs mt-1 text-muted-foreground line-clamp-2">{data.notes}</div>}
     </div>
   )}
-
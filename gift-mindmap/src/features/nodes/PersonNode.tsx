@@ -1,10 +1,16 @@
 import React from 'react'
 import ColorDot from './ColorDot'
 import { Badge } from '@/components/ui/badge'
+import { AlertTriangle } from 'lucide-react'
+import { formatMoney } from '@/store/selectors'
+import { isPurchased } from '@/lib/status'
+import type { BudgetTotals } from '@/types/gift'
 
 export default function PersonNode({ data }: any) {
-  const bought = (data.ideas || []).filter((it: any) => it.status === 'purchased').length
+  const bought = (data.ideas || []).filter((it: any) => isPurchased(it.status)).length
   const borderStyle = data.__color ? { borderLeft: `4px solid ${data.__color}` } : undefined
+  const budget = data.__budget as BudgetTotals | undefined
+  const over = budget?.state === 'over_spent' || budget?.state === 'over_planned'
   return (
     <div className="bg-white border rounded-2xl shadow p-3 w-64" style={borderStyle}>
       <div className="flex items-center justify-between gap-2">
@@ -23,7 +29,12 @@ export default function PersonNode({ data }: any) {
           {data.interests}
         </div>
       )}
+      {budget && budget.budget !== undefined && (
+        <div className={`text-xs mt-1 flex items-center gap-1 ${over ? 'text-red-600 font-medium' : 'text-muted-foreground'}`}>
+          {over && <AlertTriangle className="w-3 h-3" />}
+          {formatMoney(budget.spent, budget.currency)} spent · {formatMoney(budget.planned, budget.currency)} planned / {formatMoney(budget.budget, budget.currency)}
+        </div>
+      )}
     </div>
   )
 }
-
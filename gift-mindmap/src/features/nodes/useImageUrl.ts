@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react'
+import { loadIdeaImage } from '@/store/giftStore'
+
+// Object URL for a stored idea image, revoked again when the id changes or the node unmounts.
+export function useImageUrl(imageId?: string): string | undefined {
+  const [url, setUrl] = useState<string>()
+  useEffect(() => {
+    if (!imageId) return setUrl(undefined)
+    let objectUrl: string | undefined
+    let cancelled = false
+    loadIdeaImage(imageId).then((blob) => {
+      if (cancelled || !blob) return
+      objectUrl = URL.createObjectURL(blob)
+      setUrl(objectUrl)
+    })
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+      setUrl(undefined)
+    }
+  }, [imageId])
+  return url
+}
@@ -0,0 +1,60 @@
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { CheckCircle2, Circle, Palette, Trash2, X } from 'lucide-react'
+
+export interface BulkActionsPanelProps {
+  // Selected nodes the current profile may edit, and how many of those are ideas
+  editableCount: number
+  ideaCount: number
+  totalCount: number
+  people: Array<{ id: string; label: string }>
+  profiles: Array<{ id: string; name: string }>
+  onMarkPurchased: (purchased: boolean) => void
+  onMove: (personId: string) => void
+  onSetOwner: (profileId: string) => void
+  onRecolor: (color?: string) => void
+  onDelete: () => void
+  onClear: () => void
+}
+
+export default function BulkActionsPanel({ editableCount, ideaCount, totalCount, people, profiles, onMarkPurchased, onMove, onSetOwner, onRecolor, onDelete, onClear }: BulkActionsPanelProps) {
+  const [color, setColor] = useState('#ef4444')
+  const readOnly = totalCount - editableCount
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">{totalCount} nodes selected</div>
+        <Button size="sm" variant="ghost" onClick={onClear}><X className="w-4 h-4 mr-1" /> Clear</Button>
+      </div>
+      {readOnly > 0 && <div className="text-xs text-muted-foreground">{readOnly} of them belong to other profiles and will be left alone.</div>}
+
+      {ideaCount > 0 && (
+        <div className="space-y-2">
+          <div className="text-xs">{ideaCount} idea{ideaCount === 1 ? '' : 's'}</div>
+          <div className="grid grid-cols-2 gap-2">
+            <Button size="sm" onClick={() => onMarkPurchased(true)}><CheckCircle2 className="w-4 h-4 mr-1" /> Mark purchased</Button>
+            <Button size="sm" variant="outline" onClick={() => onMarkPurchased(false)}><Circle className="w-4 h-4 mr-1" /> Mark unbought</Button>
+          </div>
+          <select className="w-full rounded-md border px-2 py-1 text-sm bg-white" value="" onChange={(e) => e.target.value && onMove(e.target.value)}>
+            <option value="">Move ideas to…</option>
+            {people.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <select className="w-full rounded-md border px-2 py-1 text-sm bg-white" value="" disabled={editableCount === 0} onChange={(e) => e.target.value && onSetOwner(e.target.value)}>
+          <option value="">Change owner to…</option>
+          {profiles.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <div className="flex items-center gap-2">
+          <input type="color" className="h-8 w-10 rounded border" value={color} onChange={(e) => setColor(e.target.value)} />
+          <Button size="sm" variant="outline" disabled={editableCount === 0} onClick={() => onRecolor(color)}><Palette className="w-4 h-4 mr-1" /> Recolor</Button>
+          <Button size="sm" variant="ghost" disabled={editableCount === 0} onClick={() => onRecolor(undefined)}>Reset color</Button>
+        </div>
+        <Button size="sm" variant="destructive" disabled={editableCount === 0} onClick={onDelete}><Trash2 className="w-4 h-4 mr-1" /> Delete {editableCount}</Button>
+      </div>
+    </div>
+  )
+}
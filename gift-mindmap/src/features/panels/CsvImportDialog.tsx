@@ -0,0 +1,102 @@
+import React, { useState } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeft, ArrowRight, Upload } from 'lucide-react'
+import { CSV_FIELDS, CSV_FIELD_LABELS, type CsvField, type CsvImportPlan, type CsvMapping } from '@/lib/csv'
+import { STATUS_LABELS } from '@/lib/status'
+
+export interface CsvImportDialogProps {
+  fileName: string
+  headers: string[]
+  mapping: CsvMapping
+  onMappingChange: (mapping: CsvMapping) => void
+  plan: CsvImportPlan
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+const PREVIEW_ROWS = 50
+
+// Two steps: match spreadsheet columns to idea fields, then review what will be added.
+// Nothing reaches the store until the import is confirmed.
+export default function CsvImportDialog({ fileName, headers, mapping, onMappingChange, plan, onConfirm, onCancel }: CsvImportDialogProps) {
+  const [step, setStep] = useState<'map' | 'preview'>('map')
+  const setColumn = (field: CsvField, value: string) => {
+    const next = { ...mapping }
+    if (value === '') delete next[field]
+    else next[field] = Number(value)
+    onMappingChange(next)
+  }
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onCancel}>
+      <Card className="w-[40rem] max-w-[95vw]" onClick={(e) => e.stopPropagation()}>
+        <CardContent className="p-4 space-y-3">
+          <div className="font-medium">Import {fileName}</div>
+          {step === 'map' ? (
+            <>
+              <div className="text-xs text-muted-foreground">Pick the column that holds each field. Only Person is required; rows without an idea just add the person.</div>
+              <div className="grid grid-cols-2 gap-2">
+                {CSV_FIELDS.map((field) => (
+                  <label key={field} className="flex items-center justify-between gap-2 text-sm">
+                    <span>{CSV_FIELD_LABELS[field]}</span>
+                    <select className="border rounded px-2 py-1 text-sm w-40" value={mapping[field] ?? ''} onChange={(e) => setColumn(field, e.target.value)}>
+                      <option value="">(not in file)</option>
+                      {headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+                <Button size="sm" disabled={mapping.person === undefined} onClick={() => setStep('preview')}>Preview <ArrowRight className="w-4 h-4 ml-1" /></Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge>{plan.ideas.length} idea{plan.ideas.length === 1 ? '' : 's'}</Badge>
+                <Badge variant="secondary">{plan.newPeople.length} new {plan.newPeople.length === 1 ? 'person' : 'people'}</Badge>
+                <Badge variant="outline">{Object.keys(plan.existingPeople).length} already on the map</Badge>
+                {plan.skipped.length > 0 && <Badge variant="outline">{plan.skipped.length} row{plan.skipped.length === 1 ? '' : 's'} skipped</Badge>}
+              </div>
+              {plan.newPeople.length > 0 && <div className="text-xs text-muted-foreground">New: {plan.newPeople.join(', ')}</div>}
+              <div className="max-h-64 overflow-auto border rounded">
+                <table className="w-full text-xs">
+                  <thead className="bg-slate-50 sticky top-0">
+                    <tr className="text-left">
+                      <th className="px-2 py-1">Row</th>
+                      <th className="px-2 py-1">Person</th>
+                      <th className="px-2 py-1">Idea</th>
+                      <th className="px-2 py-1">Status</th>
+                      <th className="px-2 py-1">Price</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.ideas.slice(0, PREVIEW_ROWS).map((idea) => (
+                      <tr key={idea.row} className="border-t">
+                        <td className="px-2 py-1 text-muted-foreground">{idea.row}</td>
+                        <td className="px-2 py-1">{idea.person}</td>
+                        <td className="px-2 py-1">{idea.title}</td>
+                        <td className="px-2 py-1">{idea.status ? STATUS_LABELS[idea.status] : ''}</td>
+                        <td className="px-2 py-1">{idea.price ?? ''} {idea.currency ?? ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {plan.ideas.length > PREVIEW_ROWS && <div className="text-xs text-muted-foreground">…and {plan.ideas.length - PREVIEW_ROWS} more.</div>}
+              {plan.skipped.length > 0 && (
+                <div className="text-xs text-muted-foreground">Skipped: {plan.skipped.map((s) => `row ${s.row} (${s.reason})`).join(', ')}</div>
+              )}
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="ghost" onClick={() => setStep('map')}><ArrowLeft className="w-4 h-4 mr-1" /> Back</Button>
+                <Button size="sm" disabled={plan.ideas.length === 0 && plan.newPeople.length === 0} onClick={onConfirm}><Upload className="w-4 h-4 mr-1" /> Import</Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
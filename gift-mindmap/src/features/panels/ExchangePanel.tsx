@@ -0,0 +1,124 @@
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { CheckCircle2, AlertTriangle, Shuffle, Trash2, Plus, X } from 'lucide-react'
+import type { DrawProof } from '@/lib/exchange'
+import type { ExchangeConfig } from '@/types/gift'
+
+export interface ExchangePanelProps {
+  people: Array<{ id: string; label: string; linked: boolean }>
+  config: ExchangeConfig
+  onChange: (patch: Partial<ExchangeConfig>) => void
+  onDraw: () => void
+  onClear: () => void
+  hasDraw: boolean
+  proof?: DrawProof
+  error?: string
+  myReceiver?: string
+}
+
+export default function ExchangePanel({ people, config, onChange, onDraw, onClear, hasDraw, proof, error, myReceiver }: ExchangePanelProps) {
+  const [excludeA, setExcludeA] = useState('')
+  const [excludeB, setExcludeB] = useState('')
+  const name = (id: string) => people.find((p) => p.id === id)?.label ?? 'Unknown'
+  const householdOf = (id: string) => config.households.findIndex((h) => h.includes(id))
+  const unlinked = people.filter((p) => config.participants.includes(p.id) && !p.linked)
+
+  const toggleParticipant = (id: string) => {
+    const active = config.participants.includes(id)
+    onChange({ participants: active ? config.participants.filter((x) => x !== id) : config.participants.concat(id) })
+  }
+
+  // value is a household index, '' for none or 'new' for a fresh household
+  const setHousehold = (id: string, value: string) => {
+    const households = config.households.map((h) => h.filter((x) => x !== id))
+    if (value === 'new') households.push([id])
+    else if (value !== '') households[Number(value)].push(id)
+    onChange({ households: households.filter((h) => h.length > 0) })
+  }
+
+  const addExclusion = () => {
+    if (!excludeA || !excludeB || excludeA === excludeB) return
+    onChange({ exclusions: config.exclusions.concat([[excludeA, excludeB]]) })
+    setExcludeA('')
+    setExcludeB('')
+  }
+
+  return (
+    <div className="space-y-3">
+      {myReceiver && (
+        <div className="rounded-md border bg-emerald-50 px-3 py-2 text-sm">You are giving to <strong>{myReceiver}</strong>.</div>
+      )}
+
+      <div className="space-y-1">
+        <div className="text-sm font-medium">Participants & households</div>
+        {people.map((p) => (
+          <div key={p.id} className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={config.participants.includes(p.id)} onChange={() => toggleParticipant(p.id)} />
+            <span className="flex-1 truncate">{p.label}</span>
+            <select className="rounded-md border px-1 py-0.5 text-xs" value={householdOf(p.id) < 0 ? '' : String(householdOf(p.id))} onChange={(e) => setHousehold(p.id, e.target.value)}>
+              <option value="">No household</option>
+              {config.households.map((_, i) => <option key={i} value={String(i)}>Household {i + 1}</option>)}
+              <option value="new">New household</option>
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-sm font-medium">Never pair</div>
+        <div className="flex gap-2">
+          <select className="flex-1 rounded-md border px-1 py-1 text-xs" value={excludeA} onChange={(e) => setExcludeA(e.target.value)}>
+            <option value="">Person…</option>
+            {people.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <select className="flex-1 rounded-md border px-1 py-1 text-xs" value={excludeB} onChange={(e) => setExcludeB(e.target.value)}>
+            <option value="">Person…</option>
+            {people.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <Button size="sm" variant="outline" onClick={addExclusion}><Plus className="w-4 h-4" /></Button>
+        </div>
+        {config.exclusions.map(([a, b], i) => (
+          <div key={`${a}-${b}-${i}`} className="flex items-center justify-between text-xs">
+            <span>{name(a)} ↔ {name(b)}</span>
+            <button onClick={() => onChange({ exclusions: config.exclusions.filter((_, j) => j !== i) })}><X className="w-3 h-3" /></button>
+          </div>
+        ))}
+        <label className="flex items-center gap-2 text-xs">
+          <input type="checkbox" checked={config.avoidPrevious} onChange={(e) => onChange({ avoidPrevious: e.target.checked })} />
+          Avoid last season's pairings
+        </label>
+      </div>
+
+      {unlinked.length > 0 && (
+        <div className="text-xs text-amber-700 flex items-start gap-1">
+          <AlertTriangle className="w-3 h-3 mt-0.5" />
+          {unlinked.map((p) => p.label).join(', ')} {unlinked.length === 1 ? 'has' : 'have'} no linked profile, so nobody will be able to see who they drew.
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={onDraw}><Shuffle className="w-4 h-4 mr-1" /> {hasDraw ? 'Re-draw' : 'Draw'}</Button>
+        {hasDraw && <Button variant="outline" onClick={onClear}><Trash2 className="w-4 h-4 mr-1" /> Clear</Button>}
+      </div>
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      {proof && (
+        <div className="space-y-1 border-t pt-2">
+          <div className="text-sm font-medium flex items-center gap-2">
+            Draw check <Badge variant={proof.valid ? 'default' : 'secondary'}>{proof.valid ? 'all rules satisfied' : 'rules broken'}</Badge>
+          </div>
+          {config.seed !== undefined && <div className="text-xs text-muted-foreground">Seed {config.seed}</div>}
+          <ul className="text-xs space-y-0.5">
+            {proof.checks.map((c) => (
+              <li key={c.rule} className="flex items-center gap-1">
+                {c.passed ? <CheckCircle2 className="w-3 h-3 text-emerald-600" /> : <AlertTriangle className="w-3 h-3 text-red-600" />}
+                {c.rule} <span className="text-muted-foreground">({c.detail})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
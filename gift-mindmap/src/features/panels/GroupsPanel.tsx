@@ -0,0 +1,80 @@
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Eye, EyeOff, Pencil, Trash2, UsersRound } from 'lucide-react'
+import { ROLE_LABELS } from '@/lib/permissions'
+import type { GroupId, Profile, ProfileGroup, ProfileId, ShareRole } from '@/types/gift'
+
+export interface GroupsPanelProps {
+  groups: ProfileGroup[]
+  profiles: Profile[]
+  currentProfileId?: ProfileId
+  onCreate: (name: string) => GroupId
+  onRename: (id: GroupId, name: string) => void
+  onSetMember: (id: GroupId, profileId: ProfileId, member: boolean) => void
+  onDelete: (id: GroupId) => void
+  onShareToggle: (id: GroupId) => void
+  onSetRole: (id: GroupId, role: ShareRole) => void
+}
+
+// Anyone can see every group and share with it, but only members can change or delete one.
+export default function GroupsPanel({ groups, profiles, currentProfileId, onCreate, onRename, onSetMember, onDelete, onShareToggle, onSetRole }: GroupsPanelProps) {
+  const [name, setName] = useState('')
+  const current = profiles.find((p) => p.id === currentProfileId)
+  if (!current) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium flex items-center gap-2"><UsersRound className="w-4 h-4" /> Groups</div>
+      <form className="flex gap-2" onSubmit={(e) => { e.preventDefault(); if (onCreate(name)) setName('') }}>
+        <Input placeholder="New group, e.g. Parents" value={name} onChange={(e) => setName(e.target.value)} />
+        <Button size="sm" type="submit" disabled={!name.trim()}>Create</Button>
+      </form>
+      {groups.map((g) => {
+        const member = g.members.includes(current.id)
+        const shared = !!current.shareWithGroups?.includes(g.id)
+        return (
+          <div key={g.id} className="border rounded p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: g.color }} />
+              <span className="text-sm font-medium flex-1">{g.name}</span>
+              {member && (
+                <>
+                  <Button size="sm" variant="ghost" title="Rename" onClick={() => { const next = prompt('Group name', g.name); if (next) onRename(g.id, next) }}>
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button size="sm" variant="ghost" title={g.members.length > 1 ? 'Remove the other members to delete' : 'Delete'} disabled={g.members.length > 1} onClick={() => {
+                    if (confirm(`Delete ${g.name}? Its people and ideas become ${current.name}'s.`)) onDelete(g.id)
+                  }}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {profiles.map((p) => {
+                const inGroup = g.members.includes(p.id)
+                return (
+                  <Button key={p.id} size="sm" variant={inGroup ? 'default' : 'outline'} disabled={!member || (inGroup && g.members.length === 1)} onClick={() => onSetMember(g.id, p.id, !inGroup)}>
+                    {p.name}
+                  </Button>
+                )
+              })}
+            </div>
+            <div className="flex items-center gap-1">
+              <Button size="sm" variant={shared ? 'default' : 'outline'} onClick={() => onShareToggle(g.id)}>
+                Share {current.name} {shared ? <Eye className="w-3 h-3 ml-1" /> : <EyeOff className="w-3 h-3 ml-1" />}
+              </Button>
+              {shared && (
+                <select className="border rounded px-1 py-1 text-xs" value={current.shareRoles?.[g.id] ?? 'viewer'} onChange={(e) => onSetRole(g.id, e.target.value as ShareRole)}>
+                  {(Object.keys(ROLE_LABELS) as ShareRole[]).map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+              )}
+            </div>
+          </div>
+        )
+      })}
+      <div className="text-xs text-muted-foreground">Sharing with a group covers everyone in it, including people who join later. People and ideas owned by a group can be edited by any member.</div>
+    </div>
+  )
+}
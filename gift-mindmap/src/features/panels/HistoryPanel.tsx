@@ -0,0 +1,63 @@
+import React from 'react'
+import { GitBranch, RotateCcw } from 'lucide-react'
+import type { HistoryBranch, HistoryEntry } from '@/lib/history'
+
+export interface HistoryPanelProps {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+  branches: HistoryBranch[]
+  onJump: (entryId?: string) => void
+}
+
+const time = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+
+function EntryRow({ entry, state, onJump }: { entry: HistoryEntry; state: 'done' | 'current' | 'undone'; onJump: (id: string) => void }) {
+  const tone = state === 'current' ? 'bg-slate-900 text-white' : state === 'undone' ? 'text-muted-foreground italic' : 'hover:bg-secondary'
+  return (
+    <button className={`w-full flex items-center justify-between gap-2 rounded-md px-2 py-1 text-left text-sm ${tone}`} onClick={() => onJump(entry.id)}>
+      <span className="truncate">{entry.label}</span>
+      <span className="text-xs opacity-70 shrink-0">{time(entry.at)}</span>
+    </button>
+  )
+}
+
+// Branches hang off the entry they forked from and may fork again themselves
+function Branches({ forkAt, branches, onJump }: { forkAt?: string; branches: HistoryBranch[]; onJump: (id: string) => void }) {
+  const here = branches.filter((b) => b.forkAt === forkAt)
+  if (here.length === 0) return null
+  return (
+    <>
+      {here.map((b) => (
+        <div key={b.id} className="ml-3 pl-2 border-l border-dashed space-y-0.5">
+          <div className="flex items-center gap-1 text-xs text-muted-foreground"><GitBranch className="w-3 h-3" /> Abandoned at {time(b.at)}</div>
+          {b.entries.map((e) => (
+            <React.Fragment key={e.id}>
+              <EntryRow entry={e} state="undone" onJump={onJump} />
+              <Branches forkAt={e.id} branches={branches} onJump={onJump} />
+            </React.Fragment>
+          ))}
+        </div>
+      ))}
+    </>
+  )
+}
+
+export default function HistoryPanel({ past, future, branches, onJump }: HistoryPanelProps) {
+  const redoLine = future.slice().reverse()
+  const head = past[past.length - 1]?.id
+  return (
+    <div className="space-y-0.5">
+      <button className={`w-full flex items-center gap-1 rounded-md px-2 py-1 text-left text-sm ${head === undefined ? 'bg-slate-900 text-white' : 'hover:bg-secondary'}`} onClick={() => onJump(undefined)}>
+        <RotateCcw className="w-3 h-3" /> Start
+      </button>
+      <Branches branches={branches} onJump={onJump} />
+      {past.concat(redoLine).map((e) => (
+        <React.Fragment key={e.id}>
+          <EntryRow entry={e} state={e.id === head ? 'current' : future.includes(e) ? 'undone' : 'done'} onJump={onJump} />
+          <Branches forkAt={e.id} branches={branches} onJump={onJump} />
+        </React.Fragment>
+      ))}
+      {past.length === 0 && future.length === 0 && <div className="text-sm text-muted-foreground">Nothing to undo yet.</div>}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { ImageDown } from 'lucide-react'
+import type { MapImageOptions } from '@/lib/mapImage'
+
+export type ImageFormat = 'svg' | 'png'
+
+export interface ImageExportPanelProps {
+  onExport: (format: ImageFormat, opts: MapImageOptions) => void
+}
+
+// Spoiler options start on: the image is meant for sharing with the people on the map.
+export default function ImageExportPanel({ onExport }: ImageExportPanelProps) {
+  const [hideNotes, setHideNotes] = useState(true)
+  const [hidePurchased, setHidePurchased] = useState(true)
+  const opts = { hideNotes, hidePurchased }
+  return (
+    <div className="space-y-2">
+      <div className="text-xs">Share as image</div>
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={hideNotes} onChange={(e) => setHideNotes(e.target.checked)} />
+        Hide notes
+      </label>
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={hidePurchased} onChange={(e) => setHidePurchased(e.target.checked)} />
+        Hide what's been bought or claimed
+      </label>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={() => onExport('png', opts)}><ImageDown className="w-4 h-4 mr-1" /> PNG</Button>
+        <Button size="sm" variant="outline" onClick={() => onExport('svg', opts)}><ImageDown className="w-4 h-4 mr-1" /> SVG</Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import React from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { CircleAlert, TriangleAlert, Wrench } from 'lucide-react'
+import { PLACEHOLDER_PERSON_LABEL, type IntegrityIssue } from '@/lib/integrity'
+
+export interface ImportReportProps {
+  issues: IntegrityIssue[]
+  onRepair: () => void
+  onImportAsIs: () => void
+  onCancel: () => void
+}
+
+// Shown before an imported file replaces the map when it has structural problems. Files with
+// errors can only come in repaired; warnings can be accepted as they are.
+export default function ImportReport({ issues, onRepair, onImportAsIs, onCancel }: ImportReportProps) {
+  const errors = issues.filter((i) => i.severity === 'error').length
+  const warnings = issues.length - errors
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onCancel}>
+      <Card className="w-[32rem] max-w-[90vw]" onClick={(e) => e.stopPropagation()}>
+        <CardContent className="p-4 space-y-3">
+          <div className="font-medium">This file needs attention</div>
+          <div className="flex gap-2 text-xs">
+            {errors > 0 && <Badge className="bg-red-600 text-white border-transparent">{errors} error{errors === 1 ? '' : 's'}</Badge>}
+            {warnings > 0 && <Badge variant="secondary">{warnings} warning{warnings === 1 ? '' : 's'}</Badge>}
+          </div>
+          <div className="max-h-64 overflow-auto space-y-1">
+            {issues.map((i, idx) => (
+              <div key={idx} className="flex items-start gap-2 text-sm">
+                {i.severity === 'error' ? <CircleAlert className="w-4 h-4 mt-0.5 text-red-600 shrink-0" /> : <TriangleAlert className="w-4 h-4 mt-0.5 text-amber-600 shrink-0" />}
+                <span>
+                  {i.message}
+                  {i.season && <span className="text-muted-foreground"> ({i.season})</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Repairing drops broken edges, gives duplicate ids new ones, folds extra roots into one and puts loose ideas under "{PLACEHOLDER_PERSON_LABEL}".
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+            <Button size="sm" variant="outline" disabled={errors > 0} onClick={onImportAsIs}>Import as is</Button>
+            <Button size="sm" onClick={onRepair}><Wrench className="w-4 h-4 mr-1" /> Repair and import</Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Printer, Tag } from 'lucide-react'
+import type { ShoppingGroup } from '@/features/print/printDocuments'
+
+export interface PrintPanelProps {
+  pendingCount: number
+  tagCount: number
+  onShoppingList: (groupBy: ShoppingGroup) => void
+  onGiftTags: () => void
+}
+
+export default function PrintPanel({ pendingCount, tagCount, onShoppingList, onGiftTags }: PrintPanelProps) {
+  const [groupBy, setGroupBy] = useState<ShoppingGroup>('store')
+  return (
+    <div className="space-y-2">
+      <div className="text-xs">Print</div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select className="border rounded px-2 py-1 text-sm" value={groupBy} onChange={(e) => setGroupBy(e.target.value as ShoppingGroup)}>
+          <option value="store">By store</option>
+          <option value="person">By person</option>
+        </select>
+        <Button size="sm" variant="outline" disabled={pendingCount === 0} onClick={() => onShoppingList(groupBy)}>
+          <Printer className="w-4 h-4 mr-1" /> Shopping list ({pendingCount})
+        </Button>
+        <Button size="sm" variant="outline" disabled={tagCount === 0} onClick={onGiftTags}>
+          <Tag className="w-4 h-4 mr-1" /> Gift tags ({tagCount})
+        </Button>
+      </div>
+      <div className="text-xs text-muted-foreground">Only ideas visible to you are printed.</div>
+    </div>
+  )
+}
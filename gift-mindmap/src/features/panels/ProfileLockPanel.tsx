@@ -0,0 +1,81 @@
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { KeyRound, Lock, LockOpen } from 'lucide-react'
+import { MIN_PASSPHRASE_LENGTH, type LockError, type LockResult } from '@/lib/profileLock'
+import type { Profile, ProfileId } from '@/types/gift'
+
+export interface ProfileLockPanelProps {
+  profiles: Profile[]
+  currentProfileId?: ProfileId
+  unlockedProfiles: ProfileId[]
+  onSetPassphrase: (passphrase: string) => Promise<LockResult>
+  onRemovePassphrase: (passphrase: string) => Promise<LockResult>
+  onUnlock: (id: ProfileId, passphrase: string) => Promise<LockResult>
+  onLock: (id: ProfileId) => void
+}
+
+const LOCK_ERROR_MESSAGES: Record<LockError, string> = {
+  no_profile: 'Pick a profile first.',
+  too_short: `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`,
+  already_locked: 'This profile already has a passphrase.',
+  not_locked: 'This profile has no passphrase.',
+  wrong_passphrase: 'Wrong passphrase.',
+}
+
+// Passphrase inputs stay local to the panel so nothing typed here ever reaches the store.
+export default function ProfileLockPanel({ profiles, currentProfileId, unlockedProfiles, onSetPassphrase, onRemovePassphrase, onUnlock, onLock }: ProfileLockPanelProps) {
+  const [passphrase, setPassphrase] = useState('')
+  const [unlocking, setUnlocking] = useState<ProfileId | undefined>()
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | undefined>()
+  const current = profiles.find((p) => p.id === currentProfileId)
+  const locked = profiles.filter((p) => p.lock && !unlockedProfiles.includes(p.id))
+
+  const run = async (action: () => Promise<LockResult>) => {
+    setBusy(true)
+    const res = await action()
+    setBusy(false)
+    setError(res.ok ? undefined : LOCK_ERROR_MESSAGES[res.error])
+    if (res.ok) {
+      setPassphrase('')
+      setUnlocking(undefined)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium flex items-center gap-2"><KeyRound className="w-4 h-4" /> Passphrase</div>
+      {current && !unlocking && (
+        <div className="flex gap-2">
+          <Input type="password" placeholder={current.lock ? 'Passphrase to remove it' : 'New passphrase'} value={passphrase} onChange={(e) => setPassphrase(e.target.value)} />
+          {current.lock ? (
+            <>
+              <Button size="sm" variant="outline" disabled={busy || !passphrase} onClick={() => run(() => onRemovePassphrase(passphrase))}>Remove</Button>
+              <Button size="sm" disabled={busy} onClick={() => onLock(current.id)}><Lock className="w-4 h-4 mr-1" /> Lock</Button>
+            </>
+          ) : (
+            <Button size="sm" disabled={busy || passphrase.length < MIN_PASSPHRASE_LENGTH} onClick={() => run(() => onSetPassphrase(passphrase))}>Set</Button>
+          )}
+        </div>
+      )}
+      {locked.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {locked.map((p) => (
+            <Button key={p.id} size="sm" variant={unlocking === p.id ? 'default' : 'outline'} onClick={() => { setUnlocking(unlocking === p.id ? undefined : p.id); setPassphrase(''); setError(undefined) }}>
+              <Lock className="w-3 h-3 mr-1" /> {p.name}
+            </Button>
+          ))}
+        </div>
+      )}
+      {unlocking && (
+        <form className="flex gap-2" onSubmit={(e) => { e.preventDefault(); run(() => onUnlock(unlocking, passphrase)) }}>
+          <Input type="password" autoFocus placeholder={`Passphrase for ${profiles.find((p) => p.id === unlocking)?.name ?? 'profile'}`} value={passphrase} onChange={(e) => setPassphrase(e.target.value)} />
+          <Button size="sm" type="submit" disabled={busy || !passphrase}><LockOpen className="w-4 h-4 mr-1" /> Unlock</Button>
+        </form>
+      )}
+      {error && <div className="text-xs text-red-600">{error}</div>}
+      <div className="text-xs text-muted-foreground">A locked profile can't be opened without its passphrase, and its ideas and their pictures are encrypted in saves and exports. A forgotten passphrase can't be recovered.</div>
+    </div>
+  )
+}
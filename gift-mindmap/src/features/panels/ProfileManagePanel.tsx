@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Merge, Trash2, UserCog } from 'lucide-react'
+import { PROFILE_COLORS, profileColor, sameColor } from '@/lib/colors'
+import type { ProfileError, ProfileResult } from '@/lib/profiles'
+import type { Profile, ProfileId } from '@/types/gift'
+
+export interface ProfileManagePanelProps {
+  profiles: Profile[]
+  currentProfileId?: ProfileId
+  unlockedProfiles: ProfileId[]
+  onRename: (id: ProfileId, name: string) => ProfileResult
+  onRecolor: (id: ProfileId, color: string) => ProfileResult
+  onDelete: (id: ProfileId, reassignTo?: ProfileId) => ProfileResult
+  onMerge: (sourceId: ProfileId, targetId: ProfileId) => ProfileResult
+}
+
+const PROFILE_ERROR_MESSAGES: Record<ProfileError, string> = {
+  not_found: 'That profile no longer exists.',
+  not_allowed: 'Switch to the profile to change it.',
+  locked: 'Unlock that profile first.',
+  last_profile: 'The last profile can’t be deleted.',
+  same_profile: 'Pick a different profile.',
+  empty_name: 'Enter a name.',
+  color_taken: 'Another profile already uses that color.',
+}
+
+// Settings for the current profile. Deleting or merging asks for confirmation since neither can be undone.
+export default function ProfileManagePanel({ profiles, currentProfileId, unlockedProfiles, onRename, onRecolor, onDelete, onMerge }: ProfileManagePanelProps) {
+  const current = profiles.find((p) => p.id === currentProfileId)
+  const [name, setName] = useState(current?.name ?? '')
+  const [other, setOther] = useState('')
+  const [error, setError] = useState<string | undefined>()
+  useEffect(() => {
+    setName(current?.name ?? '')
+    setOther('')
+    setError(undefined)
+  }, [current?.id, current?.name])
+  if (!current) return null
+
+  const color = profileColor(profiles, current.id) ?? PROFILE_COLORS[0]
+  const takenBy = (c: string) => profiles.find((p) => p.id !== current.id && sameColor(profileColor(profiles, p.id), c))
+  // Locked profiles can't take over nodes: there would be no key to encrypt them with
+  const others = profiles.filter((p) => p.id !== current.id && (!p.lock || unlockedProfiles.includes(p.id)))
+  const otherName = others.find((p) => p.id === other)?.name
+  const show = (res: ProfileResult) => setError(res.ok ? undefined : PROFILE_ERROR_MESSAGES[res.error])
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium flex items-center gap-2"><UserCog className="w-4 h-4" /> Manage {current.name}</div>
+      <div className="flex gap-2">
+        <Input value={name} onChange={(e) => setName(e.target.value)} />
+        <Button size="sm" variant="outline" disabled={name.trim() === current.name} onClick={() => show(onRename(current.id, name))}>Rename</Button>
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        {PROFILE_COLORS.map((c) => {
+          const owner = takenBy(c)
+          return (
+            <button
+              key={c}
+              title={owner ? `Used by ${owner.name}` : c}
+              disabled={!!owner}
+              className={`w-6 h-6 rounded-full border-2 ${sameColor(c, color) ? 'border-slate-900' : 'border-transparent'} ${owner ? 'opacity-30 cursor-not-allowed' : ''}`}
+              style={{ backgroundColor: c }}
+              onClick={() => show(onRecolor(current.id, c))}
+            />
+          )
+        })}
+        <input type="color" className="h-7 w-9 rounded border" value={color} onChange={(e) => show(onRecolor(current.id, e.target.value))} />
+      </div>
+      {others.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select className="border rounded px-2 py-1 text-sm" value={other} onChange={(e) => setOther(e.target.value)}>
+            <option value="">Delete my people and ideas</option>
+            {others.map((p) => <option key={p.id} value={p.id}>Give them to {p.name}</option>)}
+          </select>
+          <Button size="sm" variant="outline" disabled={!other} onClick={() => {
+            if (confirm(`Merge ${current.name} into ${otherName}? What this profile shared moves over, and it is removed.`)) show(onMerge(current.id, other))
+          }}>
+            <Merge className="w-4 h-4 mr-1" /> Merge
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => {
+            const what = other ? `its people and ideas go to ${otherName}` : 'its people and ideas are deleted'
+            if (confirm(`Delete ${current.name}? ${what[0].toUpperCase()}${what.slice(1)}.`)) show(onDelete(current.id, other || undefined))
+          }}>
+            <Trash2 className="w-4 h-4 mr-1" /> Delete
+          </Button>
+        </div>
+      )}
+      {error && <div className="text-xs text-red-600">{error}</div>}
+    </div>
+  )
+}
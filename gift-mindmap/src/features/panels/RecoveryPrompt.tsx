@@ -0,0 +1,24 @@
+import React from 'react'
+import { Button } from '@/components/ui/button'
+import { Download, LifeBuoy } from 'lucide-react'
+
+export interface RecoveryPromptProps {
+  error: string
+  onDownload: () => void
+  onDiscard: () => void
+}
+
+// Shown when the autosaved map exists but no longer validates. Autosave stays paused until the
+// user decides, so the broken data is never silently overwritten.
+export default function RecoveryPrompt({ error, onDownload, onDiscard }: RecoveryPromptProps) {
+  return (
+    <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm flex items-center gap-3">
+      <LifeBuoy className="w-4 h-4 text-amber-700" />
+      <div className="flex-1">
+        Your saved map couldn't be restored ({error}). Download a backup of it, then start fresh — autosave is paused until you do.
+      </div>
+      <Button size="sm" variant="outline" onClick={onDownload}><Download className="w-4 h-4 mr-1" /> Download backup</Button>
+      <Button size="sm" variant="destructive" onClick={onDiscard}>Start fresh</Button>
+    </div>
+  )
+}
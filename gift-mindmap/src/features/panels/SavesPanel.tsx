@@ -0,0 +1,50 @@
+import React, { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { AlertTriangle, FolderOpen, Save, Trash2 } from 'lucide-react'
+import type { SaveError, SaveSlot } from '@/lib/persist'
+
+export const SAVE_ERROR_MESSAGES: Record<SaveError, string> = {
+  quota_exceeded: 'Browser storage is full. Delete old save slots or export to a file — recent changes are not being saved.',
+  write_failed: 'Saving failed. Export to a file to keep your changes.',
+}
+
+export interface SavesPanelProps {
+  slots: SaveSlot[]
+  status: 'idle' | 'saved' | 'error'
+  lastSavedAt?: string
+  error?: SaveError
+  onSave: (name: string) => void
+  onLoad: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+export default function SavesPanel({ slots, status, lastSavedAt, error, onSave, onLoad, onDelete }: SavesPanelProps) {
+  const [name, setName] = useState('')
+  const sorted = slots.slice().sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs">Saves</div>
+      <div className="text-xs text-muted-foreground">
+        {status === 'saved' && lastSavedAt && <>Autosaved at {new Date(lastSavedAt).toLocaleTimeString()}</>}
+        {status === 'idle' && <>Changes are saved automatically in this browser.</>}
+      </div>
+      {status === 'error' && error && (
+        <div className="text-xs text-red-600 flex items-start gap-1"><AlertTriangle className="w-3 h-3 mt-0.5" />{SAVE_ERROR_MESSAGES[error]}</div>
+      )}
+      <div className="flex gap-2">
+        <Input placeholder="Slot name (e.g. Before Black Friday)" value={name} onChange={(e) => setName(e.target.value)} />
+        <Button onClick={() => { onSave(name); setName('') }}><Save className="w-4 h-4 mr-1" /> Save</Button>
+      </div>
+      {sorted.map((slot) => (
+        <div key={slot.id} className="flex items-center gap-2 text-sm">
+          <span className="flex-1 truncate">{slot.name}</span>
+          <span className="text-xs text-muted-foreground">{new Date(slot.savedAt).toLocaleString()} · {(slot.bytes / 1024).toFixed(1)} KB</span>
+          <Button size="sm" variant="outline" onClick={() => onLoad(slot.id)}><FolderOpen className="w-4 h-4" /></Button>
+          <Button size="sm" variant="outline" onClick={() => onDelete(slot.id)}><Trash2 className="w-4 h-4" /></Button>
+        </div>
+      ))}
+    </div>
+  )
+}
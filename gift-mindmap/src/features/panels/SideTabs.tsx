@@ -5,18 +5,52 @@ import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent } from '@/components/ui/card'
 import { Slider } from '@/components/ui/slider'
-import { Users, Eye, EyeOff, Lock, Pencil, Trash2, Plus, CheckCircle2, UserPlus, Upload, Download, RefreshCcw } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Users, Eye, EyeOff, Lock, Pencil, Trash2, Plus, CheckCircle2, UserPlus, Upload, Download, RefreshCcw, AlertTriangle, ChevronLeft, ChevronRight, FileSpreadsheet, ImagePlus } from 'lucide-react'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
+import { formatMoney } from '@/store/selectors'
+import { IDEA_STATUSES, STATUS_LABELS, isPurchased } from '@/lib/status'
+import type { PastGift } from '@/lib/seasons'
+import type { ConflictView } from '@/lib/duplicates'
+import ExchangePanel, { type ExchangePanelProps } from '@/features/panels/ExchangePanel'
+import SavesPanel, { type SavesPanelProps } from '@/features/panels/SavesPanel'
+import SyncPanel, { type SyncPanelProps } from '@/features/panels/SyncPanel'
+import HistoryPanel, { type HistoryPanelProps } from '@/features/panels/HistoryPanel'
+import BulkActionsPanel, { type BulkActionsPanelProps } from '@/features/panels/BulkActionsPanel'
+import PrintPanel, { type PrintPanelProps } from '@/features/panels/PrintPanel'
+import ProfileLockPanel, { type ProfileLockPanelProps } from '@/features/panels/ProfileLockPanel'
+import ProfileManagePanel, { type ProfileManagePanelProps } from '@/features/panels/ProfileManagePanel'
+import GroupsPanel, { type GroupsPanelProps } from '@/features/panels/GroupsPanel'
+import ImageExportPanel, { type ImageExportPanelProps } from '@/features/panels/ImageExportPanel'
+import { useImageUrl } from '@/features/nodes/useImageUrl'
+import { ROLE_LABELS, shareRoleFor } from '@/lib/permissions'
+import type { BudgetTotals, IdeaStatus, Season, ShareRole, StatusTransition } from '@/types/gift'
 
 type AnyFn = (...args: any[]) => any
 
+function BudgetLine({ totals }: { totals?: BudgetTotals }) {
+  if (!totals || (totals.budget === undefined && totals.planned === 0)) return null
+  const over = totals.state === 'over_spent' || totals.state === 'over_planned'
+  return (
+    <div className={`text-xs flex items-center gap-1 ${over ? 'text-red-600' : 'text-muted-foreground'}`}>
+      {over && <AlertTriangle className="w-3 h-3" />}
+      {formatMoney(totals.spent, totals.currency)} spent · {formatMoney(totals.planned, totals.currency)} planned
+      {totals.budget !== undefined && <> / {formatMoney(totals.budget, totals.currency)} budget</>}
+      {totals.state === 'over_spent' && <span className="font-medium">(over budget)</span>}
+      {totals.state === 'over_planned' && <span className="font-medium">(plans exceed budget)</span>}
+    </div>
+  )
+}
+
 export interface SideTabsProps {
   profiles: any[]
   currentProfileId?: string | null
+  setCurrentProfile: (id: string) => void
   newProfileName: string
   setNewProfileName: (v: string) => void
   createProfile: AnyFn
   shareWithToggle: (id: string) => void
+  setShareRole: (id: string, role: ShareRole) => void
   treeMode: boolean
   setTreeMode: (v: boolean) => void
   treeProfiles: string[]
@@ -28,18 +62,42 @@ export interface SideTabsProps {
   setEditPersonName: (v: string) => void
   editPersonInterests: string
   setEditPersonInterests: (v: string) => void
+  editPersonBudget: string
+  setEditPersonBudget: (v: string) => void
   editIdeaTitle: string
   setEditIdeaTitle: (v: string) => void
   editIdeaNotes: string
   setEditIdeaNotes: (v: string) => void
+  editIdeaPrice: string
+  setEditIdeaPrice: (v: string) => void
+  editIdeaCurrency: string
+  setEditIdeaCurrency: (v: string) => void
+  editIdeaQuantity: string
+  setEditIdeaQuantity: (v: string) => void
+  editIdeaUrl: string
+  setEditIdeaUrl: (v: string) => void
+  editIdeaStore: string
+  setEditIdeaStore: (v: string) => void
+  editIdeaSize: string
+  setEditIdeaSize: (v: string) => void
+  editIdeaVariantColor: string
+  setEditIdeaVariantColor: (v: string) => void
+  // undefined removes the picture
+  setIdeaImage: (file?: File) => void
   saveEdits: AnyFn
   deleteNode: (id: string) => void
   togglePurchased: AnyFn
+  advanceStatus: AnyFn
+  rewindStatus: AnyFn
+  statusPipeline: IdeaStatus[]
+  setStatusPipeline: (stages: IdeaStatus[]) => void
 
   ideaTitle: string
   setIdeaTitle: (v: string) => void
   ideaNotes: string
   setIdeaNotes: (v: string) => void
+  ideaUrl: string
+  setIdeaUrl: (v: string) => void
   addIdeaFromForm: AnyFn
 
   newMemberName: string
@@ -50,26 +108,72 @@ export interface SideTabsProps {
 
   exportJSON: AnyFn
   importJSON: (file: File) => void
+  exportCSV: AnyFn
+  importCSV: (file: File) => void
   resetLayout: AnyFn
+
+  peopleList: any[]
+  peopleQuery: string
+  setPeopleQuery: (v: string) => void
+  peopleSort: 'name' | 'ideas' | 'purchased'
+  setPeopleSort: (v: 'name' | 'ideas' | 'purchased') => void
+  profileBudgets: Record<string, BudgetTotals>
+  selectNode: (id?: string) => void
+
+  pastGifts: PastGift[]
+  seasons: Season[]
+  currentSeasonId: string
+  switchSeason: (id: string) => void
+  newSeasonName: string
+  setNewSeasonName: (v: string) => void
+  cloneSeasonPeople: boolean
+  setCloneSeasonPeople: (v: boolean) => void
+  createSeason: AnyFn
+
+  conflicts: ConflictView[]
+  resolveConflict: (ideaId: string, otherIdeaId: string, resolution?: 'dismissed' | 'claimed') => void
+  claimSelected: AnyFn
+  exchange: ExchangePanelProps
+  saves: SavesPanelProps
+  sync: SyncPanelProps
+  print: PrintPanelProps
+  lock: ProfileLockPanelProps
+  manage: ProfileManagePanelProps
+  groups: GroupsPanelProps
+  image: ImageExportPanelProps
+  history: HistoryPanelProps
+  // present while more than one node is selected
+  bulk?: BulkActionsPanelProps
+  activeTab?: string
+  onTabChange?: (tab: string) => void
+  linkSelectedPerson: (profileId?: string) => void
 }
 
 export default function SideTabs(props: SideTabsProps) {
   const {
-    profiles, currentProfileId, newProfileName, setNewProfileName, createProfile, shareWithToggle,
+    profiles, currentProfileId, setCurrentProfile, newProfileName, setNewProfileName, createProfile, shareWithToggle, setShareRole,
     treeMode, setTreeMode, treeProfiles, setTreeProfiles,
     selectedNode, selectedId,
-    editPersonName, setEditPersonName, editPersonInterests, setEditPersonInterests,
+    editPersonName, setEditPersonName, editPersonInterests, setEditPersonInterests, editPersonBudget, setEditPersonBudget,
     editIdeaTitle, setEditIdeaTitle, editIdeaNotes, setEditIdeaNotes,
-    saveEdits, deleteNode, togglePurchased,
-    ideaTitle, setIdeaTitle, ideaNotes, setIdeaNotes, addIdeaFromForm,
+    editIdeaPrice, setEditIdeaPrice, editIdeaCurrency, setEditIdeaCurrency, editIdeaQuantity, setEditIdeaQuantity,
+    editIdeaUrl, setEditIdeaUrl, editIdeaStore, setEditIdeaStore, editIdeaSize, setEditIdeaSize, editIdeaVariantColor, setEditIdeaVariantColor, setIdeaImage,
+    saveEdits, deleteNode, togglePurchased, advanceStatus, rewindStatus, statusPipeline, setStatusPipeline,
+    ideaTitle, setIdeaTitle, ideaNotes, setIdeaNotes, ideaUrl, setIdeaUrl, addIdeaFromForm,
     newMemberName, setNewMemberName, newMemberInterests, setNewMemberInterests, handleAddMember,
-    exportJSON, importJSON, resetLayout,
+    exportJSON, importJSON, exportCSV, importCSV, resetLayout,
+    peopleList, peopleQuery, setPeopleQuery, peopleSort, setPeopleSort, profileBudgets, selectNode,
+    pastGifts, seasons, currentSeasonId, switchSeason, newSeasonName, setNewSeasonName, cloneSeasonPeople, setCloneSeasonPeople, createSeason,
+    conflicts, resolveConflict, claimSelected, linkSelectedPerson, exchange, saves, sync, print, lock, manage, groups, image, history, bulk, activeTab, onTabChange,
   } = props
 
+  const claimant = profiles.find((p) => p.id === selectedNode?.data?.claimedBy)
+  const ideaImageUrl = useImageUrl(selectedNode?.type === 'idea' ? selectedNode.data?.imageId : undefined)
+
   return (
     <>
-      <Tabs defaultValue="edit">
-        <TabsList className="grid grid-cols-7 gap-1">
+      <Tabs defaultValue="edit" value={activeTab} onValueChange={onTabChange}>
+        <TabsList className="grid grid-cols-10 gap-1">
           <TabsTrigger value="profiles"><Users className="w-4 h-4 mr-1" />Profiles</TabsTrigger>
           <TabsTrigger value="people">People</TabsTrigger>
           <TabsTrigger value="edit">Edit</TabsTrigger>
@@ -77,6 +181,9 @@ export default function SideTabs(props: SideTabsProps) {
           <TabsTrigger value="person">Person</TabsTrigger>
           <TabsTrigger value="family">Family</TabsTrigger>
           <TabsTrigger value="map">Map</TabsTrigger>
+          <TabsTrigger value="exchange">Exchange</TabsTrigger>
+          <TabsTrigger value="conflicts">Conflicts{conflicts.length > 0 ? ` (${conflicts.length})` : ''}</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
         </TabsList>
 
         <TabsContent value="profiles" className="space-y-3 mt-3">
@@ -86,29 +193,46 @@ export default function SideTabs(props: SideTabsProps) {
               <Input placeholder="New profile name" value={newProfileName} onChange={(e) => setNewProfileName(e.target.value)} />
               <Button onClick={createProfile}>Create</Button>
             </div>
-            <div className="text-xs text-muted-foreground">Each profile is isolated. Only the owner sees their planning unless sharing is enabled. Sharing is <strong>view-only</strong>.</div>
+            <div className="text-xs text-muted-foreground">Each profile is isolated. Only the owner sees their planning unless sharing is enabled. Shared profiles are <strong>view-only</strong> unless you let them edit; only the owner can delete or give away nodes.</div>
           </div>
 
           <div className="space-y-2">
             <div className="text-sm font-medium">Current profile</div>
             <div className="flex flex-wrap gap-2">
-              {profiles.map((p) => (
-                <Button key={p.id} size="sm" variant={p.id === currentProfileId ? 'default' : 'outline'} onClick={() => props['setCurrentProfile']?.(p.id)}>
-                  {p.name}
-                </Button>
-              ))}
+              {profiles.map((p) => {
+                const locked = !!p.lock && !lock.unlockedProfiles.includes(p.id)
+                return (
+                  <Button key={p.id} size="sm" disabled={locked} variant={p.id === currentProfileId ? 'default' : 'outline'} onClick={() => setCurrentProfile(p.id)}>
+                    {p.name} {locked && <Lock className="w-3 h-3 ml-1" />}
+                  </Button>
+                )
+              })}
             </div>
           </div>
 
+          <ProfileManagePanel {...manage} />
+
+          <ProfileLockPanel {...lock} />
+
+          <GroupsPanel {...groups} />
+
           <div className="space-y-2">
-            <div className="text-sm font-medium flex items-center gap-2"><Lock className="w-4 h-4" /> Share current profile with. (view-only)</div>
+            <div className="text-sm font-medium flex items-center gap-2"><Lock className="w-4 h-4" /> Share current profile with…</div>
             <div className="flex flex-wrap gap-2">
               {profiles.filter((p) => p.id !== currentProfileId).map((p) => {
-                const shared = profiles.find((x) => x.id === currentProfileId)?.shareWith.includes(p.id)
+                const current = profiles.find((x) => x.id === currentProfileId)
+                const shared = current?.shareWith.includes(p.id)
                 return (
-                  <Button key={p.id} size="sm" variant={shared ? 'default' : 'outline'} onClick={() => shareWithToggle(p.id)}>
-                    {p.name} {shared ? <Eye className="w-3 h-3 ml-1" /> : <EyeOff className="w-3 h-3 ml-1" />}
-                  </Button>
+                  <div key={p.id} className="flex items-center gap-1">
+                    <Button size="sm" variant={shared ? 'default' : 'outline'} onClick={() => shareWithToggle(p.id)}>
+                      {p.name} {shared ? <Eye className="w-3 h-3 ml-1" /> : <EyeOff className="w-3 h-3 ml-1" />}
+                    </Button>
+                    {shared && (
+                      <select className="border rounded px-1 py-1 text-xs" value={current?.shareRoles?.[p.id] ?? 'viewer'} onChange={(e) => setShareRole(p.id, e.target.value as ShareRole)}>
+                        {(Object.keys(ROLE_LABELS) as ShareRole[]).map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                      </select>
+                    )}
+                  </div>
                 )
               })}
             </div>
@@ -126,7 +250,7 @@ export default function SideTabs(props: SideTabsProps) {
                 <div className="text-xs text-muted-foreground mb-1">Select profiles to include (only those that shared with you are selectable).</div>
                 <div className="flex flex-wrap gap-2">
                   {profiles.map((p) => {
-                    const canInclude = p.id === currentProfileId || p.shareWith.includes(currentProfileId || '')
+                    const canInclude = p.id === currentProfileId || (!!currentProfileId && !!shareRoleFor(p, currentProfileId, groups.groups))
                     const active = treeProfiles.includes(p.id)
                     return (
                       <Button key={p.id} size="sm" disabled={!canInclude} variant={active ? 'default' : 'outline'} onClick={() => {
@@ -144,29 +268,123 @@ export default function SideTabs(props: SideTabsProps) {
           </div>
         </TabsContent>
 
+        <TabsContent value="people" className="space-y-3 mt-3">
+          <div className="flex gap-2">
+            <Input id="people-search" placeholder="Search people" value={peopleQuery} onChange={(e) => setPeopleQuery(e.target.value)} />
+            <select className="rounded-md border px-2 text-sm" value={peopleSort} onChange={(e) => setPeopleSort(e.target.value as any)}>
+              <option value="name">Name</option>
+              <option value="ideas">Ideas</option>
+              <option value="purchased">Purchased</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            {peopleList.map((p) => (
+              <button key={p.id} className="w-full text-left rounded-md border px-2 py-1.5 hover:bg-secondary" onClick={() => selectNode(p.id)}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="truncate">{p.data?.label}</span>
+                  <Badge variant="secondary">{p._stats.purchased}/{p._stats.ideas} bought</Badge>
+                </div>
+                <BudgetLine totals={p._stats.budget} />
+              </button>
+            ))}
+            {peopleList.length === 0 && <div className="text-sm text-muted-foreground">No people in the current view.</div>}
+          </div>
+          {Object.keys(profileBudgets).length > 0 && (
+            <div className="space-y-1 border-t pt-2">
+              <div className="text-sm font-medium">Budget by profile</div>
+              {profiles.filter((p) => profileBudgets[p.id]).map((p) => (
+                <div key={p.id}>
+                  <div className="text-xs font-medium">{p.name}</div>
+                  <BudgetLine totals={profileBudgets[p.id]} />
+                </div>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
         <TabsContent value="edit" className="space-y-3 mt-3">
-          {!selectedNode && (
+          {bulk && <BulkActionsPanel {...bulk} />}
+          {!bulk && !selectedNode && (
             <div className="text-sm text-muted-foreground">Click any node on the map to edit.</div>
           )}
-          {selectedNode?.type === 'person' && (
+          {!bulk && selectedNode?.type === 'person' && (
             <div className="space-y-3">
               <div className="text-sm font-medium">Edit Person</div>
               <Input placeholder="Name" value={editPersonName} onChange={(e) => setEditPersonName(e.target.value)} />
               <Textarea placeholder="Interests / notes" value={editPersonInterests} onChange={(e) => setEditPersonInterests(e.target.value)} />
+              <Input type="number" min={0} step="0.01" placeholder="Budget" value={editPersonBudget} onChange={(e) => setEditPersonBudget(e.target.value)} />
+              <div className="flex items-center gap-2">
+                <label htmlFor="personProfile" className="text-xs text-muted-foreground whitespace-nowrap">Their profile</label>
+                <select id="personProfile" className="flex-1 rounded-md border px-2 py-1 text-sm" value={selectedNode.data?.profileId ?? ''} onChange={(e) => linkSelectedPerson(e.target.value)}>
+                  <option value="">Not linked</option>
+                  {profiles.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              </div>
+              <div className="text-xs text-muted-foreground">A linked recipient never sees claims, progress or notes on gifts for them.</div>
               <div className="flex gap-2">
                 <Button onClick={saveEdits}><Pencil className="w-4 h-4 mr-1" /> Save</Button>
                 <Button variant="destructive" onClick={() => deleteNode(selectedNode.id)}><Trash2 className="w-4 h-4 mr-1" /> Delete</Button>
               </div>
+              <div className="space-y-1 border-t pt-2">
+                <div className="text-sm font-medium">Given in past seasons</div>
+                {pastGifts.length === 0 && <div className="text-xs text-muted-foreground">Nothing recorded for {selectedNode.data?.label} in other seasons.</div>}
+                <ul className="text-xs space-y-0.5">
+                  {pastGifts.map((g, i) => (
+                    <li key={`${g.seasonId}-${i}`}><span className="text-muted-foreground">{g.seasonName}:</span> {g.title}</li>
+                  ))}
+                </ul>
+              </div>
             </div>
           )}
-          {selectedNode?.type === 'idea' && (
+          {!bulk && selectedNode?.type === 'idea' && (
             <div className="space-y-3">
               <div className="text-sm font-medium">Edit Idea</div>
               <Input placeholder="Title" value={editIdeaTitle} onChange={(e) => setEditIdeaTitle(e.target.value)} />
               <Textarea placeholder="Notes" value={editIdeaNotes} onChange={(e) => setEditIdeaNotes(e.target.value)} />
+              <div className="grid grid-cols-3 gap-2">
+                <Input type="number" min={0} step="0.01" placeholder="Price" value={editIdeaPrice} onChange={(e) => setEditIdeaPrice(e.target.value)} />
+                <Input placeholder="Currency" maxLength={3} value={editIdeaCurrency} onChange={(e) => setEditIdeaCurrency(e.target.value)} />
+                <Input type="number" min={1} step="1" placeholder="Qty" value={editIdeaQuantity} onChange={(e) => setEditIdeaQuantity(e.target.value)} />
+              </div>
+              <Input placeholder="Product link" value={editIdeaUrl} onChange={(e) => setEditIdeaUrl(e.target.value)} />
+              <div className="grid grid-cols-3 gap-2">
+                <Input placeholder="Store" value={editIdeaStore} onChange={(e) => setEditIdeaStore(e.target.value)} />
+                <Input placeholder="Size" value={editIdeaSize} onChange={(e) => setEditIdeaSize(e.target.value)} />
+                <Input placeholder="Color" value={editIdeaVariantColor} onChange={(e) => setEditIdeaVariantColor(e.target.value)} />
+              </div>
+              <div className="flex items-center gap-2">
+                {ideaImageUrl && <img src={ideaImageUrl} alt="" className="w-12 h-12 rounded object-cover" />}
+                <label className="inline-flex items-center justify-center rounded-md border px-3 py-1.5 text-sm cursor-pointer hover:bg-secondary">
+                  <ImagePlus className="w-4 h-4 mr-1" /> {selectedNode?.data?.imageId ? 'Replace picture' : 'Add picture'}
+                  <input type="file" accept="image/*" className="hidden" onChange={(e) => { if (e.target.files?.[0]) setIdeaImage(e.target.files[0]); e.target.value = '' }} />
+                </label>
+                {selectedNode?.data?.imageId && <Button size="sm" variant="ghost" onClick={() => setIdeaImage(undefined)}>Remove</Button>}
+              </div>
+              <div className="flex items-center gap-2">
+                <Button size="sm" variant="outline" onClick={rewindStatus}><ChevronLeft className="w-4 h-4" /></Button>
+                <Badge variant={isPurchased(selectedNode?.data?.status) ? 'default' : 'secondary'}>
+                  {STATUS_LABELS[selectedNode?.data?.status as IdeaStatus] ?? 'No status'}
+                </Badge>
+                <Button size="sm" variant="outline" onClick={advanceStatus}><ChevronRight className="w-4 h-4" /></Button>
+              </div>
+              <div className="flex items-center gap-2 text-xs">
+                {selectedNode?.data?.claimedBy
+                  ? <span className="text-muted-foreground">Claimed by {selectedNode.data.claimedBy === currentProfileId ? 'you' : claimant?.name ?? 'someone'}</span>
+                  : <span className="text-muted-foreground">Nobody has claimed this yet</span>}
+                {(!selectedNode?.data?.claimedBy || selectedNode.data.claimedBy === currentProfileId) && (
+                  <Button size="sm" variant="outline" onClick={claimSelected}>{selectedNode?.data?.claimedBy ? 'Release' : 'Claim (dibs)'}</Button>
+                )}
+              </div>
+              {(selectedNode?.data?.statusHistory?.length ?? 0) > 0 && (
+                <ul className="text-xs text-muted-foreground space-y-0.5">
+                  {(selectedNode.data.statusHistory as StatusTransition[]).map((t, i) => (
+                    <li key={i}>{STATUS_LABELS[t.status]} · {new Date(t.at).toLocaleString()}</li>
+                  ))}
+                </ul>
+              )}
               <div className="flex flex-wrap gap-2">
                 <Button onClick={saveEdits}><Pencil className="w-4 h-4 mr-1" /> Save</Button>
-                <Button variant="secondary" onClick={togglePurchased}><CheckCircle2 className="w-4 h-4 mr-1" /> {selectedNode?.data?.status === 'purchased' ? 'Mark unbought' : 'Mark purchased'}</Button>
+                <Button variant="secondary" onClick={togglePurchased}><CheckCircle2 className="w-4 h-4 mr-1" /> {isPurchased(selectedNode?.data?.status) ? 'Mark unbought' : 'Mark purchased'}</Button>
                 <Button variant="destructive" onClick={() => deleteNode(selectedNode.id)}><Trash2 className="w-4 h-4 mr-1" /> Delete</Button>
               </div>
             </div>
@@ -175,6 +393,7 @@ export default function SideTabs(props: SideTabsProps) {
 
         <TabsContent value="ideas" className="space-y-3 mt-3">
           <div className="text-sm text-muted-foreground">Select a person (or an idea) on the map, then add a new idea below.</div>
+          <Input placeholder="Paste a product link (optional)" value={ideaUrl} onChange={(e) => setIdeaUrl(e.target.value)} />
           <Input placeholder="Idea title" value={ideaTitle} onChange={(e) => setIdeaTitle(e.target.value)} />
           <Textarea placeholder="Notes / details" value={ideaNotes} onChange={(e) => setIdeaNotes(e.target.value)} />
           <div className="grid grid-cols-2 gap-2">
@@ -182,7 +401,7 @@ export default function SideTabs(props: SideTabsProps) {
             {selectedNode?.type === 'idea' && (
               <Button variant="secondary" onClick={togglePurchased}>
                 <CheckCircle2 className="w-4 h-4 mr-1" />
-                {selectedNode?.data?.status === 'purchased' ? 'Mark unbought' : 'Mark purchased'}
+                {isPurchased(selectedNode?.data?.status) ? 'Mark unbought' : 'Mark purchased'}
               </Button>
             )}
           </div>
@@ -196,6 +415,40 @@ export default function SideTabs(props: SideTabsProps) {
           <div className="text-xs text-muted-foreground">After adding, click their node to start adding ideas.</div>
         </TabsContent>
 
+        <TabsContent value="exchange" className="space-y-3 mt-3">
+          <div className="text-sm text-muted-foreground">Draw the family gift exchange. Each giver only ever sees their own pairing.</div>
+          <ExchangePanel {...exchange} />
+        </TabsContent>
+
+        <TabsContent value="history" className="space-y-3 mt-3">
+          <div className="text-sm text-muted-foreground">Click any step to jump there. Edits made after an undo keep the undone steps as a branch.</div>
+          <HistoryPanel {...history} />
+        </TabsContent>
+
+        <TabsContent value="conflicts" className="space-y-3 mt-3">
+          <div className="text-sm text-muted-foreground">Ideas of yours that look like another family member's idea for the same person.</div>
+          {conflicts.length === 0 && <div className="text-sm text-muted-foreground">No possible duplicates.</div>}
+          {conflicts.map((c) => (
+            <Card key={c.key}>
+              <CardContent className="p-3 space-y-2">
+                <div className="text-sm font-medium">{c.mine.title} <span className="text-muted-foreground font-normal">for {c.recipient}</span></div>
+                <div className="text-xs text-muted-foreground">
+                  {c.other.shared
+                    ? <>{c.other.ownerName} has "{c.other.title}" ({c.reason === 'link' ? 'same link' : 'similar title'}).</>
+                    : <>Another family member has a {c.reason === 'link' ? 'gift with the same link' : 'similar gift'}.</>}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {c.badge === 'claimed_by_other' && <Badge variant="secondary">Claimed by the other giver</Badge>}
+                  {c.badge === 'claimed_by_me'
+                    ? <Button size="sm" variant="outline" onClick={() => resolveConflict(c.mine.id, c.other.id)}>Release claim</Button>
+                    : <Button size="sm" onClick={() => resolveConflict(c.mine.id, c.other.id, 'claimed')}>I'll get this</Button>}
+                  <Button size="sm" variant="outline" onClick={() => resolveConflict(c.mine.id, c.other.id, 'dismissed')}>Not a duplicate</Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </TabsContent>
+
         <TabsContent value="map" className="space-y-3 mt-3">
           <div className="grid grid-cols-2 gap-2">
             <TooltipProvider>
@@ -210,9 +463,50 @@ export default function SideTabs(props: SideTabsProps) {
               <Upload className="w-4 h-4 mr-1" /> Import JSON
               <input type="file" accept="application/json" className="hidden" onChange={(e) => e.target.files && importJSON(e.target.files[0])} />
             </label>
+            <Button variant="outline" onClick={exportCSV}><FileSpreadsheet className="w-4 h-4 mr-1" /> Export CSV</Button>
+            <label className="inline-flex items-center justify-center rounded-md border px-3 py-2 cursor-pointer hover:bg-secondary">
+              <Upload className="w-4 h-4 mr-1" /> Import CSV
+              <input type="file" accept=".csv,text/csv" className="hidden" onChange={(e) => { if (e.target.files?.[0]) importCSV(e.target.files[0]); e.target.value = '' }} />
+            </label>
             <Button variant="secondary" onClick={resetLayout}><RefreshCcw className="w-4 h-4 mr-1" /> Reset</Button>
             {selectedNode && <Button variant="destructive" onClick={() => selectedId && deleteNode(selectedId)}><Trash2 className="w-4 h-4 mr-1" /> Delete selected</Button>}
           </div>
+          <SavesPanel {...saves} />
+          <SyncPanel {...sync} />
+          <PrintPanel {...print} />
+          <ImageExportPanel {...image} />
+          <div className="space-y-2">
+            <div className="text-xs">Seasons</div>
+            <div className="flex flex-wrap gap-2">
+              {seasons.map((s) => (
+                <Button key={s.id} size="sm" variant={s.id === currentSeasonId ? 'default' : 'outline'} onClick={() => switchSeason(s.id)}>{s.name}</Button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input placeholder="New season (e.g. Christmas 2026)" value={newSeasonName} onChange={(e) => setNewSeasonName(e.target.value)} />
+              <Button onClick={createSeason}><Plus className="w-4 h-4 mr-1" /> Add</Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <input id="cloneSeasonPeople" type="checkbox" checked={cloneSeasonPeople} onChange={(e) => setCloneSeasonPeople(e.target.checked)} />
+              <label htmlFor="cloneSeasonPeople" className="text-xs">Copy people from the current season</label>
+            </div>
+          </div>
+          <div>
+            <div className="text-xs mb-1">Idea status pipeline</div>
+            <div className="flex flex-wrap gap-2">
+              {IDEA_STATUSES.map((st) => {
+                const active = statusPipeline.includes(st)
+                return (
+                  <Button key={st} size="sm" variant={active ? 'default' : 'outline'} disabled={st === 'considering'} onClick={() => {
+                    setStatusPipeline(active ? statusPipeline.filter((x) => x !== st) : statusPipeline.concat(st))
+                  }}>
+                    {STATUS_LABELS[st]}
+                  </Button>
+                )
+              })}
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">Stages you turn off are skipped when advancing an idea.</div>
+          </div>
           <div>
             <div className="text-xs mb-1">Background density</div>
             <Slider defaultValue={[18]} min={8} max={36} step={1} onValueChange={(v) => {
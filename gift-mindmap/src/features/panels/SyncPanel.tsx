@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { AlertTriangle, Cloud, CloudOff, RefreshCw, Unplug } from 'lucide-react'
+import type { SyncError, SyncServerConfig, SyncStatus } from '@/lib/sync'
+
+const SYNC_ERROR_MESSAGES: Record<SyncError, string> = {
+  offline: 'The sync server can’t be reached. Changes are kept and sent once it’s back.',
+  unauthorized: 'The sync server didn’t accept the token. Disconnect and enter the one it was started with.',
+  server_error: 'The sync server refused the request.',
+  bad_response: 'That doesn’t look like a gift-mindmap sync server.',
+}
+
+export interface SyncPanelProps {
+  // Address of the connected sync server, if any
+  server?: string
+  status: SyncStatus
+  onConnect: (config: SyncServerConfig) => void
+  onDisconnect: () => void
+  onSyncNow: () => void
+}
+
+export default function SyncPanel({ server, status, onConnect, onDisconnect, onSyncNow }: SyncPanelProps) {
+  const [url, setUrl] = useState(server ?? '')
+  const [token, setToken] = useState('')
+  useEffect(() => setUrl(server ?? ''), [server])
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs flex items-center gap-1">{server ? <Cloud className="w-3 h-3" /> : <CloudOff className="w-3 h-3" />} Sync between devices</div>
+      {server ? (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <span className="flex-1 truncate">{server}</span>
+            <Button size="sm" variant="outline" disabled={status.state === 'syncing'} onClick={onSyncNow}><RefreshCw className="w-4 h-4" /></Button>
+            <Button size="sm" variant="outline" onClick={onDisconnect}><Unplug className="w-4 h-4 mr-1" /> Disconnect</Button>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {status.state === 'syncing' && <>Syncing…</>}
+            {status.state === 'synced' && status.lastSyncedAt && <>Synced at {new Date(status.lastSyncedAt).toLocaleTimeString()}</>}
+            {status.pending > 0 && <> · {status.pending} change{status.pending === 1 ? '' : 's'} waiting to be sent</>}
+          </div>
+          {status.error && (status.state === 'offline' || status.state === 'error') && (
+            <div className="text-xs text-red-600 flex items-start gap-1"><AlertTriangle className="w-3 h-3 mt-0.5" />{SYNC_ERROR_MESSAGES[status.error]}</div>
+          )}
+        </>
+      ) : (
+        <form className="space-y-2" onSubmit={(e) => { e.preventDefault(); if (url.trim() && token.trim()) onConnect({ url: url.trim(), token: token.trim() }) }}>
+          <Input placeholder="http://192.168.1.10:8787" value={url} onChange={(e) => setUrl(e.target.value)} />
+          <div className="flex gap-2">
+            <Input type="password" placeholder="Sync token" autoComplete="off" value={token} onChange={(e) => setToken(e.target.value)} />
+            <Button type="submit" disabled={!url.trim() || !token.trim()}>Connect</Button>
+          </div>
+        </form>
+      )}
+      <div className="text-xs text-muted-foreground">Run <code>SYNC_TOKEN=… npm run sync-server</code> on a computer at home and connect each device to it with the same token. Edits made offline are sent when the server is reachable again; ideas of passphrase-protected profiles stay encrypted.</div>
+    </div>
+  )
+}
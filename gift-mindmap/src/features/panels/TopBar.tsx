@@ -1,7 +1,10 @@
 import React from 'react'
 import { Button } from '@/components/ui/button'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
-import { RefreshCcw, Download, Upload, ChevronDown, Undo2, Redo2 } from 'lucide-react'
+import { RefreshCcw, Download, Upload, ChevronDown, Undo2, Redo2, Keyboard } from 'lucide-react'
+import { STATUS_LABELS } from '@/lib/status'
+import { LAYOUT_LABELS, type LayoutKind } from '@/lib/layout'
+import type { IdeaStatus } from '@/types/gift'
 
 export interface TopBarProps {
   legend: Array<{ id: string; name: string; color: string }>
@@ -13,12 +16,28 @@ export interface TopBarProps {
   onRedo?: () => void
   canUndo?: boolean
   canRedo?: boolean
+  statuses?: IdeaStatus[]
+  statusFilter?: IdeaStatus[]
+  onStatusFilterChange?: (statuses: IdeaStatus[]) => void
+  seasons?: Array<{ id: string; name: string }>
+  currentSeasonId?: string
+  onSwitchSeason?: (id: string) => void
+  layout?: LayoutKind
+  onLayoutChange?: (kind: LayoutKind) => void
+  onShowShortcuts?: () => void
 }
 
-export default function TopBar({ legend, onReset, onExport, onImport, onHideCanvas, onUndo, onRedo, canUndo, canRedo }: TopBarProps) {
+export default function TopBar({ legend, onReset, onExport, onImport, onHideCanvas, onUndo, onRedo, canUndo, canRedo, statuses, statusFilter = [], onStatusFilterChange, seasons, currentSeasonId, onSwitchSeason, layout, onLayoutChange, onShowShortcuts }: TopBarProps) {
   return (
     <div className="flex items-center justify-between p-2 border-b bg-white/70">
-      <div className="text-sm text-muted-foreground">Infinity canvas</div>
+      <div className="flex items-center gap-2">
+        <div className="text-sm text-muted-foreground">Infinity canvas</div>
+        {seasons && onSwitchSeason && (
+          <select className="rounded-md border px-2 py-1 text-sm bg-white" value={currentSeasonId} onChange={(e) => onSwitchSeason(e.target.value)}>
+            {seasons.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        )}
+      </div>
       <div className="flex items-center gap-3">
         <div className="hidden md:flex items-center gap-2">
           {legend.map((p) => (
@@ -28,6 +47,22 @@ export default function TopBar({ legend, onReset, onExport, onImport, onHideCanv
             </span>
           ))}
         </div>
+        {statuses && onStatusFilterChange && (
+          <div className="flex items-center gap-1">
+            {statuses.map((st) => {
+              const active = statusFilter.includes(st)
+              return (
+                <button
+                  key={st}
+                  className={`text-xs px-2 py-1 rounded-full border ${active ? 'bg-slate-900 text-white' : 'bg-white/80'}`}
+                  onClick={() => onStatusFilterChange(active ? statusFilter.filter((x) => x !== st) : statusFilter.concat(st))}
+                >
+                  {STATUS_LABELS[st]}
+                </button>
+              )
+            })}
+          </div>
+        )}
         {onUndo && (
           <TooltipProvider>
             <Tooltip><TooltipTrigger asChild><Button size="sm" variant="outline" disabled={!canUndo} onClick={onUndo}><Undo2 className="w-4 h-4 mr-1" /> Undo</Button></TooltipTrigger><TooltipContent>Undo (Ctrl/Cmd+Z)</TooltipContent></Tooltip>
@@ -38,6 +73,11 @@ export default function TopBar({ legend, onReset, onExport, onImport, onHideCanv
             <Tooltip><TooltipTrigger asChild><Button size="sm" variant="outline" disabled={!canRedo} onClick={onRedo}><Redo2 className="w-4 h-4 mr-1" /> Redo</Button></TooltipTrigger><TooltipContent>Redo (Ctrl/Cmd+Shift+Z)</TooltipContent></Tooltip>
           </TooltipProvider>
         )}
+        {onLayoutChange && (
+          <select className="rounded-md border px-2 py-1 text-sm bg-white" value={layout} onChange={(e) => onLayoutChange(e.target.value as LayoutKind)}>
+            {(Object.keys(LAYOUT_LABELS) as LayoutKind[]).map((k) => <option key={k} value={k}>{LAYOUT_LABELS[k]}</option>)}
+          </select>
+        )}
         <TooltipProvider>
           <Tooltip><TooltipTrigger asChild><Button size="sm" variant="outline" onClick={onReset}><RefreshCcw className="w-4 h-4 mr-1" /> Reset</Button></TooltipTrigger><TooltipContent>Rebuild the default layout</TooltipContent></Tooltip>
           <Tooltip><TooltipTrigger asChild><Button size="sm" variant="outline" onClick={onExport}><Download className="w-4 h-4 mr-1" /> Export</Button></TooltipTrigger><TooltipContent>Export JSON</TooltipContent></Tooltip>
@@ -46,6 +86,11 @@ export default function TopBar({ legend, onReset, onExport, onImport, onHideCanv
           <Upload className="w-4 h-4 mr-1" /> Import
           <input type="file" accept="application/json" className="hidden" onChange={(e) => e.target.files && onImport(e.target.files[0])} />
         </label>
+        {onShowShortcuts && (
+          <TooltipProvider>
+            <Tooltip><TooltipTrigger asChild><Button size="sm" variant="outline" onClick={onShowShortcuts}><Keyboard className="w-4 h-4" /></Button></TooltipTrigger><TooltipContent>Keyboard shortcuts (?)</TooltipContent></Tooltip>
+          </TooltipProvider>
+        )}
         <Button size="sm" variant="secondary" onClick={onHideCanvas}><ChevronDown className="w-4 h-4 mr-1" /> Hide</Button>
       </div>
     </div>
@@ -0,0 +1,140 @@
+import type { GiftEdge, GiftNode, IdeaData, Profile, ProfileId } from '@/types/gift'
+import { isPurchased } from '@/lib/status'
+import { escapeHtml } from '@/lib/escape'
+import { formatMoney, ideaCost, ideaParents } from '@/store/selectors'
+
+// Printable views are standalone HTML documents built from the nodes the viewer can already see
+// (pass the visibility-filtered, redacted graph), so printing never reveals more than the map does.
+
+export type ShoppingGroup = 'store' | 'person'
+
+export interface PrintableIdea {
+  id: string
+  person: string
+  // Profile name of whoever added the idea
+  from?: string
+  idea: IdeaData
+}
+
+const NO_STORE = 'Any store'
+
+// Ideas hanging off a person, minus the viewer's own wish list items that someone else is buying
+// (those are redacted to a title and must stay a surprise).
+export function printableIdeas(nodes: GiftNode[], edges: GiftEdge[], profiles: Profile[], viewer?: ProfileId): PrintableIdea[] {
+  const parents = ideaParents(nodes, edges)
+  const byId = new Map(nodes.map((n) => [n.id, n]))
+  const out: PrintableIdea[] = []
+  for (const n of nodes) {
+    if (n.type !== 'idea') continue
+    const person = byId.get(parents.get(n.id) ?? '')
+    if (person?.type !== 'person') continue
+    if (viewer && person.data.profileId === viewer && n.data.owner !== viewer) continue
+    out.push({ id: n.id, person: person.data.label, from: profiles.find((p) => p.id === n.data.owner)?.name, idea: n.data })
+  }
+  return out
+}
+
+export function groupShoppingList(items: PrintableIdea[], groupBy: ShoppingGroup): [string, PrintableIdea[]][] {
+  const groups = new Map<string, PrintableIdea[]>()
+  for (const item of items) {
+    if (isPurchased(item.idea.status)) continue
+    const key = groupBy === 'store' ? item.idea.store?.trim() || NO_STORE : item.person
+    groups.set(key, (groups.get(key) ?? []).concat(item))
+  }
+  // Alphabetical, with the catch-all store group last
+  return [...groups.entries()].sort(([a], [b]) => (a === NO_STORE ? 1 : b === NO_STORE ? -1 : a.localeCompare(b)))
+}
+
+const BASE_CSS = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #111; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { color: #666; font-size: 12px; margin-bottom: 16px; }
+  .toolbar { margin-bottom: 16px; }
+  @page { margin: 12mm; }
+  @media print { .toolbar { display: none; } body { margin: 0; } }
+`
+
+function documentHTML(title: string, css: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${BASE_CSS}${css}</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Print</button></div>
+${body}
+</body>
+</html>
+`
+}
+
+export function shoppingListHTML(items: PrintableIdea[], opts: { groupBy: ShoppingGroup; title?: string; date?: Date }): string {
+  const title = opts.title ?? 'Shopping list'
+  const groups = groupShoppingList(items, opts.groupBy)
+  const line = (item: PrintableIdea) => {
+    const d = item.idea
+    const variant = [d.variant?.size, d.variant?.color].filter(Boolean).join(', ')
+    const details = [
+      opts.groupBy === 'store' ? `for ${item.person}` : d.store,
+      variant,
+      d.quantity && d.quantity > 1 ? `× ${d.quantity}` : '',
+      d.price !== undefined ? formatMoney(ideaCost(d), d.currency) : '',
+    ].filter(Boolean)
+    return `<li><span class="box"></span><div><div class="title">${escapeHtml(d.title)}</div>${
+      details.length > 0 ? `<div class="details">${escapeHtml(details.join(' · '))}</div>` : ''
+    }${d.notes ? `<div class="details">${escapeHtml(d.notes)}</div>` : ''}${d.url ? `<div class="details url">${escapeHtml(d.url)}</div>` : ''}</div></li>`
+  }
+  const body = groups.length === 0
+    ? '<p>Nothing left to buy.</p>'
+    : groups.map(([name, group]) => `<section><h2>${escapeHtml(name)}</h2><ul>${group.map(line).join('')}</ul></section>`).join('\n')
+  const count = groups.reduce((n, [, g]) => n + g.length, 0)
+  const css = `
+    section { break-inside: avoid; margin-bottom: 16px; }
+    h2 { font-size: 15px; border-bottom: 1px solid #ccc; padding-bottom: 2px; margin: 0 0 6px; }
+    ul { list-style: none; padding: 0; margin: 0; }
+    li { display: flex; gap: 8px; align-items: flex-start; padding: 4px 0; }
+    .box { width: 12px; height: 12px; border: 1.5px solid #333; border-radius: 2px; margin-top: 3px; flex-shrink: 0; }
+    .title { font-size: 14px; }
+    .details { font-size: 12px; color: #555; }
+    .url { word-break: break-all; }
+  `
+  const date = (opts.date ?? new Date()).toLocaleDateString()
+  return documentHTML(title, css, `<h1>${escapeHtml(title)}</h1><div class="meta">${count} item${count === 1 ? '' : 's'} · ${escapeHtml(date)}</div>\n${body}`)
+}
+
+// Bought but not handed over yet, so it still needs wrapping and a tag
+export function needsTag(idea: IdeaData): boolean {
+  return isPurchased(idea.status) && idea.status !== 'given'
+}
+
+export function giftTagsHTML(items: PrintableIdea[], opts: { title?: string } = {}): string {
+  const title = opts.title ?? 'Gift tags'
+  const tags = items.filter((item) => needsTag(item.idea))
+  const tag = (item: PrintableIdea) =>
+    `<div class="tag"><div class="to">To: ${escapeHtml(item.person)}</div>${item.from ? `<div class="from">From: ${escapeHtml(item.from)}</div>` : ''}<div class="gift">${escapeHtml(item.idea.title)}</div></div>`
+  const css = `
+    .tags { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8px; }
+    .tag { border: 1px dashed #999; border-radius: 8px; padding: 12px; min-height: 80px; break-inside: avoid; }
+    .to { font-size: 16px; font-weight: 600; }
+    .from { font-size: 13px; margin-top: 2px; }
+    .gift { font-size: 10px; color: #888; margin-top: 8px; }
+  `
+  const body = tags.length === 0 ? '<p>No purchased gifts waiting for a tag.</p>' : `<div class="tags">${tags.map(tag).join('')}</div>`
+  return documentHTML(title, css, `<h1>${escapeHtml(title)}</h1>\n${body}`)
+}
+
+// Opens the document in a new tab; if pop-ups are blocked it's downloaded instead.
+export function openPrintable(html: string, fileName: string) {
+  const blob = new Blob([html], { type: 'text/html' })
+  const url = URL.createObjectURL(blob)
+  const win = window.open(url, '_blank')
+  if (!win) {
+    const a = document.createElement('a')
+    a.href = url
+    a.download = fileName
+    a.click()
+  }
+  setTimeout(() => URL.revokeObjectURL(url), 60_000)
+}
@@ -0,0 +1,46 @@
+import React from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { X } from 'lucide-react'
+import { formatCombo, SHORTCUTS, type Shortcut } from '@/lib/shortcuts'
+
+export interface ShortcutSheetProps {
+  open: boolean
+  onClose: () => void
+}
+
+const isMac = typeof navigator !== 'undefined' && /mac|iphone|ipad/i.test(navigator.platform)
+
+export default function ShortcutSheet({ open, onClose }: ShortcutSheetProps) {
+  if (!open) return null
+  const groups = SHORTCUTS.reduce<Record<string, Shortcut[]>>((acc, s) => {
+    ;(acc[s.group] ??= []).push(s)
+    return acc
+  }, {})
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <Card className="w-[28rem] max-w-[90vw]" onClick={(e) => e.stopPropagation()}>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="font-medium">Keyboard shortcuts</div>
+            <Button size="sm" variant="ghost" onClick={onClose}><X className="w-4 h-4" /></Button>
+          </div>
+          {Object.entries(groups).map(([group, items]) => (
+            <div key={group} className="space-y-1">
+              <div className="text-xs uppercase tracking-wide text-muted-foreground">{group}</div>
+              {items.map((s) => (
+                <div key={s.id} className="flex items-center justify-between text-sm">
+                  <span>{s.description}</span>
+                  <span className="flex gap-1">
+                    {s.combos.map((c) => <kbd key={c} className="rounded border bg-slate-50 px-1.5 py-0.5 text-xs font-mono">{formatCombo(c, isMac)}</kbd>)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+          <div className="text-xs text-muted-foreground">Shortcuts are off while typing in a field or the code editor.</div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
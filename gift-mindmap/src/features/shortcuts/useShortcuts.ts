@@ -0,0 +1,25 @@
+import { useEffect, useRef } from 'react'
+import { findShortcut, isTypingTarget, SHORTCUTS, type ShortcutId } from '@/lib/shortcuts'
+
+export type ShortcutHandlers = Partial<Record<ShortcutId, () => void>>
+
+// One window-level listener for every shortcut. Handlers are read through a ref so callers can
+// pass fresh closures each render without re-binding the listener.
+export function useShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  const ref = useRef(handlers)
+  ref.current = handlers
+
+  useEffect(() => {
+    if (!enabled) return
+    const onKey = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || isTypingTarget(e.target)) return
+      const shortcut = findShortcut(e, SHORTCUTS)
+      const handler = shortcut && ref.current[shortcut.id]
+      if (!handler) return
+      e.preventDefault()
+      handler()
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [enabled])
+}
@@ -1,3 +1,5 @@
+import type { Profile, ProfileId } from '@/types/gift'
+
 const PROFILE_COLORS = [
   '#ef4444', // red-500
   '#f59e0b', // amber-500
@@ -21,5 +23,47 @@ export function colorForProfile(id?: string): string | undefined {
   return PROFILE_COLORS[idx]
 }
 
+// The color a profile picked, falling back to the hashed one for profiles saved without a color
+export function profileColor(profiles: Profile[], id?: ProfileId): string | undefined {
+  if (!id) return undefined
+  return profiles.find((p) => p.id === id)?.color ?? colorForProfile(id)
+}
+
+function hslToHex(h: number, s: number, l: number): string {
+  const a = (s / 100) * Math.min(l / 100, 1 - l / 100)
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12
+    const value = l / 100 - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+    return Math.round(value * 255).toString(16).padStart(2, '0')
+  }
+  return `#${channel(0)}${channel(8)}${channel(4)}`
+}
+
+export const sameColor = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase()
+
+// First palette color nobody uses yet; once the palette runs out, hues spaced by the golden angle
+export function pickProfileColor(taken: (string | undefined)[]): string {
+  const used = new Set(taken.filter((c): c is string => !!c).map((c) => c.toLowerCase()))
+  const free = PROFILE_COLORS.find((c) => !used.has(c))
+  if (free) return free
+  for (let i = 0; ; i++) {
+    const color = hslToHex((i * 137.508) % 360, 65, 50)
+    if (!used.has(color)) return color
+  }
+}
+
+// Gives every profile a stored color, keeping the first holder of each and moving later
+// duplicates (including hash collisions) to a free one. Groups own nodes too, so they go through
+// here as well: `taken` collects the colors handed out, letting a second call continue the same
+// color space.
+export function assignProfileColors<T extends Pick<Profile, 'id' | 'color'>>(profiles: T[], taken: string[] = []): T[] {
+  return profiles.map((p) => {
+    const current = p.color ?? colorForProfile(p.id)
+    const color = current && !taken.some((c) => sameColor(c, current)) ? current : pickProfileColor(taken)
+    taken.push(color)
+    return color === p.color ? p : { ...p, color }
+  })
+}
+
 export { PROFILE_COLORS }
 
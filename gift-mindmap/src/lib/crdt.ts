@@ -0,0 +1,307 @@
+import type { ExportedState, GiftEdge, GiftNode, Profile, ProfileGroup, ProfileId, Season } from '@/types/gift'
+
+// A last-writer-wins map CRDT over the parts of the state devices share. Every entity (a profile,
+// group, season, or a node/edge of some season) is a set of field registers, each stamped with a
+// Lamport clock and the device that wrote it; the higher stamp wins and ties go to the larger
+// device id, so replicas that saw the same ops agree no matter the order. Whether an entity exists
+// is a register too: a delete beats concurrent field edits, and re-adding it writes a newer one.
+
+export type DeviceId = string
+
+export interface Stamp {
+  clock: number
+  device: DeviceId
+}
+
+export type Collection = 'profiles' | 'groups' | 'seasons' | 'nodes' | 'edges'
+
+export const COLLECTIONS: Collection[] = ['profiles', 'groups', 'seasons', 'nodes', 'edges']
+
+// The register saying whether an entity exists
+export const EXISTS = '$exists'
+
+export interface SyncOp {
+  stamp: Stamp
+  collection: Collection
+  key: string
+  field: string
+  // undefined clears the field
+  value?: unknown
+  // Profile that made the change, as the pushing device saw it
+  author?: ProfileId
+}
+
+export type Change = Omit<SyncOp, 'stamp' | 'author'>
+
+export interface Register {
+  stamp: Stamp
+  value?: unknown
+}
+
+export interface SyncDoc {
+  // Highest clock seen, local or remote
+  clock: number
+  // Registers by collection, entity key and field
+  entities: Record<Collection, Record<string, Record<string, Register>>>
+}
+
+export type Fields = Record<string, unknown>
+
+// Flattened fields of every entity, the shape local state is compared in
+export type Snapshot = Record<Collection, Record<string, Fields>>
+
+export interface EntityRef {
+  collection: Collection
+  key: string
+  // Authors of the ops that changed it; absent when it wasn't changed by ops
+  authors?: Array<ProfileId | undefined>
+}
+
+export type SyncedState = Pick<ExportedState, 'nodes' | 'edges' | 'profiles' | 'groups' | 'seasons' | 'currentSeasonId'>
+
+const byCollection = <T>(make: () => T) => Object.fromEntries(COLLECTIONS.map((c) => [c, make()])) as Record<Collection, T>
+
+export const emptyDoc = (): SyncDoc => ({ clock: 0, entities: byCollection(() => ({})) })
+
+export const emptySnapshot = (): Snapshot => byCollection(() => ({}))
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock
+  return a.device < b.device ? -1 : a.device > b.device ? 1 : 0
+}
+
+// Nodes and edges are keyed per season, since every season has its own graph
+export const graphKey = (seasonId: string, id: string) => `${seasonId}/${id}`
+
+export function splitGraphKey(key: string): [string, string] {
+  const at = key.indexOf('/')
+  return [key.slice(0, at), key.slice(at + 1)]
+}
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b)
+
+// React Flow's runtime props, never synced
+const RUNTIME_FIELDS = new Set(['selected', 'dragging', 'width', 'height', 'positionAbsolute', 'resizing'])
+
+// `data` is split into one field per key so concurrent edits to different properties of an idea
+// both survive. Display-only `__` fields stay local, as does a season's archived graph (its
+// nodes and edges are entities of their own) and exchange rules.
+export function flatten(entity: object): Fields {
+  const fields: Fields = {}
+  for (const [k, v] of Object.entries(entity)) {
+    if (v === undefined || k === 'id' || k === 'graph' || k === 'exchange' || RUNTIME_FIELDS.has(k)) continue
+    if (k === 'data' && v && typeof v === 'object') {
+      for (const [dk, dv] of Object.entries(v)) if (dv !== undefined && !dk.startsWith('__')) fields[`data.${dk}`] = dv
+    } else {
+      fields[k] = v
+    }
+  }
+  return fields
+}
+
+export function unflatten<T>(id: string, fields: Fields): T {
+  const entity: Record<string, unknown> = { id }
+  let data: Record<string, unknown> | undefined
+  for (const [f, v] of Object.entries(fields)) {
+    if (f.startsWith('data.')) (data ??= {})[f.slice(5)] = v
+    else entity[f] = v
+  }
+  if (data) entity.data = data
+  return entity as T
+}
+
+// Sets (or, for undefined, removes) flattened fields on an entity, keeping everything local to it
+function patchEntity<T extends object>(entity: T, fields: Fields): T {
+  const next = { ...entity } as Record<string, unknown>
+  let data: Record<string, unknown> | undefined
+  for (const [f, v] of Object.entries(fields)) {
+    let target = next
+    let k = f
+    if (f.startsWith('data.')) {
+      target = data ??= { ...(next.data as object) }
+      k = f.slice(5)
+    }
+    if (v === undefined) delete target[k]
+    else target[k] = v
+  }
+  if (data) next.data = data
+  return next as T
+}
+
+export function snapshotOf(state: SyncedState): Snapshot {
+  const snap = emptySnapshot()
+  for (const p of state.profiles) snap.profiles[p.id] = flatten(p)
+  for (const g of state.groups ?? []) snap.groups[g.id] = flatten(g)
+  for (const season of state.seasons) {
+    snap.seasons[season.id] = flatten(season)
+    // The live graph belongs to the current season; its archived copy may be stale
+    const graph = season.id === state.currentSeasonId ? state : season.graph
+    for (const n of graph?.nodes ?? []) snap.nodes[graphKey(season.id, n.id)] = flatten(n)
+    for (const e of graph?.edges ?? []) snap.edges[graphKey(season.id, e.id)] = flatten(e)
+  }
+  return snap
+}
+
+export function diffSnapshots(prev: Snapshot, next: Snapshot): Change[] {
+  const changes: Change[] = []
+  for (const collection of COLLECTIONS) {
+    for (const [key, fields] of Object.entries(next[collection])) {
+      const before = prev[collection][key]
+      if (!before) changes.push({ collection, key, field: EXISTS, value: true })
+      for (const field of new Set([...Object.keys(before ?? {}), ...Object.keys(fields)])) {
+        if (!same(before?.[field], fields[field])) changes.push({ collection, key, field, value: fields[field] })
+      }
+    }
+    for (const key of Object.keys(prev[collection])) {
+      if (!(key in next[collection])) changes.push({ collection, key, field: EXISTS, value: false })
+    }
+  }
+  return changes
+}
+
+// Applies ops in any order; ones that lose to what a register already holds are dropped. Returns
+// the entities that changed.
+export function applyOps(doc: SyncDoc, ops: SyncOp[]): { doc: SyncDoc; changed: EntityRef[] } {
+  const entities = { ...doc.entities }
+  const copied = new Set<string>()
+  const changed = new Map<string, EntityRef>()
+  let clock = doc.clock
+  for (const op of ops) {
+    clock = Math.max(clock, op.stamp.clock)
+    const current = entities[op.collection][op.key]?.[op.field]
+    if (current && compareStamps(current.stamp, op.stamp) >= 0) continue
+    const id = `${op.collection}/${op.key}`
+    if (!copied.has(op.collection)) {
+      entities[op.collection] = { ...entities[op.collection] }
+      copied.add(op.collection)
+    }
+    if (!copied.has(id)) {
+      entities[op.collection][op.key] = { ...entities[op.collection][op.key] }
+      copied.add(id)
+    }
+    entities[op.collection][op.key][op.field] = op.value === undefined ? { stamp: op.stamp } : { stamp: op.stamp, value: op.value }
+    const ref = changed.get(id) ?? { collection: op.collection, key: op.key, authors: [] }
+    if (!ref.authors!.includes(op.author)) ref.authors!.push(op.author)
+    changed.set(id, ref)
+  }
+  return { doc: { clock, entities }, changed: [...changed.values()] }
+}
+
+// Stamps local changes with the next clock values
+export function stampChanges(doc: SyncDoc, device: DeviceId, changes: Change[], author?: ProfileId): SyncOp[] {
+  return changes.map((c, i) => ({ ...c, stamp: { clock: doc.clock + i + 1, device }, ...(author ? { author } : {}) }))
+}
+
+// The entity's current fields, or undefined when it doesn't exist. Fields written before the
+// entity was last (re)created belong to an earlier life and are ignored.
+export function materialize(doc: SyncDoc, collection: Collection, key: string): Fields | undefined {
+  const registers = doc.entities[collection][key]
+  const exists = registers?.[EXISTS]
+  if (!exists?.value) return undefined
+  const fields: Fields = {}
+  for (const [f, r] of Object.entries(registers)) {
+    if (f !== EXISTS && r.value !== undefined && compareStamps(r.stamp, exists.stamp) > 0) fields[f] = r.value
+  }
+  return fields
+}
+
+type Updates<T> = Map<string, T | null>
+
+function applyToList<T extends { id: string }>(list: T[], updates: Updates<T>): T[] {
+  if (updates.size === 0) return list
+  const ids = new Set(list.map((x) => x.id))
+  const out: T[] = []
+  for (const item of list) {
+    const next = updates.has(item.id) ? updates.get(item.id) : item
+    if (next) out.push(next)
+  }
+  for (const [id, next] of updates) if (next && !ids.has(id)) out.push(next)
+  return out
+}
+
+// undefined leaves the local entity alone, null removes it
+function mergeEntity<T extends { id: string }>(id: string, local: T | undefined, mine: Fields | undefined, base: Fields | undefined, remote: Fields | undefined): T | null | undefined {
+  if (!remote) return local ? null : undefined
+  // Deleted here since the last sync: the next push deletes it everywhere
+  if (!local) return base ? undefined : unflatten<T>(id, remote)
+  const patch: Fields = {}
+  for (const f of new Set([...Object.keys(remote), ...Object.keys(base ?? {})])) {
+    if (same(remote[f], base?.[f]) || !same(mine?.[f], base?.[f])) continue
+    patch[f] = remote[f]
+  }
+  return Object.keys(patch).length > 0 ? patchEntity(local, patch) : undefined
+}
+
+// Writes what remote ops changed into local state. `mine` is the local state as it would be
+// recorded and `base` what this device last recorded or merged: fields edited here since then
+// are kept and win on the next push, so an edit made while a sync was in flight isn't lost.
+// Returns the new state and base.
+export function mergeRemote(state: SyncedState, mine: Snapshot, base: Snapshot, doc: SyncDoc, changed: EntityRef[]): { state: SyncedState; base: Snapshot } {
+  const nextBase = { ...base }
+  const touch = (collection: Collection, key: string, fields: Fields | undefined) => {
+    if (nextBase[collection] === base[collection]) nextBase[collection] = { ...base[collection] }
+    if (fields) nextBase[collection][key] = fields
+    else delete nextBase[collection][key]
+  }
+  const merge = <T extends { id: string }>(collection: Collection, list: T[], key: string, id: string, updates: Updates<T>) => {
+    const remote = materialize(doc, collection, key)
+    const next = mergeEntity(id, list.find((x) => x.id === id), mine[collection][key], base[collection][key], remote)
+    if (next !== undefined) updates.set(id, next)
+    touch(collection, key, remote)
+  }
+
+  const profiles: Updates<Profile> = new Map()
+  const groups: Updates<ProfileGroup> = new Map()
+  const seasonUpdates: Updates<Season> = new Map()
+  for (const { collection, key } of changed) {
+    if (collection === 'profiles') merge(collection, state.profiles, key, key, profiles)
+    if (collection === 'groups') merge(collection, state.groups ?? [], key, key, groups)
+    if (collection === 'seasons') merge(collection, state.seasons, key, key, seasonUpdates)
+  }
+  // A season new to this device arrives with its whole graph
+  const arrived = new Set<string>()
+  const fromDoc = <T>(collection: 'nodes' | 'edges', seasonId: string): T[] =>
+    Object.keys(doc.entities[collection]).flatMap((key) => {
+      const [owner, id] = splitGraphKey(key)
+      const fields = owner === seasonId ? materialize(doc, collection, key) : undefined
+      if (!fields) return []
+      touch(collection, key, fields)
+      return [unflatten<T>(id, fields)]
+    })
+  for (const [id, season] of seasonUpdates) {
+    if (!season || state.seasons.some((x) => x.id === id)) continue
+    seasonUpdates.set(id, { ...season, graph: { nodes: fromDoc<GiftNode>('nodes', id), edges: fromDoc<GiftEdge>('edges', id) } })
+    arrived.add(id)
+  }
+  const seasons = applyToList(state.seasons, seasonUpdates)
+
+  const graphs = new Map<string, { nodes: Updates<GiftNode>; edges: Updates<GiftEdge> }>()
+  for (const { collection, key } of changed) {
+    if (collection !== 'nodes' && collection !== 'edges') continue
+    const [seasonId, id] = splitGraphKey(key)
+    const season = seasons.find((x) => x.id === seasonId)
+    // Seasons this device doesn't know yet are built from the doc once they arrive
+    if (!season || arrived.has(seasonId)) continue
+    const graph = seasonId === state.currentSeasonId ? state : season.graph ?? { nodes: [], edges: [] }
+    if (!graphs.has(seasonId)) graphs.set(seasonId, { nodes: new Map(), edges: new Map() })
+    if (collection === 'nodes') merge(collection, graph.nodes, key, id, graphs.get(seasonId)!.nodes)
+    else merge(collection, graph.edges, key, id, graphs.get(seasonId)!.edges)
+  }
+  const live = graphs.get(state.currentSeasonId)
+  return {
+    state: {
+      ...state,
+      profiles: applyToList(state.profiles, profiles),
+      groups: applyToList(state.groups ?? [], groups),
+      seasons: seasons.map((x) => {
+        const g = graphs.get(x.id)
+        if (!g || x.id === state.currentSeasonId) return x
+        const graph = x.graph ?? { nodes: [], edges: [] }
+        return { ...x, graph: { nodes: applyToList(graph.nodes, g.nodes), edges: applyToList(graph.edges, g.edges) } }
+      }),
+      nodes: live ? applyToList(state.nodes, live.nodes) : state.nodes,
+      edges: live ? applyToList(state.edges, live.edges) : state.edges,
+    },
+    base: nextBase,
+  }
+}
@@ -0,0 +1,215 @@
+import type { GiftEdge, GiftNode, IdeaStatus, Profile, ProfileId } from '@/types/gift'
+import { IDEA_STATUSES, STATUS_LABELS } from '@/lib/status'
+import { hierarchyParents } from '@/lib/hierarchy'
+import { parseProductUrl } from '@/lib/productUrl'
+
+// Excel and Sheets run cells starting like this as formulas; a leading ' keeps them plain text
+const FORMULA_START = /^[=+\-@\t\r]/
+
+// RFC 4180: fields holding a comma, quote or line break are quoted, quotes are doubled
+function quote(field: string): string {
+  const safe = FORMULA_START.test(field) ? `'${field}` : field
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+// Undoes the formula guard of `quote`, so exported files import back unchanged
+const unguard = (text: string) => text.replace(/^'(?=[=+\-@\t\r])/, '')
+
+export function toCSV(rows: string[][]): string {
+  return rows.map((row) => row.map(quote).join(',')).join('\r\n') + '\r\n'
+}
+
+// Handles quoted fields spanning lines, CRLF or LF endings and the BOM spreadsheet apps prepend.
+// Blank lines are dropped.
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const src = text.replace(/^\uFEFF/, '')
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== '') rows.push(row)
+    row = []
+    field = ''
+  }
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += ch
+    }
+  }
+  if (field !== '' || row.length > 0) endRow()
+  return rows
+}
+
+export type CsvField = 'person' | 'title' | 'owner' | 'status' | 'notes' | 'price' | 'currency' | 'quantity' | 'url' | 'store'
+
+export const CSV_FIELDS: CsvField[] = ['person', 'title', 'owner', 'status', 'notes', 'price', 'currency', 'quantity', 'url', 'store']
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  person: 'Person',
+  title: 'Idea',
+  owner: 'Owner',
+  status: 'Status',
+  notes: 'Notes',
+  price: 'Price',
+  currency: 'Currency',
+  quantity: 'Quantity',
+  url: 'Link',
+  store: 'Store',
+}
+
+// Header spellings recognised when guessing the mapping, beyond the export's own labels
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  person: ['person', 'name', 'recipient', 'for', 'who'],
+  title: ['idea', 'gift', 'title', 'item'],
+  owner: ['owner', 'profile', 'added by', 'from'],
+  status: ['status', 'stage'],
+  notes: ['notes', 'note', 'details', 'comments'],
+  price: ['price', 'cost', 'amount'],
+  currency: ['currency'],
+  quantity: ['quantity', 'qty', 'count'],
+  url: ['link', 'url', 'product link'],
+  store: ['store', 'shop', 'retailer'],
+}
+
+// Column index per field; unmapped fields are left out
+export type CsvMapping = Partial<Record<CsvField, number>>
+
+export function guessMapping(headers: string[]): CsvMapping {
+  const mapping: CsvMapping = {}
+  const normalised = headers.map((h) => h.trim().toLowerCase())
+  for (const field of CSV_FIELDS) {
+    const index = normalised.findIndex((h, i) => HEADER_ALIASES[field].includes(h) && !Object.values(mapping).includes(i))
+    if (index >= 0) mapping[field] = index
+  }
+  return mapping
+}
+
+// One row per idea; people without ideas get a row with an empty idea so they survive a round trip.
+export function exportIdeasCSV(nodes: GiftNode[], edges: GiftEdge[], profiles: Profile[]): string {
+  const byId = new Map(nodes.map((n) => [n.id, n]))
+  const profileName = (id?: ProfileId) => (id ? profiles.find((p) => p.id === id)?.name ?? id : '')
+  const withIdeas = new Set<string>()
+  const rows: string[][] = []
+  for (const n of nodes) {
+    if (n.type !== 'idea') continue
+    const person = byId.get(hierarchyParents(edges, n.id)[0] ?? '')
+    if (person) withIdeas.add(person.id)
+    const d = n.data
+    rows.push([
+      person?.type === 'person' ? person.data.label : '',
+      d.title,
+      profileName(d.owner),
+      d.status ? STATUS_LABELS[d.status] : '',
+      d.notes ?? '',
+      d.price === undefined ? '' : String(d.price),
+      d.currency ?? '',
+      d.quantity === undefined ? '' : String(d.quantity),
+      d.url ?? '',
+      d.store ?? '',
+    ])
+  }
+  for (const n of nodes) {
+    if (n.type === 'person' && !withIdeas.has(n.id)) rows.push([n.data.label, '', profileName(n.data.owner), '', '', '', '', '', '', ''])
+  }
+  return toCSV([CSV_FIELDS.map((f) => CSV_FIELD_LABELS[f]), ...rows])
+}
+
+export interface PlannedIdea {
+  // Spreadsheet row number (the header is row 1), for the preview
+  row: number
+  person: string
+  title: string
+  owner?: ProfileId
+  status?: IdeaStatus
+  notes?: string
+  price?: number
+  currency?: string
+  quantity?: number
+  url?: string
+  store?: string
+}
+
+export interface CsvImportPlan {
+  // personKey → id of someone already on the map with that name
+  existingPeople: Record<string, string>
+  // Names to create, each once no matter how many rows (or spellings of its case) mention it
+  newPeople: string[]
+  ideas: PlannedIdea[]
+  skipped: { row: number; reason: string }[]
+}
+
+// People are matched by name, ignoring case and extra spaces
+export const personKey = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase()
+
+function parseStatus(text: string): IdeaStatus | undefined {
+  const t = text.trim().toLowerCase()
+  return IDEA_STATUSES.find((s) => s === t || STATUS_LABELS[s].toLowerCase() === t)
+}
+
+function parseNumber(text: string): number | undefined {
+  const n = Number(text.replace(/[^\d.-]/g, ''))
+  return text.trim() !== '' && Number.isFinite(n) && n >= 0 ? n : undefined
+}
+
+// Works out what an import would do without touching the store, so it can be previewed first.
+// `rows` excludes the header row.
+export function planCsvImport(rows: string[][], mapping: CsvMapping, graph: { nodes: GiftNode[]; profiles: Profile[] }): CsvImportPlan {
+  const existing = new Map<string, string>()
+  for (const n of graph.nodes) if (n.type === 'person' && !existing.has(personKey(n.data.label))) existing.set(personKey(n.data.label), n.id)
+  const profileFor = (text: string) => {
+    const t = text.trim().toLowerCase()
+    return graph.profiles.find((p) => p.id.toLowerCase() === t || p.name.toLowerCase() === t)?.id
+  }
+  const plan: CsvImportPlan = { existingPeople: {}, newPeople: [], ideas: [], skipped: [] }
+  const created = new Set<string>()
+  rows.forEach((cells, i) => {
+    const row = i + 2
+    const cell = (field: CsvField) => (mapping[field] === undefined ? '' : unguard(cells[mapping[field]!] ?? '').trim())
+    const person = cell('person').replace(/\s+/g, ' ')
+    if (!person) return plan.skipped.push({ row, reason: 'No person' })
+    const key = personKey(person)
+    if (existing.has(key)) plan.existingPeople[key] = existing.get(key)!
+    else if (!created.has(key)) {
+      created.add(key)
+      plan.newPeople.push(person)
+    }
+    const title = cell('title')
+    if (!title) return
+    const quantity = parseNumber(cell('quantity'))
+    plan.ideas.push({
+      row,
+      person,
+      title,
+      owner: profileFor(cell('owner')),
+      status: parseStatus(cell('status')),
+      notes: cell('notes') || undefined,
+      price: parseNumber(cell('price')),
+      currency: cell('currency').toUpperCase() || undefined,
+      quantity: quantity === undefined ? undefined : Math.max(1, Math.round(quantity)),
+      // Only web links; bare domains get https://
+      url: parseProductUrl(cell('url'))?.url,
+      store: cell('store') || undefined,
+    })
+  })
+  return plan
+}
@@ -0,0 +1,183 @@
+import type { GiftEdge, GiftNode, IdeaData, IdeaNode, IdeaStatus, Profile, ProfileId } from '@/types/gift'
+import { normalizeName } from '@/lib/seasons'
+
+const STOPWORDS = new Set(['a', 'an', 'the', 'of', 'for', 'and', 'with', 'set', 'pair'])
+
+export const TITLE_MATCH_THRESHOLD = 0.8
+
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((w) => w && !STOPWORDS.has(w))
+    .join(' ')
+}
+
+function bigrams(s: string): string[] {
+  const compact = s.replace(/ /g, '')
+  const grams: string[] = []
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2))
+  return grams
+}
+
+// Sørensen–Dice coefficient over character bigrams of the normalized titles (0..1).
+export function titleSimilarity(a: string, b: string): number {
+  const na = normalizeTitle(a)
+  const nb = normalizeTitle(b)
+  if (!na || !nb) return 0
+  if (na === nb) return 1
+  const ga = bigrams(na)
+  const gb = bigrams(nb)
+  if (ga.length === 0 || gb.length === 0) return 0
+  const counts = new Map<string, number>()
+  for (const g of ga) counts.set(g, (counts.get(g) ?? 0) + 1)
+  let overlap = 0
+  for (const g of gb) {
+    const c = counts.get(g) ?? 0
+    if (c > 0) {
+      overlap++
+      counts.set(g, c - 1)
+    }
+  }
+  return (2 * overlap) / (ga.length + gb.length)
+}
+
+// Host (without www.) plus path, so tracking parameters and fragments don't hide a match.
+export function normalizeLink(url: string): string | undefined {
+  try {
+    const u = new URL(url)
+    const host = u.hostname.toLowerCase().replace(/^www\./, '')
+    const path = u.pathname.replace(/\/+$/, '').toLowerCase()
+    return `${host}${path}`
+  } catch {
+    return undefined
+  }
+}
+
+export function ideaLinks(idea: IdeaData): string[] {
+  const found = (idea.notes ?? '').match(/https?:\/\/[^\s<>"')]+/g) ?? []
+  return found.map(normalizeLink).filter((l): l is string => !!l)
+}
+
+export type ConflictReason = 'link' | 'title'
+
+export type ConflictResolution = 'dismissed' | 'claimed'
+
+export interface GiftConflict {
+  key: string
+  recipient: string
+  ideaIds: [string, string]
+  owners: [ProfileId, ProfileId]
+  reason: ConflictReason
+  score: number
+  // Profiles linked to the recipient person nodes; they must never learn about the conflict
+  recipientProfiles: ProfileId[]
+  // Owners who said it isn't a duplicate; the other owner still sees it until they do too
+  dismissedBy: ProfileId[]
+  claimedBy?: ProfileId
+}
+
+export function conflictKey(a: string, b: string): string {
+  return [a, b].sort().join('|')
+}
+
+// Recipients are matched by normalized person name, because each profile keeps its own person nodes.
+function recipientsByIdea(nodes: GiftNode[], edges: GiftEdge[]): Map<string, { name: string; profileId?: ProfileId }> {
+  const persons = new Map<string, { name: string; profileId?: ProfileId }>()
+  for (const n of nodes) if (n.type === 'person') persons.set(n.id, { name: normalizeName(n.data.label), profileId: n.data.profileId })
+  const map = new Map<string, { name: string; profileId?: ProfileId }>()
+  for (const e of edges) {
+    const person = persons.get(e.source)
+    if (person && !map.has(e.target)) map.set(e.target, person)
+  }
+  return map
+}
+
+function resolutionState(a: IdeaNode, b: IdeaNode): Pick<GiftConflict, 'dismissedBy' | 'claimedBy'> {
+  const ra = a.data.conflicts?.[b.id]
+  const rb = b.data.conflicts?.[a.id]
+  const dismissedBy = [ra === 'dismissed' ? a.data.owner : undefined, rb === 'dismissed' ? b.data.owner : undefined].filter(Boolean) as ProfileId[]
+  const claimants = [ra === 'claimed' ? a.data.owner : undefined, rb === 'claimed' ? b.data.owner : undefined].filter(Boolean) as ProfileId[]
+  return { dismissedBy, claimedBy: claimants.length === 1 ? claimants[0] : undefined }
+}
+
+// Compares every pair of ideas for the same recipient owned by different profiles.
+export function detectConflicts(nodes: GiftNode[], edges: GiftEdge[], threshold = TITLE_MATCH_THRESHOLD): GiftConflict[] {
+  const recipients = recipientsByIdea(nodes, edges)
+  const groups = new Map<string, IdeaNode[]>()
+  for (const n of nodes) {
+    // Sealed ideas only carry a placeholder title, so there is nothing to compare yet
+    if (n.type !== 'idea' || !n.data.owner || n.data.sealed) continue
+    const recipient = recipients.get(n.id)
+    if (!recipient) continue
+    groups.set(recipient.name, (groups.get(recipient.name) ?? []).concat(n))
+  }
+
+  const conflicts: GiftConflict[] = []
+  for (const [recipient, ideas] of groups) {
+    for (let i = 0; i < ideas.length; i++) {
+      for (let j = i + 1; j < ideas.length; j++) {
+        const a = ideas[i]
+        const b = ideas[j]
+        if (a.data.owner === b.data.owner) continue
+        const linksA = new Set(ideaLinks(a.data))
+        const sharedLink = ideaLinks(b.data).some((l) => linksA.has(l))
+        const score = sharedLink ? 1 : titleSimilarity(a.data.title, b.data.title)
+        if (!sharedLink && score < threshold) continue
+        conflicts.push({
+          key: conflictKey(a.id, b.id),
+          recipient,
+          ideaIds: [a.id, b.id],
+          owners: [a.data.owner!, b.data.owner!],
+          reason: sharedLink ? 'link' : 'title',
+          score,
+          recipientProfiles: [recipients.get(a.id)?.profileId, recipients.get(b.id)?.profileId].filter((p): p is ProfileId => !!p),
+          ...resolutionState(a, b),
+        })
+      }
+    }
+  }
+  return conflicts
+}
+
+export type ConflictBadge = 'open' | 'claimed_by_me' | 'claimed_by_other'
+
+export interface ConflictView {
+  key: string
+  recipient: string
+  reason: ConflictReason
+  badge: ConflictBadge
+  mine: { id: string; title: string }
+  // Details of the other idea are only present when its owner shares their profile with the viewer.
+  other: { id: string; shared: boolean; ownerName?: string; title?: string; status?: IdeaStatus }
+}
+
+export function conflictsForProfile(conflicts: GiftConflict[], nodes: GiftNode[], profiles: Profile[], viewer: ProfileId | undefined): ConflictView[] {
+  if (!viewer) return []
+  const byId = new Map(nodes.map((n) => [n.id, n]))
+  const views: ConflictView[] = []
+  for (const c of conflicts) {
+    if (c.dismissedBy.includes(viewer) || c.recipientProfiles.includes(viewer)) continue
+    const side = c.owners.indexOf(viewer)
+    if (side < 0) continue
+    const mine = byId.get(c.ideaIds[side])
+    const other = byId.get(c.ideaIds[1 - side])
+    if (mine?.type !== 'idea' || other?.type !== 'idea') continue
+    const otherProfile = profiles.find((p) => p.id === c.owners[1 - side])
+    const shared = !!otherProfile?.shareWith.includes(viewer)
+    views.push({
+      key: c.key,
+      recipient: c.recipient,
+      reason: c.reason,
+      badge: !c.claimedBy ? 'open' : c.claimedBy === viewer ? 'claimed_by_me' : 'claimed_by_other',
+      mine: { id: mine.id, title: mine.data.title },
+      other: shared
+        ? { id: other.id, shared, ownerName: otherProfile!.name, title: other.data.title, status: other.data.status }
+        : { id: other.id, shared },
+    })
+  }
+  return views
+}
@@ -0,0 +1,119 @@
+import type { ExchangeConfig, ExchangePairing, GiftEdge, GiftNode, SeasonGraph } from '@/types/gift'
+import { createRng } from '@/lib/random'
+import { normalizeName } from '@/lib/seasons'
+
+export const EXCHANGE_EDGE_LABEL = '🎁 Gift exchange'
+
+export type DrawResult =
+  | { ok: true; pairings: ExchangePairing[]; seed: number }
+  | { ok: false; error: string }
+
+export interface ProofCheck {
+  rule: string
+  passed: boolean
+  detail: string
+}
+
+export interface DrawProof {
+  valid: boolean
+  checks: ProofCheck[]
+}
+
+function shuffle<T>(items: T[], rng: () => number): T[] {
+  const out = items.slice()
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1))
+    ;[out[i], out[j]] = [out[j], out[i]]
+  }
+  return out
+}
+
+// Returns why `giver` may not give to `receiver`, or undefined when the pairing is allowed.
+function violation(config: ExchangeConfig, giver: string, receiver: string): string | undefined {
+  if (giver === receiver) return 'self'
+  if (config.exclusions.some(([a, b]) => (a === giver && b === receiver) || (a === receiver && b === giver))) return 'excluded'
+  if (config.households.some((h) => h.includes(giver) && h.includes(receiver))) return 'household'
+  if (config.avoidPrevious && config.previous.some((p) => p.giver === giver && p.receiver === receiver)) return 'previous'
+  return undefined
+}
+
+// Backtracking over receivers in a seeded random order; the same seed and config always give
+// the same draw. Returns an error rather than relaxing constraints when no assignment exists.
+export function drawExchange(config: ExchangeConfig, seed: number): DrawResult {
+  const givers = config.participants
+  if (givers.length < 2) return { ok: false, error: 'need_two_participants' }
+  const rng = createRng(seed)
+  const order = shuffle(givers, rng)
+  const candidates = new Map(order.map((g) => [g, shuffle(givers, rng).filter((r) => !violation(config, g, r))]))
+  // Most constrained givers first keeps the search small
+  order.sort((a, b) => candidates.get(a)!.length - candidates.get(b)!.length)
+
+  const taken = new Set<string>()
+  const pairings: ExchangePairing[] = []
+  const assign = (i: number): boolean => {
+    if (i === order.length) return true
+    const giver = order[i]
+    for (const receiver of candidates.get(giver)!) {
+      if (taken.has(receiver)) continue
+      taken.add(receiver)
+      pairings.push({ giver, receiver })
+      if (assign(i + 1)) return true
+      pairings.pop()
+      taken.delete(receiver)
+    }
+    return false
+  }
+  if (!assign(0)) return { ok: false, error: 'no_valid_assignment' }
+  return { ok: true, pairings, seed }
+}
+
+// Independent re-check of a draw. Details never name pairs, so the proof can be shown to everyone.
+export function verifyDraw(config: ExchangeConfig, pairings: ExchangePairing[]): DrawProof {
+  const participants = new Set(config.participants)
+  const givers = pairings.map((p) => p.giver)
+  const receivers = pairings.map((p) => p.receiver)
+  const count = (reason: string) => pairings.filter((p) => violation(config, p.giver, p.receiver) === reason).length
+  const checks: ProofCheck[] = [
+    {
+      rule: 'Everyone gives exactly once',
+      passed: givers.length === participants.size && new Set(givers).size === givers.length && givers.every((g) => participants.has(g)),
+      detail: `${new Set(givers).size} of ${participants.size} participants give`,
+    },
+    {
+      rule: 'Everyone receives exactly once',
+      passed: receivers.length === participants.size && new Set(receivers).size === receivers.length && receivers.every((r) => participants.has(r)),
+      detail: `${new Set(receivers).size} of ${participants.size} participants receive`,
+    },
+    { rule: 'Nobody draws themselves', passed: count('self') === 0, detail: `${count('self')} self-pairings` },
+    { rule: 'Exclusions respected', passed: count('excluded') === 0, detail: `${config.exclusions.length} exclusions, ${count('excluded')} broken` },
+    { rule: 'Households kept apart', passed: count('household') === 0, detail: `${config.households.length} households, ${count('household')} broken` },
+    {
+      rule: "Last year's pairings avoided",
+      passed: !config.avoidPrevious || count('previous') === 0,
+      detail: config.avoidPrevious ? `${config.previous.length} previous pairings, ${count('previous')} repeated` : 'not required',
+    },
+  ]
+  return { valid: checks.every((c) => c.passed), checks }
+}
+
+export function isExchangeEdge(e: GiftEdge): boolean {
+  return e.data?.kind === 'exchange'
+}
+
+export function pairingsFromEdges(edges: GiftEdge[]): ExchangePairing[] {
+  return edges.filter(isExchangeEdge).map((e) => ({ giver: e.source, receiver: e.target }))
+}
+
+// Maps an earlier season's exchange onto the current person ids by name, for the "avoid last year" rule.
+export function previousPairings(previous: SeasonGraph | undefined, nodes: GiftNode[]): ExchangePairing[] {
+  if (!previous) return []
+  const oldNames = new Map(previous.nodes.filter((n) => n.type === 'person').map((n) => [n.id, normalizeName(n.data.label)]))
+  const currentIds = new Map(nodes.filter((n) => n.type === 'person').map((n) => [normalizeName(n.data.label), n.id]))
+  const pairs: ExchangePairing[] = []
+  for (const p of pairingsFromEdges(previous.edges)) {
+    const giver = currentIds.get(oldNames.get(p.giver) ?? '')
+    const receiver = currentIds.get(oldNames.get(p.receiver) ?? '')
+    if (giver && receiver) pairs.push({ giver, receiver })
+  }
+  return pairs
+}
@@ -0,0 +1,33 @@
+import type { GroupId, Profile, ProfileGroup, ProfileId } from '@/types/gift'
+
+export function groupsOf(groups: ProfileGroup[], profileId: ProfileId | undefined): GroupId[] {
+  if (!profileId) return []
+  return groups.filter((g) => g.members.includes(profileId)).map((g) => g.id)
+}
+
+// Owner ids covered by `ids`, where a group id stands for the group's own nodes and all its members'
+export function expandGroups(ids: string[], groups: ProfileGroup[]): Set<string> {
+  const out = new Set(ids)
+  for (const g of groups) if (out.has(g.id)) for (const m of g.members) out.add(m)
+  return out
+}
+
+// Takes a removed profile out of every group; on a merge `into` takes its place. Groups left
+// without members are dropped, so their nodes need a new owner.
+export function withoutMember(groups: ProfileGroup[], id: ProfileId, into?: ProfileId): ProfileGroup[] {
+  return groups.flatMap((g) => {
+    if (!g.members.includes(id)) return [g]
+    const members = g.members.filter((m) => m !== id)
+    if (into && !members.includes(into)) members.push(into)
+    return members.length > 0 ? [{ ...g, members }] : []
+  })
+}
+
+// Forgets a deleted group in everyone's sharing
+export function unshareGroup(profiles: Profile[], id: GroupId): Profile[] {
+  return profiles.map((p) => {
+    if (!p.shareWithGroups?.includes(id)) return p
+    const { [id]: _role, ...shareRoles } = p.shareRoles ?? {}
+    return { ...p, shareWithGroups: p.shareWithGroups.filter((g) => g !== id), shareRoles }
+  })
+}
@@ -0,0 +1,37 @@
+import type { GiftEdge, GiftNode, NodeKind } from '@/types/gift'
+import { isExchangeEdge } from '@/lib/exchange'
+
+// The map is a strict root → person → idea tree. Exchange pairings (person → person) sit beside
+// it and are only ever created by the exchange draw.
+export const CHILD_KIND: Partial<Record<NodeKind, NodeKind>> = { root: 'person', person: 'idea' }
+
+export type HierarchyCheck = { ok: true } | { ok: false; error: string }
+
+export function hierarchyParents(edges: GiftEdge[], id: string): string[] {
+  return edges.filter((e) => e.target === id && !isExchangeEdge(e)).map((e) => e.source)
+}
+
+// Rules for a hand-drawn connection. Ideas are never wired up by hand: they get their parent when
+// created and change it through reparenting, which keeps exactly one person above each idea.
+export function checkConnection(nodes: GiftNode[], edges: GiftEdge[], source: string, target: string): HierarchyCheck {
+  const from = nodes.find((n) => n.id === source)
+  const to = nodes.find((n) => n.id === target)
+  if (!from || !to) return { ok: false, error: 'Both ends must be nodes on the map.' }
+  if (source === target) return { ok: false, error: 'A node cannot connect to itself.' }
+  if (to.type === 'idea') {
+    return { ok: false, error: from.type === 'person' ? 'Drag the idea onto a person to move it there.' : 'Ideas can only hang off a person.' }
+  }
+  if (from.type !== 'root' || to.type !== 'person') return { ok: false, error: 'Only the root can connect to a person.' }
+  if (hierarchyParents(edges, target).length > 0) return { ok: false, error: 'That person is already on the map.' }
+  return { ok: true }
+}
+
+export function checkReparent(nodes: GiftNode[], edges: GiftEdge[], ideaId: string, personId: string): HierarchyCheck {
+  const idea = nodes.find((n) => n.id === ideaId)
+  const person = nodes.find((n) => n.id === personId)
+  if (idea?.type !== 'idea') return { ok: false, error: 'Only ideas can be moved between people.' }
+  if (person?.type !== 'person') return { ok: false, error: 'Ideas can only be moved onto a person.' }
+  const parents = hierarchyParents(edges, ideaId)
+  if (parents.length === 1 && parents[0] === personId) return { ok: false, error: 'The idea is already under that person.' }
+  return { ok: true }
+}
@@ -0,0 +1,205 @@
+import type { GiftEdge, GiftNode } from '@/types/gift'
+import { uid } from '@/lib/uid'
+
+export const HISTORY_LIMIT = 100
+// Entries sharing a group (e.g. frames of one drag) merge while they keep arriving this close together
+export const COALESCE_WINDOW_MS = 1000
+
+// One item's change. `before` missing means it was added, `after` missing means it was removed.
+// Indices record where the item sat so undoing a removal puts it back in the same place.
+export interface ItemPatch<T> {
+  id: string
+  before?: T
+  beforeIndex?: number
+  after?: T
+  afterIndex?: number
+}
+
+export interface GraphPatch {
+  nodes: ItemPatch<GiftNode>[]
+  edges: ItemPatch<GiftEdge>[]
+}
+
+export interface HistoryEntry {
+  id: string
+  label: string
+  at: number
+  group?: string
+  patch: GraphPatch
+}
+
+interface Graph {
+  nodes: GiftNode[]
+  edges: GiftEdge[]
+}
+
+// Store updates are immutable, so an unchanged item keeps its reference and only touched items
+// end up in the patch.
+export function diffItems<T extends { id: string }>(prev: T[], next: T[]): ItemPatch<T>[] {
+  const prevIndex = new Map(prev.map((item, i) => [item.id, i]))
+  const nextIds = new Set(next.map((item) => item.id))
+  const patches: ItemPatch<T>[] = []
+  next.forEach((item, afterIndex) => {
+    const beforeIndex = prevIndex.get(item.id)
+    if (beforeIndex === undefined) patches.push({ id: item.id, after: item, afterIndex })
+    else if (prev[beforeIndex] !== item) patches.push({ id: item.id, before: prev[beforeIndex], beforeIndex, after: item, afterIndex })
+  })
+  prev.forEach((item, beforeIndex) => {
+    if (!nextIds.has(item.id)) patches.push({ id: item.id, before: item, beforeIndex })
+  })
+  return patches
+}
+
+export function diffGraph(prev: Graph, next: Graph): GraphPatch {
+  return {
+    nodes: prev.nodes === next.nodes ? [] : diffItems(prev.nodes, next.nodes),
+    edges: prev.edges === next.edges ? [] : diffItems(prev.edges, next.edges),
+  }
+}
+
+export function isEmptyPatch(patch: GraphPatch): boolean {
+  return patch.nodes.length === 0 && patch.edges.length === 0
+}
+
+// Moves items from one side of their patches to the other: 'undo' restores `before`, 'redo' `after`.
+export function applyItems<T extends { id: string }>(items: T[], patches: ItemPatch<T>[], direction: 'undo' | 'redo'): T[] {
+  if (patches.length === 0) return items
+  const from = (p: ItemPatch<T>) => (direction === 'undo' ? p.after : p.before)
+  const to = (p: ItemPatch<T>) => (direction === 'undo' ? p.before : p.after)
+  const toIndex = (p: ItemPatch<T>) => (direction === 'undo' ? p.beforeIndex : p.afterIndex) ?? Number.MAX_SAFE_INTEGER
+  const replaced = new Map(patches.filter((p) => from(p) && to(p)).map((p) => [p.id, to(p)!]))
+  const dropped = new Set(patches.filter((p) => from(p) && !to(p)).map((p) => p.id))
+  const out = items.filter((item) => !dropped.has(item.id)).map((item) => replaced.get(item.id) ?? item)
+  patches
+    .filter((p) => !from(p) && to(p))
+    .sort((a, b) => toIndex(a) - toIndex(b))
+    .forEach((p) => out.splice(Math.min(toIndex(p), out.length), 0, to(p)!))
+  return out
+}
+
+export function applyPatch(graph: Graph, patch: GraphPatch, direction: 'undo' | 'redo'): Graph {
+  return { nodes: applyItems(graph.nodes, patch.nodes, direction), edges: applyItems(graph.edges, patch.edges, direction) }
+}
+
+// Folds `newer` into `older` so the result goes straight from older's before to newer's after.
+export function mergeItems<T>(older: ItemPatch<T>[], newer: ItemPatch<T>[]): ItemPatch<T>[] {
+  const merged = new Map(older.map((p) => [p.id, { ...p }]))
+  for (const p of newer) {
+    const prev = merged.get(p.id)
+    if (!prev) merged.set(p.id, { ...p })
+    else merged.set(p.id, { ...prev, after: p.after, afterIndex: p.afterIndex })
+  }
+  // Something added and removed again inside one entry leaves no trace
+  return [...merged.values()].filter((p) => p.before !== undefined || p.after !== undefined)
+}
+
+export function createEntry(label: string, patch: GraphPatch, group?: string, at = Date.now()): HistoryEntry {
+  return { id: uid('h'), label, at, group, patch }
+}
+
+export function pushEntry(stack: HistoryEntry[], entry: HistoryEntry, limit = HISTORY_LIMIT): HistoryEntry[] {
+  const last = stack[stack.length - 1]
+  if (last && entry.group && last.group === entry.group && entry.at - last.at <= COALESCE_WINDOW_MS) {
+    const patch = { nodes: mergeItems(last.patch.nodes, entry.patch.nodes), edges: mergeItems(last.patch.edges, entry.patch.edges) }
+    return stack.slice(0, -1).concat({ ...last, at: entry.at, patch })
+  }
+  const next = stack.concat(entry)
+  return next.length > limit ? next.slice(next.length - limit) : next
+}
+
+export const BRANCH_LIMIT = 20
+
+// Redo steps abandoned by a new action, kept so they can still be jumped to. `forkAt` is the
+// entry they continue from (undefined = the start of history); `entries` are in redo order.
+export interface HistoryBranch {
+  id: string
+  forkAt?: string
+  at: number
+  entries: HistoryEntry[]
+}
+
+export interface HistoryState {
+  nodes: GiftNode[]
+  edges: GiftEdge[]
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+  branches: HistoryBranch[]
+}
+
+// Turns a redo stack (next step last) into a branch hanging off `forkAt`.
+export function stashBranch(branches: HistoryBranch[], forkAt: string | undefined, future: HistoryEntry[], at = Date.now()): HistoryBranch[] {
+  if (future.length === 0) return branches
+  const next = branches.concat({ id: uid('b'), forkAt, at, entries: future.slice().reverse() })
+  return next.length > BRANCH_LIMIT ? next.slice(next.length - BRANCH_LIMIT) : next
+}
+
+// Drops branches whose fork point no longer exists, e.g. after the oldest entries were trimmed.
+// Branches can fork off other branches, so this runs until nothing else becomes reachable.
+export function reachableBranches(branches: HistoryBranch[], known: Set<string>, startReachable: boolean): HistoryBranch[] {
+  const ids = new Set(known)
+  const kept = new Set<HistoryBranch>()
+  let grew = true
+  while (grew) {
+    grew = false
+    for (const b of branches) {
+      if (kept.has(b)) continue
+      if (b.forkAt === undefined ? startReachable : ids.has(b.forkAt)) {
+        kept.add(b)
+        b.entries.forEach((e) => ids.add(e.id))
+        grew = true
+      }
+    }
+  }
+  return branches.filter((b) => kept.has(b))
+}
+
+// Adds an entry on top of the current position, stashing any redo steps as a branch first.
+// Coalescing only happens on a straight line; after an undo a new action always starts fresh.
+export function recordEntry(h: HistoryState, entry: HistoryEntry, limit = HISTORY_LIMIT): Pick<HistoryState, 'past' | 'future' | 'branches'> {
+  const forked = h.future.length > 0
+  const branches = forked ? stashBranch(h.branches, h.past[h.past.length - 1]?.id, h.future, entry.at) : h.branches
+  const past = pushEntry(h.past, forked ? { ...entry, group: undefined } : entry, limit)
+  const trimmed = past.length > 0 && h.past.length > 0 && past[0].id !== h.past[0].id
+  return {
+    past,
+    future: [],
+    branches: trimmed ? reachableBranches(branches, new Set(past.map((e) => e.id)), false) : branches,
+  }
+}
+
+export function undoStep(h: HistoryState): HistoryState | undefined {
+  const entry = h.past[h.past.length - 1]
+  if (!entry) return undefined
+  return { ...h, ...applyPatch(h, entry.patch, 'undo'), past: h.past.slice(0, -1), future: h.future.concat(entry) }
+}
+
+export function redoStep(h: HistoryState): HistoryState | undefined {
+  const entry = h.future[h.future.length - 1]
+  if (!entry) return undefined
+  return { ...h, ...applyPatch(h, entry.patch, 'redo'), future: h.future.slice(0, -1), past: h.past.concat(entry) }
+}
+
+// Moves to the point right after `target` (undefined = before any entry), wherever it is in the
+// tree. Entering a branch swaps it with the current redo line, so nothing is ever discarded.
+export function jumpTo(h: HistoryState, target: string | undefined): HistoryState | undefined {
+  const head = () => h.past[h.past.length - 1]?.id
+  if (target === undefined || h.past.some((e) => e.id === target)) {
+    while (head() !== target) h = undoStep(h)!
+    return h
+  }
+  if (h.future.some((e) => e.id === target)) {
+    while (head() !== target) h = redoStep(h)!
+    return h
+  }
+  const branch = h.branches.find((b) => b.entries.some((e) => e.id === target))
+  if (!branch) return undefined
+  const atFork = jumpTo(h, branch.forkAt)
+  if (!atFork) return undefined
+  h = {
+    ...atFork,
+    branches: stashBranch(atFork.branches.filter((b) => b.id !== branch.id), branch.forkAt, atFork.future),
+    future: branch.entries.slice().reverse(),
+  }
+  while (head() !== target) h = redoStep(h)!
+  return h
+}
@@ -0,0 +1,121 @@
+import { SEALED_BLOB_TYPE, openBlob, sealBlob } from '@/lib/profileLock'
+import { committed, request } from '@/lib/storage'
+import { uid } from '@/lib/uid'
+
+// Idea pictures live outside the map state as raw blobs, keyed by the `imageId` stored on the idea,
+// so autosave and exports stay small. Blobs are kept when an idea is deleted so undo can bring it back.
+export interface BlobStore {
+  readonly kind: 'indexeddb' | 'memory'
+  get(id: string): Promise<Blob | null>
+  put(id: string, blob: Blob): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+
+export function createMemoryBlobStore(): BlobStore {
+  const data = new Map<string, Blob>()
+  return {
+    kind: 'memory',
+    get: async (id) => data.get(id) ?? null,
+    put: async (id, blob) => { data.set(id, blob) },
+    remove: async (id) => { data.delete(id) },
+  }
+}
+
+export interface IndexedDBBlobStoreOptions {
+  dbName?: string
+  storeName?: string
+  factory?: IDBFactory
+}
+
+export function createIndexedDBBlobStore(opts: IndexedDBBlobStoreOptions = {}): BlobStore {
+  const dbName = opts.dbName ?? 'gift-mindmap-images'
+  const storeName = opts.storeName ?? 'blobs'
+  let db: Promise<IDBDatabase> | undefined
+
+  const open = () => {
+    db ??= new Promise((resolve, reject) => {
+      const req = (opts.factory ?? indexedDB).open(dbName, 1)
+      req.onupgradeneeded = () => req.result.createObjectStore(storeName)
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+    return db
+  }
+  const store = async (mode: IDBTransactionMode) => (await open()).transaction(storeName, mode)
+
+  return {
+    kind: 'indexeddb',
+    get: async (id) => {
+      const tx = await store('readonly')
+      const value = await request(tx.objectStore(storeName).get(id))
+      return value instanceof Blob ? value : null
+    },
+    put: async (id, blob) => {
+      const tx = await store('readwrite')
+      tx.objectStore(storeName).put(blob, id)
+      await committed(tx)
+    },
+    remove: async (id) => {
+      const tx = await store('readwrite')
+      tx.objectStore(storeName).delete(id)
+      await committed(tx)
+    },
+  }
+}
+
+let current: BlobStore | undefined
+
+export function getBlobStore(): BlobStore {
+  current ??= typeof indexedDB !== 'undefined' ? createIndexedDBBlobStore() : createMemoryBlobStore()
+  return current
+}
+
+export function setBlobStore(store: BlobStore | undefined) {
+  current = store
+}
+
+export type ImageError = 'not_an_image' | 'too_large' | 'write_failed'
+export type SaveImageResult = { ok: true; imageId: string } | { ok: false; error: ImageError }
+
+// With a key the picture is stored encrypted, for ideas of passphrase-protected profiles
+export async function saveImage(file: Blob, store = getBlobStore(), key?: CryptoKey): Promise<SaveImageResult> {
+  if (!file.type.startsWith('image/')) return { ok: false, error: 'not_an_image' }
+  if (file.size > MAX_IMAGE_BYTES) return { ok: false, error: 'too_large' }
+  const imageId = uid('img')
+  try {
+    await store.put(imageId, key ? await sealBlob(key, file) : file)
+    return { ok: true, imageId }
+  } catch {
+    return { ok: false, error: 'write_failed' }
+  }
+}
+
+// Encrypted pictures come back only if one of `keys` opens them
+export async function loadImage(imageId: string, store = getBlobStore(), keys: CryptoKey[] = []): Promise<Blob | null> {
+  try {
+    const blob = await store.get(imageId)
+    if (blob?.type !== SEALED_BLOB_TYPE) return blob
+    for (const key of keys) {
+      const opened = await openBlob(key, blob)
+      if (opened) return opened
+    }
+    return null
+  } catch {
+    return null
+  }
+}
+
+// Encrypts a stored picture in place; already encrypted or missing ones are left alone
+export async function sealStoredImage(imageId: string, key: CryptoKey, store = getBlobStore()): Promise<void> {
+  const blob = await store.get(imageId)
+  if (blob && blob.type !== SEALED_BLOB_TYPE) await store.put(imageId, await sealBlob(key, blob))
+}
+
+// Decrypts a stored picture in place when `key` opens it
+export async function openStoredImage(imageId: string, key: CryptoKey, store = getBlobStore()): Promise<void> {
+  const blob = await store.get(imageId)
+  const opened = blob && (await openBlob(key, blob))
+  if (opened) await store.put(imageId, opened)
+}
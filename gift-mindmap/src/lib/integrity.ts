@@ -0,0 +1,160 @@
+import type { ExportedState, GiftEdge, GiftNode, SeasonGraph } from '@/types/gift'
+import { uid } from '@/lib/uid'
+import { isExchangeEdge } from '@/lib/exchange'
+import { CHILD_KIND } from '@/lib/hierarchy'
+import { DEFAULT_SEASON_NAME, rootLabelFor } from '@/lib/seasons'
+
+export type IssueSeverity = 'error' | 'warning'
+
+export type IssueCode =
+  | 'missing_root'
+  | 'multiple_roots'
+  | 'duplicate_node_id'
+  | 'duplicate_edge_id'
+  | 'dangling_edge'
+  | 'invalid_edge'
+  | 'duplicate_parent'
+  | 'orphan_person'
+  | 'orphan_idea'
+
+// Errors break the map outright (React Flow can't render it sensibly); warnings leave it usable
+// but outside the root → person → idea shape the rest of the app assumes.
+export const ISSUE_SEVERITY: Record<IssueCode, IssueSeverity> = {
+  missing_root: 'error',
+  multiple_roots: 'error',
+  duplicate_node_id: 'error',
+  duplicate_edge_id: 'error',
+  dangling_edge: 'error',
+  invalid_edge: 'warning',
+  duplicate_parent: 'warning',
+  orphan_person: 'warning',
+  orphan_idea: 'warning',
+}
+
+export interface IntegrityIssue {
+  code: IssueCode
+  severity: IssueSeverity
+  message: string
+  nodeId?: string
+  edgeId?: string
+  // Name of the inactive season the issue was found in; unset for the active graph
+  season?: string
+}
+
+export const PLACEHOLDER_PERSON_LABEL = 'Unsorted ideas'
+
+function issue(code: IssueCode, message: string, ids: { nodeId?: string; edgeId?: string } = {}): IntegrityIssue {
+  return { code, severity: ISSUE_SEVERITY[code], message, ...ids }
+}
+
+const nodeName = (n: GiftNode) => (n.type === 'idea' ? n.data.title : n.data.label)
+
+function duplicates(ids: string[]): string[] {
+  const seen = new Set<string>()
+  const dupes = new Set<string>()
+  for (const id of ids) (seen.has(id) ? dupes : seen).add(id)
+  return [...dupes]
+}
+
+// Exchange pairings run person → person; every other edge must follow the tree.
+function edgeFits(e: GiftEdge, from: GiftNode, to: GiftNode): boolean {
+  if (e.source === e.target) return false
+  if (isExchangeEdge(e)) return from.type === 'person' && to.type === 'person'
+  return CHILD_KIND[from.type] === to.type
+}
+
+export function validateGraph({ nodes, edges }: SeasonGraph): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = []
+  const roots = nodes.filter((n) => n.type === 'root')
+  if (roots.length === 0) issues.push(issue('missing_root', 'The map has no root node.'))
+  if (roots.length > 1) issues.push(issue('multiple_roots', `The map has ${roots.length} root nodes.`, { nodeId: roots[1].id }))
+  for (const id of duplicates(nodes.map((n) => n.id))) issues.push(issue('duplicate_node_id', `Several nodes share the id '${id}'.`, { nodeId: id }))
+  for (const id of duplicates(edges.map((e) => e.id))) issues.push(issue('duplicate_edge_id', `Several edges share the id '${id}'.`, { edgeId: id }))
+
+  const byId = new Map<string, GiftNode>()
+  for (const n of nodes) if (!byId.has(n.id)) byId.set(n.id, n)
+  const parents = new Map<string, string[]>()
+  for (const e of edges) {
+    const from = byId.get(e.source)
+    const to = byId.get(e.target)
+    if (!from || !to) {
+      issues.push(issue('dangling_edge', `Edge '${e.id}' points at a node that doesn't exist.`, { edgeId: e.id }))
+    } else if (!edgeFits(e, from, to)) {
+      issues.push(issue('invalid_edge', `'${nodeName(from)}' can't connect to '${nodeName(to)}'.`, { edgeId: e.id }))
+    } else if (!isExchangeEdge(e)) {
+      parents.set(e.target, (parents.get(e.target) ?? []).concat(e.source))
+    }
+  }
+
+  for (const n of byId.values()) {
+    const count = parents.get(n.id)?.length ?? 0
+    if (n.type === 'root') continue
+    if (count > 1) issues.push(issue('duplicate_parent', `'${nodeName(n)}' is attached in ${count} places.`, { nodeId: n.id }))
+    if (count === 0 && n.type === 'person') issues.push(issue('orphan_person', `'${nodeName(n)}' isn't connected to the root.`, { nodeId: n.id }))
+    if (count === 0 && n.type === 'idea') issues.push(issue('orphan_idea', `'${nodeName(n)}' doesn't belong to anyone.`, { nodeId: n.id }))
+  }
+  return issues
+}
+
+// Fixes everything validateGraph reports without throwing data away: duplicate ids get fresh ones,
+// extra roots fold into the first, broken edges go, and loose nodes are hung back on the tree
+// (ideas under a placeholder person, so they're easy to find and move).
+export function repairGraph({ nodes, edges }: SeasonGraph, seasonName = DEFAULT_SEASON_NAME): SeasonGraph {
+  const seenNodes = new Set<string>()
+  let out = nodes.map((n) => {
+    const fresh = seenNodes.has(n.id) ? ({ ...n, id: uid(n.type) } as GiftNode) : n
+    seenNodes.add(fresh.id)
+    return fresh
+  })
+
+  let root = out.find((n) => n.type === 'root')
+  if (!root) {
+    root = { id: uid('root'), type: 'root', position: { x: 0, y: 0 }, data: { label: rootLabelFor(seasonName) } }
+    out = [root, ...out]
+  }
+  const extraRoots = new Set(out.filter((n) => n.type === 'root' && n !== root).map((n) => n.id))
+  out = out.filter((n) => !extraRoots.has(n.id))
+  const byId = new Map(out.map((n) => [n.id, n]))
+
+  const seenEdges = new Set<string>()
+  const hasParent = new Set<string>()
+  const kept: GiftEdge[] = []
+  for (const e of edges) {
+    const source = extraRoots.has(e.source) ? root.id : e.source
+    const from = byId.get(source)
+    const to = byId.get(e.target)
+    if (!from || !to || !edgeFits(e, from, to)) continue
+    if (!isExchangeEdge(e)) {
+      if (hasParent.has(e.target)) continue
+      hasParent.add(e.target)
+    }
+    const id = seenEdges.has(e.id) ? uid('e') : e.id
+    seenEdges.add(id)
+    kept.push(source === e.source && id === e.id ? e : { ...e, id, source })
+  }
+
+  const loosePeople = out.filter((n) => n.type === 'person' && !hasParent.has(n.id))
+  const looseIdeas = out.filter((n) => n.type === 'idea' && !hasParent.has(n.id))
+  kept.push(...loosePeople.map((n) => ({ id: uid('e'), source: root!.id, target: n.id })))
+  if (looseIdeas.length > 0) {
+    const placeholder: GiftNode = { id: uid('person'), type: 'person', position: { x: root.position.x, y: root.position.y - 320 }, data: { label: PLACEHOLDER_PERSON_LABEL } }
+    out.push(placeholder)
+    kept.push({ id: uid('e'), source: root.id, target: placeholder.id }, ...looseIdeas.map((n) => ({ id: uid('e'), source: placeholder.id, target: n.id })))
+  }
+  return { nodes: out, edges: kept }
+}
+
+// Inactive seasons keep their own graphs, so an import is checked season by season.
+export function validateState(state: ExportedState): IntegrityIssue[] {
+  const seasonIssues = state.seasons
+    .filter((s) => s.graph && s.id !== state.currentSeasonId)
+    .flatMap((s) => validateGraph(s.graph!).map((i) => ({ ...i, season: s.name })))
+  return validateGraph(state).concat(seasonIssues)
+}
+
+export function repairState(state: ExportedState): ExportedState {
+  const current = state.seasons.find((s) => s.id === state.currentSeasonId)
+  const { nodes, edges } = validateGraph(state).length > 0 ? repairGraph(state, current?.name) : state
+  const seasons = state.seasons.map((s) => (s.graph && s.id !== state.currentSeasonId && validateGraph(s.graph).length > 0 ? { ...s, graph: repairGraph(s.graph, s.name) } : s))
+  return { ...state, nodes, edges, seasons }
+}
@@ -1,4 +1,17 @@
-import type { GiftNode } from '@/types/gift'
+import type { GiftEdge, GiftNode, XYPosition } from '@/types/gift'
+import { isExchangeEdge } from '@/lib/exchange'
+import { CHILD_KIND } from '@/lib/hierarchy'
+import { createRng } from '@/lib/random'
+
+export type LayoutKind = 'radial' | 'tree-tb' | 'tree-lr' | 'rings' | 'force'
+
+export const LAYOUT_LABELS: Record<LayoutKind, string> = {
+  radial: 'Single ring',
+  'tree-tb': 'Tree (top-down)',
+  'tree-lr': 'Tree (left-right)',
+  rings: 'People with idea orbits',
+  force: 'Force-directed',
+}
 
 // Simple radial layout helper. Returns a new nodes array with updated positions.
 export function radialLayout(nodes: GiftNode[], center = { x: 0, y: 0 }, radius = 240): GiftNode[] {
@@ -23,3 +36,215 @@ export function translate(nodes: GiftNode[], dx: number, dy: number): GiftNode[]
   return nodes.map((n) => ({ ...n, position: { x: n.position.x + dx, y: n.position.y + dy } }))
 }
 
+function withPositions(nodes: GiftNode[], positions: Map<string, XYPosition>): GiftNode[] {
+  return nodes.map((n) => {
+    const p = positions.get(n.id)
+    return p ? { ...n, position: p } : n
+  })
+}
+
+// root → person → idea hierarchy. Each node keeps its first hierarchical parent; exchange edges
+// (person → person) are ignored. Nodes that can't be reached from the root are returned as orphans.
+export function buildHierarchy(nodes: GiftNode[], edges: GiftEdge[]) {
+  const byId = new Map(nodes.map((n) => [n.id, n]))
+  const children = new Map<string, string[]>()
+  const parent = new Map<string, string>()
+  for (const e of edges) {
+    if (isExchangeEdge(e) || parent.has(e.target)) continue
+    const src = byId.get(e.source)
+    const dst = byId.get(e.target)
+    if (!src || !dst || CHILD_KIND[src.type] !== dst.type) continue
+    parent.set(e.target, e.source)
+    children.set(e.source, (children.get(e.source) ?? []).concat(e.target))
+  }
+  const root = nodes.find((n) => n.type === 'root')
+  const reached = new Set<string>()
+  const visit = (id: string) => {
+    reached.add(id)
+    for (const c of children.get(id) ?? []) visit(c)
+  }
+  if (root) visit(root.id)
+  const orphans = nodes.filter((n) => !reached.has(n.id)).map((n) => n.id)
+  return { root, children, parent, orphans }
+}
+
+export interface TreeLayoutOptions {
+  direction?: 'TB' | 'LR'
+  siblingGap?: number
+  levelGap?: number
+}
+
+// Tidy tree: leaves take consecutive slots, each parent is centred over its children, so
+// subtrees never overlap. Orphans go on an extra row after the deepest level.
+export function treeLayout(nodes: GiftNode[], edges: GiftEdge[], opts: TreeLayoutOptions = {}): GiftNode[] {
+  const direction = opts.direction ?? 'TB'
+  const siblingGap = opts.siblingGap ?? (direction === 'TB' ? 250 : 100)
+  const levelGap = opts.levelGap ?? (direction === 'TB' ? 180 : 320)
+  const { root, children, orphans } = buildHierarchy(nodes, edges)
+  const slots = new Map<string, { slot: number; depth: number }>()
+  let next = 0
+  let maxDepth = 0
+
+  const place = (id: string, depth: number): number => {
+    maxDepth = Math.max(maxDepth, depth)
+    const kids = children.get(id) ?? []
+    let slot: number
+    if (kids.length === 0) {
+      slot = next++
+    } else {
+      const placed = kids.map((k) => place(k, depth + 1))
+      slot = (placed[0] + placed[placed.length - 1]) / 2
+    }
+    slots.set(id, { slot, depth })
+    return slot
+  }
+  if (root) place(root.id, 0)
+
+  const rootSlot = root ? slots.get(root.id)!.slot : 0
+  orphans.forEach((id, i) => slots.set(id, { slot: rootSlot - (orphans.length - 1) / 2 + i, depth: maxDepth + 1 }))
+
+  const positions = new Map<string, XYPosition>()
+  for (const [id, { slot, depth }] of slots) {
+    const across = (slot - rootSlot) * siblingGap
+    const down = depth * levelGap
+    positions.set(id, direction === 'TB' ? { x: across, y: down } : { x: down, y: across })
+  }
+  return withPositions(nodes, positions)
+}
+
+export interface RingLayoutOptions {
+  center?: XYPosition
+  minPersonRadius?: number
+  minIdeaRadius?: number
+}
+
+// Persons on one ring around the root; each person's ideas orbit it on a smaller ring sized to fit.
+export function ringLayout(nodes: GiftNode[], edges: GiftEdge[], opts: RingLayoutOptions = {}): GiftNode[] {
+  const center = opts.center ?? { x: 0, y: 0 }
+  const minIdeaRadius = opts.minIdeaRadius ?? 170
+  const { root, children, orphans } = buildHierarchy(nodes, edges)
+  const persons = root ? children.get(root.id) ?? [] : []
+  const orbit = (count: number) => Math.max(minIdeaRadius, (count * 110) / (2 * Math.PI))
+  const footprint = persons.map((p) => 2 * orbit((children.get(p) ?? []).length) + 120)
+  const circumference = footprint.reduce((a, b) => a + b, 0)
+  const personRadius = Math.max(opts.minPersonRadius ?? 360, circumference / (2 * Math.PI))
+
+  const positions = new Map<string, XYPosition>()
+  if (root) positions.set(root.id, { ...center })
+  let travelled = 0
+  persons.forEach((pid, i) => {
+    // Each person gets an arc proportional to the space its orbit needs
+    const angle = ((travelled + footprint[i] / 2) / Math.max(circumference, 1)) * Math.PI * 2
+    travelled += footprint[i]
+    const p = { x: center.x + Math.cos(angle) * personRadius, y: center.y + Math.sin(angle) * personRadius }
+    positions.set(pid, p)
+    const ideas = children.get(pid) ?? []
+    const r = orbit(ideas.length)
+    ideas.forEach((iid, j) => {
+      // Start pointing away from the root so the first idea never sits on the spoke
+      const a = angle + (j / ideas.length) * Math.PI * 2
+      positions.set(iid, { x: p.x + Math.cos(a) * r, y: p.y + Math.sin(a) * r })
+    })
+  })
+  const outer = personRadius + 2 * orbit(0) + 200
+  orphans.forEach((id, i) => {
+    const a = (i / orphans.length) * Math.PI * 2
+    positions.set(id, { x: center.x + Math.cos(a) * outer, y: center.y + Math.sin(a) * outer })
+  })
+  return withPositions(nodes, positions)
+}
+
+export interface ForceLayoutOptions {
+  iterations?: number
+  seed?: number
+  idealEdgeLength?: number
+  minDistance?: number
+}
+
+// Fruchterman–Reingold with a hard collision pass. Starts from the ring layout plus seeded
+// jitter, keeps the root pinned at the origin, and is fully deterministic for a given seed.
+export function forceLayout(nodes: GiftNode[], edges: GiftEdge[], opts: ForceLayoutOptions = {}): GiftNode[] {
+  const iterations = opts.iterations ?? 300
+  const k = opts.idealEdgeLength ?? 220
+  const minDistance = opts.minDistance ?? 180
+  const rng = createRng(opts.seed ?? 1)
+  const start = ringLayout(nodes, edges)
+  const ids = start.map((n) => n.id)
+  const index = new Map(ids.map((id, i) => [id, i]))
+  const pinned = start.map((n) => n.type === 'root')
+  const xs = start.map((n, i) => n.position.x + (pinned[i] ? 0 : (rng() - 0.5) * 10))
+  const ys = start.map((n, i) => n.position.y + (pinned[i] ? 0 : (rng() - 0.5) * 10))
+  const links = edges
+    .filter((e) => !isExchangeEdge(e) && index.has(e.source) && index.has(e.target))
+    .map((e) => [index.get(e.source)!, index.get(e.target)!] as const)
+
+  let temperature = k
+  for (let it = 0; it < iterations; it++) {
+    const dx = new Array(ids.length).fill(0)
+    const dy = new Array(ids.length).fill(0)
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const vx = xs[i] - xs[j]
+        const vy = ys[i] - ys[j]
+        const d = Math.max(Math.hypot(vx, vy), 0.01)
+        const f = (k * k) / d
+        dx[i] += (vx / d) * f
+        dy[i] += (vy / d) * f
+        dx[j] -= (vx / d) * f
+        dy[j] -= (vy / d) * f
+      }
+    }
+    for (const [a, b] of links) {
+      const vx = xs[a] - xs[b]
+      const vy = ys[a] - ys[b]
+      const d = Math.max(Math.hypot(vx, vy), 0.01)
+      const f = (d * d) / k
+      dx[a] -= (vx / d) * f
+      dy[a] -= (vy / d) * f
+      dx[b] += (vx / d) * f
+      dy[b] += (vy / d) * f
+    }
+    for (let i = 0; i < ids.length; i++) {
+      if (pinned[i]) continue
+      const len = Math.max(Math.hypot(dx[i], dy[i]), 0.01)
+      const step = Math.min(len, temperature)
+      xs[i] += (dx[i] / len) * step
+      ys[i] += (dy[i] / len) * step
+    }
+    temperature = k * (1 - (it + 1) / iterations) + 1
+  }
+
+  // Collision pass: push overlapping cards apart until every pair is at least minDistance apart
+  for (let pass = 0; pass < 50; pass++) {
+    let moved = false
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const vx = xs[j] - xs[i]
+        const vy = ys[j] - ys[i]
+        const d = Math.hypot(vx, vy)
+        if (d >= minDistance) continue
+        moved = true
+        const ux = d > 0 ? vx / d : 1
+        const uy = d > 0 ? vy / d : 0
+        const push = minDistance - d
+        const share = pinned[i] || pinned[j] ? 1 : 0.5
+        if (!pinned[i]) { xs[i] -= ux * push * share; ys[i] -= uy * push * share }
+        if (!pinned[j]) { xs[j] += ux * push * share; ys[j] += uy * push * share }
+      }
+    }
+    if (!moved) break
+  }
+
+  const positions = new Map(ids.map((id, i) => [id, { x: Math.round(xs[i]), y: Math.round(ys[i]) }]))
+  return withPositions(nodes, positions)
+}
+
+export function applyLayout(kind: LayoutKind, nodes: GiftNode[], edges: GiftEdge[]): GiftNode[] {
+  switch (kind) {
+    case 'radial': return radialLayout(nodes, { x: 0, y: 0 }, 240)
+    case 'tree-tb': return treeLayout(nodes, edges, { direction: 'TB' })
+    case 'tree-lr': return treeLayout(nodes, edges, { direction: 'LR' })
+    case 'rings': return ringLayout(nodes, edges)
+    case 'force': return forceLayout(nodes, edges)
+  }
+}
@@ -0,0 +1,133 @@
+import type { GiftEdge, GiftNode } from '@/types/gift'
+import { colorForProfile } from '@/lib/colors'
+import { escapeHtml } from '@/lib/escape'
+import { isExchangeEdge } from '@/lib/exchange'
+import { STATUS_LABELS, isPurchased } from '@/lib/status'
+
+export interface MapImageOptions {
+  // Leave out idea notes and person interests
+  hideNotes?: boolean
+  // Draw every idea as if nothing was bought or claimed yet
+  hidePurchased?: boolean
+  padding?: number
+}
+
+export interface MapImage {
+  svg: string
+  width: number
+  height: number
+}
+
+interface Card {
+  node: GiftNode
+  x: number
+  y: number
+  w: number
+  h: number
+  lines: { text: string; size: number; weight?: number; color?: string }[]
+  color?: string
+  dim: boolean
+}
+
+const FONT = 'system-ui, -apple-system, "Segoe UI", sans-serif'
+const LINE_GAP = 6
+const DEFAULT_WIDTH = { root: 260, person: 256, idea: 224 } as const
+
+// Rough average glyph width, good enough to keep text inside its card
+function clip(text: string, width: number, size: number): string {
+  const max = Math.max(4, Math.floor((width - 24) / (size * 0.55)))
+  return text.length > max ? text.slice(0, max - 1) + '…' : text
+}
+
+function cardFor(n: GiftNode, opts: MapImageOptions): Card {
+  const measured = n as { width?: number | null }
+  const w = measured.width ?? DEFAULT_WIDTH[n.type]
+  const color = n.type === 'root' ? undefined : (n.data as { __color?: string }).__color ?? n.data.color ?? colorForProfile(n.data.owner)
+  const lines: Card['lines'] = []
+  let dim = false
+  if (n.type === 'root') {
+    lines.push({ text: n.data.label, size: 20, weight: 600 })
+  } else if (n.type === 'person') {
+    lines.push({ text: n.data.label, size: 15, weight: 600 })
+    if (n.data.interests && !opts.hideNotes) lines.push({ text: n.data.interests, size: 11, color: '#64748b' })
+  } else {
+    const bought = !opts.hidePurchased && isPurchased(n.data.status)
+    dim = bought
+    lines.push({ text: `${bought ? '✓ ' : ''}${n.data.title || 'Idea'}`, size: 13, weight: 500 })
+    if (!opts.hidePurchased && n.data.status) lines.push({ text: STATUS_LABELS[n.data.status].toUpperCase(), size: 9, color: '#64748b' })
+    if (!opts.hidePurchased && n.data.claimedBy) lines.push({ text: 'Claimed', size: 10, color: '#0369a1' })
+    if (n.data.notes && !opts.hideNotes) lines.push({ text: n.data.notes, size: 11, color: '#64748b' })
+  }
+  const h = 20 + lines.reduce((sum, l) => sum + l.size + LINE_GAP, -LINE_GAP)
+  return { node: n, x: n.position.x, y: n.position.y, w, h, lines, color, dim }
+}
+
+function cardSVG(c: Card): string {
+  const radius = c.node.type === 'idea' ? 12 : 16
+  const centered = c.node.type === 'root'
+  let y = c.y + 10
+  const text = c.lines
+    .map((l) => {
+      y += l.size
+      const x = centered ? c.x + c.w / 2 : c.x + 14
+      const line = `<text x="${x}" y="${y}" font-size="${l.size}"${l.weight ? ` font-weight="${l.weight}"` : ''} fill="${l.color ?? '#0f172a'}"${centered ? ' text-anchor="middle"' : ''}>${escapeHtml(clip(l.text, c.w, l.size))}</text>`
+      y += LINE_GAP
+      return line
+    })
+    .join('')
+  const accent = c.color ? `<rect x="${c.x}" y="${c.y}" width="4" height="${c.h}" rx="2" fill="${escapeHtml(c.color)}"/>` : ''
+  return `<g${c.dim ? ' opacity="0.7"' : ''}><rect x="${c.x}" y="${c.y}" width="${c.w}" height="${c.h}" rx="${radius}" fill="#ffffff" stroke="#e2e8f0"/>${accent}${text}</g>`
+}
+
+// Draws the given (already visibility-filtered) nodes as a standalone SVG. Exchange edges are
+// never drawn: pairings are secret and an image gets passed around.
+export function renderMapSVG(nodes: GiftNode[], edges: GiftEdge[], opts: MapImageOptions = {}): MapImage {
+  const padding = opts.padding ?? 40
+  const cards = nodes.map((n) => cardFor(n, opts))
+  if (cards.length === 0) return { svg: '<svg xmlns="http://www.w3.org/2000/svg" width="1" height="1"/>', width: 1, height: 1 }
+  const minX = Math.min(...cards.map((c) => c.x)) - padding
+  const minY = Math.min(...cards.map((c) => c.y)) - padding
+  const width = Math.ceil(Math.max(...cards.map((c) => c.x + c.w)) + padding - minX)
+  const height = Math.ceil(Math.max(...cards.map((c) => c.y + c.h)) + padding - minY)
+  const byId = new Map(cards.map((c) => [c.node.id, c]))
+  const lines = edges
+    .filter((e) => !isExchangeEdge(e))
+    .map((e) => {
+      const a = byId.get(e.source)
+      const b = byId.get(e.target)
+      if (!a || !b) return ''
+      return `<line x1="${a.x + a.w / 2}" y1="${a.y + a.h / 2}" x2="${b.x + b.w / 2}" y2="${b.y + b.h / 2}" stroke="#b1b1b7" stroke-width="1.5"/>`
+    })
+    .join('')
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" font-family='${FONT}'>`
+    + `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="#f8fafc"/>`
+    + `<g>${lines}</g><g>${cards.map(cardSVG).join('')}</g></svg>`
+  return { svg, width, height }
+}
+
+// Rasterises through an <img> and a canvas, so it only runs in the browser.
+export function svgToPng(image: MapImage, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([image.svg], { type: 'image/svg+xml' }))
+    const img = new Image()
+    img.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = image.width * scale
+      canvas.height = image.height * scale
+      const ctx = canvas.getContext('2d')
+      if (!ctx) {
+        URL.revokeObjectURL(url)
+        return reject(new Error('Canvas is not available'))
+      }
+      ctx.scale(scale, scale)
+      ctx.drawImage(img, 0, 0, image.width, image.height)
+      URL.revokeObjectURL(url)
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png')
+    }
+    img.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('Could not render the map image'))
+    }
+    img.src = url
+  })
+}
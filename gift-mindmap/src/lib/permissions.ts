@@ -0,0 +1,61 @@
+import type { GiftEdge, GiftNode, Profile, ProfileGroup, ProfileId, ShareRole } from '@/types/gift'
+import { isExchangeEdge } from '@/lib/exchange'
+
+// What a profile may do with nodes owned by another profile. Owners grant access through
+// `shareWith` and `shareWithGroups` (who can see) and `shareRoles` (which of those may also edit;
+// default view). Nodes owned by a group belong to each of its members.
+export type Role = 'owner' | 'editor' | 'viewer' | 'none'
+
+export type Permission = 'view' | 'edit' | 'delete' | 'transfer'
+
+const GRANTS: Record<Role, Permission[]> = {
+  owner: ['view', 'edit', 'delete', 'transfer'],
+  editor: ['view', 'edit'],
+  viewer: ['view'],
+  none: [],
+}
+
+// The role `profile` shares with `actor`, directly or through a group; the more generous one wins
+export function shareRoleFor(profile: Profile, actor: ProfileId, groups: ProfileGroup[] = []): ShareRole | undefined {
+  const roles: ShareRole[] = []
+  if (profile.shareWith.includes(actor)) roles.push(profile.shareRoles?.[actor] ?? 'viewer')
+  for (const g of groups) {
+    if (profile.shareWithGroups?.includes(g.id) && g.members.includes(actor)) roles.push(profile.shareRoles?.[g.id] ?? 'viewer')
+  }
+  if (roles.length === 0) return undefined
+  return roles.includes('editor') ? 'editor' : 'viewer'
+}
+
+// Unowned nodes (the root, seeded people) belong to the whole family. Without a current
+// profile nothing owned can be touched.
+export function roleFor(profiles: Profile[], owner: ProfileId | undefined, actor: ProfileId | undefined, groups: ProfileGroup[] = []): Role {
+  if (!owner) return 'owner'
+  if (!actor) return 'none'
+  if (owner === actor) return 'owner'
+  const group = groups.find((g) => g.id === owner)
+  if (group) return group.members.includes(actor) ? 'owner' : 'none'
+  const profile = profiles.find((p) => p.id === owner)
+  return (profile && shareRoleFor(profile, actor, groups)) ?? 'none'
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return GRANTS[role].includes(permission)
+}
+
+export function can(profiles: Profile[], actor: ProfileId | undefined, node: GiftNode | undefined, permission: Permission, groups: ProfileGroup[] = []): boolean {
+  if (!node) return false
+  return hasPermission(roleFor(profiles, node.type === 'root' ? undefined : node.data.owner, actor, groups), permission)
+}
+
+// New nodes may only be created in the name of a profile (or group) the actor can edit for
+export function canCreateFor(profiles: Profile[], actor: ProfileId | undefined, owner: ProfileId | undefined, groups: ProfileGroup[] = []): boolean {
+  return hasPermission(roleFor(profiles, owner, actor, groups), 'edit')
+}
+
+// Exchange pairings belong to the giver's profile; tree edges to the child they attach.
+export function canEditEdge(profiles: Profile[], actor: ProfileId | undefined, nodes: GiftNode[], edge: GiftEdge, groups: ProfileGroup[] = []): boolean {
+  if (isExchangeEdge(edge)) return hasPermission(roleFor(profiles, edge.data?.owner, actor, groups), 'edit')
+  return can(profiles, actor, nodes.find((n) => n.id === edge.target), 'edit', groups)
+}
+
+export const ROLE_LABELS: Record<ShareRole, string> = { viewer: 'Can view', editor: 'Can edit' }
@@ -1,20 +1,54 @@
 import type { ExportedState, ImportResult } from '@/types/gift'
 import { parseExportJSON } from '@/lib/schema'
+import { uid } from '@/lib/uid'
+import { getStorage, type StorageAdapter } from '@/lib/storage'
 
 const STORAGE_KEY = 'gift-mindmap/state/v1'
+const SLOT_INDEX_KEY = 'gift-mindmap/slots/v1'
+const slotKey = (id: string) => `gift-mindmap/slot/${id}`
 
-export function saveState(state: ExportedState): void {
+export type SaveError = 'quota_exceeded' | 'write_failed'
+export type SaveResult = { ok: true; bytes: number } | { ok: false; error: SaveError }
+
+export interface SaveSlot {
+  id: string
+  name: string
+  savedAt: string
+  bytes: number
+}
+
+// Browsers disagree on how they report a full storage area
+export function isQuotaError(err: unknown): boolean {
+  if (!err || typeof err !== 'object') return false
+  const e = err as { name?: string; code?: number }
+  return e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED' || e.code === 22 || e.code === 1014
+}
+
+async function write(storage: StorageAdapter, key: string, json: string): Promise<SaveResult> {
   try {
-    const json = JSON.stringify(state)
-    localStorage.setItem(STORAGE_KEY, json)
+    await storage.set(key, json)
+    return { ok: true, bytes: json.length }
   } catch (err) {
-    console.warn('persist.saveState failed', err)
+    if (isQuotaError(err)) return { ok: false, error: 'quota_exceeded' }
+    return { ok: false, error: 'write_failed' }
   }
 }
 
-export function loadState(): ImportResult {
+async function read(storage: StorageAdapter, key: string): Promise<string | null> {
   try {
-    const json = localStorage.getItem(STORAGE_KEY)
+    return await storage.get(key)
+  } catch {
+    return null
+  }
+}
+
+export function saveState(state: ExportedState, storage = getStorage()): Promise<SaveResult> {
+  return write(storage, STORAGE_KEY, JSON.stringify(state))
+}
+
+export async function loadState(storage = getStorage()): Promise<ImportResult> {
+  try {
+    const json = await read(storage, STORAGE_KEY)
     if (!json) return { ok: false, error: 'no_state' }
     return parseExportJSON(json)
   } catch (err) {
@@ -22,11 +56,84 @@ export function loadState(): ImportResult {
   }
 }
 
-export function clearState(): void {
+// Raw autosave contents, so a state that no longer parses can still be downloaded before it's discarded
+export function readRawState(storage = getStorage()): Promise<string | null> {
+  return read(storage, STORAGE_KEY)
+}
+
+export async function clearState(storage = getStorage()): Promise<void> {
+  try {
+    await storage.remove(STORAGE_KEY)
+  } catch (err) {
+    // ignore
+  }
+}
+
+export async function listSlots(storage = getStorage()): Promise<SaveSlot[]> {
   try {
-    localStorage.removeItem(STORAGE_KEY)
+    const parsed = JSON.parse((await read(storage, SLOT_INDEX_KEY)) ?? '[]')
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+// Saving under an existing name overwrites that slot. The index is only updated once the
+// slot itself was written, so a full storage never leaves an entry pointing at nothing.
+export async function saveSlot(name: string, state: ExportedState, storage = getStorage()): Promise<SaveResult & { slot?: SaveSlot }> {
+  const slots = await listSlots(storage)
+  const existing = slots.find((s) => s.name === name)
+  const id = existing?.id ?? uid('slot')
+  const res = await write(storage, slotKey(id), JSON.stringify(state))
+  if (!res.ok) return res
+  const slot: SaveSlot = { id, name, savedAt: new Date().toISOString(), bytes: res.bytes }
+  const index = await write(storage, SLOT_INDEX_KEY, JSON.stringify(slots.filter((s) => s.id !== id).concat(slot)))
+  if (!index.ok) {
+    if (!existing) await storage.remove(slotKey(id)).catch(() => undefined)
+    return index
+  }
+  return { ...res, slot }
+}
+
+export async function loadSlot(id: string, storage = getStorage()): Promise<ImportResult> {
+  const json = await read(storage, slotKey(id))
+  if (!json) return { ok: false, error: 'no_state' }
+  return parseExportJSON(json)
+}
+
+export async function deleteSlot(id: string, storage = getStorage()): Promise<void> {
+  try {
+    await storage.remove(slotKey(id))
+    await write(storage, SLOT_INDEX_KEY, JSON.stringify((await listSlots(storage)).filter((s) => s.id !== id)))
   } catch (err) {
     // ignore
   }
 }
 
+export interface Debounced {
+  (): void
+  flush: () => void
+  cancel: () => void
+}
+
+export function debounce(fn: () => void, wait: number): Debounced {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const run = () => {
+    timer = undefined
+    fn()
+  }
+  const debounced = (() => {
+    if (timer !== undefined) clearTimeout(timer)
+    timer = setTimeout(run, wait)
+  }) as Debounced
+  debounced.flush = () => {
+    if (timer === undefined) return
+    clearTimeout(timer)
+    run()
+  }
+  debounced.cancel = () => {
+    if (timer !== undefined) clearTimeout(timer)
+    timer = undefined
+  }
+  return debounced
+}
@@ -0,0 +1,86 @@
+// Everything here works on the URL text alone: nothing is fetched, so it behaves the same offline.
+
+export interface ParsedProductUrl {
+  url: string
+  store: string
+  title?: string
+}
+
+// Retailers whose names don't survive plain capitalisation of the domain
+const STORE_NAMES: Record<string, string> = {
+  amazon: 'Amazon',
+  bestbuy: 'Best Buy',
+  ebay: 'eBay',
+  etsy: 'Etsy',
+  ikea: 'IKEA',
+  johnlewis: 'John Lewis',
+  lego: 'LEGO',
+  homedepot: 'Home Depot',
+  rei: 'REI',
+  target: 'Target',
+  walmart: 'Walmart',
+}
+
+// Second-level suffixes like example.co.uk, where the store name sits one label further left
+const COMPOUND_SUFFIXES = new Set(['co', 'com', 'org', 'net', 'ac', 'gov'])
+
+// Path segments that are routing noise rather than a product name
+const NOISE_SEGMENTS = new Set(['dp', 'gp', 'p', 'ip', 'product', 'products', 'item', 'items', 'listing', 'shop', 'buy', 'site', 'en', 'us', 'www'])
+
+const capitalise = (word: string) => (word ? word[0].toUpperCase() + word.slice(1) : word)
+
+export function storeNameFromHost(hostname: string): string {
+  const labels = hostname.toLowerCase().replace(/^(www|m|smile|shop)\./, '').split('.')
+  let i = labels.length - 2
+  if (i > 0 && COMPOUND_SUFFIXES.has(labels[i]) && labels[labels.length - 1].length === 2) i -= 1
+  const name = labels[Math.max(i, 0)]
+  return STORE_NAMES[name] ?? name.split('-').map(capitalise).join(' ')
+}
+
+// Picks the path segment that reads most like a product name (the longest run of words), e.g.
+// /Wooden-Train-Set/dp/B01N → "Wooden Train Set". Opaque ids and short route words are skipped.
+export function titleFromPath(pathname: string): string | undefined {
+  const candidates = pathname
+    .split('/')
+    .map((seg) => {
+      try {
+        return decodeURIComponent(seg)
+      } catch {
+        return seg
+      }
+    })
+    .map((seg) => seg.replace(/\.(html?|php|aspx?)$/i, ''))
+    .filter((seg) => !NOISE_SEGMENTS.has(seg.toLowerCase()))
+    .map((seg) => seg.split(/[-_+\s]+/).filter((w) => w && !/^\d+$/.test(w) && !/^[A-Z0-9]{8,}$/.test(w)))
+    .filter((words) => words.length >= 2 || (words.length === 1 && /^[a-z]{4,}$/i.test(words[0])))
+  if (candidates.length === 0) return undefined
+  const best = candidates.reduce((a, b) => (b.length > a.length ? b : a))
+  return best.map((w) => (w === w.toLowerCase() ? capitalise(w) : w)).join(' ')
+}
+
+// Only http(s) links may be stored or rendered; anything else (javascript:, data:) could run script
+export function isWebUrl(text: string | undefined): text is string {
+  if (!text) return false
+  try {
+    const { protocol } = new URL(text)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Accepts bare domains ("etsy.com/listing/…") as well as full links; anything else returns undefined.
+export function parseProductUrl(text: string): ParsedProductUrl | undefined {
+  const trimmed = text.trim()
+  if (!trimmed || /\s/.test(trimmed)) return undefined
+  const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : /^[\w-]+(\.[\w-]+)+(\/|$)/.test(trimmed) ? `https://${trimmed}` : undefined
+  if (!withScheme) return undefined
+  let url: URL
+  try {
+    url = new URL(withScheme)
+  } catch {
+    return undefined
+  }
+  if (!url.hostname.includes('.')) return undefined
+  return { url: url.toString(), store: storeNameFromHost(url.hostname), title: titleFromPath(url.pathname) }
+}
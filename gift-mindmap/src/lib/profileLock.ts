@@ -0,0 +1,133 @@
+import type { GiftNode, IdeaData, ProfileLock, SealedText, Season } from '@/types/gift'
+
+// Passphrase-protected profiles: a key is derived with PBKDF2 and everything describing an idea
+// is encrypted together with AES-GCM, as are its pictures. Keys never leave memory; only the salt
+// and a check value are stored on the profile.
+
+export const PBKDF2_ITERATIONS = 310_000
+export const MIN_PASSPHRASE_LENGTH = 4
+export const SEALED_TITLE = 'Private idea'
+// Blob type of an encrypted picture in the image store
+export const SEALED_BLOB_TYPE = 'application/x-gift-sealed'
+// Idea fields that say what the gift is. Status, owner, claims and layout stay readable.
+const SEALED_FIELDS = ['title', 'notes', 'url', 'store', 'variant', 'price', 'currency', 'quantity', 'imageId'] as const
+const CHECK_VALUE = 'gift-mindmap'
+
+export type LockError = 'no_profile' | 'too_short' | 'already_locked' | 'not_locked' | 'wrong_passphrase'
+
+export type LockResult = { ok: true } | { ok: false; error: LockError }
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function toBase64(bytes: Uint8Array): string {
+  let text = ''
+  for (const b of bytes) text += String.fromCharCode(b)
+  return btoa(text)
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0))
+}
+
+export async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+export async function sealText(key: CryptoKey, text: string): Promise<SealedText> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(text))
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) }
+}
+
+// undefined when the key is wrong or the ciphertext was tampered with
+export async function openText(key: CryptoKey, sealed: SealedText): Promise<string | undefined> {
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data))
+    return decoder.decode(data)
+  } catch {
+    return undefined
+  }
+}
+
+export async function createLock(passphrase: string, iterations = PBKDF2_ITERATIONS): Promise<{ lock: ProfileLock; key: CryptoKey }> {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)))
+  const key = await deriveKey(passphrase, salt, iterations)
+  return { lock: { salt, iterations, check: await sealText(key, CHECK_VALUE) }, key }
+}
+
+// The profile's key, or undefined for a wrong passphrase
+export async function openLock(lock: ProfileLock, passphrase: string): Promise<CryptoKey | undefined> {
+  const key = await deriveKey(passphrase, lock.salt, lock.iterations)
+  return (await openText(key, lock.check)) === CHECK_VALUE ? key : undefined
+}
+
+export async function sealIdea(data: IdeaData, key: CryptoKey): Promise<IdeaData> {
+  const rest: Partial<IdeaData> = { ...data }
+  const hidden: Partial<IdeaData> = {}
+  for (const field of SEALED_FIELDS) {
+    if (data[field] !== undefined) Object.assign(hidden, { [field]: data[field] })
+    delete rest[field]
+  }
+  const sealed = await sealText(key, JSON.stringify(hidden))
+  return { ...rest, title: SEALED_TITLE, sealed }
+}
+
+// undefined when the idea doesn't decrypt with this key
+export async function openIdea(data: IdeaData, key: CryptoKey): Promise<IdeaData | undefined> {
+  if (!data.sealed) return data
+  const text = await openText(key, data.sealed)
+  if (text === undefined) return undefined
+  const { sealed: _sealed, ...rest } = data
+  return { ...rest, ...(JSON.parse(text) as Partial<IdeaData>) }
+}
+
+// The picture's type is encrypted along with its bytes: iv, then `type\n` and the image
+export async function sealBlob(key: CryptoKey, blob: Blob): Promise<Blob> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const plain = await new Blob([`${blob.type}\n`, blob]).arrayBuffer()
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain)
+  return new Blob([iv, data], { type: SEALED_BLOB_TYPE })
+}
+
+// undefined when the key is wrong or the blob isn't sealed
+export async function openBlob(key: CryptoKey, blob: Blob): Promise<Blob | undefined> {
+  if (blob.type !== SEALED_BLOB_TYPE) return undefined
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  try {
+    const plain = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, 12) }, key, bytes.slice(12)))
+    const end = plain.indexOf(10)
+    return new Blob([plain.slice(end + 1)], { type: decoder.decode(plain.slice(0, end)) })
+  } catch {
+    return undefined
+  }
+}
+
+type IdeaGraphs = { nodes: GiftNode[]; seasons: Season[] }
+
+// Runs `fn` over every idea of the live graph and the archived seasons, then returns a function
+// that swaps in the results. Replacements are matched by data identity, so anything edited while
+// the crypto ran is left alone.
+export async function rewriteIdeas(graphs: IdeaGraphs, fn: (data: IdeaData) => Promise<IdeaData | undefined>): Promise<<T extends IdeaGraphs>(target: T) => T> {
+  const rewritten = new Map<IdeaData, IdeaData>()
+  for (const nodes of [graphs.nodes, ...graphs.seasons.map((x) => x.graph?.nodes ?? [])]) {
+    for (const n of nodes) {
+      if (n.type !== 'idea' || rewritten.has(n.data)) continue
+      const next = await fn(n.data)
+      if (next && next !== n.data) rewritten.set(n.data, next)
+    }
+  }
+  const apply = (nodes: GiftNode[]) => nodes.map((n) => (n.type === 'idea' && rewritten.has(n.data) ? { ...n, data: rewritten.get(n.data)! } : n))
+  return (target) => ({
+    ...target,
+    nodes: apply(target.nodes),
+    seasons: target.seasons.map((x) => (x.graph ? { ...x, graph: { ...x.graph, nodes: apply(x.graph.nodes) } } : x)),
+  })
+}
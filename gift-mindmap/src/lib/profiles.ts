@@ -0,0 +1,72 @@
+import type { GiftEdge, GiftNode, Profile, ProfileId, ShareRole } from '@/types/gift'
+import { hierarchyParents } from '@/lib/hierarchy'
+
+export type ProfileError = 'not_found' | 'not_allowed' | 'locked' | 'last_profile' | 'same_profile' | 'empty_name' | 'color_taken'
+
+export type ProfileResult = { ok: true } | { ok: false; error: ProfileError }
+
+interface Graph {
+  nodes: GiftNode[]
+  edges: GiftEdge[]
+}
+
+// Hands everything `from` owns or is referenced by (linked people, claims, exchange pairings) to
+// `to`. Without `to` its nodes are deleted, along with their edges, and the references cleared.
+// Other profiles' ideas for a deleted person go too, since ideas only hang off people.
+export function reassignProfile(graph: Graph, from: ProfileId, to?: ProfileId): Graph {
+  const removed = new Set(to ? [] : graph.nodes.filter((n) => n.type !== 'root' && n.data.owner === from).map((n) => n.id))
+  for (const n of graph.nodes) {
+    const parents = n.type === 'idea' && removed.size > 0 ? hierarchyParents(graph.edges, n.id) : []
+    if (parents.length > 0 && parents.every((id) => removed.has(id))) removed.add(n.id)
+  }
+  const nodes = graph.nodes
+    .filter((n) => !removed.has(n.id))
+    .map((n): GiftNode => {
+      if (n.type === 'root') return n
+      let data = n.data.owner === from ? { ...n.data, owner: to } : n.data
+      if (n.type === 'person' && n.data.profileId === from) data = { ...data, profileId: to }
+      if (n.type === 'idea' && n.data.claimedBy === from) data = { ...data, claimedBy: to, claimedAt: to ? n.data.claimedAt : undefined }
+      return data === n.data ? n : ({ ...n, data } as GiftNode)
+    })
+  const edges = graph.edges
+    .filter((e) => !removed.has(e.source) && !removed.has(e.target))
+    .map((e) => (e.data?.owner === from ? { ...e, data: { ...e.data, owner: to } } : e))
+  return { nodes, edges }
+}
+
+const strongest = (a: ShareRole | undefined, b: ShareRole): ShareRole => (a === 'editor' || b === 'editor' ? 'editor' : 'viewer')
+
+type Grants = Map<string, ShareRole>
+
+const grantsOf = (p: Profile, ids: string[]): Grants => new Map(ids.map((x): [string, ShareRole] => [x, p.shareRoles?.[x] ?? 'viewer']))
+
+const grant = (grants: Grants, id: string, role: ShareRole) => grants.set(id, strongest(grants.get(id), role))
+
+function withGrants({ shareRoles: _roles, shareWithGroups: _groups, ...profile }: Profile, people: Grants, groups: Grants): Profile {
+  const editors = [...people, ...groups].filter(([, role]) => role === 'editor')
+  return {
+    ...profile,
+    shareWith: [...people.keys()],
+    ...(groups.size > 0 ? { shareWithGroups: [...groups.keys()] } : {}),
+    ...(editors.length > 0 ? { shareRoles: Object.fromEntries(editors) } : {}),
+  }
+}
+
+// Removes `id` from the profile list and from everyone's sharing. With `into`, the access `id` gave
+// carries over to `into`, keeping the more generous role. Access others gave `id` is not theirs to pass on.
+export function removeProfile(profiles: Profile[], id: ProfileId, into?: ProfileId): Profile[] {
+  const source = profiles.find((p) => p.id === id)
+  return profiles
+    .filter((p) => p.id !== id)
+    .map((p) => {
+      const people = grantsOf(p, p.shareWith)
+      const groups = grantsOf(p, p.shareWithGroups ?? [])
+      people.delete(id)
+      if (into && source && p.id === into) {
+        for (const x of source.shareWith) grant(people, x, source.shareRoles?.[x] ?? 'viewer')
+        for (const x of source.shareWithGroups ?? []) grant(groups, x, source.shareRoles?.[x] ?? 'viewer')
+      }
+      people.delete(p.id)
+      return withGrants(p, people, groups)
+    })
+}
@@ -1,99 +1,250 @@
 import { z } from 'zod'
-import type { ExportedState, GiftEdge, GiftNode, IdeaData, PersonData, Profile, RootData } from '@/types/gift'
+import { DEFAULT_STATUS_PIPELINE, migrateLegacyStatus } from '@/lib/status'
+import { DEFAULT_SEASON_ID, DEFAULT_SEASON_NAME } from '@/lib/seasons'
+import { isWebUrl } from '@/lib/productUrl'
+import type { ExportedState, ExportedStateV1, ExportedStateV2, ExportedStateV3, GiftEdge, GiftNode, IdeaData, ImportResult, PersonData, Profile, RootData } from '@/types/gift'
 
 const zXY = z.object({ x: z.number(), y: z.number() })
 
+const zSealedText = z.object({ iv: z.string(), data: z.string() })
+
 const zProfile: z.ZodType<Profile> = z.object({
   id: z.string(),
   name: z.string(),
   color: z.string().optional(),
   shareWith: z.array(z.string()),
+  shareWithGroups: z.array(z.string()).optional(),
+  shareRoles: z.record(z.string(), z.enum(['viewer', 'editor'])).optional(),
+  lock: z.object({ salt: z.string(), iterations: z.number().int().positive(), check: zSealedText }).optional(),
 })
 
+const zIdeaStatus = z.enum(['considering', 'ordered', 'shipped', 'received', 'wrapped', 'given'])
+
+// V1 files predate the status pipeline and may still carry purchased/pending.
+const zIdeaStatusV1 = z.enum([...zIdeaStatus.options, 'purchased', 'pending'])
+
 const zRootData: z.ZodType<RootData> = z.object({ label: z.string() })
 
-const zPersonData: z.ZodType<PersonData> = z.object({
-  owner: z.string().optional(),
-  label: z.string(),
-  interests: z.string().optional(),
-  ideas: z.array(z.union([z.string(), z.object({ status: z.enum(['purchased', 'pending']).optional() })])).optional(),
-  __color: z.string().optional(),
-})
+// Person and idea data with the idea statuses of one format version (V1 still allows legacy ones)
+type PersonDataOf<S> = Omit<PersonData, 'ideas'> & { ideas?: Array<{ status?: S } | string> }
+type IdeaDataOf<S> = Omit<IdeaData, 'status' | 'statusHistory'> & { status?: S; statusHistory?: Array<{ status: S; at: string }> }
 
-const zIdeaData: z.ZodType<IdeaData> = z.object({
-  owner: z.string().optional(),
-  title: z.string(),
-  notes: z.string().optional(),
-  status: z.enum(['purchased', 'pending']).optional(),
-  __color: z.string().optional(),
-})
+function nodeSchemas<S extends string>(status: z.ZodType<S>) {
+  const zStatusTransition = z.object({ status, at: z.string() })
 
-const zRootNode: z.ZodType<GiftNode> = z.object({
-  id: z.string(),
-  type: z.literal('root'),
-  position: zXY,
-  data: zRootData,
-}) as any
+  const zPersonData: z.ZodType<PersonDataOf<S>> = z.object({
+    owner: z.string().optional(),
+    label: z.string(),
+    interests: z.string().optional(),
+    budget: z.number().nonnegative().optional(),
+    profileId: z.string().optional(),
+    ideas: z.array(z.union([z.string(), z.object({ status: status.optional() })])).optional(),
+    color: z.string().optional(),
+    __color: z.string().optional(),
+  })
 
-const zPersonNode: z.ZodType<GiftNode> = z.object({
-  id: z.string(),
-  type: z.literal('person'),
-  position: zXY,
-  data: zPersonData,
-}) as any
+  const zIdeaData: z.ZodType<IdeaDataOf<S>> = z.object({
+    owner: z.string().optional(),
+    title: z.string(),
+    notes: z.string().optional(),
+    status: status.optional(),
+    statusHistory: z.array(zStatusTransition).optional(),
+    conflicts: z.record(z.string(), z.enum(['dismissed', 'claimed'])).optional(),
+    claimedBy: z.string().optional(),
+    claimedAt: z.string().optional(),
+    price: z.number().nonnegative().optional(),
+    currency: z.string().optional(),
+    quantity: z.number().int().positive().optional(),
+    color: z.string().optional(),
+    url: z.string().refine(isWebUrl, { message: 'Links must be http or https' }).optional(),
+    store: z.string().optional(),
+    imageId: z.string().optional(),
+    variant: z.object({ size: z.string().optional(), color: z.string().optional() }).optional(),
+    sealed: zSealedText.optional(),
+    __color: z.string().optional(),
+  })
 
-const zIdeaNode: z.ZodType<GiftNode> = z.object({
-  id: z.string(),
-  type: z.literal('idea'),
-  position: zXY,
-  data: zIdeaData,
-}) as any
+  const zRootNode: z.ZodType<GiftNode> = z.object({
+    id: z.string(),
+    type: z.literal('root'),
+    position: zXY,
+    data: zRootData,
+  }) as any
+
+  const zPersonNode: z.ZodType<GiftNode> = z.object({
+    id: z.string(),
+    type: z.literal('person'),
+    position: zXY,
+    data: zPersonData,
+  }) as any
 
-const zNode: z.ZodType<GiftNode> = z.discriminatedUnion('type', [
-  zRootNode as any,
-  zPersonNode as any,
-  zIdeaNode as any,
-]) as any
+  const zIdeaNode: z.ZodType<GiftNode> = z.object({
+    id: z.string(),
+    type: z.literal('idea'),
+    position: zXY,
+    data: zIdeaData,
+  }) as any
+
+  const zNode: z.ZodType<GiftNode> = z.discriminatedUnion('type', [
+    zRootNode as any,
+    zPersonNode as any,
+    zIdeaNode as any,
+  ]) as any
+
+  return { zNode }
+}
 
 const zEdge: z.ZodType<GiftEdge> = z.object({
   id: z.string(),
   source: z.string(),
   target: z.string(),
   label: z.string().optional(),
-  data: z.object({ owner: z.string().optional() }).optional(),
+  data: z.object({ owner: z.string().optional(), kind: z.literal('exchange').optional() }).optional(),
 })
 
 export const zExportV1 = z.object({
-  version: z.number().optional(),
+  version: z.literal(1).optional(),
+  nodes: z.array(nodeSchemas(zIdeaStatusV1).zNode),
+  edges: z.array(zEdge),
+  profiles: z.array(zProfile),
+  currentProfileId: z.string().optional(),
+})
+
+const zNode = nodeSchemas(zIdeaStatus).zNode
+
+export const zExportV2 = z.object({
+  version: z.literal(2),
   nodes: z.array(zNode),
   edges: z.array(zEdge),
   profiles: z.array(zProfile),
   currentProfileId: z.string().optional(),
+  statusPipeline: z.array(zIdeaStatus).min(1),
 })
 
-export function validateExport(input: unknown): input is ExportedState {
-  const parsed = zExportV1.safeParse(input)
-  return parsed.success
+const zExchange = z.object({
+  participants: z.array(z.string()),
+  exclusions: z.array(z.tuple([z.string(), z.string()])),
+  households: z.array(z.array(z.string())),
+  avoidPrevious: z.boolean(),
+  previous: z.array(z.object({ giver: z.string(), receiver: z.string() })),
+  seed: z.number().optional(),
+  drawnAt: z.string().optional(),
+})
+
+const zSeason = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  graph: z.object({ nodes: z.array(zNode), edges: z.array(zEdge) }).optional(),
+  exchange: zExchange.optional(),
+})
+
+export const zExportV3 = z.object({
+  version: z.literal(3),
+  nodes: z.array(zNode),
+  edges: z.array(zEdge),
+  profiles: z.array(zProfile),
+  currentProfileId: z.string().optional(),
+  statusPipeline: z.array(zIdeaStatus).min(1),
+  seasons: z.array(zSeason).min(1),
+  currentSeasonId: z.string(),
+  exchange: zExchange.optional(),
+  groups: z.array(z.object({ id: z.string(), name: z.string(), members: z.array(z.string()), color: z.string().optional() })).optional(),
+}).refine((v) => v.seasons.some((s) => s.id === v.currentSeasonId), { message: 'currentSeasonId must name one of the seasons', path: ['currentSeasonId'] })
+
+/**********************
+ * Version registry
+ **********************/
+// Every format the app has ever written, keyed by version. A file is validated against the
+// schema of its own version, then upgraded one step at a time up to CURRENT_EXPORT_VERSION.
+const EXPORT_SCHEMAS: Record<number, z.ZodType<unknown>> = {
+  1: zExportV1,
+  2: zExportV2,
+  3: zExportV3,
 }
 
-export function parseExportJSON(json: string): { ok: true; data: ExportedState } | { ok: false; error: string } {
-  try {
-    const data = JSON.parse(json)
-    const parsed = zExportV1.safeParse(data)
-    if (!parsed.success) {
-      return { ok: false, error: parsed.error.issues.map((i) => i.message).join('; ') }
+// MIGRATIONS[n] turns a valid version-n document into a version-(n + 1) document.
+const MIGRATIONS: Record<number, (input: never) => unknown> = {
+  1: upgradeV1toV2,
+  2: upgradeV2toV3,
+}
+
+export const CURRENT_EXPORT_VERSION = 3
+
+function upgradeV1toV2(state: ExportedStateV1): ExportedStateV2 {
+  const nodes = state.nodes.map((n): GiftNode => {
+    if (n.type === 'idea') {
+      const data: IdeaData = { ...n.data }
+      if (data.status) data.status = migrateLegacyStatus(data.status)
+      if (data.statusHistory) data.statusHistory = data.statusHistory.map((t) => ({ ...t, status: migrateLegacyStatus(t.status) }))
+      return { ...n, data }
     }
-    const value = parsed.data
-    const versioned: ExportedState = {
-      version: 1,
-      nodes: value.nodes,
-      edges: value.edges,
-      profiles: value.profiles,
-      currentProfileId: value.currentProfileId,
+    if (n.type === 'person' && n.data.ideas) {
+      const ideas = n.data.ideas.map((i) => (typeof i === 'string' || !i.status ? i : { ...i, status: migrateLegacyStatus(i.status) }))
+      return { ...n, data: { ...n.data, ideas } }
     }
-    return { ok: true, data: versioned }
+    return n
+  })
+  return {
+    version: 2,
+    nodes,
+    edges: state.edges,
+    profiles: state.profiles,
+    currentProfileId: state.currentProfileId,
+    statusPipeline: [...DEFAULT_STATUS_PIPELINE],
+  }
+}
+
+// The single graph of a V2 file becomes the first season, named after its root label.
+function upgradeV2toV3(state: ExportedStateV2): ExportedStateV3 {
+  const root = state.nodes.find((n) => n.type === 'root')
+  const label = root?.type === 'root' ? root.data.label.replace(/\s*[-–]\s*Gift Map\s*$/, '').trim() : ''
+  return {
+    ...state,
+    version: 3,
+    seasons: [{ id: DEFAULT_SEASON_ID, name: label || DEFAULT_SEASON_NAME, createdAt: new Date().toISOString() }],
+    currentSeasonId: DEFAULT_SEASON_ID,
+  }
+}
+
+function readVersion(input: unknown): number | string {
+  if (!input || typeof input !== 'object') return 'not_an_object'
+  const version = (input as { version?: unknown }).version
+  // Files written before versioning carry no version field and are V1 by definition
+  if (version === undefined) return 1
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) return 'invalid_version'
+  return version
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((i) => (i.path.length ? `${i.path.join('.')}: ${i.message}` : i.message)).join('; ')
+}
+
+export function migrateExport(input: unknown): ImportResult {
+  const version = readVersion(input)
+  if (typeof version === 'string') return { ok: false, error: version }
+  if (version > CURRENT_EXPORT_VERSION) {
+    return { ok: false, error: `This file was saved by a newer version of the app (format v${version}). This version can read up to v${CURRENT_EXPORT_VERSION}.` }
+  }
+  let value: unknown = input
+  for (let v = version; ; v++) {
+    const parsed = EXPORT_SCHEMAS[v].safeParse(value)
+    if (!parsed.success) return { ok: false, error: formatIssues(parsed.error) }
+    if (v === CURRENT_EXPORT_VERSION) return { ok: true, data: parsed.data as ExportedState }
+    value = MIGRATIONS[v](parsed.data as never)
+  }
+}
+
+export function validateExport(input: unknown): input is ExportedState {
+  return zExportV3.safeParse(input).success
+}
+
+export function parseExportJSON(json: string): ImportResult {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
   } catch (err) {
     return { ok: false, error: 'invalid_json' }
   }
+  return migrateExport(data)
 }
-
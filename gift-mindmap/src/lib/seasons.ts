@@ -0,0 +1,67 @@
+import type { GiftEdge, GiftNode, IdeaStatus, Season, SeasonGraph, SeasonId } from '@/types/gift'
+import { isPurchased } from '@/lib/status'
+import { uid } from '@/lib/uid'
+
+export const DEFAULT_SEASON_ID = 'season_default'
+export const DEFAULT_SEASON_NAME = '🎄 Christmas 2025'
+
+export function rootLabelFor(seasonName: string): string {
+  return `${seasonName} - Gift Map`
+}
+
+export function emptySeasonGraph(seasonName: string): SeasonGraph {
+  return {
+    nodes: [{ id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: rootLabelFor(seasonName) } }],
+    edges: [],
+  }
+}
+
+// Copies the people (not their ideas) of a graph under a fresh root, giving every person a new id.
+export function clonePeople(source: SeasonGraph, seasonName: string): SeasonGraph {
+  const graph = emptySeasonGraph(seasonName)
+  for (const n of source.nodes) {
+    if (n.type !== 'person') continue
+    const id = uid('person')
+    const { ideas: _ideas, ...data } = n.data
+    graph.nodes.push({ id, type: 'person', position: { ...n.position }, data })
+    graph.edges.push({ id: uid('e'), source: 'root', target: id })
+  }
+  return graph
+}
+
+export function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+export interface PastGift {
+  seasonId: SeasonId
+  seasonName: string
+  title: string
+  status?: IdeaStatus
+}
+
+// People are matched across seasons by normalized name, since cloned persons get new ids.
+// `visible` narrows each archived graph to what the viewer may see, as on the live canvas;
+// sealed ideas are skipped since their titles only exist encrypted.
+export function pastGiftsFor(
+  seasons: Season[],
+  currentSeasonId: SeasonId,
+  personName: string,
+  visible: (nodes: GiftNode[], edges: GiftEdge[]) => GiftNode[]
+): PastGift[] {
+  const key = normalizeName(personName)
+  const gifts: PastGift[] = []
+  for (const season of seasons) {
+    if (season.id === currentSeasonId || !season.graph) continue
+    const { edges } = season.graph
+    const nodes = visible(season.graph.nodes, edges)
+    const personIds = new Set(nodes.filter((n) => n.type === 'person' && normalizeName(n.data.label) === key).map((n) => n.id))
+    if (personIds.size === 0) continue
+    const ideaIds = new Set(edges.filter((e: GiftEdge) => personIds.has(e.source)).map((e) => e.target))
+    for (const n of nodes) {
+      if (n.type !== 'idea' || !ideaIds.has(n.id) || n.data.sealed || !isPurchased(n.data.status)) continue
+      gifts.push({ seasonId: season.id, seasonName: season.name, title: n.data.title, status: n.data.status })
+    }
+  }
+  return gifts
+}
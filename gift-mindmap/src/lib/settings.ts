@@ -0,0 +1,82 @@
+import { createLocalStorageAdapter, getStorage, type StorageAdapter } from '@/lib/storage'
+
+// AI assistant settings from the Settings panel. They live in localStorage under their original
+// key names, where fix-config.html, debug-storage.html and test-ollama.html read and write them.
+export interface AiSettings {
+  provider: string
+  model: string
+  localModelUrl: string
+  localModelName: string
+  openaiApiKey?: string
+  anthropicApiKey?: string
+}
+
+const SETTING_KEYS: Record<keyof AiSettings, string> = {
+  provider: 'ai_provider',
+  model: 'ai_model',
+  localModelUrl: 'local_model_url',
+  localModelName: 'local_model_name',
+  openaiApiKey: 'openai_api_key',
+  anthropicApiKey: 'anthropic_api_key',
+}
+
+export const SETTINGS_KEY_NAMES = Object.values(SETTING_KEYS)
+
+export const API_KEY_NAMES = [SETTING_KEYS.openaiApiKey, SETTING_KEYS.anthropicApiKey]
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'openai',
+  model: 'gpt-4o',
+  localModelUrl: 'http://localhost:11434/api/chat',
+  localModelName: '',
+}
+
+// Falls back to the app's adapter when localStorage is unavailable
+function settingsStorage(): StorageAdapter {
+  try {
+    if (typeof localStorage !== 'undefined') return createLocalStorageAdapter(localStorage)
+  } catch {
+    // Some browsers throw on access when storage is disabled
+  }
+  return getStorage()
+}
+
+// Missing or unreadable values fall back to the defaults
+export async function loadAiSettings(storage = settingsStorage()): Promise<AiSettings> {
+  const settings: AiSettings = { ...DEFAULT_AI_SETTINGS }
+  for (const [field, key] of Object.entries(SETTING_KEYS) as Array<[keyof AiSettings, string]>) {
+    try {
+      const value = await storage.get(key)
+      if (value) settings[field] = value
+    } catch {
+      // keep the default
+    }
+  }
+  return settings
+}
+
+// An empty or undefined value removes the setting
+export async function saveAiSettings(patch: Partial<AiSettings>, storage = settingsStorage()): Promise<boolean> {
+  try {
+    for (const [field, value] of Object.entries(patch) as Array<[keyof AiSettings, string | undefined]>) {
+      if (value) await storage.set(SETTING_KEYS[field], value)
+      else await storage.remove(SETTING_KEYS[field])
+    }
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Total size of everything stored, in characters
+export async function storageUsage(storage = getStorage()): Promise<number> {
+  let total = 0
+  for (const key of await storage.keys()) total += key.length + ((await storage.get(key)) ?? '').length
+  return total
+}
+
+// Removes all app data and every AI setting except the API keys
+export async function clearStoredData(storage = getStorage(), settings = settingsStorage()): Promise<void> {
+  for (const key of await storage.keys()) if (!API_KEY_NAMES.includes(key)) await storage.remove(key)
+  for (const key of SETTINGS_KEY_NAMES) if (!API_KEY_NAMES.includes(key)) await settings.remove(key)
+}
@@ -0,0 +1,78 @@
+export type ShortcutId =
+  | 'undo'
+  | 'redo'
+  | 'deleteSelected'
+  | 'addIdea'
+  | 'togglePurchased'
+  | 'nextProfile'
+  | 'prevProfile'
+  | 'focusSearch'
+  | 'fitView'
+  | 'showHelp'
+
+export interface Shortcut {
+  id: ShortcutId
+  // Combos like 'mod+shift+z'; `mod` is Cmd on macOS and Ctrl elsewhere. Any combo triggers.
+  combos: string[]
+  description: string
+  group: 'History' | 'Editing' | 'Profiles' | 'View'
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { id: 'undo', combos: ['mod+z'], description: 'Undo', group: 'History' },
+  { id: 'redo', combos: ['mod+shift+z', 'mod+y'], description: 'Redo', group: 'History' },
+  { id: 'deleteSelected', combos: ['delete', 'backspace'], description: 'Delete the selected node', group: 'Editing' },
+  { id: 'addIdea', combos: ['n'], description: 'Add an idea to the selected person', group: 'Editing' },
+  { id: 'togglePurchased', combos: ['p'], description: 'Toggle purchased on the selected idea', group: 'Editing' },
+  { id: 'nextProfile', combos: [']'], description: 'Switch to the next profile', group: 'Profiles' },
+  { id: 'prevProfile', combos: ['['], description: 'Switch to the previous profile', group: 'Profiles' },
+  { id: 'focusSearch', combos: ['/', 'mod+k'], description: 'Search people', group: 'View' },
+  { id: 'fitView', combos: ['f'], description: 'Fit the whole map in view', group: 'View' },
+  { id: 'showHelp', combos: ['?'], description: 'Show keyboard shortcuts', group: 'View' },
+]
+
+export type KeyLike = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>
+
+interface Combo {
+  mod: boolean
+  shift: boolean
+  alt: boolean
+  key: string
+}
+
+export function parseCombo(combo: string): Combo {
+  const parts = combo.toLowerCase().split('+')
+  const key = parts[parts.length - 1]
+  return { mod: parts.includes('mod'), shift: parts.includes('shift'), alt: parts.includes('alt'), key }
+}
+
+// Shift is only compared for letter keys: symbols like '?' already need shift on most layouts.
+export function matchesCombo(e: KeyLike, combo: string): boolean {
+  const c = parseCombo(combo)
+  const key = e.key.toLowerCase()
+  if (key !== c.key) return false
+  if ((e.ctrlKey || e.metaKey) !== c.mod || e.altKey !== c.alt) return false
+  return /^[a-z]$/.test(c.key) ? e.shiftKey === c.shift : true
+}
+
+export function findShortcut(e: KeyLike, shortcuts: Shortcut[] = SHORTCUTS): Shortcut | undefined {
+  return shortcuts.find((s) => s.combos.some((combo) => matchesCombo(e, combo)))
+}
+
+// Typing in a field (or the Monaco code editor, which uses a hidden textarea plus its own
+// key handling) must never trigger canvas shortcuts.
+export function isTypingTarget(target: EventTarget | null): boolean {
+  const el = target as (HTMLElement & { isContentEditable?: boolean }) | null
+  if (!el || typeof el.tagName !== 'string') return false
+  if (['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName) || el.isContentEditable) return true
+  return typeof el.closest === 'function' && el.closest('.monaco-editor') !== null
+}
+
+const KEY_LABELS: Record<string, string> = { delete: 'Del', backspace: '⌫' }
+
+export function formatCombo(combo: string, mac: boolean): string {
+  const c = parseCombo(combo)
+  const key = KEY_LABELS[c.key] ?? c.key.toUpperCase()
+  const parts = [c.mod && (mac ? '⌘' : 'Ctrl'), c.alt && (mac ? '⌥' : 'Alt'), c.shift && (mac ? '⇧' : 'Shift'), key].filter(Boolean)
+  return parts.join(mac ? '' : '+')
+}
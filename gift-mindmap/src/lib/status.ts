@@ -0,0 +1,57 @@
+import type { IdeaStatus, LegacyIdeaStatus, StatusTransition } from '@/types/gift'
+
+// Canonical order of every known stage. Pipelines are ordered subsets of this list.
+export const IDEA_STATUSES: readonly IdeaStatus[] = ['considering', 'ordered', 'shipped', 'received', 'wrapped', 'given'] as const
+
+export const DEFAULT_STATUS_PIPELINE: IdeaStatus[] = [...IDEA_STATUSES]
+
+export const STATUS_LABELS: Record<IdeaStatus, string> = {
+  considering: 'Considering',
+  ordered: 'Ordered',
+  shipped: 'Shipped',
+  received: 'Received',
+  wrapped: 'Wrapped',
+  given: 'Given',
+}
+
+const rank = (status: IdeaStatus) => IDEA_STATUSES.indexOf(status)
+
+// Anything past "considering" has been paid for.
+export function isPurchased(status?: IdeaStatus): boolean {
+  return !!status && rank(status) >= rank('ordered')
+}
+
+export function migrateLegacyStatus(status: IdeaStatus | LegacyIdeaStatus): IdeaStatus {
+  if (status === 'pending') return 'considering'
+  if (status === 'purchased') return 'ordered'
+  return status
+}
+
+// Keeps canonical order and drops unknown and duplicate stages. "considering" always stays: new
+// ideas start at the first stage, and it is the only one that isn't purchased yet.
+export function normalizePipeline(stages: IdeaStatus[]): IdeaStatus[] {
+  const wanted = new Set<IdeaStatus>(stages).add('considering')
+  return IDEA_STATUSES.filter((s) => wanted.has(s))
+}
+
+// A status that is not part of the pipeline (e.g. after the pipeline was trimmed) advances
+// to the next configured stage that comes after it in canonical order.
+export function nextStatus(pipeline: IdeaStatus[], status: IdeaStatus | undefined): IdeaStatus {
+  if (!status) return pipeline[0]
+  const after = pipeline.find((s) => rank(s) > rank(status))
+  return after ?? pipeline[pipeline.length - 1]
+}
+
+export function prevStatus(pipeline: IdeaStatus[], status: IdeaStatus | undefined): IdeaStatus {
+  if (!status) return pipeline[0]
+  const before = pipeline.filter((s) => rank(s) < rank(status))
+  return before.length > 0 ? before[before.length - 1] : pipeline[0]
+}
+
+export function firstPurchasedStatus(pipeline: IdeaStatus[]): IdeaStatus {
+  return pipeline.find((s) => isPurchased(s)) ?? 'ordered'
+}
+
+export function appendTransition(history: StatusTransition[] | undefined, status: IdeaStatus, at = new Date()): StatusTransition[] {
+  return (history ?? []).concat({ status, at: at.toISOString() })
+}
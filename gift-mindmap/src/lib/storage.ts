@@ -0,0 +1,173 @@
+import type { StateStorage } from 'zustand/middleware'
+
+// Key/value storage the app persists through. Everything is async so IndexedDB can sit behind it;
+// values are strings so callers keep control of their own serialisation.
+export interface StorageAdapter {
+  readonly kind: 'indexeddb' | 'local' | 'memory'
+  get(key: string): Promise<string | null>
+  set(key: string, value: string): Promise<void>
+  remove(key: string): Promise<void>
+  keys(prefix?: string): Promise<string[]>
+}
+
+export function createMemoryAdapter(initial: Record<string, string> = {}): StorageAdapter {
+  const data = new Map(Object.entries(initial))
+  return {
+    kind: 'memory',
+    get: async (key) => data.get(key) ?? null,
+    set: async (key, value) => { data.set(key, value) },
+    remove: async (key) => { data.delete(key) },
+    keys: async (prefix = '') => [...data.keys()].filter((k) => k.startsWith(prefix)),
+  }
+}
+
+export function createLocalStorageAdapter(storage: Storage = localStorage): StorageAdapter {
+  return {
+    kind: 'local',
+    get: async (key) => storage.getItem(key),
+    set: async (key, value) => storage.setItem(key, value),
+    remove: async (key) => storage.removeItem(key),
+    keys: async (prefix = '') => {
+      const out: string[] = []
+      for (let i = 0; i < storage.length; i++) {
+        const k = storage.key(i)
+        if (k !== null && k.startsWith(prefix)) out.push(k)
+      }
+      return out
+    },
+  }
+}
+
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+// Writes only count once the transaction commits; quota errors surface here as QuotaExceededError
+export function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export interface IndexedDBAdapterOptions {
+  dbName?: string
+  storeName?: string
+  factory?: IDBFactory
+}
+
+export function createIndexedDBAdapter(opts: IndexedDBAdapterOptions = {}): StorageAdapter {
+  const dbName = opts.dbName ?? 'gift-mindmap'
+  const storeName = opts.storeName ?? 'kv'
+  let db: Promise<IDBDatabase> | undefined
+
+  const open = () => {
+    db ??= new Promise((resolve, reject) => {
+      const req = (opts.factory ?? indexedDB).open(dbName, 1)
+      req.onupgradeneeded = () => req.result.createObjectStore(storeName)
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+    return db
+  }
+  const store = async (mode: IDBTransactionMode) => (await open()).transaction(storeName, mode)
+
+  return {
+    kind: 'indexeddb',
+    get: async (key) => {
+      const tx = await store('readonly')
+      const value = await request(tx.objectStore(storeName).get(key))
+      return typeof value === 'string' ? value : null
+    },
+    set: async (key, value) => {
+      const tx = await store('readwrite')
+      tx.objectStore(storeName).put(value, key)
+      await committed(tx)
+    },
+    remove: async (key) => {
+      const tx = await store('readwrite')
+      tx.objectStore(storeName).delete(key)
+      await committed(tx)
+    },
+    keys: async (prefix = '') => {
+      const tx = await store('readonly')
+      const all = await request(tx.objectStore(storeName).getAllKeys())
+      return all.map(String).filter((k) => k.startsWith(prefix))
+    },
+  }
+}
+
+// Keys written straight to localStorage before the adapter existed. The AI settings are left out:
+// they stay in localStorage (see settings.ts).
+export const LEGACY_KEY_PREFIXES = ['gift-mindmap/', 'live-code-editor-storage']
+
+// Copies matching keys from `source` into `target` (without clobbering anything already there)
+// and then removes them from `source`. Returns the keys that were moved.
+export async function migrateKeys(source: StorageAdapter, target: StorageAdapter, prefixes = LEGACY_KEY_PREFIXES): Promise<string[]> {
+  const moved: string[] = []
+  for (const prefix of prefixes) {
+    for (const key of await source.keys(prefix)) {
+      const value = await source.get(key)
+      if (value === null) continue
+      if ((await target.get(key)) === null) await target.set(key, value)
+      await source.remove(key)
+      moved.push(key)
+    }
+  }
+  return moved
+}
+
+// Runs the legacy migration once, before the first read or write goes through. Keys that fail to
+// move stay in the source and are tried again on the next start.
+export function withMigration(target: StorageAdapter, source: StorageAdapter, prefixes = LEGACY_KEY_PREFIXES): StorageAdapter {
+  let ready: Promise<unknown> | undefined
+  const migrated = () => {
+    ready ??= migrateKeys(source, target, prefixes).catch(() => [])
+    return ready
+  }
+  return {
+    kind: target.kind,
+    get: async (key) => { await migrated(); return target.get(key) },
+    set: async (key, value) => { await migrated(); return target.set(key, value) },
+    remove: async (key) => { await migrated(); return target.remove(key) },
+    keys: async (prefix) => { await migrated(); return target.keys(prefix) },
+  }
+}
+
+// IndexedDB when the browser has it (migrating old localStorage keys across), then
+// localStorage, then memory so the app still runs with storage disabled.
+function createDefaultAdapter(): StorageAdapter {
+  let local: StorageAdapter | undefined
+  try {
+    if (typeof localStorage !== 'undefined') local = createLocalStorageAdapter(localStorage)
+  } catch {
+    // Some browsers throw on access when storage is disabled
+  }
+  if (typeof indexedDB !== 'undefined') {
+    const idb = createIndexedDBAdapter()
+    return local ? withMigration(idb, local) : idb
+  }
+  return local ?? createMemoryAdapter()
+}
+
+let current: StorageAdapter | undefined
+
+export function getStorage(): StorageAdapter {
+  current ??= createDefaultAdapter()
+  return current
+}
+
+export function setStorage(adapter: StorageAdapter | undefined) {
+  current = adapter
+}
+
+// Bridges the adapter into zustand's persist middleware. Resolved per call so setStorage applies.
+export const zustandStorage: StateStorage = {
+  getItem: (name) => getStorage().get(name),
+  setItem: (name, value) => getStorage().set(name, value),
+  removeItem: (name) => getStorage().remove(name),
+}
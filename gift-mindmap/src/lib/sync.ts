@@ -0,0 +1,311 @@
+import type { GiftEdge, GiftNode, Profile, ProfileId } from '@/types/gift'
+import { uid } from '@/lib/uid'
+import { getStorage } from '@/lib/storage'
+import { isExchangeEdge } from '@/lib/exchange'
+import { hierarchyParents } from '@/lib/hierarchy'
+import { can, canCreateFor, type Permission } from '@/lib/permissions'
+import { COLLECTIONS, applyOps, compareStamps, diffSnapshots, emptyDoc, emptySnapshot, snapshotOf, splitGraphKey, stampChanges, type Collection, type DeviceId, type EntityRef, type Snapshot, type SyncDoc, type SyncOp, type SyncedState } from '@/lib/crdt'
+
+// Multi-device sync. Each device keeps a replica of the shared CRDT (see crdt.ts), turns local
+// edits into ops queued until a sync server has them, and pulls what other devices pushed. The
+// server only relays ops; merging happens here, so any device can work offline and catch up.
+
+const REPLICA_KEY = 'gift-mindmap/sync/v1'
+const SERVER_KEY = 'gift-mindmap/sync-server/v2'
+
+export interface SyncReplica {
+  device: DeviceId
+  doc: SyncDoc
+  // The local state as last recorded or merged; edits are whatever differs from it
+  base: Snapshot
+  // Local ops the server hasn't acknowledged yet
+  pending: SyncOp[]
+  // Server position up to which ops have been pulled
+  cursor: number
+}
+
+export type SyncError = 'offline' | 'unauthorized' | 'server_error' | 'bad_response'
+
+// Where to sync and the shared token the server was started with (SYNC_TOKEN)
+export interface SyncServerConfig {
+  url: string
+  token: string
+}
+
+export type SyncResult = { ok: true; changed: EntityRef[] } | { ok: false; error: SyncError }
+
+export interface SyncStatus {
+  state: 'off' | 'syncing' | 'synced' | 'offline' | 'error'
+  pending: number
+  lastSyncedAt?: string
+  error?: SyncError
+}
+
+export interface SyncTransport {
+  push: (ops: SyncOp[]) => Promise<{ ok: true } | { ok: false; error: SyncError }>
+  pull: (since: number) => Promise<{ ok: true; ops: SyncOp[]; cursor: number } | { ok: false; error: SyncError }>
+}
+
+export const createReplica = (device: DeviceId = uid('device')): SyncReplica => ({ device, doc: emptyDoc(), base: emptySnapshot(), pending: [], cursor: 0 })
+
+const registerKey = (op: SyncOp) => JSON.stringify([op.collection, op.key, op.field])
+
+// Only the newest queued op per register matters; older ones would lose to it anyway
+function compact(ops: SyncOp[]): SyncOp[] {
+  const latest = new Map<string, SyncOp>()
+  for (const op of ops) latest.set(registerKey(op), op)
+  return ops.filter((op) => latest.get(registerKey(op)) === op)
+}
+
+// Queues ops for whatever changed locally since the last record or merge, made by `author`
+export function recordLocal(replica: SyncReplica, state: SyncedState, author?: ProfileId): SyncReplica {
+  const next = snapshotOf(state)
+  const changes = diffSnapshots(replica.base, next)
+  if (changes.length === 0) return replica
+  const ops = stampChanges(replica.doc, replica.device, changes, author)
+  return { ...replica, doc: applyOps(replica.doc, ops).doc, base: next, pending: compact(replica.pending.concat(ops)) }
+}
+
+// A replica that has never recorded or pulled anything
+export const isNewReplica = (replica: SyncReplica) =>
+  replica.cursor === 0 && replica.pending.length === 0 && COLLECTIONS.every((c) => Object.keys(replica.doc.entities[c]).length === 0)
+
+// First round of a new replica. It pulls before recording anything, so a device joining a family
+// takes on the shared state instead of pushing its own (seed) graph over it as fresh edits. With
+// the local state as base, merging the result replaces every local entity with the remote one or
+// removes it. On an empty server the local state is recorded and pushed as usual.
+export async function joinRound(replica: SyncReplica, transport: SyncTransport, state: SyncedState): Promise<{ replica: SyncReplica; result: SyncResult }> {
+  const pulled = await transport.pull(0)
+  if (!pulled.ok) return { replica, result: pulled }
+  if (pulled.ops.length === 0) return syncRound(recordLocal(replica, state), transport)
+  const base = snapshotOf(state)
+  const { doc } = applyOps(replica.doc, pulled.ops)
+  const changed = new Map<string, EntityRef>()
+  for (const entities of [base, doc.entities]) {
+    for (const collection of COLLECTIONS) for (const key of Object.keys(entities[collection])) changed.set(`${collection}/${key}`, { collection, key })
+  }
+  return { replica: { ...replica, doc, base, cursor: pulled.cursor }, result: { ok: true, changed: [...changed.values()] } }
+}
+
+// Pushes the queue, then pulls. Ops stay queued when the server can't be reached.
+export async function syncRound(replica: SyncReplica, transport: SyncTransport): Promise<{ replica: SyncReplica; result: SyncResult }> {
+  if (replica.pending.length > 0) {
+    const pushed = await transport.push(replica.pending)
+    if (!pushed.ok) return { replica, result: pushed }
+    replica = { ...replica, pending: [] }
+  }
+  const pulled = await transport.pull(replica.cursor)
+  if (!pulled.ok) return { replica, result: pulled }
+  const { doc, changed } = applyOps(replica.doc, pulled.ops)
+  return { replica: { ...replica, doc, cursor: pulled.cursor }, result: { ok: true, changed } }
+}
+
+type Graph = { nodes: GiftNode[]; edges: GiftEdge[] }
+
+// Puts `before` back in place of whatever `list` holds for `id`
+function restore<T extends { id: string }>(list: T[], id: string, before: T | undefined): T[] {
+  if (!before) return list.filter((x) => x.id !== id)
+  return list.some((x) => x.id === id) ? list.map((x) => (x.id === id ? before : x)) : list.concat(before)
+}
+
+// Everything but a profile's sharing with profiles and groups for which `gone` holds
+function withoutGoneShares(p: Profile, gone: (id: string) => boolean): string {
+  return JSON.stringify([
+    p.name, p.color ?? null, p.lock ?? null,
+    p.shareWith.filter((x) => !gone(x)).sort(),
+    (p.shareWithGroups ?? []).filter((x) => !gone(x)).sort(),
+    Object.entries(p.shareRoles ?? {}).filter(([x, role]) => role === 'editor' && !gone(x)).sort(),
+  ])
+}
+
+// Remote changes are held to the permission model like local ones, as the profile each op says
+// made it: a profile changes only itself (others may just drop shares with profiles and groups
+// that are gone), a group only by its members' hand, and a node or edge only in ways that profile
+// could by hand. Nodes of a profile or group that is gone may be handed on, and ideas go with a
+// deleted person. Seasons and exchange pairings are family-wide, as locally, and entities merged
+// without ops (a first sync) aren't checked. Refused changes are left out of the returned state;
+// since it then differs from the merged base, the next push puts them back on every device.
+// Authors are as honest as the devices that push them; the server's token keeps strangers out.
+export function withoutForbidden(local: SyncedState, merged: SyncedState, changed: EntityRef[]): SyncedState {
+  const refs = (collection: Collection) => changed.filter((c) => c.collection === collection && c.authors)
+  const by = (ref: EntityRef, ok: (author: ProfileId | undefined) => boolean) => ref.authors!.every(ok)
+
+  // Profiles and groups first, so a change can't grant itself access and use it
+  let profiles = merged.profiles
+  for (const ref of refs('profiles')) {
+    const before = local.profiles.find((p) => p.id === ref.key)
+    if (before && !profiles.some((p) => p.id === ref.key) && !by(ref, (a) => a === ref.key)) profiles = restore(profiles, ref.key, before)
+  }
+  let groups = merged.groups ?? []
+  for (const ref of refs('groups')) {
+    const before = (local.groups ?? []).find((g) => g.id === ref.key)
+    const members = (before ?? groups.find((g) => g.id === ref.key))?.members ?? []
+    if (!by(ref, (a) => !!a && members.includes(a))) groups = restore(groups, ref.key, before)
+  }
+  const gone = (id: string | undefined) => !!id && !profiles.some((p) => p.id === id) && !groups.some((g) => g.id === id)
+  for (const ref of refs('profiles')) {
+    const before = local.profiles.find((p) => p.id === ref.key)
+    const after = profiles.find((p) => p.id === ref.key)
+    if (!before || !after || by(ref, (a) => a === ref.key || gone(a))) continue
+    if (withoutGoneShares(after, gone) !== withoutGoneShares(before, gone)) profiles = restore(profiles, ref.key, before)
+  }
+
+  const may = (author: ProfileId | undefined, node: GiftNode | undefined, permission: Permission) =>
+    can(profiles, author, node, permission, groups) || (node?.type !== 'root' && gone(node?.data.owner))
+  const nodeOk = (author: ProfileId | undefined, before: GiftNode | undefined, after: GiftNode | undefined, from: Graph, to: Graph) => {
+    if (before && after) {
+      const owner = (n: GiftNode) => (n.type === 'root' ? undefined : n.data.owner)
+      return may(author, before, 'edit') && (owner(before) === owner(after) || may(author, before, 'transfer'))
+    }
+    if (before) {
+      const parents = hierarchyParents(from.edges, before.id)
+      return may(author, before, 'delete') || (parents.length > 0 && parents.every((id) => !to.nodes.some((n) => n.id === id)))
+    }
+    return !!after && (after.type === 'root' ? may(author, after, 'edit') : canCreateFor(profiles, author, after.data.owner, groups))
+  }
+
+  const graphOf = (state: SyncedState, seasonId: string): Graph =>
+    seasonId === state.currentSeasonId ? state : state.seasons.find((x) => x.id === seasonId)?.graph ?? { nodes: [], edges: [] }
+  const graphs = new Map<string, Graph>()
+  for (const collection of ['nodes', 'edges'] as const) {
+    for (const ref of refs(collection)) {
+      const [seasonId, id] = splitGraphKey(ref.key)
+      // A season new to this device arrives whole, built from the doc
+      if (!local.seasons.some((x) => x.id === seasonId)) continue
+      const from = graphOf(local, seasonId)
+      const to = graphs.get(seasonId) ?? graphOf(merged, seasonId)
+      if (collection === 'nodes') {
+        const before = from.nodes.find((n) => n.id === id)
+        const after = to.nodes.find((n) => n.id === id)
+        if (before !== after && !by(ref, (a) => nodeOk(a, before, after, from, to))) graphs.set(seasonId, { ...to, nodes: restore(to.nodes, id, before) })
+      } else {
+        const before = from.edges.find((e) => e.id === id)
+        const after = to.edges.find((e) => e.id === id)
+        // Tree edges belong to the child they attach, and come and go with a node added or removed
+        const moved = (nodeId: string) => from.nodes.some((n) => n.id === nodeId) !== to.nodes.some((n) => n.id === nodeId)
+        const edgeOk = (author: ProfileId | undefined, e: GiftEdge | undefined) =>
+          !e || isExchangeEdge(e) || moved(e.source) || moved(e.target) || may(author, from.nodes.find((n) => n.id === e.target) ?? to.nodes.find((n) => n.id === e.target), 'edit')
+        if (before !== after && !by(ref, (a) => edgeOk(a, before) && edgeOk(a, after))) graphs.set(seasonId, { ...to, edges: restore(to.edges, id, before) })
+      }
+    }
+  }
+
+  const live = graphs.get(merged.currentSeasonId)
+  return {
+    ...merged,
+    profiles,
+    groups,
+    nodes: live?.nodes ?? merged.nodes,
+    edges: live?.edges ?? merged.edges,
+    seasons: merged.seasons.map((x) => {
+      const g = graphs.get(x.id)
+      return g && x.id !== merged.currentSeasonId ? { ...x, graph: g } : x
+    }),
+  }
+}
+
+function isOp(value: unknown): value is SyncOp {
+  const op = value as SyncOp
+  return !!op && typeof op.key === 'string' && typeof op.field === 'string' && COLLECTIONS.includes(op.collection) &&
+    !!op.stamp && typeof op.stamp.clock === 'number' && typeof op.stamp.device === 'string' &&
+    (op.author === undefined || typeof op.author === 'string')
+}
+
+export function httpTransport({ url: baseUrl, token }: SyncServerConfig, fetchFn: typeof fetch = (...args) => fetch(...args)): SyncTransport {
+  const url = (path: string) => `${baseUrl.replace(/\/+$/, '')}${path}`
+  const call = async (path: string, init: RequestInit = {}): Promise<{ ok: true; body: any } | { ok: false; error: SyncError }> => {
+    let res: Response
+    try {
+      res = await fetchFn(url(path), { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } })
+    } catch {
+      return { ok: false, error: 'offline' }
+    }
+    if (res.status === 401) return { ok: false, error: 'unauthorized' }
+    if (!res.ok) return { ok: false, error: 'server_error' }
+    try {
+      return { ok: true, body: await res.json() }
+    } catch {
+      return { ok: false, error: 'bad_response' }
+    }
+  }
+  return {
+    push: async (ops) => {
+      const res = await call('/ops', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ ops }) })
+      return res.ok ? { ok: true } : res
+    },
+    pull: async (since) => {
+      const res = await call(`/ops?since=${since}`)
+      if (!res.ok) return res
+      const { ops, cursor } = res.body ?? {}
+      if (!Array.isArray(ops) || !ops.every(isOp) || typeof cursor !== 'number') return { ok: false, error: 'bad_response' }
+      return { ok: true, ops, cursor }
+    },
+  }
+}
+
+export interface MemoryRelay extends SyncTransport {
+  // While false every call fails as if the network were down
+  online: boolean
+}
+
+// In-process stand-in for the sync server (server/sync-server.js), with the same behaviour: it
+// keeps the newest op per register and hands out everything accepted after a cursor.
+export function createMemoryRelay(): MemoryRelay {
+  const registers = new Map<string, { seq: number; op: SyncOp }>()
+  let seq = 0
+  const relay: MemoryRelay = {
+    online: true,
+    push: async (ops) => {
+      if (!relay.online) return { ok: false, error: 'offline' }
+      for (const op of ops) {
+        const current = registers.get(registerKey(op))
+        if (!current || compareStamps(op.stamp, current.op.stamp) > 0) registers.set(registerKey(op), { seq: ++seq, op })
+      }
+      return { ok: true }
+    },
+    pull: async (since) => {
+      if (!relay.online) return { ok: false, error: 'offline' }
+      const ops = [...registers.values()].filter((r) => r.seq > since).sort((a, b) => a.seq - b.seq).map((r) => r.op)
+      return { ok: true, ops, cursor: seq }
+    },
+  }
+  return relay
+}
+
+// A replica that doesn't read back starts over and joins again like a new device.
+export async function loadReplica(storage = getStorage()): Promise<SyncReplica> {
+  try {
+    const parsed = JSON.parse((await storage.get(REPLICA_KEY)) ?? 'null')
+    if (parsed && typeof parsed.device === 'string' && parsed.doc?.entities && parsed.base && Array.isArray(parsed.pending) && typeof parsed.cursor === 'number') return parsed
+  } catch {
+    // fall through
+  }
+  return createReplica()
+}
+
+// A failed write only costs a re-pull next time; the ops themselves are on the server
+export async function saveReplica(replica: SyncReplica, storage = getStorage()): Promise<void> {
+  try {
+    await storage.set(REPLICA_KEY, JSON.stringify(replica))
+  } catch {
+    // ignore
+  }
+}
+
+export async function loadSyncServer(storage = getStorage()): Promise<SyncServerConfig | undefined> {
+  try {
+    const parsed = JSON.parse((await storage.get(SERVER_KEY)) ?? 'null')
+    return typeof parsed?.url === 'string' && typeof parsed.token === 'string' ? parsed : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export async function saveSyncServer(config: SyncServerConfig | undefined, storage = getStorage()): Promise<void> {
+  try {
+    if (config) await storage.set(SERVER_KEY, JSON.stringify(config))
+    else await storage.remove(SERVER_KEY)
+  } catch {
+    // ignore
+  }
+}
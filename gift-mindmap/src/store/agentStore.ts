@@ -4,9 +4,12 @@
  */
 
 import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
 import type { WorkflowState, AgentMessage, ApprovalRequest } from "../features/agent/types";
 import { AgentExecutor } from "../features/agent/executor";
 import { VIBE_CODER_WORKFLOW } from "../features/agent/workflow";
+import { zustandStorage } from "../lib/storage";
+import { loadAiSettings } from "../lib/settings";
 
 interface AgentStore {
   // Workflow state
@@ -33,7 +36,7 @@ interface AgentStore {
   setHmrConnected: (connected: boolean) => void;
 }
 
-export const useAgentStore = create<AgentStore>((set, get) => ({
+export const useAgentStore = create<AgentStore>()(persist((set, get) => ({
   workflowState: null,
   executor: null,
   messages: [
@@ -53,11 +56,8 @@ export const useAgentStore = create<AgentStore>((set, get) => ({
     set({ isProcessing: true, error: null });
 
     try {
-      // Load model configuration from localStorage
-      const provider = localStorage.getItem("ai_provider") || "openai";
-      const model = localStorage.getItem("ai_model") || "gpt-4o";
-      const localModelUrl = localStorage.getItem("local_model_url") || "http://localhost:11434/api/chat";
-      const localModelName = localStorage.getItem("local_model_name") || "";
+      // Load model configuration saved by the Settings panel
+      const { provider, model, localModelUrl, localModelName, openaiApiKey, anthropicApiKey } = await loadAiSettings();
 
       // Debug logging
       console.log('[AgentStore] Loading configuration:');
@@ -70,9 +70,9 @@ export const useAgentStore = create<AgentStore>((set, get) => ({
       let effectiveApiKey = apiKey;
       if (!effectiveApiKey) {
         if (provider === "openai") {
-          effectiveApiKey = localStorage.getItem("openai_api_key") || undefined;
+          effectiveApiKey = openaiApiKey;
         } else if (provider === "anthropic") {
-          effectiveApiKey = localStorage.getItem("anthropic_api_key") || undefined;
+          effectiveApiKey = anthropicApiKey;
         }
         // Note: Local provider doesn't need an API key
       }
@@ -148,4 +148,9 @@ export const useAgentStore = create<AgentStore>((set, get) => ({
   setHmrConnected: (connected: boolean) => {
     set({ hmrConnected: connected });
   },
+}), {
+  // Only the conversation is kept; executors and in-flight workflow state can't be revived
+  name: "gift-mindmap/agent/history/v1",
+  storage: createJSONStorage(() => zustandStorage),
+  partialize: (s) => ({ messages: s.messages }),
 }));
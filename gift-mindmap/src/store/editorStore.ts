@@ -1,5 +1,6 @@
 import { create } from "zustand";
-import { persist } from "zustand/middleware";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { zustandStorage } from "@/lib/storage";
 
 export type Language = "html" | "css" | "javascript";
 
@@ -100,6 +101,7 @@ export const useEditorStore = create<EditorState>()(
     }),
     {
       name: "live-code-editor-storage",
+      storage: createJSONStorage(() => zustandStorage),
     }
   )
 );
@@ -1,11 +1,29 @@
 import { create } from 'zustand'
 import { devtools } from 'zustand/middleware'
-import type { ExportedState, GiftEdge, GiftNode, IdeaData, IdeaStatus, PersonData, Profile, ProfileId } from '@/types/gift'
+import type { ExchangeConfig, ExportedState, GiftEdge, GiftNode, GroupId, IdeaData, IdeaStatus, ImportResult, PersonData, Profile, ProfileGroup, ProfileId, Season, SeasonId, ShareRole } from '@/types/gift'
 import { uid } from '@/lib/uid'
-import { colorForProfile } from '@/lib/colors'
-import { radialLayout } from '@/lib/layout'
+import { assignProfileColors, colorForProfile, pickProfileColor, profileColor, sameColor } from '@/lib/colors'
+import { LAYOUT_LABELS, applyLayout, type LayoutKind } from '@/lib/layout'
+import { createEntry, diffGraph, isEmptyPatch, jumpTo, recordEntry, redoStep, undoStep, type GraphPatch, type HistoryBranch, type HistoryEntry, type HistoryState } from '@/lib/history'
+import { clearState, debounce, deleteSlot, listSlots, loadSlot, loadState, readRawState, saveSlot, saveState, type SaveError, type SaveResult, type SaveSlot } from '@/lib/persist'
+import { EXCHANGE_EDGE_LABEL, drawExchange, isExchangeEdge, pairingsFromEdges, previousPairings, type DrawResult } from '@/lib/exchange'
+import { DEFAULT_SEASON_ID, DEFAULT_SEASON_NAME, clonePeople, emptySeasonGraph, rootLabelFor } from '@/lib/seasons'
+import { DEFAULT_STATUS_PIPELINE, STATUS_LABELS, appendTransition, firstPurchasedStatus, isPurchased, nextStatus, normalizePipeline, prevStatus } from '@/lib/status'
+import { checkConnection, checkReparent, type HierarchyCheck } from '@/lib/hierarchy'
+import { personKey, type CsvImportPlan } from '@/lib/csv'
+import { can, canCreateFor, canEditEdge, type Permission } from '@/lib/permissions'
+import { reassignProfile, removeProfile, type ProfileResult } from '@/lib/profiles'
+import { unshareGroup, withoutMember } from '@/lib/groups'
+import { isWebUrl } from '@/lib/productUrl'
+import { loadImage, openStoredImage, saveImage, sealStoredImage, type SaveImageResult } from '@/lib/images'
+import { MIN_PASSPHRASE_LENGTH, createLock, openIdea, openLock, rewriteIdeas, sealIdea, type LockResult } from '@/lib/profileLock'
+import { mergeRemote, snapshotOf, type EntityRef, type Snapshot, type SyncedState } from '@/lib/crdt'
+import { httpTransport, isNewReplica, joinRound, loadReplica, loadSyncServer, recordLocal, saveReplica, saveSyncServer, syncRound, withoutForbidden, type SyncReplica, type SyncServerConfig, type SyncStatus, type SyncTransport } from '@/lib/sync'
+import type { StorageAdapter } from '@/lib/storage'
 import { applyNodeChanges, applyEdgeChanges, addEdge as rfAddEdge, type NodeChange, type EdgeChange, type Connection } from 'reactflow'
 
+export type ImportCheck = { ok: true } | { ok: false; error: 'not_allowed' }
+
 export interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
@@ -17,38 +35,128 @@ export interface GiftState {
   nodes: GiftNode[]
   edges: GiftEdge[]
   // history
-  past: Array<{ nodes: GiftNode[]; edges: GiftEdge[] }>
-  future: Array<{ nodes: GiftNode[]; edges: GiftEdge[] }>
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+  // redo lines abandoned by later edits, kept as an undo tree
+  branches: HistoryBranch[]
+  // seasons (the active season's graph is nodes/edges above)
+  seasons: Season[]
+  currentSeasonId: SeasonId
   // profiles
   profiles: Profile[]
   currentProfileId?: ProfileId
+  // passphrase-protected profiles opened this session; their keys are held outside the state
+  unlockedProfiles: ProfileId[]
+  // named sets of profiles that can be shared with and own nodes together
+  groups: ProfileGroup[]
   // canvas modes
   treeMode: boolean
   treeProfiles: ProfileId[]
-  // selection
+  // gift exchange rules for the active season; pairings themselves live in edges
+  exchange: ExchangeConfig
+  // idea lifecycle
+  statusPipeline: IdeaStatus[]
+  statusFilter: IdeaStatus[]
+  // layout used by Reset
+  layout: LayoutKind
+  // persistence
+  persistence: { status: 'idle' | 'saved' | 'error'; lastSavedAt?: string; error?: SaveError }
+  // set when the autosaved state exists but can't be read; autosave is paused until resolved
+  recovery?: { error: string; raw: string }
+  saveSlots: SaveSlot[]
+  // multi-device sync, see startSync; `syncServer` is the address connectSync last connected to
+  sync: SyncStatus
+  syncServer?: string
+  // selection: `selectedId` is the primary node the edit panel shows, `selectedIds` everything
+  // picked by shift-click or marquee
   selectedId?: string
+  selectedIds: string[]
   // chat
   messages: ChatMessage[]
 
   // actions
   setCurrentProfile: (id: ProfileId) => void
+  // Steps to the next (1) or previous (-1) profile, passing over locked ones
+  cycleProfile: (step: 1 | -1) => void
   addProfile: (name: string) => ProfileId
+  // Profile management. Only the current profile can rename, recolor or delete itself, or be merged;
+  // locked profiles are off limits.
+  renameProfile: (id: ProfileId, name: string) => ProfileResult
+  recolorProfile: (id: ProfileId, color: string) => ProfileResult
+  // The profile's nodes go to `reassignTo`, or are deleted without one
+  deleteProfile: (id: ProfileId, reassignTo?: ProfileId) => ProfileResult
+  // Moves everything of `sourceId` (nodes, claims, sharing) over to `targetId`, then removes it
+  mergeProfiles: (sourceId: ProfileId, targetId: ProfileId) => ProfileResult
   shareWithToggle: (targetId: ProfileId) => void
+  shareWithGroupToggle: (groupId: GroupId) => void
+  // Lets a profile or group the current one shares with view or also edit its nodes
+  setShareRole: (targetId: ProfileId | GroupId, role: ShareRole) => void
+  // Groups. The creator is the first member, and only members can change a group. Only the last
+  // member can delete it, which hands its nodes to them.
+  addGroup: (name: string) => GroupId
+  renameGroup: (id: GroupId, name: string) => void
+  setGroupMember: (id: GroupId, profileId: ProfileId, member: boolean) => void
+  deleteGroup: (id: GroupId) => void
+  // Passphrase protection. Locked profiles can't be switched to and what their ideas are stays
+  // encrypted, pictures included; unlocked ones are encrypted again whenever the state is saved.
+  setPassphrase: (passphrase: string) => Promise<LockResult>
+  removePassphrase: (passphrase: string) => Promise<LockResult>
+  unlockProfile: (id: ProfileId, passphrase: string) => Promise<LockResult>
+  lockProfile: (id: ProfileId) => Promise<void>
 
   addPerson: (owner: ProfileId | undefined, name: string, interests?: string) => string
-  addIdea: (owner: ProfileId | undefined, personId: string, title: string, notes?: string) => string
+  addIdea: (owner: ProfileId | undefined, personId: string, title: string, notes?: string, details?: Partial<IdeaData>) => string
   updatePerson: (id: string, patch: Partial<PersonData>) => void
   updateIdea: (id: string, patch: Partial<IdeaData>) => void
   togglePurchased: (id: string) => void
+  setIdeaStatus: (id: string, status: IdeaStatus) => void
+  advanceStatus: (id: string) => void
+  rewindStatus: (id: string) => void
+  setConflictResolution: (ideaId: string, otherIdeaId: string, resolution?: 'dismissed' | 'claimed') => void
+  linkPersonToProfile: (personId: string, profileId?: ProfileId) => void
+  claimIdea: (id: string) => void
+  unclaimIdea: (id: string) => void
+
+  setExchangeConfig: (patch: Partial<ExchangeConfig>) => void
+  runExchangeDraw: (seed?: number) => DrawResult
+  clearExchange: () => void
   deleteNode: (id: string) => void
   selectNode: (id?: string) => void
+  setSelection: (ids: string[]) => void
+
+  // bulk actions, each recorded as one history entry
+  setIdeasPurchased: (ids: string[], purchased: boolean) => void
+  moveIdeas: (ids: string[], personId: string) => void
+  reparentIdea: (ideaId: string, personId: string) => HierarchyCheck
+  setOwner: (ids: string[], owner?: ProfileId) => void
+  deleteNodes: (ids: string[]) => void
+  recolorNodes: (ids: string[], color?: string) => void
+
+  addSeason: (name: string, opts?: { clonePeopleFrom?: SeasonId }) => SeasonId
+  switchSeason: (id: SeasonId) => void
+  renameSeason: (id: SeasonId, name: string) => void
 
   setTreeMode: (enabled: boolean) => void
   setTreeProfiles: (ids: ProfileId[]) => void
+  setStatusPipeline: (stages: IdeaStatus[]) => void
+  setStatusFilter: (statuses: IdeaStatus[]) => void
+  setLayout: (kind: LayoutKind) => void
   resetLayout: () => void
 
-  importState: (state: ExportedState) => void
+  // Refused when the map holds nodes the current profile may not delete, since they'd be replaced
+  importState: (state: ExportedState) => ImportCheck
+  // Adds the people and ideas of a previewed CSV import as one undoable step
+  importCsv: (plan: CsvImportPlan) => { people: number; ideas: number }
   exportState: () => ExportedState
+  // exportState with every passphrase-protected profile's ideas encrypted, for saves and files
+  exportSealedState: () => Promise<ExportedState>
+
+  hydrate: () => Promise<ImportResult>
+  saveNow: () => Promise<SaveResult>
+  saveToSlot: (name: string) => Promise<SaveResult>
+  loadFromSlot: (id: string) => Promise<ImportResult>
+  deleteSaveSlot: (id: string) => Promise<void>
+  discardRecovery: () => Promise<void>
 
   sendMessage: (text: string) => void
 
@@ -60,6 +168,8 @@ export interface GiftState {
   // history controls
   undo: () => void
   redo: () => void
+  // undefined jumps back to before the first recorded entry
+  jumpToHistory: (entryId?: string) => void
 }
 
 const family = [
@@ -73,9 +183,227 @@ const family = [
   'Maggy',
 ]
 
+function withStatus(node: GiftNode, status: IdeaStatus): GiftNode {
+  if (node.type !== 'idea' || node.data.status === status) return node
+  return { ...node, data: { ...node.data, status, statusHistory: appendTransition(node.data.statusHistory, status) } }
+}
+
+// Writes the live graph and exchange rules back into the active season entry so it can be switched
+// away from or exported.
+function archiveActiveSeason(s: Pick<GiftState, 'nodes' | 'edges' | 'exchange' | 'seasons' | 'currentSeasonId'>): Season[] {
+  return s.seasons.map((season) => (season.id === s.currentSeasonId ? { ...season, graph: { nodes: s.nodes, edges: s.edges }, exchange: s.exchange } : season))
+}
+
+function withoutArchive({ graph: _graph, exchange: _exchange, ...season }: Season): Season {
+  return season
+}
+
+// Links that aren't http(s) are dropped before they can end up in an href
+function withWebUrl<T extends { url?: string }>(details: T): T {
+  if (details.url === undefined || isWebUrl(details.url)) return details
+  const { url: _url, ...rest } = details
+  return rest as T
+}
+
+// Ownership, claims, encryption and profile links have actions of their own with their own checks
+// (setOwner needs 'transfer'), so plain edits can't change them
+const PROTECTED_FIELDS = ['owner', 'claimedBy', 'claimedAt', 'sealed', 'profileId'] as const
+
+function editableFields<T extends object>(patch: T): T {
+  const rest = { ...patch } as Record<string, unknown>
+  for (const key of PROTECTED_FIELDS) delete rest[key]
+  return rest as T
+}
+
+function nodeName(node?: GiftNode): string {
+  if (!node) return 'item'
+  return node.type === 'idea' ? node.data.title : node.data.label
+}
+
+// Fans a person's ideas out around it, one step further round for each child it already has.
+function nextIdeaPosition(s: Pick<GiftState, 'nodes' | 'edges'>, personId: string) {
+  const parent = s.nodes.find((n) => n.id === personId)
+  const siblings = s.edges.filter((e) => e.source === personId).length
+  const angle = (siblings / Math.max(siblings + 1, 1)) * Math.PI * 2
+  const center = parent?.position ?? { x: 0, y: 0 }
+  return { x: center.x + Math.cos(angle) * 160, y: center.y + Math.sin(angle) * 120 }
+}
+
+// Records the graph change from `s` to `next` as one labelled undo entry. Entries with the same
+// group (a drag, repeated typing) coalesce; an unchanged graph records nothing.
+function recorded(s: GiftState, next: { nodes?: GiftNode[]; edges?: GiftEdge[] }, label: string, group?: string): Partial<GiftState> {
+  const patch = diffGraph(s, { nodes: next.nodes ?? s.nodes, edges: next.edges ?? s.edges })
+  if (isEmptyPatch(patch)) return {}
+  return recordEntry(s, createEntry(label, patch, group))
+}
+
+// Every graph action runs as the current profile and silently skips nodes it lacks `permission` on.
+// Seasons and the exchange draw are family-wide and unchecked; undo/redo and whole-map imports go
+// through only if the current profile could make the same change by hand (see changeAllowed).
+// Sealed ideas can only be looked at until their owner unlocks them.
+function allowed(s: Pick<GiftState, 'profiles' | 'groups' | 'currentProfileId'>, node: GiftNode | undefined, permission: Permission): boolean {
+  if (permission !== 'view' && node?.type === 'idea' && node.data.sealed) return false
+  return can(s.profiles, s.currentProfileId, node, permission, s.groups)
+}
+
+// Whether the current profile may turn the graph into the one `patch` leads to: edits need 'edit'
+// (and 'transfer' to change the owner), removals 'delete', and additions the right to create for
+// their owner. Edges follow the node they attach, or come and go with a node added or removed.
+function changeAllowed(s: Pick<GiftState, 'profiles' | 'groups' | 'currentProfileId' | 'nodes'>, patch: GraphPatch): boolean {
+  const nodes = patch.nodes.every(({ before, after }) => {
+    if (before && after) return allowed(s, before, 'edit') && (before.type === 'root' || before.data.owner === (after.type === 'root' ? undefined : after.data.owner) || allowed(s, before, 'transfer'))
+    if (before) return allowed(s, before, 'delete')
+    return !!after && (after.type === 'root' ? allowed(s, after, 'edit') : canCreateFor(s.profiles, s.currentProfileId, after.data.owner, s.groups))
+  })
+  const addedOrRemoved = new Set(patch.nodes.filter((p) => !p.before || !p.after).map((p) => p.id))
+  const known = s.nodes.concat(patch.nodes.flatMap((p) => [p.after, p.before].filter((n): n is GiftNode => !!n)))
+  const edgeOk = (e?: GiftEdge) => !e || addedOrRemoved.has(e.source) || addedOrRemoved.has(e.target) || canEditEdge(s.profiles, s.currentProfileId, known, e, s.groups)
+  return nodes && patch.edges.every((p) => edgeOk(p.before) && edgeOk(p.after))
+}
+
+// Moves through the history only when the resulting change is one the current profile may make
+function historyMove(s: GiftState, next: HistoryState | undefined): Partial<GiftState> {
+  if (!next || !changeAllowed(s, diffGraph(s, next))) return {}
+  return next
+}
+
+// Session keys of unlocked profiles. Kept out of the store so they never reach devtools or a save.
+const profileKeys = new Map<ProfileId, CryptoKey>()
+
+// Sealing gives new ciphertext every time. Reusing the last sealing of an unchanged idea keeps
+// saves stable and keeps sync from seeing edits nobody made.
+const sealedIdeas = new WeakMap<IdeaData, { key: CryptoKey; data: IdeaData }>()
+
+async function sealCached(data: IdeaData, key: CryptoKey): Promise<IdeaData> {
+  const hit = sealedIdeas.get(data)
+  if (hit?.key === key) return hit.data
+  // A picture that couldn't be encrypted stays where it is; the idea no longer points at it
+  if (data.imageId) await sealStoredImage(data.imageId, key).catch(() => undefined)
+  const sealed = await sealIdea(data, key)
+  sealedIdeas.set(data, { key, data: sealed })
+  return sealed
+}
+
+// Opens an idea and remembers the sealed form it came in
+async function openCached(data: IdeaData, key: CryptoKey): Promise<IdeaData | undefined> {
+  const opened = await openIdea(data, key)
+  if (opened && opened !== data) sealedIdeas.set(opened, { key, data })
+  return opened
+}
+
+// Pictures of `owner`'s ideas, live and archived
+function imagesOf(s: Pick<GiftState, 'nodes' | 'seasons'>, owner: ProfileId): string[] {
+  const nodes = s.nodes.concat(s.seasons.flatMap((x) => x.graph?.nodes ?? []))
+  return nodes.flatMap((n) => (n.type === 'idea' && n.data.owner === owner && n.data.imageId ? [n.data.imageId] : []))
+}
+
+function isLocked(s: Pick<GiftState, 'profiles' | 'unlockedProfiles'>, id?: ProfileId): boolean {
+  return !!id && !!s.profiles.find((p) => p.id === id)?.lock && !s.unlockedProfiles.includes(id)
+}
+
+// Profile management acts on the current profile only
+function checkManage(s: Pick<GiftState, 'profiles' | 'unlockedProfiles' | 'currentProfileId'>, id: ProfileId): ProfileResult {
+  if (!s.profiles.some((p) => p.id === id)) return { ok: false, error: 'not_found' }
+  if (id !== s.currentProfileId) return { ok: false, error: 'not_allowed' }
+  return { ok: true }
+}
+
+// Removes a profile, handing its nodes to `into` (or deleting them) across every season. A merge
+// also carries its sharing over. Groups it was the last member of go too, their nodes passing to
+// `into` or whoever is current next. Nodes of a removed profile can't come back through undo once
+// the profile is gone, so the history starts over.
+function withoutProfile(s: GiftState, id: ProfileId, into?: ProfileId, merge = false): Partial<GiftState> {
+  profileKeys.delete(id)
+  const groups = withoutMember(s.groups, id, merge ? into : undefined)
+  const emptied = s.groups.filter((g) => !groups.some((x) => x.id === g.id)).map((g) => g.id)
+  const unlockedProfiles = s.unlockedProfiles.filter((x) => x !== id)
+  const profiles = emptied.reduce(unshareGroup, removeProfile(s.profiles, id, merge ? into : undefined))
+  const currentProfileId = accessibleProfile({ profiles, unlockedProfiles }, into)
+  const heir = into ?? currentProfileId ?? profiles[0]?.id
+  const reassign = (g: { nodes: GiftNode[]; edges: GiftEdge[] }) => emptied.reduce((next, group) => reassignProfile(next, group, heir), reassignProfile(g, id, into))
+  const graph = reassign(s)
+  const treeProfiles = s.treeProfiles.filter((x) => x !== id && !emptied.includes(x))
+  const kept = new Set(graph.nodes.map((n) => n.id))
+  return {
+    ...graph,
+    profiles,
+    unlockedProfiles,
+    groups,
+    treeProfiles: into && s.treeProfiles.includes(id) && !treeProfiles.includes(into) ? treeProfiles.concat(into) : treeProfiles,
+    seasons: s.seasons.map((x) => (x.graph ? { ...x, graph: reassign(x.graph) } : x)),
+    currentProfileId,
+    ...withoutSelected(s, new Set(s.nodes.filter((n) => !kept.has(n.id)).map((n) => n.id))),
+    ...freshHistory(),
+  }
+}
+
+// Everything an import or load replaces. Keys belong to the profiles being replaced, so every
+// protected profile starts out locked, and the history starts over.
+function replacedState(state: ExportedState): Partial<GiftState> {
+  profileKeys.clear()
+  const taken: string[] = []
+  return {
+    nodes: state.nodes,
+    edges: state.edges,
+    // Older files have no stored colors, and hashed ones can collide, also with a group's
+    profiles: assignProfileColors(state.profiles, taken),
+    currentProfileId: accessibleProfile({ profiles: state.profiles, unlockedProfiles: [] }, state.currentProfileId),
+    unlockedProfiles: [],
+    groups: assignProfileColors(state.groups ?? [], taken),
+    statusPipeline: normalizePipeline(state.statusPipeline),
+    statusFilter: [],
+    seasons: state.seasons,
+    currentSeasonId: state.currentSeasonId,
+    exchange: state.exchange ?? emptyExchange(),
+    selectedId: undefined,
+    selectedIds: [],
+    ...freshHistory(),
+  }
+}
+
+// Group changes are up to its members
+function memberGroup(s: Pick<GiftState, 'groups' | 'currentProfileId'>, id: GroupId): ProfileGroup | undefined {
+  const group = s.groups.find((g) => g.id === id)
+  return group && s.currentProfileId && group.members.includes(s.currentProfileId) ? group : undefined
+}
+
+// Profiles and groups share one color space since both own nodes
+const takenColors = (s: Pick<GiftState, 'profiles' | 'groups'>) =>
+  s.profiles.map((p) => profileColor(s.profiles, p.id)).concat(s.groups.map((g) => g.color))
+
+// Where to go when the current profile gets locked: the first profile that is still open
+function accessibleProfile(s: Pick<GiftState, 'profiles' | 'unlockedProfiles'>, preferred?: ProfileId): ProfileId | undefined {
+  if (preferred && !isLocked(s, preferred)) return preferred
+  return s.profiles.find((p) => !isLocked(s, p.id))?.id
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`
+const countChanged = (before: GiftNode[], after: GiftNode[]) => after.filter((n, i) => n !== before[i]).length
+
+function withoutSelected(s: Pick<GiftState, 'selectedId' | 'selectedIds'>, removed: Set<string>): Pick<GiftState, 'selectedId' | 'selectedIds'> {
+  const selectedIds = s.selectedIds.filter((id) => !removed.has(id))
+  return { selectedIds, selectedId: s.selectedId && !removed.has(s.selectedId) ? s.selectedId : selectedIds[selectedIds.length - 1] }
+}
+
+// Applies React Flow's select changes (shift-click, marquee, pane click) to the selection state.
+// The most recently selected node becomes the primary one.
+function selectionFrom(s: Pick<GiftState, 'selectedId' | 'selectedIds'>, changes: NodeChange[]): Partial<GiftState> {
+  const selects = changes.filter((c): c is Extract<NodeChange, { type: 'select' }> => c.type === 'select')
+  if (selects.length === 0) return {}
+  const removed = new Set(selects.filter((c) => !c.selected).map((c) => c.id))
+  const added = selects.filter((c) => c.selected && !s.selectedIds.includes(c.id)).map((c) => c.id)
+  const selectedIds = s.selectedIds.filter((id) => !removed.has(id)).concat(added)
+  const selectedId = added.length > 0 ? added[added.length - 1] : s.selectedId && !removed.has(s.selectedId) ? s.selectedId : selectedIds[selectedIds.length - 1]
+  return { selectedIds, selectedId }
+}
+
+const freshHistory = () => ({ past: [], future: [], branches: [] })
+
+const emptyExchange = (): ExchangeConfig => ({ participants: [], exclusions: [], households: [], avoidPrevious: true, previous: [] })
+
 function seedGraph(currentProfileId?: ProfileId) {
   const nodes: GiftNode[] = [
-    { id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: '🎄 Christmas 2025 - Gift Map' } },
+    { id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: rootLabelFor(DEFAULT_SEASON_NAME) } },
   ]
   let edges: GiftEdge[] = []
 
@@ -106,27 +434,89 @@ export const useGiftStore = create<GiftState>()(
     // initial state
     nodes: seedGraph(undefined).nodes,
     edges: [],
-    past: [],
-    future: [],
+    ...freshHistory(),
+    seasons: [{ id: DEFAULT_SEASON_ID, name: DEFAULT_SEASON_NAME, createdAt: new Date().toISOString() }],
+    currentSeasonId: DEFAULT_SEASON_ID,
     profiles: [
       { id: 'me', name: 'Me', color: colorForProfile('me'), shareWith: [] },
     ],
     currentProfileId: 'me',
+    unlockedProfiles: [],
+    groups: [],
     treeMode: false,
     treeProfiles: ['me'],
+    statusPipeline: DEFAULT_STATUS_PIPELINE,
+    statusFilter: [],
+    layout: 'rings',
+    exchange: emptyExchange(),
+    persistence: { status: 'idle' },
+    recovery: undefined,
+    saveSlots: [],
+    sync: { state: 'off', pending: 0 },
+    syncServer: undefined,
     selectedId: undefined,
+    selectedIds: [],
     messages: [],
 
     // actions
-    setCurrentProfile: (id) => set({ currentProfileId: id }),
+    setCurrentProfile: (id) => set((s) => (isLocked(s, id) ? {} : { currentProfileId: id })),
+    cycleProfile: (step) => set((s) => {
+      const n = s.profiles.length
+      const index = s.profiles.findIndex((p) => p.id === s.currentProfileId)
+      for (let i = 1; i < n; i++) {
+        const next = s.profiles[(((index + step * i) % n) + n) % n]
+        if (next.id !== s.currentProfileId && !isLocked(s, next.id)) return { currentProfileId: next.id }
+      }
+      return {}
+    }),
 
     addProfile: (name) => {
       const id = uid('profile')
-      const color = colorForProfile(id)
-      set((s) => ({ profiles: s.profiles.concat({ id, name, color, shareWith: [] }) }))
+      set((s) => ({ profiles: s.profiles.concat({ id, name, color: pickProfileColor(takenColors(s)), shareWith: [] }) }))
       return id
     },
 
+    renameProfile: (id, name) => {
+      const check = checkManage(get(), id)
+      if (!check.ok) return check
+      if (!name.trim()) return { ok: false, error: 'empty_name' }
+      set((s) => ({ profiles: s.profiles.map((p) => (p.id === id ? { ...p, name: name.trim() } : p)) }))
+      return { ok: true }
+    },
+
+    // Colors stay unique so owners can be told apart on the map
+    recolorProfile: (id, color) => {
+      const s = get()
+      const check = checkManage(s, id)
+      if (!check.ok) return check
+      if (s.profiles.some((p) => p.id !== id && sameColor(profileColor(s.profiles, p.id), color)) || s.groups.some((g) => sameColor(g.color, color))) return { ok: false, error: 'color_taken' }
+      set({ profiles: s.profiles.map((p) => (p.id === id ? { ...p, color } : p)) })
+      return { ok: true }
+    },
+
+    deleteProfile: (id, reassignTo) => {
+      const s = get()
+      const check = checkManage(s, id)
+      if (!check.ok) return check
+      if (s.profiles.length === 1) return { ok: false, error: 'last_profile' }
+      if (reassignTo === id) return { ok: false, error: 'same_profile' }
+      if (reassignTo && !s.profiles.some((p) => p.id === reassignTo)) return { ok: false, error: 'not_found' }
+      if (isLocked(s, reassignTo)) return { ok: false, error: 'locked' }
+      set((s) => withoutProfile(s, id, reassignTo))
+      return { ok: true }
+    },
+
+    mergeProfiles: (sourceId, targetId) => {
+      const s = get()
+      const check = checkManage(s, sourceId)
+      if (!check.ok) return check
+      if (sourceId === targetId) return { ok: false, error: 'same_profile' }
+      if (!s.profiles.some((p) => p.id === targetId)) return { ok: false, error: 'not_found' }
+      if (isLocked(s, targetId)) return { ok: false, error: 'locked' }
+      set((s) => withoutProfile(s, sourceId, targetId, true))
+      return { ok: true }
+    },
+
     shareWithToggle: (targetId) => set((s) => {
       const current = s.currentProfileId
       if (!current) return {}
@@ -134,139 +524,765 @@ export const useGiftStore = create<GiftState>()(
         if (p.id !== current) return p
         const has = p.shareWith.includes(targetId)
         const next = has ? p.shareWith.filter((x) => x !== targetId) : p.shareWith.concat(targetId)
-        return { ...p, shareWith: next }
+        // Withdrawing a share also forgets its role, so sharing again starts view-only
+        if (!has || !p.shareRoles?.[targetId]) return { ...p, shareWith: next }
+        const { [targetId]: _role, ...shareRoles } = p.shareRoles
+        return { ...p, shareWith: next, shareRoles }
       })
       return { profiles }
     }),
 
+    shareWithGroupToggle: (groupId) => set((s) => {
+      const current = s.currentProfileId
+      if (!current || !s.groups.some((g) => g.id === groupId)) return {}
+      const profiles = s.profiles.map((p) => {
+        if (p.id !== current) return p
+        if (!p.shareWithGroups?.includes(groupId)) return { ...p, shareWithGroups: (p.shareWithGroups ?? []).concat(groupId) }
+        return unshareGroup([p], groupId)[0]
+      })
+      return { profiles }
+    }),
+
+    setShareRole: (targetId, role) => set((s) => {
+      const current = s.currentProfileId
+      if (!current) return {}
+      const profiles = s.profiles.map((p) => {
+        if (p.id !== current || !(p.shareWith.includes(targetId) || p.shareWithGroups?.includes(targetId))) return p
+        const shareRoles = { ...p.shareRoles }
+        if (role === 'viewer') delete shareRoles[targetId]
+        else shareRoles[targetId] = role
+        return { ...p, shareRoles }
+      })
+      return { profiles }
+    }),
+
+    // Returns '' without a current profile or a name
+    addGroup: (name) => {
+      const s = get()
+      if (!s.currentProfileId || !name.trim()) return ''
+      const id = uid('group')
+      set({ groups: s.groups.concat({ id, name: name.trim(), members: [s.currentProfileId], color: pickProfileColor(takenColors(s)) }) })
+      return id
+    },
+
+    renameGroup: (id, name) => set((s) => {
+      if (!memberGroup(s, id) || !name.trim()) return {}
+      return { groups: s.groups.map((g) => (g.id === id ? { ...g, name: name.trim() } : g)) }
+    }),
+
+    // The last member can't leave; delete the group instead
+    setGroupMember: (id, profileId, member) => set((s) => {
+      const group = memberGroup(s, id)
+      if (!group || !s.profiles.some((p) => p.id === profileId) || group.members.includes(profileId) === member) return {}
+      const members = member ? group.members.concat(profileId) : group.members.filter((m) => m !== profileId)
+      if (members.length === 0) return {}
+      return { groups: s.groups.map((g) => (g.id === id ? { ...g, members } : g)) }
+    }),
+
+    // Like deleting a profile, undo can't bring back nodes owned by a group that no longer exists
+    deleteGroup: (id) => set((s) => {
+      if (memberGroup(s, id)?.members.length !== 1) return {}
+      return {
+        ...reassignProfile(s, id, s.currentProfileId),
+        groups: s.groups.filter((g) => g.id !== id),
+        profiles: unshareGroup(s.profiles, id),
+        seasons: s.seasons.map((x) => (x.graph ? { ...x, graph: reassignProfile(x.graph, id, s.currentProfileId) } : x)),
+        ...freshHistory(),
+      }
+    }),
+
+    setPassphrase: async (passphrase) => {
+      const id = get().currentProfileId
+      const profile = get().profiles.find((p) => p.id === id)
+      if (!id || !profile) return { ok: false, error: 'no_profile' }
+      if (profile.lock) return { ok: false, error: 'already_locked' }
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) return { ok: false, error: 'too_short' }
+      const { lock, key } = await createLock(passphrase)
+      for (const imageId of imagesOf(get(), id)) await sealStoredImage(imageId, key).catch(() => undefined)
+      profileKeys.set(id, key)
+      set((s) => ({
+        profiles: s.profiles.map((p) => (p.id === id ? { ...p, lock } : p)),
+        unlockedProfiles: s.unlockedProfiles.concat(id),
+      }))
+      return { ok: true }
+    },
+
+    // The current profile is always unlocked, so its ideas are already plain text in memory
+    removePassphrase: async (passphrase) => {
+      const id = get().currentProfileId
+      const lock = get().profiles.find((p) => p.id === id)?.lock
+      if (!id) return { ok: false, error: 'no_profile' }
+      if (!lock) return { ok: false, error: 'not_locked' }
+      const key = await openLock(lock, passphrase)
+      if (!key) return { ok: false, error: 'wrong_passphrase' }
+      for (const imageId of imagesOf(get(), id)) await openStoredImage(imageId, key).catch(() => undefined)
+      profileKeys.delete(id)
+      set((s) => ({
+        profiles: s.profiles.map((p) => (p.id === id ? { ...p, lock: undefined } : p)),
+        unlockedProfiles: s.unlockedProfiles.filter((x) => x !== id),
+      }))
+      return { ok: true }
+    },
+
+    // Decrypting rewrites nodes outside of any user edit, so the undo history starts over
+    unlockProfile: async (id, passphrase) => {
+      const lock = get().profiles.find((p) => p.id === id)?.lock
+      if (!lock) return { ok: false, error: 'not_locked' }
+      if (get().unlockedProfiles.includes(id)) return { ok: true }
+      const key = await openLock(lock, passphrase)
+      if (!key) return { ok: false, error: 'wrong_passphrase' }
+      const apply = await rewriteIdeas(get(), async (data) => (data.owner === id && data.sealed ? openCached(data, key) : undefined))
+      profileKeys.set(id, key)
+      set((s) => ({ ...apply({ nodes: s.nodes, seasons: s.seasons }), unlockedProfiles: s.unlockedProfiles.concat(id), ...freshHistory() }))
+      return { ok: true }
+    },
+
+    lockProfile: async (id) => {
+      const key = profileKeys.get(id)
+      if (!key) return
+      const apply = await rewriteIdeas(get(), async (data) => (data.owner === id && !data.sealed ? sealCached(data, key) : undefined))
+      profileKeys.delete(id)
+      set((s) => {
+        const unlockedProfiles = s.unlockedProfiles.filter((x) => x !== id)
+        return {
+          ...apply({ nodes: s.nodes, seasons: s.seasons }),
+          unlockedProfiles,
+          currentProfileId: accessibleProfile({ profiles: s.profiles, unlockedProfiles }, s.currentProfileId),
+          selectedId: undefined,
+          selectedIds: [],
+          ...freshHistory(),
+        }
+      })
+    },
+
+    // Returns '' when the current profile may not add nodes for `owner`
     addPerson: (owner, name, interests) => {
+      const s0 = get()
+      if (!canCreateFor(s0.profiles, s0.currentProfileId, owner, s0.groups)) return ''
       const id = uid('person')
-      const color = colorForProfile(owner)
+      const color = profileColor(s0.profiles, owner)
       set((s) => {
         const people = s.nodes.filter((n) => n.type === 'person')
         const index = people.length
         const angle = (index / Math.max(people.length + 1, 1)) * Math.PI * 2
         const pos = { x: Math.cos(angle) * 450, y: Math.sin(angle) * 280 }
-        return {
-          nodes: s.nodes.concat({ id, type: 'person', position: pos, data: { owner, label: name, interests, __color: color } }),
-          edges: s.edges.concat({ id: uid('e'), source: 'root', target: id, animated: true } as any),
-          past: s.past.concat([{ nodes: JSON.parse(JSON.stringify(s.nodes)), edges: JSON.parse(JSON.stringify(s.edges)) }]),
-          future: [],
-        }
+        const nodes = s.nodes.concat({ id, type: 'person', position: pos, data: { owner, label: name, interests, __color: color } })
+        const edges = s.edges.concat({ id: uid('e'), source: 'root', target: id, animated: true } as any)
+        return { nodes, edges, ...recorded(s, { nodes, edges }, `Added person '${name}'`) }
       })
       return id
     },
 
-    addIdea: (owner, personId, title, notes) => {
+    // Returns '' when the current profile may not add nodes for `owner` or edit the person. Locked
+    // profiles get no new ideas: there is no key to encrypt them with.
+    addIdea: (owner, personId, title, notes, details) => {
+      const s0 = get()
+      if (!canCreateFor(s0.profiles, s0.currentProfileId, owner, s0.groups) || isLocked(s0, owner) || !allowed(s0, s0.nodes.find((n) => n.id === personId), 'edit')) return ''
       const id = uid('idea')
-      const color = colorForProfile(owner)
+      const color = profileColor(s0.profiles, owner)
+      set((s) => {
+        const pos = nextIdeaPosition(s, personId)
+        const status = s.statusPipeline[0]
+        const nodes = s.nodes.concat({ id, type: 'idea', position: pos, data: { ...withWebUrl(details ?? {}), owner, title, notes, status, statusHistory: appendTransition(undefined, status), __color: color } })
+        const edges = s.edges.concat({ id: uid('e'), source: personId, target: id })
+        return { nodes, edges, ...recorded(s, { nodes, edges }, `Added idea '${title}'`) }
+      })
+      return id
+    },
+
+    updatePerson: (id, patch) => set((s) => {
+      if (!allowed(s, s.nodes.find((n) => n.id === id), 'edit')) return {}
+      const nodes = s.nodes.map((n) => (n.id === id && n.type === 'person' ? { ...n, data: { ...n.data, ...editableFields(patch) } } : n))
+      return { nodes, ...recorded(s, { nodes }, `Edited '${nodeName(s.nodes.find((n) => n.id === id))}'`, `edit:${id}`) }
+    }),
+
+    updateIdea: (id, patch) => set((s) => {
+      if (!allowed(s, s.nodes.find((n) => n.id === id), 'edit')) return {}
+      const nodes = s.nodes.map((n) => (n.id === id && n.type === 'idea' ? { ...n, data: { ...n.data, ...withWebUrl(editableFields(patch)) } } : n))
+      return { nodes, ...recorded(s, { nodes }, `Edited idea '${nodeName(s.nodes.find((n) => n.id === id))}'`, `edit:${id}`) }
+    }),
+
+    togglePurchased: (id) => set((s) => {
+      const idea = s.nodes.find((n) => n.id === id)
+      if (idea?.type !== 'idea' || !allowed(s, idea, 'edit')) return {}
+      const status = isPurchased(idea.data.status) ? s.statusPipeline[0] : firstPurchasedStatus(s.statusPipeline)
+      const nodes = s.nodes.map((n) => (n.id === id ? withStatus(n, status) : n))
+      return { nodes, ...recorded(s, { nodes }, `Marked '${idea.data.title}' as ${STATUS_LABELS[status]}`) }
+    }),
+
+    setIdeaStatus: (id, status) => set((s) => {
+      const idea = s.nodes.find((n) => n.id === id)
+      if (idea?.type !== 'idea' || idea.data.status === status || !allowed(s, idea, 'edit')) return {}
+      const nodes = s.nodes.map((n) => (n.id === id ? withStatus(n, status) : n))
+      return { nodes, ...recorded(s, { nodes }, `Marked '${idea.data.title}' as ${STATUS_LABELS[status]}`) }
+    }),
+
+    advanceStatus: (id) => {
+      const idea = get().nodes.find((n) => n.id === id)
+      if (idea?.type !== 'idea') return
+      get().setIdeaStatus(id, nextStatus(get().statusPipeline, idea.data.status))
+    },
+
+    rewindStatus: (id) => {
+      const idea = get().nodes.find((n) => n.id === id)
+      if (idea?.type !== 'idea') return
+      get().setIdeaStatus(id, prevStatus(get().statusPipeline, idea.data.status))
+    },
+
+    deleteNode: (id) => set((s) => {
+      const node = s.nodes.find((n) => n.id === id)
+      if (!allowed(s, node, 'delete')) return {}
+      const nodes = s.nodes.filter((n) => n.id !== id)
+      const edges = s.edges.filter((e) => e.source !== id && e.target !== id)
+      return {
+        nodes,
+        edges,
+        ...withoutSelected(s, new Set([id])),
+        ...recorded(s, { nodes, edges }, `Deleted ${node?.type ?? 'node'} '${nodeName(node)}'`),
+      }
+    }),
+
+    selectNode: (id) => set({ selectedId: id, selectedIds: id ? [id] : [] }),
+    setSelection: (ids) => set((s) => ({
+      selectedIds: ids,
+      selectedId: s.selectedId && ids.includes(s.selectedId) ? s.selectedId : ids[ids.length - 1],
+    })),
+
+    setIdeasPurchased: (ids, purchased) => set((s) => {
+      const targets = new Set(ids)
+      const status = purchased ? firstPurchasedStatus(s.statusPipeline) : s.statusPipeline[0]
+      const nodes = s.nodes.map((n) => (targets.has(n.id) && n.type === 'idea' && isPurchased(n.data.status) !== purchased && allowed(s, n, 'edit') ? withStatus(n, status) : n))
+      const count = countChanged(s.nodes, nodes)
+      return { nodes, ...recorded(s, { nodes }, `Marked ${plural(count, 'idea')} ${purchased ? 'purchased' : 'not purchased'}`) }
+    }),
+
+    // Re-parents ideas: each idea's person→idea edge is replaced by one from `personId`
+    moveIdeas: (ids, personId) => set((s) => {
+      const person = s.nodes.find((n) => n.id === personId)
+      if (person?.type !== 'person' || !allowed(s, person, 'edit')) return {}
+      const alreadyThere = new Set(s.edges.filter((e) => e.source === personId).map((e) => e.target))
+      const ideas = new Set(s.nodes.filter((n) => ids.includes(n.id) && n.type === 'idea' && !alreadyThere.has(n.id) && allowed(s, n, 'edit')).map((n) => n.id))
+      if (ideas.size === 0) return {}
+      const edges = s.edges
+        .filter((e) => !(ideas.has(e.target) && !isExchangeEdge(e)))
+        .concat([...ideas].map((target) => ({ id: uid('e'), source: personId, target })))
+      return { edges, ...recorded(s, { edges }, `Moved ${plural(ideas.size, 'idea')} to '${person.data.label}'`) }
+    }),
+
+    reparentIdea: (ideaId, personId) => {
+      const s = get()
+      const check = checkReparent(s.nodes, s.edges, ideaId, personId)
+      if (!check.ok) return check
+      if (!allowed(s, s.nodes.find((n) => n.id === ideaId), 'edit') || !allowed(s, s.nodes.find((n) => n.id === personId), 'edit')) {
+        return { ok: false, error: 'You can only move ideas you may edit onto people you may edit.' }
+      }
       set((s) => {
-        const parent = s.nodes.find((n) => n.id === personId)
-        const siblings = s.edges.filter((e) => e.source === personId).length
-        const angle = (siblings / Math.max(siblings + 1, 1)) * Math.PI * 2
-        const center = parent?.position ?? { x: 0, y: 0 }
-        const pos = { x: center.x + Math.cos(angle) * 160, y: center.y + Math.sin(angle) * 120 }
+        const idea = s.nodes.find((n) => n.id === ideaId)!
+        const person = s.nodes.find((n) => n.id === personId)!
+        // Dropped ideas land on top of the person, so move them into the next free spot around it
+        const position = nextIdeaPosition(s, personId)
+        const nodes = s.nodes.map((n) => (n.id === ideaId ? { ...n, position } : n))
+        const edges = s.edges
+          .filter((e) => !(e.target === ideaId && !isExchangeEdge(e)))
+          .concat({ id: uid('e'), source: personId, target: ideaId })
+        return { nodes, edges, ...recorded(s, { nodes, edges }, `Moved '${nodeName(idea)}' to '${nodeName(person)}'`) }
+      })
+      return check
+    },
+
+    setOwner: (ids, owner) => set((s) => {
+      const targets = new Set(ids)
+      const nodes = s.nodes.map((n) => (targets.has(n.id) && n.type !== 'root' && n.data.owner !== owner && allowed(s, n, 'transfer') ? ({ ...n, data: { ...n.data, owner } } as GiftNode) : n))
+      const name = s.profiles.find((p) => p.id === owner)?.name ?? s.groups.find((g) => g.id === owner)?.name ?? 'nobody'
+      return { nodes, ...recorded(s, { nodes }, `Gave ${plural(countChanged(s.nodes, nodes), 'node')} to ${name}`) }
+    }),
+
+    deleteNodes: (ids) => set((s) => {
+      const targets = new Set(ids.filter((id) => s.nodes.some((n) => n.id === id && n.type !== 'root' && allowed(s, n, 'delete'))))
+      if (targets.size === 0) return {}
+      const nodes = s.nodes.filter((n) => !targets.has(n.id))
+      const edges = s.edges.filter((e) => !targets.has(e.source) && !targets.has(e.target))
+      return { nodes, edges, ...withoutSelected(s, targets), ...recorded(s, { nodes, edges }, `Deleted ${plural(targets.size, 'node')}`) }
+    }),
+
+    recolorNodes: (ids, color) => set((s) => {
+      const targets = new Set(ids)
+      const nodes = s.nodes.map((n) => (targets.has(n.id) && n.type !== 'root' && n.data.color !== color && allowed(s, n, 'edit') ? ({ ...n, data: { ...n.data, color } } as GiftNode) : n))
+      const count = countChanged(s.nodes, nodes)
+      return { nodes, ...recorded(s, { nodes }, color ? `Recolored ${plural(count, 'node')}` : `Reset color of ${plural(count, 'node')}`) }
+    }),
+
+    addSeason: (name, opts) => {
+      const id = uid('season')
+      set((s) => {
+        const seasons = archiveActiveSeason(s)
+        const source = seasons.find((x) => x.id === opts?.clonePeopleFrom)?.graph
+        const graph = source ? clonePeople(source, name) : emptySeasonGraph(name)
         return {
-          nodes: s.nodes.concat({ id, type: 'idea', position: pos, data: { owner, title, notes, status: 'pending', __color: color } }),
-          edges: s.edges.concat({ id: uid('e'), source: personId, target: id }),
-          past: s.past.concat([{ nodes: JSON.parse(JSON.stringify(s.nodes)), edges: JSON.parse(JSON.stringify(s.edges)) }]),
-          future: [],
+          seasons: seasons.concat({ id, name, createdAt: new Date().toISOString() }),
+          currentSeasonId: id,
+          nodes: graph.nodes,
+          edges: graph.edges,
+          exchange: emptyExchange(),
+          selectedId: undefined,
+          selectedIds: [],
+          ...freshHistory(),
         }
       })
       return id
     },
 
-    updatePerson: (id, patch) => set((s) => ({
-      nodes: s.nodes.map((n) => (n.id === id && n.type === 'person' ? { ...n, data: { ...n.data, ...patch } } : n)),
-      past: s.past.concat([{ nodes: JSON.parse(JSON.stringify(s.nodes)), edges: JSON.parse(JSON.stringify(s.edges)) }]),
-      future: [],
-    })),
+    switchSeason: (id) => set((s) => {
+      if (id === s.currentSeasonId) return {}
+      const target = s.seasons.find((x) => x.id === id)
+      if (!target) return {}
+      const graph = target.graph ?? emptySeasonGraph(target.name)
+      const seasons = archiveActiveSeason(s).map((x) => (x.id === id ? withoutArchive(x) : x))
+      // Saves from before exchange rules were archived per season only have the pairings
+      const exchange = target.exchange ?? { ...emptyExchange(), participants: pairingsFromEdges(graph.edges).map((p) => p.giver) }
+      return { seasons, currentSeasonId: id, nodes: graph.nodes, edges: graph.edges, exchange, selectedId: undefined, selectedIds: [], ...freshHistory() }
+    }),
 
-    updateIdea: (id, patch) => set((s) => ({
-      nodes: s.nodes.map((n) => (n.id === id && n.type === 'idea' ? { ...n, data: { ...n.data, ...patch } } : n)),
-      past: s.past.concat([{ nodes: JSON.parse(JSON.stringify(s.nodes)), edges: JSON.parse(JSON.stringify(s.edges)) }]),
-      future: [],
+    renameSeason: (id, name) => set((s) => ({
+      seasons: s.seasons.map((x) => (x.id === id ? { ...x, name } : x)),
+      nodes: id === s.currentSeasonId
+        ? s.nodes.map((n) => (n.type === 'root' ? { ...n, data: { ...n.data, label: rootLabelFor(name) } } : n))
+        : s.nodes,
     })),
 
-    togglePurchased: (id) => set((s) => ({
-      nodes: s.nodes.map((n) => {
-        if (n.id !== id || n.type !== 'idea') return n
-        const status: IdeaStatus = n.data.status === 'purchased' ? 'pending' : 'purchased'
-        return { ...n, data: { ...n.data, status } }
-      }),
-      past: s.past.concat([{ nodes: JSON.parse(JSON.stringify(s.nodes)), edges: JSON.parse(JSON.stringify(s.edges)) }]),
-      future: [],
-    })),
+    // Only a profile that may edit `ideaId` can record a decision on it; the other idea is never touched.
+    setConflictResolution: (ideaId, otherIdeaId, resolution) => set((s) => {
+      const idea = s.nodes.find((n) => n.id === ideaId)
+      if (idea?.type !== 'idea' || !allowed(s, idea, 'edit')) return {}
+      const conflicts = { ...idea.data.conflicts }
+      if (resolution) conflicts[otherIdeaId] = resolution
+      else delete conflicts[otherIdeaId]
+      const nodes = s.nodes.map((n) => (n.id === ideaId && n.type === 'idea' ? { ...n, data: { ...n.data, conflicts } } : n))
+      const label = resolution === 'dismissed' ? 'Dismissed duplicate warning' : resolution === 'claimed' ? 'Kept idea despite duplicate' : 'Reopened duplicate warning'
+      return { nodes, ...recorded(s, { nodes }, `${label} on '${idea.data.title}'`) }
+    }),
 
-    deleteNode: (id) => set((s) => ({
-      nodes: s.nodes.filter((n) => n.id !== id),
-      edges: s.edges.filter((e) => e.source !== id && e.target !== id),
-      selectedId: s.selectedId === id ? undefined : s.selectedId,
-      past: s.past.concat([{ nodes: JSON.parse(JSON.stringify(s.nodes)), edges: JSON.parse(JSON.stringify(s.edges)) }]),
-      future: [],
-    })),
+    linkPersonToProfile: (personId, profileId) => set((s) => {
+      if (!allowed(s, s.nodes.find((n) => n.id === personId), 'edit')) return {}
+      const nodes = s.nodes.map((n) => (n.id === personId && n.type === 'person' ? { ...n, data: { ...n.data, profileId } } : n))
+      const name = nodeName(s.nodes.find((n) => n.id === personId))
+      return { nodes, ...recorded(s, { nodes }, profileId ? `Linked '${name}' to a profile` : `Unlinked '${name}' from its profile`) }
+    }),
+
+    // Anyone who can see an idea may claim it, except its recipient; an idea holds at most one claim.
+    claimIdea: (id) => set((s) => {
+      const claimant = s.currentProfileId
+      const idea = s.nodes.find((n) => n.id === id)
+      if (!claimant || idea?.type !== 'idea' || idea.data.claimedBy || !allowed(s, idea, 'view')) return {}
+      const parentId = s.edges.find((e) => e.target === id)?.source
+      const parent = s.nodes.find((n) => n.id === parentId)
+      if (parent?.type === 'person' && parent.data.profileId === claimant) return {}
+      const nodes = s.nodes.map((n) => (n.id === id && n.type === 'idea' ? { ...n, data: { ...n.data, claimedBy: claimant, claimedAt: new Date().toISOString() } } : n))
+      return { nodes, ...recorded(s, { nodes }, `Claimed '${idea.data.title}'`) }
+    }),
 
-    selectNode: (id) => set({ selectedId: id }),
+    unclaimIdea: (id) => set((s) => {
+      const idea = s.nodes.find((n) => n.id === id)
+      if (idea?.type !== 'idea' || !idea.data.claimedBy || idea.data.claimedBy !== s.currentProfileId) return {}
+      const nodes = s.nodes.map((n) => (n.id === id && n.type === 'idea' ? { ...n, data: { ...n.data, claimedBy: undefined, claimedAt: undefined } } : n))
+      return { nodes, ...recorded(s, { nodes }, `Released claim on '${idea.data.title}'`) }
+    }),
+
+    setExchangeConfig: (patch) => set((s) => ({ exchange: { ...s.exchange, ...patch } })),
+
+    // Replaces any previous pairings. Each pairing becomes a labelled person→person edge owned by
+    // the giver's linked profile, so only that profile can see who they drew.
+    runExchangeDraw: (seed) => {
+      const s = get()
+      const personIds = new Set(s.nodes.filter((n) => n.type === 'person').map((n) => n.id))
+      const lastSeason = s.seasons
+        .filter((x) => x.id !== s.currentSeasonId && x.graph)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0]
+      const config: ExchangeConfig = {
+        ...s.exchange,
+        participants: s.exchange.participants.filter((id) => personIds.has(id)),
+        previous: previousPairings(lastSeason?.graph, s.nodes),
+      }
+      const result = drawExchange(config, seed ?? Math.floor(Math.random() * 2 ** 32))
+      if (!result.ok) return result
+      const profileOf = new Map(s.nodes.map((n) => [n.id, n.type === 'person' ? n.data.profileId : undefined]))
+      const pairEdges: GiftEdge[] = result.pairings.map((p) => ({
+        id: uid('e'),
+        source: p.giver,
+        target: p.receiver,
+        label: EXCHANGE_EDGE_LABEL,
+        data: { owner: profileOf.get(p.giver), kind: 'exchange' },
+      }))
+      const edges = s.edges.filter((e) => !isExchangeEdge(e)).concat(pairEdges)
+      set({
+        edges,
+        exchange: { ...config, seed: result.seed, drawnAt: new Date().toISOString() },
+        ...recorded(s, { edges }, 'Drew the gift exchange'),
+      })
+      return result
+    },
+
+    clearExchange: () => set((s) => {
+      const edges = s.edges.filter((e) => !isExchangeEdge(e))
+      return { edges, exchange: { ...s.exchange, seed: undefined, drawnAt: undefined }, ...recorded(s, { edges }, 'Cleared the gift exchange') }
+    }),
 
     setTreeMode: (enabled) => set({ treeMode: enabled }),
     setTreeProfiles: (ids) => set({ treeProfiles: ids }),
+    setStatusPipeline: (stages) => set((s) => {
+      const statusPipeline = normalizePipeline(stages)
+      return { statusPipeline, statusFilter: s.statusFilter.filter((x) => statusPipeline.includes(x)) }
+    }),
+    setStatusFilter: (statuses) => set({ statusFilter: statuses }),
 
-    resetLayout: () => set((s) => ({
-      nodes: radialLayout(s.nodes, { x: 0, y: 0 }, 240),
-      past: s.past.concat([{ nodes: JSON.parse(JSON.stringify(s.nodes)), edges: JSON.parse(JSON.stringify(s.edges)) }]),
-      future: [],
-    })),
+    setLayout: (kind) => {
+      set({ layout: kind })
+      get().resetLayout()
+    },
+    // Nodes the current profile may not edit keep their place
+    resetLayout: () => set((s) => {
+      const laidOut = applyLayout(s.layout, s.nodes, s.edges)
+      const nodes = laidOut.map((n, i) => (s.nodes[i]?.id === n.id && !allowed(s, s.nodes[i], 'edit') ? s.nodes[i] : n))
+      return { nodes, ...recorded(s, { nodes }, `Applied ${LAYOUT_LABELS[s.layout].toLowerCase()} layout`) }
+    }),
 
-    importState: (state) => set((s) => ({
-      nodes: state.nodes,
-      edges: state.edges,
-      profiles: state.profiles,
-      currentProfileId: state.currentProfileId,
-      past: s.past.concat([{ nodes: JSON.parse(JSON.stringify(s.nodes)), edges: JSON.parse(JSON.stringify(s.edges)) }]),
-      future: [],
-    })),
+    importState: (state) => {
+      const s = get()
+      const everything = s.nodes.concat(s.seasons.flatMap((x) => x.graph?.nodes ?? []))
+      if (!everything.every((n) => n.type === 'root' || allowed(s, n, 'delete'))) return { ok: false, error: 'not_allowed' }
+      set(replacedState(state))
+      return { ok: true }
+    },
+
+    // Ideas under people the current profile can't edit are skipped, and ideas planned for a
+    // profile it can't add for become its own.
+    importCsv: (plan) => {
+      const owner = get().currentProfileId
+      const counts = { people: 0, ideas: 0 }
+      set((s) => {
+        let nodes = s.nodes
+        let edges = s.edges
+        const ids = new Map(Object.entries(plan.existingPeople))
+        const rootId = nodes.find((n) => n.type === 'root')?.id ?? 'root'
+        for (const name of plan.newPeople) {
+          const id = uid('person')
+          const index = nodes.filter((n) => n.type === 'person').length
+          const angle = (index / (index + 1)) * Math.PI * 2
+          nodes = nodes.concat({ id, type: 'person', position: { x: Math.cos(angle) * 450, y: Math.sin(angle) * 280 }, data: { owner, label: name, __color: profileColor(s.profiles, owner) } })
+          edges = edges.concat({ id: uid('e'), source: rootId, target: id, animated: true } as any)
+          ids.set(personKey(name), id)
+          counts.people++
+        }
+        for (const { row: _row, person, title, owner: ideaOwner, status, ...details } of plan.ideas) {
+          const personId = ids.get(personKey(person))
+          if (!personId || !allowed(s, nodes.find((n) => n.id === personId), 'edit')) continue
+          const id = uid('idea')
+          const first = status ?? s.statusPipeline[0]
+          const ideaOwnerId = ideaOwner && canCreateFor(s.profiles, owner, ideaOwner, s.groups) && !isLocked(s, ideaOwner) ? ideaOwner : owner
+          nodes = nodes.concat({ id, type: 'idea', position: nextIdeaPosition({ nodes, edges }, personId), data: { ...withWebUrl(details), owner: ideaOwnerId, title, status: first, statusHistory: appendTransition(undefined, first), __color: profileColor(s.profiles, ideaOwnerId) } })
+          edges = edges.concat({ id: uid('e'), source: personId, target: id })
+          counts.ideas++
+        }
+        return { nodes, edges, ...recorded(s, { nodes, edges }, `Imported ${plural(counts.ideas, 'idea')} from CSV`) }
+      })
+      return counts
+    },
 
     exportState: () => ({
-      version: 1,
+      version: 3,
       nodes: get().nodes,
       edges: get().edges,
       profiles: get().profiles,
       currentProfileId: get().currentProfileId,
+      statusPipeline: get().statusPipeline,
+      seasons: get().seasons.map((x) => (x.id === get().currentSeasonId ? withoutArchive(x) : x)),
+      currentSeasonId: get().currentSeasonId,
+      exchange: get().exchange,
+      groups: get().groups,
     }),
 
+    exportSealedState: async () => {
+      const state = get().exportState()
+      const keys = new Map(state.profiles.filter((p) => p.lock).map((p) => [p.id, profileKeys.get(p.id)]))
+      const apply = await rewriteIdeas(state, async (data) => {
+        const key = data.owner ? keys.get(data.owner) : undefined
+        return key && !data.sealed ? sealCached(data, key) : undefined
+      })
+      return apply(state)
+    },
+
+    // Restore the autosaved map on boot. A state that exists but fails validation is kept
+    // untouched and surfaced as `recovery` so the user can download it before starting fresh.
+    hydrate: async () => {
+      const res = await loadState()
+      const saveSlots = await listSlots()
+      if (res.ok) {
+        // Restoring this device's own save isn't an import by the current profile
+        set({ ...replacedState(res.data), recovery: undefined, saveSlots })
+      } else if (res.error !== 'no_state') {
+        set({ recovery: { error: res.error, raw: (await readRawState()) ?? '' }, saveSlots })
+      } else {
+        set({ saveSlots })
+      }
+      return res
+    },
+    saveNow: async () => {
+      if (get().recovery) return { ok: false, error: 'write_failed' }
+      const res = await saveState(await get().exportSealedState())
+      set({ persistence: res.ok ? { status: 'saved', lastSavedAt: new Date().toISOString() } : { ...get().persistence, status: 'error', error: res.error } })
+      return res
+    },
+    saveToSlot: async (name) => {
+      const res = await saveSlot(name.trim() || 'Untitled', await get().exportSealedState())
+      set({ saveSlots: await listSlots(), ...(res.ok ? {} : { persistence: { ...get().persistence, status: 'error' as const, error: res.error } }) })
+      return res
+    },
+    loadFromSlot: async (id) => {
+      const res = await loadSlot(id)
+      if (!res.ok) return res
+      const check = get().importState(res.data)
+      return check.ok ? res : check
+    },
+    deleteSaveSlot: async (id) => {
+      await deleteSlot(id)
+      set({ saveSlots: await listSlots() })
+    },
+    discardRecovery: async () => {
+      await clearState()
+      set({ recovery: undefined })
+    },
+
     sendMessage: (text) => set((s) => ({
       messages: s.messages.concat({ id: uid('m'), role: 'user', text }),
     })),
 
-    onNodesChange: (changes) => set((s) => ({
-      nodes: applyNodeChanges(changes as any, s.nodes as any) as any,
-      past: s.past.concat([{ nodes: JSON.parse(JSON.stringify(s.nodes)), edges: JSON.parse(JSON.stringify(s.edges)) }]),
-      future: [],
-    })),
-    onEdgesChange: (changes) => set((s) => ({
-      edges: applyEdgeChanges(changes as any, s.edges as any) as any,
-      past: s.past.concat([{ nodes: JSON.parse(JSON.stringify(s.nodes)), edges: JSON.parse(JSON.stringify(s.edges)) }]),
-      future: [],
-    })),
-    onConnect: (connection) => set((s) => ({
-      edges: rfAddEdge({ ...connection, id: uid('e') } as any, s.edges as any) as any,
-      past: s.past.concat([{ nodes: JSON.parse(JSON.stringify(s.nodes)), edges: JSON.parse(JSON.stringify(s.edges)) }]),
-      future: [],
-    })),
-
-    undo: () => set((s) => {
-      if (s.past.length === 0) return {}
-      const prev = s.past[s.past.length - 1]
-      const newPast = s.past.slice(0, -1)
-      const snapshot = { nodes: JSON.parse(JSON.stringify(s.nodes)), edges: JSON.parse(JSON.stringify(s.edges)) }
-      return { nodes: prev.nodes, edges: prev.edges, past: newPast, future: s.future.concat([snapshot]) }
+    // Selection lives in `selectedIds` rather than on the nodes, and neither it nor measurement
+    // changes are edits. Every frame of a drag lands in the same group, so it undoes in one step.
+    onNodesChange: (changes) => set((s) => {
+      const selection = selectionFrom(s, changes)
+      const permitted = (c: NodeChange) => {
+        if (c.type === 'position') return allowed(s, s.nodes.find((n) => n.id === c.id), 'edit')
+        if (c.type === 'remove') return allowed(s, s.nodes.find((n) => n.id === c.id), 'delete')
+        return true
+      }
+      changes = changes.filter(permitted)
+      const graphChanges = changes.filter((c) => c.type !== 'select')
+      const nodes = graphChanges.length === 0 ? s.nodes : (applyNodeChanges(graphChanges as any, s.nodes as any) as any as GiftNode[])
+      const edits = changes.filter((c) => c.type !== 'select' && c.type !== 'dimensions')
+      if (edits.length === 0) return { nodes, ...selection }
+      const ids = edits.map((c) => ('id' in c ? c.id : c.item.id))
+      if (edits.every((c) => c.type === 'position')) {
+        const label = ids.length === 1 ? `Moved '${nodeName(s.nodes.find((n) => n.id === ids[0]))}'` : `Moved ${ids.length} nodes`
+        return { nodes, ...selection, ...recorded(s, { nodes }, label, `move:${ids.slice().sort().join(',')}`) }
+      }
+      return { nodes, ...selection, ...recorded(s, { nodes }, ids.length === 1 ? 'Changed a node' : `Changed ${ids.length} nodes`) }
+    }),
+    onEdgesChange: (changes) => set((s) => {
+      changes = changes.filter((c) => {
+        if (c.type !== 'remove') return true
+        const edge = s.edges.find((e) => e.id === c.id)
+        return !!edge && canEditEdge(s.profiles, s.currentProfileId, s.nodes, edge, s.groups)
+      })
+      const edges = applyEdgeChanges(changes as any, s.edges as any) as any as GiftEdge[]
+      const removed = changes.filter((c) => c.type === 'remove').length
+      if (removed === 0) return { edges }
+      return { edges, ...recorded(s, { edges }, removed === 1 ? 'Removed a connection' : `Removed ${removed} connections`) }
     }),
-    redo: () => set((s) => {
-      if (s.future.length === 0) return {}
-      const next = s.future[s.future.length - 1]
-      const newFuture = s.future.slice(0, -1)
-      const snapshot = { nodes: JSON.parse(JSON.stringify(s.nodes)), edges: JSON.parse(JSON.stringify(s.edges)) }
-      return { nodes: next.nodes, edges: next.edges, future: newFuture, past: s.past.concat([snapshot]) }
+    onConnect: (connection) => set((s) => {
+      if (!connection.source || !connection.target) return {}
+      if (!checkConnection(s.nodes, s.edges, connection.source, connection.target).ok) return {}
+      if (!allowed(s, s.nodes.find((n) => n.id === connection.target), 'edit')) return {}
+      const edges = rfAddEdge({ ...connection, id: uid('e') } as any, s.edges as any) as any as GiftEdge[]
+      const names = [connection.source, connection.target].map((id) => nodeName(s.nodes.find((n) => n.id === id)))
+      return { edges, ...recorded(s, { edges }, `Connected '${names[0]}' to '${names[1]}'`) }
     }),
+
+    undo: () => set((s) => historyMove(s, undoStep(s))),
+    redo: () => set((s) => historyMove(s, redoStep(s))),
+    jumpToHistory: (entryId) => set((s) => historyMove(s, jumpTo(s, entryId))),
   }))
 )
+
+// Pictures of passphrase-protected profiles' ideas are stored encrypted with the owner's key
+export function saveIdeaImage(owner: ProfileId | undefined, file: Blob): Promise<SaveImageResult> {
+  const locked = useGiftStore.getState().profiles.some((p) => p.id === owner && p.lock)
+  return saveImage(file, undefined, locked && owner ? profileKeys.get(owner) : undefined)
+}
+
+// Encrypted pictures open with the key of any unlocked profile, so ideas keep theirs when given away
+export function loadIdeaImage(imageId: string): Promise<Blob | null> {
+  return loadImage(imageId, undefined, [...profileKeys.values()])
+}
+
+// Autosave: writes the exported state a short while after the last graph change. Returns a
+// stop function that flushes any pending write.
+export function startAutosave(delay = 1000): () => void {
+  const save = debounce(() => void useGiftStore.getState().saveNow(), delay)
+  const unsubscribe = useGiftStore.subscribe((s, prev) => {
+    if (
+      s.nodes !== prev.nodes || s.edges !== prev.edges || s.profiles !== prev.profiles ||
+      s.currentProfileId !== prev.currentProfileId || s.statusPipeline !== prev.statusPipeline ||
+      s.seasons !== prev.seasons || s.currentSeasonId !== prev.currentSeasonId || s.exchange !== prev.exchange ||
+      s.groups !== prev.groups
+    ) save()
+  })
+  const flush = () => save.flush()
+  if (typeof window !== 'undefined') window.addEventListener('beforeunload', flush)
+  return () => {
+    unsubscribe()
+    if (typeof window !== 'undefined') window.removeEventListener('beforeunload', flush)
+    save.flush()
+  }
+}
+
+// The state as exportSealedState would write it, as far as it's known without encrypting: ideas
+// edited since they were last sealed show up in plain text, which marks them as changed here.
+function sealedView(s: GiftState): SyncedState {
+  const view = (nodes: GiftNode[]) => nodes.map((n) => {
+    const hit = n.type === 'idea' && n.data.owner ? sealedIdeas.get(n.data) : undefined
+    return hit && n.type === 'idea' && hit.key === profileKeys.get(n.data.owner!) ? { ...n, data: hit.data } : n
+  })
+  return { ...s, nodes: view(s.nodes), seasons: s.seasons.map((x) => (x.graph ? { ...x, graph: { ...x.graph, nodes: view(x.graph.nodes) } } : x)) }
+}
+
+// Set while applyRemote writes to the store, so startSync doesn't take remote edits for local ones
+let applyingRemote = false
+
+function setRemote(update: (s: GiftState) => Partial<GiftState>) {
+  applyingRemote = true
+  try {
+    useGiftStore.setState(update)
+  } finally {
+    applyingRemote = false
+  }
+}
+
+// Writes merged remote changes into the store, leaving out any the permission model refuses
+// (see withoutForbidden), then decrypts ideas of profiles unlocked here. Remote edits aren't
+// undoable steps.
+async function applyRemote(replica: SyncReplica, changed: EntityRef[]): Promise<Snapshot> {
+  let base = replica.base
+  setRemote((s) => {
+    const merged = mergeRemote(s, snapshotOf(sealedView(s)), replica.base, replica.doc, changed)
+    base = merged.base
+    const { nodes, edges, profiles, seasons, groups = [] } = withoutForbidden(s, merged.state, changed)
+    const kept = new Set(nodes.map((n) => n.id))
+    // A passphrase removed on another device leaves nothing to unlock here
+    const unlockedProfiles = s.unlockedProfiles.filter((id) => profiles.some((p) => p.id === id && p.lock))
+    for (const id of s.unlockedProfiles) if (!unlockedProfiles.includes(id)) profileKeys.delete(id)
+    const current = profiles.some((p) => p.id === s.currentProfileId) ? s.currentProfileId : undefined
+    return {
+      nodes,
+      edges,
+      profiles,
+      groups,
+      seasons,
+      unlockedProfiles,
+      currentProfileId: accessibleProfile({ profiles, unlockedProfiles }, current),
+      ...withoutSelected(s, new Set(s.nodes.filter((n) => !kept.has(n.id)).map((n) => n.id))),
+    }
+  })
+  const apply = await rewriteIdeas(useGiftStore.getState(), async (data) => {
+    const key = data.owner ? profileKeys.get(data.owner) : undefined
+    return key && data.sealed ? openCached(data, key) : undefined
+  })
+  setRemote((s) => apply({ nodes: s.nodes, seasons: s.seasons }))
+  return base
+}
+
+export interface SyncHandle {
+  stop: () => void
+  // Runs a round now; resolves once it (and any queued before it) is done
+  syncNow: () => Promise<void>
+}
+
+// Multi-device sync: local changes become CRDT ops, queued while the server can't be reached,
+// and ops from other devices are merged in. Rounds run a short while after each change and every
+// `interval` ms.
+export function startSync(transport: SyncTransport, opts: { interval?: number; delay?: number; storage?: StorageAdapter } = {}): SyncHandle {
+  let replica: SyncReplica | undefined
+  // The profile that made the latest local change, which is who the next ops are from
+  let author = useGiftStore.getState().currentProfileId
+  let stopped = false
+  let running = Promise.resolve()
+  const status = (patch: Partial<SyncStatus>) => useGiftStore.setState((s) => ({ sync: { ...s.sync, ...patch } }))
+
+  const round = () => {
+    running = running.then(async () => {
+      if (stopped) return
+      replica ??= await loadReplica(opts.storage)
+      const state = await useGiftStore.getState().exportSealedState()
+      const joining = isNewReplica(replica)
+      if (!joining) replica = recordLocal(replica, state, author)
+      status({ state: 'syncing', pending: replica.pending.length })
+      const res = joining ? await joinRound(replica, transport, state) : await syncRound(replica, transport)
+      replica = res.replica
+      if (res.result.ok && res.result.changed.length > 0 && !stopped) replica = { ...replica, base: await applyRemote(replica, res.result.changed) }
+      await saveReplica(replica, opts.storage)
+      if (stopped) return
+      if (res.result.ok) status({ state: 'synced', pending: replica.pending.length, lastSyncedAt: new Date().toISOString(), error: undefined })
+      else status({ state: res.result.error === 'offline' ? 'offline' : 'error', pending: replica.pending.length, error: res.result.error })
+    }).catch(() => status({ state: 'error', error: 'server_error' }))
+    return running
+  }
+
+  const soon = debounce(() => void round(), opts.delay ?? 1000)
+  const unsubscribe = useGiftStore.subscribe((s, prev) => {
+    if (applyingRemote) return
+    if (s.nodes !== prev.nodes || s.edges !== prev.edges || s.profiles !== prev.profiles || s.groups !== prev.groups || s.seasons !== prev.seasons) {
+      // Deleting or merging a profile is done by that profile, even though another is current after
+      author = prev.currentProfileId
+      soon()
+    }
+  })
+  const timer = setInterval(() => void round(), opts.interval ?? 5000)
+  const online = () => void round()
+  if (typeof window !== 'undefined') window.addEventListener('online', online)
+  void round()
+  return {
+    stop: () => {
+      stopped = true
+      unsubscribe()
+      clearInterval(timer)
+      soon.cancel()
+      if (typeof window !== 'undefined') window.removeEventListener('online', online)
+      status({ state: 'off' })
+    },
+    syncNow: round,
+  }
+}
+
+// The app's one sync connection, shared by every view
+let syncHandle: SyncHandle | undefined
+
+// Connects to a sync server, or disconnects without one, and remembers the choice for the next start
+export function connectSync(config: SyncServerConfig | undefined) {
+  syncHandle?.stop()
+  syncHandle = config ? startSync(httpTransport(config)) : undefined
+  useGiftStore.setState({ syncServer: config?.url })
+  void saveSyncServer(config)
+}
+
+export function syncNow(): Promise<void> {
+  return syncHandle?.syncNow() ?? Promise.resolve()
+}
+
+// App start-up: restores the autosaved map, then starts autosave and reconnects to the last sync
+// server. Both wait for the stored map, so the seed graph never overwrites it. Returns a stop
+// function that flushes autosave and stops syncing.
+export function startApp(): () => void {
+  let stopAutosave: (() => void) | undefined
+  let cancelled = false
+  void useGiftStore.getState().hydrate().then(async () => {
+    if (cancelled) return
+    stopAutosave = startAutosave()
+    const server = await loadSyncServer()
+    if (server && !cancelled) connectSync(server)
+  })
+  return () => {
+    cancelled = true
+    stopAutosave?.()
+    syncHandle?.stop()
+    syncHandle = undefined
+  }
+}
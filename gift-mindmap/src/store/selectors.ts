@@ -1,20 +1,155 @@
 import { colorForProfile } from '@/lib/colors'
-import type { GiftEdge, GiftNode, Profile, ProfileId } from '@/types/gift'
+import { isPurchased } from '@/lib/status'
+import { isExchangeEdge } from '@/lib/exchange'
+import { shareRoleFor } from '@/lib/permissions'
+import { expandGroups, groupsOf } from '@/lib/groups'
+import type { BudgetState, BudgetTotals, GiftEdge, GiftNode, IdeaData, IdeaStatus, Profile, ProfileGroup, ProfileId } from '@/types/gift'
 
-export function buildProfileColorMap(profiles: Profile[]): Record<ProfileId, string> {
+// Keyed by owner id, so group-owned nodes get their group's color
+export function buildProfileColorMap(profiles: Profile[], groups: ProfileGroup[] = []): Record<ProfileId, string> {
   const map: Record<string, string> = {}
-  for (const p of profiles) {
+  for (const p of [...profiles, ...groups]) {
     map[p.id] = p.color ?? colorForProfile(p.id) ?? '#6b7280'
   }
   return map
 }
 
-export function filterByProfiles(nodes: GiftNode[], edges: GiftEdge[], allowed: ProfileId[] | undefined) {
-  if (!allowed || allowed.length === 0) return { nodes, edges }
-  const allowedSet = new Set(allowed)
-  const visibleNodes = nodes.filter((n) => n.type === 'root' || !('owner' in n.data) || !n.data.owner || allowedSet.has(n.data.owner))
+// Owners whose nodes the viewer may see: their own and their groups' outside tree mode, plus any
+// selected tree profile that has shared with them directly or through a group.
+export function visibleProfileIds(profiles: Profile[], viewer: ProfileId | undefined, treeMode: boolean, treeProfiles: ProfileId[], groups: ProfileGroup[] = []): Set<ProfileId> {
+  if (!viewer) return new Set()
+  const allowed = new Set<ProfileId>([viewer, ...groupsOf(groups, viewer)])
+  if (!treeMode) return allowed
+  for (const pid of treeProfiles) {
+    const prof = profiles.find((p) => p.id === pid)
+    if (prof && shareRoleFor(prof, viewer, groups)) allowed.add(pid)
+  }
+  return allowed
+}
+
+// Ideas for a person linked to the viewer's own profile are reduced to their title when someone
+// else owns them, so the recipient never sees claims, progress, notes or prices.
+export function redactForRecipient(nodes: GiftNode[], edges: GiftEdge[], viewer: ProfileId | undefined): GiftNode[] {
+  if (!viewer) return nodes
+  const mine = new Set(nodes.filter((n) => n.type === 'person' && n.data.profileId === viewer).map((n) => n.id))
+  if (mine.size === 0) return nodes
+  const parents = ideaParents(nodes, edges)
+  return nodes.map((n) => {
+    if (n.type !== 'idea' || n.data.owner === viewer || !mine.has(parents.get(n.id) ?? '')) return n
+    return { ...n, data: { owner: n.data.owner, title: n.data.title, __color: n.data.__color } }
+  })
+}
+
+// What the viewer sees of a graph: recipient-redacted, and only nodes whose owner is allowed (root is global)
+export function viewableNodes(nodes: GiftNode[], edges: GiftEdge[], viewer: ProfileId | undefined, allowed: Set<ProfileId>): GiftNode[] {
+  return redactForRecipient(nodes, edges, viewer).filter((n) => n.type === 'root' || (!!n.data.owner && allowed.has(n.data.owner)))
+}
+
+// Gift-exchange pairings are secret: only the giver's linked profile sees its edge.
+export function canSeeEdge(e: GiftEdge, viewer: ProfileId | undefined): boolean {
+  return !isExchangeEdge(e) || (!!viewer && e.data?.owner === viewer)
+}
+
+// `allowed` may name groups, which cover their own nodes and every member's
+export function filterByProfiles(nodes: GiftNode[], edges: GiftEdge[], allowed: ProfileId[] | undefined, viewer?: ProfileId, groups: ProfileGroup[] = []) {
+  const redacted = redactForRecipient(nodes, edges, viewer)
+  const seenEdges = edges.filter((e) => canSeeEdge(e, viewer))
+  if (!allowed || allowed.length === 0) return { nodes: redacted, edges: seenEdges }
+  const allowedSet = expandGroups(allowed, groups)
+  const visibleNodes = redacted.filter((n) => n.type === 'root' || !('owner' in n.data) || !n.data.owner || allowedSet.has(n.data.owner))
+  const visibleIds = new Set(visibleNodes.map((n) => n.id))
+  const visibleEdges = seenEdges.filter((e) => visibleIds.has(e.source) && visibleIds.has(e.target))
+  return { nodes: visibleNodes, edges: visibleEdges }
+}
+
+// An empty status list means "show every idea". Root and person nodes are never filtered.
+export function filterByStatus(nodes: GiftNode[], edges: GiftEdge[], statuses: IdeaStatus[] | undefined) {
+  if (!statuses || statuses.length === 0) return { nodes, edges }
+  const allowedSet = new Set(statuses)
+  const visibleNodes = nodes.filter((n) => n.type !== 'idea' || (n.data.status !== undefined && allowedSet.has(n.data.status)))
   const visibleIds = new Set(visibleNodes.map((n) => n.id))
   const visibleEdges = edges.filter((e) => visibleIds.has(e.source) && visibleIds.has(e.target))
   return { nodes: visibleNodes, edges: visibleEdges }
 }
 
+
+export const DEFAULT_CURRENCY = 'USD'
+
+export function ideaCost(idea: IdeaData): number {
+  const price = idea.price ?? 0
+  const quantity = idea.quantity ?? 1
+  return price * quantity
+}
+
+// Maps each idea id to the person it hangs off (the source of its incoming person edge).
+export function ideaParents(nodes: GiftNode[], edges: GiftEdge[]): Map<string, string> {
+  const persons = new Set(nodes.filter((n) => n.type === 'person').map((n) => n.id))
+  const parents = new Map<string, string>()
+  for (const e of edges) {
+    if (persons.has(e.source) && !parents.has(e.target)) parents.set(e.target, e.source)
+  }
+  return parents
+}
+
+function budgetState(budget: number | undefined, planned: number, spent: number): BudgetState {
+  if (budget === undefined) return 'none'
+  if (spent > budget) return 'over_spent'
+  if (planned > budget) return 'over_planned'
+  return 'ok'
+}
+
+function emptyTotals(budget?: number): BudgetTotals {
+  return { budget, planned: 0, spent: 0, currency: '', state: 'none' }
+}
+
+function addIdea(totals: BudgetTotals, idea: IdeaData) {
+  const cost = ideaCost(idea)
+  totals.planned += cost
+  if (isPurchased(idea.status)) totals.spent += cost
+  if (idea.currency && !totals.currency) totals.currency = idea.currency
+}
+
+function finalize<K extends string>(map: Record<K, BudgetTotals>): Record<K, BudgetTotals> {
+  for (const t of Object.values(map) as BudgetTotals[]) {
+    t.currency ||= DEFAULT_CURRENCY
+    t.state = budgetState(t.budget, t.planned, t.spent)
+  }
+  return map
+}
+
+// Planned counts every idea; spent counts purchased ideas only.
+export function budgetByPerson(nodes: GiftNode[], edges: GiftEdge[]): Record<string, BudgetTotals> {
+  const map: Record<string, BudgetTotals> = {}
+  for (const n of nodes) if (n.type === 'person') map[n.id] = emptyTotals(n.data.budget)
+  const parents = ideaParents(nodes, edges)
+  for (const n of nodes) {
+    if (n.type !== 'idea') continue
+    const personId = parents.get(n.id)
+    if (personId && map[personId]) addIdea(map[personId], n.data)
+  }
+  return finalize(map)
+}
+
+// Profile budget is the sum of the budgets on the persons it owns; spend is attributed to the idea owner.
+export function budgetByProfile(nodes: GiftNode[], edges: GiftEdge[]): Record<ProfileId, BudgetTotals> {
+  const map: Record<string, BudgetTotals> = {}
+  const get = (owner: ProfileId) => (map[owner] ??= emptyTotals())
+  for (const n of nodes) {
+    if (n.type !== 'person' || !n.data.owner || n.data.budget === undefined) continue
+    const t = get(n.data.owner)
+    t.budget = (t.budget ?? 0) + n.data.budget
+  }
+  for (const n of nodes) {
+    if (n.type !== 'idea' || !n.data.owner) continue
+    addIdea(get(n.data.owner), n.data)
+  }
+  return finalize(map)
+}
+
+export function formatMoney(amount: number, currency = DEFAULT_CURRENCY): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount)
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`
+  }
+}
@@ -12,31 +12,111 @@ export interface Profile {
   name: string
   color?: string
   shareWith: ProfileId[]
+  // Groups whose members all get access, as if each were in shareWith
+  shareWithGroups?: GroupId[]
+  // Role per profile in shareWith or group in shareWithGroups; anyone without an entry can only view
+  shareRoles?: Record<ProfileId | GroupId, ShareRole>
+  // Set when the profile is protected by a passphrase
+  lock?: ProfileLock
+}
+
+// AES-GCM ciphertext and its IV, both base64
+export interface SealedText {
+  iv: string
+  data: string
+}
+
+// PBKDF2 parameters for the profile's key. `check` decrypts to a fixed value, so a wrong
+// passphrase is caught even when the profile has no ideas yet.
+export interface ProfileLock {
+  salt: string
+  iterations: number
+  check: SealedText
+}
+
+export type ShareRole = 'viewer' | 'editor'
+
+export type GroupId = string
+
+// A named set of profiles, e.g. "Parents". Nodes whose owner is a group id belong to every member.
+export interface ProfileGroup {
+  id: GroupId
+  name: string
+  members: ProfileId[]
+  color?: string
 }
 
 export interface UINodeMeta {
   __color?: string
+  __budget?: BudgetTotals
+  __conflict?: 'open' | 'claimed_by_me' | 'claimed_by_other'
 }
 
 export interface RootData {
   label: string
 }
 
-export type IdeaStatus = 'purchased' | 'pending'
+export type IdeaStatus = 'considering' | 'ordered' | 'shipped' | 'received' | 'wrapped' | 'given'
+
+// Values written by older builds; migrated on import (see lib/status.ts).
+export type LegacyIdeaStatus = 'purchased' | 'pending'
+
+export interface StatusTransition {
+  status: IdeaStatus
+  at: string
+}
+
+export type BudgetState = 'none' | 'ok' | 'over_planned' | 'over_spent'
+
+// Totals are summed as plain numbers; mixed currencies are not converted.
+export interface BudgetTotals {
+  budget?: number
+  planned: number
+  spent: number
+  currency: string
+  state: BudgetState
+}
 
 export interface PersonData extends UINodeMeta {
   owner?: ProfileId
   label: string
   interests?: string
+  budget?: number
+  // Accent picked by the user; falls back to the owner's profile color
+  color?: string
+  // Profile of the recipient themselves, if they use the app
+  profileId?: ProfileId
   // Optional denormalized ideas summary for display convenience
   ideas?: Array<{ status?: IdeaStatus } | string>
 }
 
+export interface IdeaVariant {
+  size?: string
+  color?: string
+}
+
 export interface IdeaData extends UINodeMeta {
   owner?: ProfileId
   title: string
   notes?: string
   status?: IdeaStatus
+  statusHistory?: StatusTransition[]
+  // Owner's decision on a suspected duplicate, keyed by the other idea's id
+  conflicts?: Record<string, 'dismissed' | 'claimed'>
+  // "Dibs": another family member has committed to buying this idea
+  claimedBy?: ProfileId
+  claimedAt?: string
+  price?: number
+  currency?: string
+  quantity?: number
+  color?: string
+  // Product details; `store` is the retailer's display name, `imageId` keys a blob in the image store
+  url?: string
+  store?: string
+  imageId?: string
+  variant?: IdeaVariant
+  // Title, notes and product details, encrypted while the owner's profile is locked; `title` then holds a placeholder
+  sealed?: SealedText
 }
 
 export interface RootNode {
@@ -67,18 +147,75 @@ export interface GiftEdge {
   source: string
   target: string
   label?: string
-  data?: { owner?: ProfileId }
+  // kind 'exchange' marks a gift-exchange pairing between two persons, visible to its owner only
+  data?: { owner?: ProfileId; kind?: 'exchange' }
+}
+
+export interface ExchangePairing {
+  giver: string
+  receiver: string
 }
 
+// Participants and rules refer to person node ids in the active season.
+export interface ExchangeConfig {
+  participants: string[]
+  exclusions: Array<[string, string]>
+  households: string[][]
+  avoidPrevious: boolean
+  previous: ExchangePairing[]
+  seed?: number
+  drawnAt?: string
+}
+
+// Idea statuses in V1 files may still be LegacyIdeaStatus values.
 export interface ExportedStateV1 {
-  version: 1
+  version?: 1
+  nodes: GiftNode[]
+  edges: GiftEdge[]
+  profiles: Profile[]
+  currentProfileId?: ProfileId
+}
+
+export interface ExportedStateV2 {
+  version: 2
+  nodes: GiftNode[]
+  edges: GiftEdge[]
+  profiles: Profile[]
+  currentProfileId?: ProfileId
+  statusPipeline: IdeaStatus[]
+}
+
+export type SeasonId = string
+
+export interface SeasonGraph {
+  nodes: GiftNode[]
+  edges: GiftEdge[]
+}
+
+// The active season's graph and exchange rules live in the top-level nodes/edges and exchange, so
+// only inactive seasons carry `graph` and `exchange`.
+export interface Season {
+  id: SeasonId
+  name: string
+  createdAt: string
+  graph?: SeasonGraph
+  exchange?: ExchangeConfig
+}
+
+export interface ExportedStateV3 {
+  version: 3
   nodes: GiftNode[]
   edges: GiftEdge[]
   profiles: Profile[]
   currentProfileId?: ProfileId
+  statusPipeline: IdeaStatus[]
+  seasons: Season[]
+  currentSeasonId: SeasonId
+  exchange?: ExchangeConfig
+  groups?: ProfileGroup[]
 }
 
-export type ExportedState = ExportedStateV1
+export type ExportedState = ExportedStateV3
 
 export type ImportResult =
   | { ok: true; data: ExportedState }
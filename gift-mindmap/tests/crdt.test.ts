@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { EXISTS, applyOps, diffSnapshots, emptyDoc, emptySnapshot, flatten, materialize, mergeRemote, snapshotOf, stampChanges, unflatten, type SyncOp, type SyncedState } from '@/lib/crdt'
+import type { GiftNode } from '@/types/gift'
+
+const state = (nodes: GiftNode[]): SyncedState => ({
+  nodes,
+  edges: [],
+  profiles: [{ id: 'me', name: 'Me', shareWith: [] }],
+  seasons: [{ id: 's1', name: 'Christmas', createdAt: '' }],
+  currentSeasonId: 's1',
+})
+
+const lego: GiftNode = { id: 'lego', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Lego', owner: 'me', status: 'considering' } }
+
+// Every op a device would send to describe `s` from scratch
+const opsFor = (s: SyncedState, device: string, clock = 0) =>
+  stampChanges({ ...emptyDoc(), clock }, device, diffSnapshots(emptySnapshot(), snapshotOf(s)))
+
+const edit = (device: string, clock: number, field: string, value?: unknown): SyncOp => ({ stamp: { clock, device }, collection: 'nodes', key: 's1/lego', field, value })
+
+describe('crdt', () => {
+  it('flattens data per field and leaves display-only props local', () => {
+    const node = { ...lego, selected: true, width: 200, data: { ...lego.data, __color: '#f00' } }
+    const fields = flatten(node)
+    expect(fields).toEqual({ type: 'idea', position: { x: 0, y: 0 }, 'data.title': 'Lego', 'data.owner': 'me', 'data.status': 'considering' })
+    expect(unflatten('lego', fields)).toEqual(lego)
+  })
+
+  it('keeps concurrent edits to different fields and agrees on the same field in any order', () => {
+    const base = applyOps(emptyDoc(), opsFor(state([lego]), 'a')).doc
+    const a = [edit('a', 100, 'data.title', 'Lego City'), edit('a', 101, 'data.status', 'ordered')]
+    const b = [edit('b', 100, 'data.title', 'Duplo'), edit('b', 101, 'data.notes', 'Big box')]
+    const ab = applyOps(applyOps(base, a).doc, b).doc
+    const ba = applyOps(applyOps(base, b).doc, a).doc
+    expect(materialize(ab, 'nodes', 's1/lego')).toEqual(materialize(ba, 'nodes', 's1/lego'))
+    expect(materialize(ab, 'nodes', 's1/lego')).toMatchObject({ 'data.title': 'Duplo', 'data.status': 'ordered', 'data.notes': 'Big box' })
+    expect(ab.clock).toBe(101)
+  })
+
+  it('lets a delete beat concurrent edits and forgets old fields when re-created', () => {
+    const base = applyOps(emptyDoc(), opsFor(state([lego]), 'a')).doc
+    const deleted = applyOps(base, [edit('a', 100, EXISTS, false), edit('b', 99, 'data.notes', 'Big box')]).doc
+    expect(materialize(deleted, 'nodes', 's1/lego')).toBeUndefined()
+    const again = applyOps(deleted, opsFor(state([lego]), 'b', 200)).doc
+    expect(materialize(again, 'nodes', 's1/lego')).not.toHaveProperty('data.notes')
+  })
+
+  it('merges remote changes without losing a local edit that was not recorded yet', () => {
+    const synced = state([lego])
+    const base = snapshotOf(synced)
+    const doc = applyOps(applyOps(emptyDoc(), opsFor(synced, 'a')).doc, [edit('b', 100, 'data.title', 'Duplo'), edit('b', 101, 'data.status', 'ordered')])
+    // Edited here after the last record: the status change stays
+    const local = state([{ ...lego, selected: true, data: { ...lego.data, status: 'wrapped', __color: '#f00' } } as GiftNode])
+    const merged = mergeRemote(local, snapshotOf(local), base, doc.doc, doc.changed)
+    expect(merged.state.nodes[0]).toMatchObject({ selected: true, data: { title: 'Duplo', status: 'wrapped', __color: '#f00' } })
+    expect(merged.base.nodes['s1/lego']).toMatchObject({ 'data.title': 'Duplo', 'data.status': 'ordered' })
+  })
+
+  it('builds the graph of a season that arrives from another device', () => {
+    const remote = { ...state([lego]), seasons: [{ id: 's1', name: 'Christmas', createdAt: '' }] }
+    const doc = applyOps(emptyDoc(), opsFor(remote, 'a'))
+    const local: SyncedState = { ...state([]), seasons: [{ id: 's0', name: 'Birthday', createdAt: '' }], currentSeasonId: 's0' }
+    const merged = mergeRemote(local, snapshotOf(local), snapshotOf(local), doc.doc, doc.changed)
+    expect(merged.state.seasons.map((x) => x.id)).toEqual(['s0', 's1'])
+    expect(merged.state.seasons[1].graph?.nodes).toEqual([lego])
+    expect(merged.state.nodes).toEqual([])
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { exportIdeasCSV, guessMapping, parseCSV, planCsvImport, toCSV } from '@/lib/csv'
+import type { GiftEdge, GiftNode, Profile } from '@/types/gift'
+
+const profiles: Profile[] = [{ id: 'me', name: 'Mom', shareWith: [] }]
+const nodes: GiftNode[] = [
+  { id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: 'Root' } },
+  { id: 'p1', type: 'person', position: { x: 0, y: 0 }, data: { label: 'Bella' } },
+  { id: 'p2', type: 'person', position: { x: 0, y: 0 }, data: { label: 'Mike' } },
+  { id: 'i1', type: 'idea', position: { x: 0, y: 0 }, data: { owner: 'me', title: 'Scarf, wool', notes: 'Say "blue"', status: 'ordered', price: 20, currency: 'USD' } },
+]
+const edges: GiftEdge[] = [
+  { id: 'e1', source: 'root', target: 'p1' },
+  { id: 'e2', source: 'root', target: 'p2' },
+  { id: 'e3', source: 'p1', target: 'i1' },
+]
+
+describe('csv format', () => {
+  it('quotes fields that need it and parses them back', () => {
+    const rows = [['a', 'b,c', 'say "hi"', 'two\nlines']]
+    expect(toCSV(rows)).toBe('a,"b,c","say ""hi""","two\nlines"\r\n')
+    expect(parseCSV(toCSV(rows))).toEqual(rows)
+  })
+
+  it('keeps cells that look like formulas from running in spreadsheet apps', () => {
+    expect(toCSV([['=HYPERLINK("x")', '+1', '-2', '@SUM(A1)', '\tx', 'a=b']])).toBe(`"'=HYPERLINK(""x"")",'+1,'-2,'@SUM(A1),'\tx,a=b\r\n`)
+  })
+
+  it('tolerates a BOM, LF endings and blank lines', () => {
+    expect(parseCSV('\uFEFFName,Gift\n\nBella,Socks\n')).toEqual([['Name', 'Gift'], ['Bella', 'Socks']])
+  })
+})
+
+describe('csv export', () => {
+  it('writes one row per idea plus people without ideas', () => {
+    const rows = parseCSV(exportIdeasCSV(nodes, edges, profiles))
+    expect(rows[0]).toEqual(['Person', 'Idea', 'Owner', 'Status', 'Notes', 'Price', 'Currency', 'Quantity', 'Link', 'Store'])
+    expect(rows[1]).toEqual(['Bella', 'Scarf, wool', 'Mom', 'Ordered', 'Say "blue"', '20', 'USD', '', '', ''])
+    expect(rows[2][0]).toBe('Mike')
+    expect(rows[2][1]).toBe('')
+  })
+})
+
+describe('csv import planning', () => {
+  it('guesses the mapping from common headers', () => {
+    expect(guessMapping(['Recipient', 'Gift', 'Cost', 'Comments'])).toEqual({ person: 0, title: 1, price: 2, notes: 3 })
+  })
+
+  it('dedupes people by name and matches existing ones', () => {
+    const rows = [
+      ['bella ', 'Book', 'mom', 'Given', '12.50'],
+      ['Grandpa  Joe', 'Tie', '', 'unknown', ''],
+      ['grandpa joe', 'Mug', '', '', 'n/a'],
+      ['', 'Orphan', '', '', ''],
+      ['Aunt May', '', '', '', ''],
+    ]
+    const plan = planCsvImport(rows, { person: 0, title: 1, owner: 2, status: 3, price: 4 }, { nodes, profiles })
+    expect(plan.existingPeople).toEqual({ bella: 'p1' })
+    expect(plan.newPeople).toEqual(['Grandpa Joe', 'Aunt May'])
+    expect(plan.ideas.map((i) => [i.row, i.person, i.title])).toEqual([[2, 'bella', 'Book'], [3, 'Grandpa Joe', 'Tie'], [4, 'grandpa joe', 'Mug']])
+    expect(plan.ideas[0]).toMatchObject({ owner: 'me', status: 'given', price: 12.5 })
+    expect(plan.ideas[1].status).toBeUndefined()
+    expect(plan.skipped).toEqual([{ row: 5, reason: 'No person' }])
+  })
+
+  it('reads guarded cells back and keeps only web links', () => {
+    const rows = parseCSV(toCSV([
+      ['=Bella', '=cmd', 'javascript:alert(1)'],
+      ['Mike', 'Book', 'etsy.com/listing/1/book'],
+    ]))
+    const plan = planCsvImport(rows, { person: 0, title: 1, url: 2 }, { nodes, profiles })
+    expect(plan.ideas[0]).toMatchObject({ person: '=Bella', title: '=cmd', url: undefined })
+    expect(plan.ideas[1].url).toBe('https://etsy.com/listing/1/book')
+  })
+})
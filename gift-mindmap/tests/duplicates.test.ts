@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { conflictsForProfile, detectConflicts, normalizeLink, titleSimilarity } from '@/lib/duplicates'
+import type { GiftEdge, GiftNode, Profile } from '@/types/gift'
+
+const pos = { x: 0, y: 0 }
+
+function graph(extra: Partial<Record<string, any>> = {}) {
+  const nodes: GiftNode[] = [
+    { id: 'root', type: 'root', position: pos, data: { label: 'Root' } },
+    { id: 'pa', type: 'person', position: pos, data: { label: 'Bella Beierle', owner: 'mom' } },
+    { id: 'pb', type: 'person', position: pos, data: { label: 'bella  beierle', owner: 'dad' } },
+    { id: 'ia', type: 'idea', position: pos, data: { title: 'LEGO Botanical set', owner: 'mom', ...extra.ia } },
+    { id: 'ib', type: 'idea', position: pos, data: { title: 'Lego botanical!', owner: 'dad', ...extra.ib } },
+    { id: 'ic', type: 'idea', position: pos, data: { title: 'Wool socks', owner: 'dad' } },
+  ]
+  const edges: GiftEdge[] = [
+    { id: 'e1', source: 'pa', target: 'ia' },
+    { id: 'e2', source: 'pb', target: 'ib' },
+    { id: 'e3', source: 'pb', target: 'ic' },
+  ]
+  return { nodes, edges }
+}
+
+const profiles: Profile[] = [
+  { id: 'mom', name: 'Mom', shareWith: [] },
+  { id: 'dad', name: 'Dad', shareWith: ['mom'] },
+]
+
+describe('duplicate detection', () => {
+  it('scores fuzzy title matches', () => {
+    expect(titleSimilarity('The LEGO set', 'lego')).toBe(1)
+    expect(titleSimilarity('Nintendo Switch game', 'Nintendo Swich game')).toBeGreaterThan(0.8)
+    expect(titleSimilarity('Wool socks', 'Lego')).toBeLessThan(0.3)
+  })
+
+  it('normalizes links', () => {
+    expect(normalizeLink('https://www.Amazon.com/dp/B01/?tag=x#top')).toBe('amazon.com/dp/b01')
+    expect(normalizeLink('not a url')).toBeUndefined()
+  })
+
+  it('flags similar ideas for the same recipient across profiles', () => {
+    const { nodes, edges } = graph()
+    const conflicts = detectConflicts(nodes, edges)
+    expect(conflicts).toHaveLength(1)
+    expect(conflicts[0]).toMatchObject({ ideaIds: ['ia', 'ib'], owners: ['mom', 'dad'], reason: 'title', recipient: 'bella beierle' })
+  })
+
+  it('matches on shared links even when titles differ', () => {
+    const { nodes, edges } = graph({
+      ia: { title: 'Flower kit', notes: 'https://shop.example.com/p/123?ref=a' },
+      ib: { title: 'Botanical bouquet', notes: 'see http://www.shop.example.com/p/123/' },
+    })
+    expect(detectConflicts(nodes, edges)[0]?.reason).toBe('link')
+  })
+
+  it('redacts the other idea unless its owner shares with the viewer', () => {
+    const { nodes, edges } = graph()
+    const conflicts = detectConflicts(nodes, edges)
+    const momView = conflictsForProfile(conflicts, nodes, profiles, 'mom')[0]
+    expect(momView.other).toMatchObject({ shared: true, ownerName: 'Dad', title: 'Lego botanical!' })
+    const dadView = conflictsForProfile(conflicts, nodes, profiles, 'dad')[0]
+    expect(dadView.other).toEqual({ id: 'ia', shared: false })
+    expect(conflictsForProfile(conflicts, nodes, profiles, 'kid')).toEqual([])
+  })
+
+  it('honours dismissals and claims', () => {
+    const dismissed = graph({ ia: { conflicts: { ib: 'dismissed' } } })
+    const open = detectConflicts(dismissed.nodes, dismissed.edges)
+    expect(conflictsForProfile(open, dismissed.nodes, profiles, 'mom')).toEqual([])
+    // Mom's dismissal is hers alone; Dad keeps seeing it until he dismisses it too
+    expect(conflictsForProfile(open, dismissed.nodes, profiles, 'dad')).toHaveLength(1)
+    const both = graph({ ia: { conflicts: { ib: 'dismissed' } }, ib: { conflicts: { ia: 'dismissed' } } })
+    expect(conflictsForProfile(detectConflicts(both.nodes, both.edges), both.nodes, profiles, 'dad')).toEqual([])
+
+    const claimed = graph({ ia: { conflicts: { ib: 'claimed' } } })
+    const conflicts = detectConflicts(claimed.nodes, claimed.edges)
+    expect(conflicts[0].claimedBy).toBe('mom')
+    expect(conflictsForProfile(conflicts, claimed.nodes, profiles, 'mom')[0].badge).toBe('claimed_by_me')
+    expect(conflictsForProfile(conflicts, claimed.nodes, profiles, 'dad')[0].badge).toBe('claimed_by_other')
+  })
+
+  it('hides conflicts from a recipient who is also one of the givers', () => {
+    const { nodes, edges } = graph()
+    const linked = nodes.map((n) => (n.id === 'pa' && n.type === 'person' ? { ...n, data: { ...n.data, profileId: 'mom' } } : n))
+    expect(conflictsForProfile(detectConflicts(linked, edges), linked, profiles, 'mom')).toEqual([])
+    expect(conflictsForProfile(detectConflicts(linked, edges), linked, profiles, 'dad')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { drawExchange, previousPairings, verifyDraw } from '@/lib/exchange'
+import type { ExchangeConfig, GiftNode } from '@/types/gift'
+
+function config(patch: Partial<ExchangeConfig> = {}): ExchangeConfig {
+  return {
+    participants: ['dan', 'crystal', 'alyssa', 'bella', 'mike', 'maggy'],
+    exclusions: [['dan', 'crystal'], ['mike', 'maggy']],
+    households: [['alyssa', 'bella']],
+    avoidPrevious: true,
+    previous: [{ giver: 'dan', receiver: 'alyssa' }],
+    ...patch,
+  }
+}
+
+describe('gift exchange draw', () => {
+  it('is deterministic for a given seed', () => {
+    const a = drawExchange(config(), 42)
+    const b = drawExchange(config(), 42)
+    expect(a).toEqual(b)
+  })
+
+  it('satisfies every rule across many seeds', () => {
+    for (let seed = 0; seed < 200; seed++) {
+      const res = drawExchange(config(), seed)
+      expect(res.ok).toBe(true)
+      if (res.ok) expect(verifyDraw(config(), res.pairings).valid).toBe(true)
+    }
+  })
+
+  it('reports impossible rule sets instead of relaxing them', () => {
+    const res = drawExchange(config({ participants: ['dan', 'crystal'] }), 1)
+    expect(res).toEqual({ ok: false, error: 'no_valid_assignment' })
+    expect(drawExchange(config({ participants: ['dan'] }), 1)).toEqual({ ok: false, error: 'need_two_participants' })
+  })
+
+  it('proof flags broken rules', () => {
+    const proof = verifyDraw(config({ participants: ['dan', 'crystal', 'mike'] }), [
+      { giver: 'dan', receiver: 'crystal' },
+      { giver: 'crystal', receiver: 'dan' },
+    ])
+    expect(proof.valid).toBe(false)
+    const failed = proof.checks.filter((c) => !c.passed).map((c) => c.rule)
+    expect(failed).toEqual(['Everyone gives exactly once', 'Everyone receives exactly once', 'Exclusions respected'])
+  })
+
+  it('maps last season\'s pairings onto current ids by name', () => {
+    const pos = { x: 0, y: 0 }
+    const old: GiftNode[] = [
+      { id: 'o1', type: 'person', position: pos, data: { label: 'Dan' } },
+      { id: 'o2', type: 'person', position: pos, data: { label: 'Bella' } },
+    ]
+    const now: GiftNode[] = [
+      { id: 'n1', type: 'person', position: pos, data: { label: 'dan' } },
+      { id: 'n2', type: 'person', position: pos, data: { label: 'Bella' } },
+    ]
+    const edges = [{ id: 'e', source: 'o1', target: 'o2', data: { kind: 'exchange' as const } }]
+    expect(previousPairings({ nodes: old, edges }, now)).toEqual([{ giver: 'n1', receiver: 'n2' }])
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { expandGroups, groupsOf, unshareGroup, withoutMember } from '@/lib/groups'
+import { removeProfile } from '@/lib/profiles'
+import type { Profile, ProfileGroup } from '@/types/gift'
+
+const groups: ProfileGroup[] = [
+  { id: 'parents', name: 'Parents', members: ['mum', 'dad'] },
+  { id: 'kids', name: 'Kids', members: ['bella'] },
+]
+
+describe('groups', () => {
+  it('lists a profile\'s groups and expands group ids to their members', () => {
+    expect(groupsOf(groups, 'dad')).toEqual(['parents'])
+    expect(groupsOf(groups, undefined)).toEqual([])
+    expect([...expandGroups(['parents', 'gran'], groups)]).toEqual(['parents', 'gran', 'mum', 'dad'])
+  })
+
+  it('replaces a removed member on merge', () => {
+    expect(withoutMember(groups, 'dad')[0].members).toEqual(['mum'])
+    expect(withoutMember(groups, 'dad', 'gran')[0].members).toEqual(['mum', 'gran'])
+    expect(withoutMember(groups, 'dad', 'mum')[0].members).toEqual(['mum'])
+    expect(withoutMember(groups, 'dad')[1]).toBe(groups[1])
+  })
+
+  it('drops a group when its last member is removed', () => {
+    expect(withoutMember(groups, 'bella').map((g) => g.id)).toEqual(['parents'])
+    expect(withoutMember(groups, 'bella', 'gran')[1].members).toEqual(['gran'])
+  })
+
+  it('forgets a deleted group in everyone\'s sharing', () => {
+    const profiles: Profile[] = [{ id: 'gran', name: 'Gran', shareWith: ['dad'], shareWithGroups: ['parents', 'kids'], shareRoles: { dad: 'editor', parents: 'editor' } }]
+    expect(unshareGroup(profiles, 'parents')[0]).toMatchObject({ shareWithGroups: ['kids'], shareRoles: { dad: 'editor' } })
+  })
+
+  it('keeps group sharing when profiles are removed or merged', () => {
+    const profiles: Profile[] = [
+      { id: 'gran', name: 'Gran', shareWith: [], shareWithGroups: ['kids'], shareRoles: { kids: 'editor' } },
+      { id: 'grandpa', name: 'Grandpa', shareWith: ['gran'], shareWithGroups: ['parents'] },
+    ]
+    expect(removeProfile(profiles, 'grandpa')[0]).toEqual(profiles[0])
+    expect(removeProfile(profiles, 'grandpa', 'gran')[0]).toEqual({ id: 'gran', name: 'Gran', shareWith: [], shareWithGroups: ['kids', 'parents'], shareRoles: { kids: 'editor' } })
+  })
+})
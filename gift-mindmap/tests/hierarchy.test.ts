@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { checkConnection, checkReparent, hierarchyParents } from '@/lib/hierarchy'
+import type { GiftEdge, GiftNode } from '@/types/gift'
+
+const nodes: GiftNode[] = [
+  { id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: 'Root' } },
+  { id: 'p1', type: 'person', position: { x: 0, y: 0 }, data: { label: 'Bella' } },
+  { id: 'p2', type: 'person', position: { x: 0, y: 0 }, data: { label: 'Mike' } },
+  { id: 'p3', type: 'person', position: { x: 0, y: 0 }, data: { label: 'Loose' } },
+  { id: 'i1', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Lego' } },
+  { id: 'i2', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Socks' } },
+]
+const edges: GiftEdge[] = [
+  { id: 'e1', source: 'root', target: 'p1' },
+  { id: 'e2', source: 'root', target: 'p2' },
+  { id: 'e3', source: 'p1', target: 'i1' },
+  { id: 'e4', source: 'p2', target: 'i2' },
+  { id: 'x1', source: 'p1', target: 'p2', data: { kind: 'exchange' } },
+]
+
+describe('hierarchy rules', () => {
+  it('finds tree parents and ignores exchange edges', () => {
+    expect(hierarchyParents(edges, 'p2')).toEqual(['root'])
+    expect(hierarchyParents(edges, 'i1')).toEqual(['p1'])
+  })
+
+  it('only lets the root pick up an unattached person', () => {
+    expect(checkConnection(nodes, edges, 'root', 'p3').ok).toBe(true)
+    expect(checkConnection(nodes, edges, 'root', 'p1').ok).toBe(false)
+    expect(checkConnection(nodes, edges, 'p1', 'p3').ok).toBe(false)
+    expect(checkConnection(nodes, edges, 'p1', 'p1').ok).toBe(false)
+  })
+
+  it('rejects hand-drawn connections into ideas', () => {
+    expect(checkConnection(nodes, edges, 'i1', 'i2')).toEqual({ ok: false, error: 'Ideas can only hang off a person.' })
+    expect(checkConnection(nodes, edges, 'p2', 'i1')).toEqual({ ok: false, error: 'Drag the idea onto a person to move it there.' })
+  })
+
+  it('allows moving an idea to a different person only', () => {
+    expect(checkReparent(nodes, edges, 'i1', 'p2').ok).toBe(true)
+    expect(checkReparent(nodes, edges, 'i1', 'p1').ok).toBe(false)
+    expect(checkReparent(nodes, edges, 'i1', 'i2').ok).toBe(false)
+    expect(checkReparent(nodes, edges, 'p1', 'p2').ok).toBe(false)
+  })
+})
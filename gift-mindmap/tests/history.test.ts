@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { applyPatch, createEntry, diffGraph, jumpTo, pushEntry, recordEntry, undoStep, type HistoryEntry, type HistoryState } from '@/lib/history'
+import type { GiftEdge, GiftNode } from '@/types/gift'
+
+const node = (id: string, x = 0): GiftNode => ({ id, type: 'person', position: { x, y: 0 }, data: { label: id } })
+const edge = (id: string, source: string, target: string): GiftEdge => ({ id, source, target })
+
+describe('graph patches', () => {
+  it('only records the items that changed', () => {
+    const a = node('a'), b = node('b'), c = node('c')
+    const prev = { nodes: [a, b, c], edges: [edge('e1', 'a', 'b')] }
+    const next = { nodes: [a, { ...b, position: { x: 5, y: 0 } }, node('d')], edges: prev.edges }
+    const patch = diffGraph(prev, next)
+    expect(patch.nodes.map((p) => p.id).sort()).toEqual(['b', 'c', 'd'])
+    expect(patch.edges).toEqual([])
+  })
+
+  it('undoes and redoes back to the exact same arrays', () => {
+    const prev = { nodes: [node('a'), node('b'), node('c')], edges: [edge('e1', 'a', 'b'), edge('e2', 'a', 'c')] }
+    const next = { nodes: [node('a', 9), node('c'), node('d')], edges: [edge('e2', 'a', 'c')] }
+    const patch = diffGraph(prev, next)
+    expect(applyPatch(next, patch, 'undo')).toEqual(prev)
+    expect(applyPatch(prev, patch, 'redo')).toEqual(next)
+  })
+})
+
+describe('history stack', () => {
+  const move = (x: number, at: number) => createEntry('Moved a', diffGraph({ nodes: [node('a', x - 1)], edges: [] }, { nodes: [node('a', x)], edges: [] }), 'move:a', at)
+
+  it('coalesces consecutive entries of the same group', () => {
+    let stack: HistoryEntry[] = []
+    for (let x = 1; x <= 30; x++) stack = pushEntry(stack, move(x, 1000 + x * 16))
+    expect(stack).toHaveLength(1)
+    expect(stack[0].label).toBe('Moved a')
+    expect(stack[0].patch.nodes[0].before?.position.x).toBe(0)
+    expect(stack[0].patch.nodes[0].after?.position.x).toBe(30)
+  })
+
+  it('starts a new entry after a pause or a different action', () => {
+    let stack = pushEntry([], move(1, 0))
+    stack = pushEntry(stack, move(2, 5000))
+    stack = pushEntry(stack, createEntry('Other', { nodes: [], edges: [] }, undefined, 5001))
+    stack = pushEntry(stack, move(3, 5002))
+    expect(stack.map((e) => e.label)).toEqual(['Moved a', 'Moved a', 'Other', 'Moved a'])
+  })
+
+  it('drops the oldest entries beyond the cap', () => {
+    let stack: HistoryEntry[] = []
+    for (let i = 0; i < 10; i++) stack = pushEntry(stack, createEntry(`#${i}`, { nodes: [], edges: [] }, undefined, i), 3)
+    expect(stack.map((e) => e.label)).toEqual(['#7', '#8', '#9'])
+  })
+})
+
+describe('undo tree', () => {
+  // Each step adds one node named after its label, so the graph shows exactly where we are
+  function step(h: HistoryState, label: string): HistoryState {
+    const nodes = h.nodes.concat(node(label))
+    return { ...h, nodes, ...recordEntry(h, createEntry(label, diffGraph(h, { nodes, edges: h.edges }))) }
+  }
+  const ids = (h: HistoryState) => h.nodes.map((n) => n.id)
+  const empty: HistoryState = { nodes: [], edges: [], past: [], future: [], branches: [] }
+
+  it('keeps undone steps as a branch when a new edit comes in', () => {
+    let h = step(step(step(empty, 'a'), 'b'), 'c')
+    h = undoStep(undoStep(h)!)!
+    h = step(h, 'x')
+    expect(ids(h)).toEqual(['a', 'x'])
+    expect(h.future).toEqual([])
+    expect(h.branches).toHaveLength(1)
+    expect(h.branches[0].entries.map((e) => e.label)).toEqual(['b', 'c'])
+  })
+
+  it('jumps into a branch and keeps the line it left as another branch', () => {
+    let h = step(step(step(empty, 'a'), 'b'), 'c')
+    h = step(undoStep(undoStep(h)!)!, 'x')
+    const c = h.branches[0].entries[1].id
+    h = jumpTo(h, c)!
+    expect(ids(h)).toEqual(['a', 'b', 'c'])
+    expect(h.branches.map((b) => b.entries.map((e) => e.label))).toEqual([['x']])
+    h = jumpTo(h, h.branches[0].entries[0].id)!
+    expect(ids(h)).toEqual(['a', 'x'])
+  })
+
+  it('jumps along the main line and back to the start', () => {
+    let h = step(step(step(empty, 'a'), 'b'), 'c')
+    h = jumpTo(h, undefined)!
+    expect(ids(h)).toEqual([])
+    h = jumpTo(h, h.future[1].id)!
+    expect(ids(h)).toEqual(['a', 'b'])
+    expect(jumpTo(h, 'missing')).toBeUndefined()
+  })
+
+  it('reaches branches that fork off other branches', () => {
+    let h = step(step(empty, 'a'), 'b')
+    h = step(undoStep(h)!, 'x')
+    h = step(undoStep(h)!, 'y')
+    // branch [b] forks from a, branch [x] forks from a; now fork off b
+    h = jumpTo(h, h.branches.find((br) => br.entries[0].label === 'b')!.entries[0].id)!
+    h = step(h, 'b2')
+    h = jumpTo(h, h.past[0].id)!
+    h = step(h, 'z')
+    const deep = h.branches.flatMap((br) => br.entries).find((e) => e.label === 'b2')!
+    h = jumpTo(h, deep.id)!
+    expect(ids(h)).toEqual(['a', 'b', 'b2'])
+  })
+})
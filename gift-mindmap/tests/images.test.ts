@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { MAX_IMAGE_BYTES, createMemoryBlobStore, loadImage, saveImage } from '@/lib/images'
+
+describe('idea images', () => {
+  it('stores images as blobs under a fresh id', async () => {
+    const store = createMemoryBlobStore()
+    const blob = new Blob(['png-bytes'], { type: 'image/png' })
+    const res = await saveImage(blob, store)
+    expect(res.ok).toBe(true)
+    if (!res.ok) return
+    const loaded = await loadImage(res.imageId, store)
+    expect(loaded?.type).toBe('image/png')
+    expect(await loaded?.text()).toBe('png-bytes')
+  })
+
+  it('rejects non-images and oversized files', async () => {
+    const store = createMemoryBlobStore()
+    expect(await saveImage(new Blob(['x'], { type: 'text/plain' }), store)).toEqual({ ok: false, error: 'not_an_image' })
+    const big = new Blob([new Uint8Array(MAX_IMAGE_BYTES + 1)], { type: 'image/jpeg' })
+    expect(await saveImage(big, store)).toEqual({ ok: false, error: 'too_large' })
+  })
+
+  it('reports write failures', async () => {
+    const store = { ...createMemoryBlobStore(), put: async () => { throw new Error('disk full') } }
+    expect(await saveImage(new Blob(['x'], { type: 'image/png' }), store)).toEqual({ ok: false, error: 'write_failed' })
+  })
+})
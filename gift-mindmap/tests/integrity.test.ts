@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { PLACEHOLDER_PERSON_LABEL, repairGraph, repairState, validateGraph, validateState } from '@/lib/integrity'
+import type { ExportedState, GiftEdge, GiftNode } from '@/types/gift'
+
+const root = (id = 'root'): GiftNode => ({ id, type: 'root', position: { x: 0, y: 0 }, data: { label: 'Root' } })
+const person = (id: string, label = id): GiftNode => ({ id, type: 'person', position: { x: 0, y: 0 }, data: { label } })
+const idea = (id: string, title = id): GiftNode => ({ id, type: 'idea', position: { x: 0, y: 0 }, data: { title } })
+const edge = (id: string, source: string, target: string): GiftEdge => ({ id, source, target })
+
+const healthy = {
+  nodes: [root(), person('p1'), idea('i1')],
+  edges: [edge('e1', 'root', 'p1'), edge('e2', 'p1', 'i1')],
+}
+
+describe('graph validation', () => {
+  it('accepts a well-formed map', () => {
+    expect(validateGraph(healthy)).toEqual([])
+  })
+
+  it('reports structural problems with severity', () => {
+    const issues = validateGraph({
+      nodes: [root(), root('root2'), person('p1'), person('p1', 'Copy'), person('p2'), idea('i1'), idea('i2')],
+      edges: [edge('e1', 'root', 'p1'), edge('e1', 'p1', 'i1'), edge('e3', 'p1', 'ghost'), edge('e4', 'i1', 'i2'), edge('e5', 'root2', 'p1')],
+    })
+    const codes = issues.map((i) => [i.code, i.severity])
+    expect(codes).toContainEqual(['multiple_roots', 'error'])
+    expect(codes).toContainEqual(['duplicate_node_id', 'error'])
+    expect(codes).toContainEqual(['duplicate_edge_id', 'error'])
+    expect(codes).toContainEqual(['dangling_edge', 'error'])
+    expect(codes).toContainEqual(['invalid_edge', 'warning'])
+    expect(codes).toContainEqual(['duplicate_parent', 'warning'])
+    expect(codes).toContainEqual(['orphan_person', 'warning'])
+    expect(codes).toContainEqual(['orphan_idea', 'warning'])
+  })
+
+  it('treats exchange pairings as valid person links', () => {
+    const graph = { nodes: [...healthy.nodes, person('p2')], edges: [...healthy.edges, edge('e3', 'root', 'p2'), { ...edge('x', 'p1', 'p2'), data: { kind: 'exchange' as const } }] }
+    expect(validateGraph(graph)).toEqual([])
+  })
+})
+
+describe('graph repair', () => {
+  it('leaves a map that validates cleanly without losing nodes', () => {
+    const broken = {
+      nodes: [root(), root('root2'), person('p1'), person('p1', 'Copy'), person('p2'), idea('i1'), idea('i2')],
+      edges: [edge('e1', 'root', 'p1'), edge('e1', 'p1', 'i1'), edge('e3', 'p1', 'ghost'), edge('e4', 'i1', 'i2'), edge('e5', 'root2', 'p2')],
+    }
+    const fixed = repairGraph(broken)
+    expect(validateGraph(fixed)).toEqual([])
+    expect(fixed.nodes.filter((n) => n.type === 'root')).toHaveLength(1)
+    expect(fixed.nodes.filter((n) => n.type === 'person').map((n) => (n.data as any).label).sort()).toEqual(['Copy', PLACEHOLDER_PERSON_LABEL, 'p1', 'p2'])
+    const placeholder = fixed.nodes.find((n) => n.type === 'person' && n.data.label === PLACEHOLDER_PERSON_LABEL)!
+    expect(fixed.edges.filter((e) => e.target === 'i2').map((e) => e.source)).toEqual([placeholder.id])
+    expect(fixed.edges.filter((e) => e.target === 'p2').map((e) => e.source)).toEqual(['root'])
+  })
+
+  it('adds a root when the map has none', () => {
+    const fixed = repairGraph({ nodes: [person('p1')], edges: [] }, '2025')
+    expect(fixed.nodes[0]).toMatchObject({ type: 'root', data: { label: '2025 - Gift Map' } })
+    expect(validateGraph(fixed)).toEqual([])
+  })
+
+  it('checks and repairs inactive seasons too', () => {
+    const state: ExportedState = {
+      version: 3,
+      ...healthy,
+      profiles: [],
+      statusPipeline: ['considering', 'given'],
+      currentSeasonId: 's2',
+      seasons: [
+        { id: 's1', name: '2024', createdAt: '', graph: { nodes: [root(), idea('old')], edges: [] } },
+        { id: 's2', name: '2025', createdAt: '' },
+      ],
+    }
+    expect(validateState(state)).toEqual([expect.objectContaining({ code: 'orphan_idea', season: '2024' })])
+    const repaired = repairState(state)
+    expect(repaired.nodes).toBe(state.nodes)
+    expect(validateState(repaired)).toEqual([])
+  })
+})
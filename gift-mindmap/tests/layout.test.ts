@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { applyLayout, forceLayout, ringLayout, treeLayout } from '@/lib/layout'
+import type { GiftEdge, GiftNode } from '@/types/gift'
+
+function graph() {
+  const nodes: GiftNode[] = [{ id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: 'Root' } }]
+  const edges: GiftEdge[] = []
+  for (let p = 0; p < 4; p++) {
+    nodes.push({ id: `p${p}`, type: 'person', position: { x: 0, y: 0 }, data: { label: `Person ${p}` } })
+    edges.push({ id: `e_root_p${p}`, source: 'root', target: `p${p}` })
+    for (let i = 0; i <= p; i++) {
+      nodes.push({ id: `i${p}_${i}`, type: 'idea', position: { x: 0, y: 0 }, data: { title: `Idea ${i}` } })
+      edges.push({ id: `e_p${p}_i${i}`, source: `p${p}`, target: `i${p}_${i}` })
+    }
+  }
+  // exchange pairing must not change the hierarchy
+  edges.push({ id: 'x1', source: 'p0', target: 'p1', data: { kind: 'exchange' } })
+  return { nodes, edges }
+}
+
+const pos = (nodes: GiftNode[], id: string) => nodes.find((n) => n.id === id)!.position
+const dist = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y)
+
+function minPairDistance(nodes: GiftNode[]) {
+  let min = Infinity
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) min = Math.min(min, dist(nodes[i].position, nodes[j].position))
+  }
+  return min
+}
+
+describe('treeLayout', () => {
+  it('puts each level on its own row and centres parents over their children', () => {
+    const { nodes, edges } = graph()
+    const out = treeLayout(nodes, edges, { direction: 'TB' })
+    expect(pos(out, 'root').y).toBeLessThan(pos(out, 'p0').y)
+    expect(pos(out, 'p0').y).toBeLessThan(pos(out, 'i0_0').y)
+    const kids = ['i2_0', 'i2_1', 'i2_2'].map((id) => pos(out, id).x)
+    expect(pos(out, 'p2').x).toBeCloseTo((kids[0] + kids[2]) / 2)
+    expect(minPairDistance(out)).toBeGreaterThan(0)
+  })
+
+  it('swaps axes for left-right trees', () => {
+    const { nodes, edges } = graph()
+    const out = treeLayout(nodes, edges, { direction: 'LR' })
+    expect(pos(out, 'root').x).toBeLessThan(pos(out, 'p0').x)
+    expect(pos(out, 'p0').x).toBeLessThan(pos(out, 'i0_0').x)
+  })
+
+  it('places nodes unreachable from the root on an extra row', () => {
+    const { nodes, edges } = graph()
+    nodes.push({ id: 'stray', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Loose' } })
+    const out = treeLayout(nodes, edges)
+    expect(pos(out, 'stray').y).toBeGreaterThan(pos(out, 'i0_0').y)
+  })
+})
+
+describe('ringLayout', () => {
+  it('keeps ideas closer to their own person than to any other person', () => {
+    const { nodes, edges } = graph()
+    const out = ringLayout(nodes, edges)
+    for (const n of out.filter((x) => x.type === 'idea')) {
+      const owner = n.id.split('_')[0].replace('i', 'p')
+      for (const other of ['p0', 'p1', 'p2', 'p3'].filter((p) => p !== owner)) {
+        expect(dist(n.position, pos(out, owner))).toBeLessThan(dist(n.position, pos(out, other)))
+      }
+    }
+  })
+})
+
+describe('forceLayout', () => {
+  it('is deterministic for a given seed', () => {
+    const { nodes, edges } = graph()
+    expect(forceLayout(nodes, edges, { seed: 7 })).toEqual(forceLayout(nodes, edges, { seed: 7 }))
+  })
+
+  it('pins the root and keeps cards apart', () => {
+    const { nodes, edges } = graph()
+    const out = forceLayout(nodes, edges, { minDistance: 150 })
+    expect(pos(out, 'root')).toEqual({ x: 0, y: 0 })
+    expect(minPairDistance(out)).toBeGreaterThanOrEqual(149)
+  })
+})
+
+describe('applyLayout', () => {
+  it('dispatches on the layout kind without dropping nodes', () => {
+    const { nodes, edges } = graph()
+    for (const kind of ['radial', 'tree-tb', 'tree-lr', 'rings', 'force'] as const) {
+      expect(applyLayout(kind, nodes, edges).map((n) => n.id)).toEqual(nodes.map((n) => n.id))
+    }
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { renderMapSVG } from '@/lib/mapImage'
+import { colorForProfile } from '@/lib/colors'
+import type { GiftEdge, GiftNode } from '@/types/gift'
+
+const nodes: GiftNode[] = [
+  { id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: 'Xmas & Co' } },
+  { id: 'p1', type: 'person', position: { x: 300, y: 0 }, data: { owner: 'mom', label: 'Bella' } },
+  { id: 'p2', type: 'person', position: { x: -300, y: 0 }, data: { owner: 'mom', label: 'Mike' } },
+  { id: 'i1', type: 'idea', position: { x: 300, y: 200 }, data: { owner: 'mom', title: 'Bike', notes: 'the red one', status: 'ordered', claimedBy: 'dad' } },
+]
+const edges: GiftEdge[] = [
+  { id: 'e1', source: 'root', target: 'p1' },
+  { id: 'e2', source: 'p1', target: 'i1' },
+  { id: 'x', source: 'p1', target: 'p2', data: { kind: 'exchange' } },
+]
+
+describe('map image export', () => {
+  it('draws every card with profile colors inside a fitted viewBox', () => {
+    const { svg, width, height } = renderMapSVG(nodes, edges)
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true)
+    expect(svg).toContain('viewBox="-340 -40')
+    expect(width).toBe(300 + 256 + 340 + 40)
+    expect(height).toBeGreaterThan(200)
+    expect(svg).toContain(`fill="${colorForProfile('mom')}"`)
+    expect(svg).toContain('Xmas &amp; Co')
+  })
+
+  it('shows spoilers only when asked to', () => {
+    const full = renderMapSVG(nodes, edges).svg
+    expect(full).toContain('the red one')
+    expect(full).toContain('✓ Bike')
+    expect(full).toContain('ORDERED')
+    expect(full).toContain('Claimed')
+    const safe = renderMapSVG(nodes, edges, { hideNotes: true, hidePurchased: true }).svg
+    expect(safe).not.toContain('the red one')
+    expect(safe).not.toContain('✓')
+    expect(safe).not.toContain('ORDERED')
+    expect(safe).not.toContain('Claimed')
+    expect(safe).toContain('>Bike<')
+  })
+
+  it('never draws secret exchange pairings', () => {
+    expect(renderMapSVG(nodes, edges).svg.match(/<line /g)).toHaveLength(2)
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { can, canCreateFor, canEditEdge, roleFor, shareRoleFor } from '@/lib/permissions'
+import type { GiftEdge, GiftNode, Profile, ProfileGroup } from '@/types/gift'
+
+const profiles: Profile[] = [
+  { id: 'me', name: 'Me', shareWith: ['dad', 'mum'], shareRoles: { mum: 'editor' } },
+  { id: 'dad', name: 'Dad', shareWith: [] },
+]
+
+const idea = (owner?: string): GiftNode => ({ id: `i_${owner}`, type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Lego', owner } })
+
+describe('permissions', () => {
+  it('derives roles from ownership and sharing', () => {
+    expect(roleFor(profiles, 'me', 'me')).toBe('owner')
+    expect(roleFor(profiles, 'me', 'mum')).toBe('editor')
+    expect(roleFor(profiles, 'me', 'dad')).toBe('viewer')
+    expect(roleFor(profiles, 'dad', 'me')).toBe('none')
+    expect(roleFor(profiles, 'me', undefined)).toBe('none')
+    expect(roleFor(profiles, undefined, 'dad')).toBe('owner')
+  })
+
+  it('grants edit to editors and delete only to owners', () => {
+    expect(can(profiles, 'dad', idea('me'), 'view')).toBe(true)
+    expect(can(profiles, 'dad', idea('me'), 'edit')).toBe(false)
+    expect(can(profiles, 'mum', idea('me'), 'edit')).toBe(true)
+    expect(can(profiles, 'mum', idea('me'), 'delete')).toBe(false)
+    expect(can(profiles, 'me', idea('me'), 'transfer')).toBe(true)
+    expect(can(profiles, 'me', undefined, 'view')).toBe(false)
+    expect(canCreateFor(profiles, 'mum', 'me')).toBe(true)
+    expect(canCreateFor(profiles, 'dad', 'me')).toBe(false)
+  })
+
+  it('checks exchange edges against their owner and tree edges against their child', () => {
+    const nodes = [idea('me')]
+    const tree: GiftEdge = { id: 'e1', source: 'p', target: 'i_me' }
+    const exchange: GiftEdge = { id: 'e2', source: 'p', target: 'q', data: { owner: 'dad', kind: 'exchange' } }
+    expect(canEditEdge(profiles, 'mum', nodes, tree)).toBe(true)
+    expect(canEditEdge(profiles, 'dad', nodes, tree)).toBe(false)
+    expect(canEditEdge(profiles, 'dad', nodes, exchange)).toBe(true)
+    expect(canEditEdge(profiles, 'mum', nodes, exchange)).toBe(false)
+  })
+
+  it('treats group members as owners of group nodes and as sharees of the group', () => {
+    const groups: ProfileGroup[] = [{ id: 'parents', name: 'Parents', members: ['mum', 'dad'] }]
+    const gran: Profile = { id: 'gran', name: 'Gran', shareWith: ['dad'], shareWithGroups: ['parents'], shareRoles: { parents: 'editor' } }
+    expect(roleFor(profiles, 'parents', 'dad', groups)).toBe('owner')
+    expect(roleFor(profiles, 'parents', 'me', groups)).toBe('none')
+    expect(canCreateFor(profiles, 'mum', 'parents', groups)).toBe(true)
+    // The group's editor role beats the direct viewer share
+    expect(shareRoleFor(gran, 'dad', groups)).toBe('editor')
+    expect(shareRoleFor(gran, 'me', groups)).toBeUndefined()
+    expect(can([gran], 'mum', idea('gran'), 'edit', groups)).toBe(true)
+    expect(can([gran], 'mum', idea('gran'), 'delete', groups)).toBe(false)
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { debounce, deleteSlot, listSlots, loadSlot, loadState, saveSlot, saveState } from '@/lib/persist'
+import { createMemoryAdapter, setStorage, type StorageAdapter } from '@/lib/storage'
+import { startAutosave, useGiftStore } from '@/store/giftStore'
+import type { ExportedState } from '@/types/gift'
+
+// Memory adapter that rejects writes over `limit` characters the way a full browser store does
+function limitedStorage(limit = Infinity): StorageAdapter & { limit: number } {
+  const inner = createMemoryAdapter()
+  const adapter = {
+    ...inner,
+    limit,
+    set: async (key: string, value: string) => {
+      if (value.length > adapter.limit) throw Object.assign(new Error('full'), { name: 'QuotaExceededError' })
+      return inner.set(key, value)
+    },
+  }
+  return adapter
+}
+
+function exported(label = 'Root'): ExportedState {
+  return {
+    version: 3,
+    nodes: [{ id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label } }],
+    edges: [],
+    profiles: [{ id: 'me', name: 'Me', color: '#000', shareWith: [] }],
+    currentProfileId: 'me',
+    statusPipeline: ['considering', 'ordered', 'given'],
+    seasons: [{ id: 's1', name: 'Christmas', createdAt: '2025-01-01T00:00:00.000Z' }],
+    currentSeasonId: 's1',
+  }
+}
+
+describe('persist', () => {
+  it('round-trips the autosave through validation', async () => {
+    const storage = createMemoryAdapter()
+    expect(await loadState(storage)).toEqual({ ok: false, error: 'no_state' })
+    expect((await saveState(exported(), storage)).ok).toBe(true)
+    const res = await loadState(storage)
+    expect(res.ok && res.data.nodes[0].data).toEqual({ label: 'Root' })
+  })
+
+  it('reports a full storage instead of throwing', async () => {
+    expect(await saveState(exported(), limitedStorage(10))).toEqual({ ok: false, error: 'quota_exceeded' })
+  })
+
+  it('keeps named slots and overwrites by name', async () => {
+    const storage = createMemoryAdapter()
+    const a = await saveSlot('Draft', exported('One'), storage)
+    const b = await saveSlot('Draft', exported('Two'), storage)
+    await saveSlot('Other', exported('Three'), storage)
+    expect(a.slot?.id).toBe(b.slot?.id)
+    expect((await listSlots(storage)).map((s) => s.name)).toEqual(['Draft', 'Other'])
+    const res = await loadSlot(b.slot!.id, storage)
+    expect(res.ok && res.data.nodes[0].data).toEqual({ label: 'Two' })
+    await deleteSlot(b.slot!.id, storage)
+    expect((await listSlots(storage)).map((s) => s.name)).toEqual(['Other'])
+    expect((await loadSlot(b.slot!.id, storage)).ok).toBe(false)
+  })
+
+  it('does not index a slot that failed to write', async () => {
+    const storage = limitedStorage(10)
+    expect((await saveSlot('Big', exported(), storage)).ok).toBe(false)
+    expect(await listSlots(storage)).toEqual([])
+  })
+
+  it('debounces calls and flushes on demand', () => {
+    vi.useFakeTimers()
+    const fn = vi.fn()
+    const d = debounce(fn, 100)
+    d(); d(); d()
+    vi.advanceTimersByTime(99)
+    expect(fn).not.toHaveBeenCalled()
+    vi.advanceTimersByTime(1)
+    expect(fn).toHaveBeenCalledTimes(1)
+    d()
+    d.flush()
+    expect(fn).toHaveBeenCalledTimes(2)
+    vi.useRealTimers()
+  })
+})
+
+describe('store persistence', () => {
+  let storage: ReturnType<typeof limitedStorage>
+
+  beforeEach(() => {
+    storage = limitedStorage()
+    setStorage(storage)
+    useGiftStore.setState({ recovery: undefined, persistence: { status: 'idle' } })
+    useGiftStore.getState().importState(exported('Start'))
+  })
+  afterEach(() => setStorage(undefined))
+
+  it('restores the autosaved state on hydrate without an undo entry', async () => {
+    await saveState(exported('Saved'))
+    expect((await useGiftStore.getState().hydrate()).ok).toBe(true)
+    expect(useGiftStore.getState().nodes[0].data).toEqual({ label: 'Saved' })
+    expect(useGiftStore.getState().past).toEqual([])
+  })
+
+  it('holds an unreadable state for recovery and pauses autosave', async () => {
+    await storage.set('gift-mindmap/state/v1', '{"version":3,"nodes":"oops"}')
+    await useGiftStore.getState().hydrate()
+    expect(useGiftStore.getState().recovery?.raw).toBe('{"version":3,"nodes":"oops"}')
+    expect((await useGiftStore.getState().saveNow()).ok).toBe(false)
+    expect(await storage.get('gift-mindmap/state/v1')).toBe('{"version":3,"nodes":"oops"}')
+    await useGiftStore.getState().discardRecovery()
+    expect((await useGiftStore.getState().saveNow()).ok).toBe(true)
+  })
+
+  it('autosaves after graph changes settle', async () => {
+    vi.useFakeTimers()
+    const stop = startAutosave(500)
+    useGiftStore.getState().addProfile('Grandma')
+    useGiftStore.getState().addProfile('Grandpa')
+    expect(await storage.get('gift-mindmap/state/v1')).toBeNull()
+    await vi.advanceTimersByTimeAsync(500)
+    const res = await loadState()
+    expect(res.ok && res.data.profiles.map((p) => p.name)).toEqual(['Me', 'Grandma', 'Grandpa'])
+    stop()
+    vi.useRealTimers()
+  })
+
+  it('surfaces quota errors in the store', async () => {
+    storage.limit = 10
+    await useGiftStore.getState().saveNow()
+    expect(useGiftStore.getState().persistence).toMatchObject({ status: 'error', error: 'quota_exceeded' })
+  })
+})
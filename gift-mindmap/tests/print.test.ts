@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { giftTagsHTML, groupShoppingList, printableIdeas, shoppingListHTML } from '@/features/print/printDocuments'
+import type { GiftEdge, GiftNode, Profile } from '@/types/gift'
+
+const profiles: Profile[] = [
+  { id: 'mom', name: 'Mom', shareWith: [] },
+  { id: 'bella', name: 'Bella', shareWith: [] },
+]
+const nodes: GiftNode[] = [
+  { id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: 'Root' } },
+  { id: 'p1', type: 'person', position: { x: 0, y: 0 }, data: { label: 'Bella', profileId: 'bella' } },
+  { id: 'p2', type: 'person', position: { x: 0, y: 0 }, data: { label: 'Mike' } },
+  { id: 'i1', type: 'idea', position: { x: 0, y: 0 }, data: { owner: 'mom', title: 'Scarf <wool>', status: 'considering', store: 'Etsy', price: 10, quantity: 2 } },
+  { id: 'i2', type: 'idea', position: { x: 0, y: 0 }, data: { owner: 'mom', title: 'Lego', status: 'considering' } },
+  { id: 'i3', type: 'idea', position: { x: 0, y: 0 }, data: { owner: 'mom', title: 'Book', status: 'wrapped' } },
+  { id: 'i4', type: 'idea', position: { x: 0, y: 0 }, data: { owner: 'mom', title: 'Socks', status: 'given' } },
+]
+const edges: GiftEdge[] = [
+  { id: 'e1', source: 'root', target: 'p1' },
+  { id: 'e2', source: 'root', target: 'p2' },
+  { id: 'e3', source: 'p1', target: 'i1' },
+  { id: 'e4', source: 'p2', target: 'i2' },
+  { id: 'e5', source: 'p2', target: 'i3' },
+  { id: 'e6', source: 'p1', target: 'i4' },
+]
+
+describe('printable documents', () => {
+  it('groups pending ideas by store or person', () => {
+    const items = printableIdeas(nodes, edges, profiles, 'mom')
+    expect(groupShoppingList(items, 'store').map(([name, g]) => [name, g.map((i) => i.idea.title)])).toEqual([
+      ['Etsy', ['Scarf <wool>']],
+      ['Any store', ['Lego']],
+    ])
+    expect(groupShoppingList(items, 'person').map(([name]) => name)).toEqual(['Bella', 'Mike'])
+  })
+
+  it('keeps the viewer\'s own gifts out of their printouts', () => {
+    const titles = printableIdeas(nodes, edges, profiles, 'bella').map((i) => i.idea.title)
+    expect(titles).toEqual(['Lego', 'Book'])
+  })
+
+  it('renders an escaped, checkbox list with print CSS', () => {
+    const html = shoppingListHTML(printableIdeas(nodes, edges, profiles, 'mom'), { groupBy: 'store', title: 'List' })
+    expect(html).toContain('<!doctype html>')
+    expect(html).toContain('@media print')
+    expect(html).toContain('Scarf &lt;wool&gt;')
+    expect(html).not.toContain('<wool>')
+    expect(html.match(/class="box"/g)).toHaveLength(2)
+    expect(html).toContain('for Bella')
+  })
+
+  it('makes tags only for bought gifts not yet given', () => {
+    const html = giftTagsHTML(printableIdeas(nodes, edges, profiles, 'mom'))
+    expect(html.match(/class="tag"/g)).toHaveLength(1)
+    expect(html).toContain('To: Mike')
+    expect(html).toContain('From: Mom')
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { isWebUrl, parseProductUrl, storeNameFromHost, titleFromPath } from '@/lib/productUrl'
+
+describe('product url parsing', () => {
+  it('names stores from the host', () => {
+    expect(storeNameFromHost('www.amazon.com')).toBe('Amazon')
+    expect(storeNameFromHost('www.johnlewis.co.uk')).toBe('John Lewis')
+    expect(storeNameFromHost('shop.lego.com')).toBe('LEGO')
+    expect(storeNameFromHost('cozy-knits.example.org')).toBe('Example')
+    expect(storeNameFromHost('uncommongoods.com')).toBe('Uncommongoods')
+  })
+
+  it('pulls a title out of typical product paths', () => {
+    expect(titleFromPath('/Wooden-Train-Set-Kids/dp/B01N5IB20Q')).toBe('Wooden Train Set Kids')
+    expect(titleFromPath('/listing/123456789/hand-knitted-wool-scarf')).toBe('Hand Knitted Wool Scarf')
+    expect(titleFromPath('/ip/Crayola-Art-Kit/55443322')).toBe('Crayola Art Kit')
+    expect(titleFromPath('/p/12345')).toBeUndefined()
+    expect(titleFromPath('/')).toBeUndefined()
+  })
+
+  it('parses full links and bare domains without fetching anything', () => {
+    expect(parseProductUrl('https://www.etsy.com/listing/123/hand-knitted-wool-scarf?ref=shop')).toEqual({
+      url: 'https://www.etsy.com/listing/123/hand-knitted-wool-scarf?ref=shop',
+      store: 'Etsy',
+      title: 'Hand Knitted Wool Scarf',
+    })
+    expect(parseProductUrl('bestbuy.com/site/sony-wh1000xm5-headphones/6505727.p')).toMatchObject({ store: 'Best Buy', title: 'Sony Wh1000xm5 Headphones' })
+  })
+
+  it('ignores text that is not a link', () => {
+    expect(parseProductUrl('a nice scarf')).toBeUndefined()
+    expect(parseProductUrl('scarf')).toBeUndefined()
+    expect(parseProductUrl('')).toBeUndefined()
+    expect(parseProductUrl('javascript:alert(1)')).toBeUndefined()
+  })
+
+  it('only treats http and https links as web links', () => {
+    expect(isWebUrl('https://www.etsy.com/listing/1')).toBe(true)
+    expect(isWebUrl('http://example.com')).toBe(true)
+    expect(isWebUrl('javascript:alert(1)')).toBe(false)
+    expect(isWebUrl(' JavaScript:alert(1)')).toBe(false)
+    expect(isWebUrl('data:text/html,<script>1</script>')).toBe(false)
+    expect(isWebUrl(undefined)).toBe(false)
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { SEALED_BLOB_TYPE, SEALED_TITLE, createLock, openBlob, openIdea, openLock, openText, rewriteIdeas, sealBlob, sealIdea, sealText } from '@/lib/profileLock'
+import type { GiftNode, IdeaData } from '@/types/gift'
+
+// Few iterations keep the tests quick; the real default is far higher
+const ITERATIONS = 1000
+
+describe('profile locks', () => {
+  it('only opens with the right passphrase', async () => {
+    const { lock, key } = await createLock('hunter22', ITERATIONS)
+    expect(lock.iterations).toBe(ITERATIONS)
+    expect(await openLock(lock, 'hunter22')).toBeDefined()
+    expect(await openLock(lock, 'hunter23')).toBeUndefined()
+    const sealed = await sealText(key, 'secret')
+    expect(sealed.data).not.toContain('secret')
+    expect(await openText(key, sealed)).toBe('secret')
+    expect(await openText((await createLock('other', ITERATIONS)).key, sealed)).toBeUndefined()
+  })
+
+  it('seals everything describing an idea and restores it', async () => {
+    const { key } = await createLock('hunter22', ITERATIONS)
+    const data: IdeaData = {
+      owner: 'me', title: 'Lego', notes: 'The big set', status: 'idea', price: 40.5, currency: 'EUR', quantity: 2,
+      url: 'https://shop.example/lego-castle', store: 'Brickshop', variant: { size: 'Extra large', color: 'Teal green' }, imageId: 'img_castle',
+    }
+    const sealed = await sealIdea(data, key)
+    expect(sealed).toEqual({ owner: 'me', title: SEALED_TITLE, status: 'idea', sealed: sealed.sealed })
+    expect(JSON.stringify(sealed)).not.toMatch(/Lego|big set|40\.5|lego-castle|Brickshop|Extra large|Teal green|img_castle/)
+    expect(await openIdea(sealed, key)).toEqual(data)
+    expect(await openIdea(sealed, (await createLock('nope', ITERATIONS)).key)).toBeUndefined()
+  })
+
+  it('seals pictures and opens them only with the right key', async () => {
+    const { key } = await createLock('hunter22', ITERATIONS)
+    const sealed = await sealBlob(key, new Blob(['png-bytes'], { type: 'image/png' }))
+    expect(sealed.type).toBe(SEALED_BLOB_TYPE)
+    expect(await sealed.text()).not.toContain('png-bytes')
+    const opened = await openBlob(key, sealed)
+    expect(opened?.type).toBe('image/png')
+    expect(await opened?.text()).toBe('png-bytes')
+    expect(await openBlob((await createLock('nope', ITERATIONS)).key, sealed)).toBeUndefined()
+  })
+
+  it('rewrites ideas in archived seasons and keeps ones edited meanwhile', async () => {
+    const idea = (id: string, title: string): GiftNode => ({ id, type: 'idea', position: { x: 0, y: 0 }, data: { owner: 'me', title } })
+    const live = [idea('a', 'Lego'), idea('b', 'Socks')]
+    const graphs = { nodes: live, seasons: [{ id: 's', name: '2024', createdAt: '', graph: { nodes: [idea('c', 'Book')], edges: [] } }] }
+    const apply = await rewriteIdeas(graphs, async (d) => ({ ...d, title: d.title.toUpperCase() }))
+    const edited = { ...graphs, nodes: [live[0], { ...live[1], data: { ...live[1].data, title: 'Scarf' } }] }
+    const out = apply(edited)
+    expect(out.nodes.map((n) => (n.data as IdeaData).title)).toEqual(['LEGO', 'Scarf'])
+    expect((out.seasons[0].graph!.nodes[0].data as IdeaData).title).toBe('BOOK')
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { reassignProfile, removeProfile } from '@/lib/profiles'
+import { PROFILE_COLORS, assignProfileColors, colorForProfile, pickProfileColor } from '@/lib/colors'
+import type { GiftEdge, GiftNode, Profile } from '@/types/gift'
+
+const graph = () => {
+  const nodes: GiftNode[] = [
+    { id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: 'Root' } },
+    { id: 'bella', type: 'person', position: { x: 0, y: 0 }, data: { label: 'Bella', owner: 'dad', profileId: 'bella' } },
+    { id: 'dad', type: 'person', position: { x: 0, y: 0 }, data: { label: 'Dad', owner: 'me', profileId: 'dad' } },
+    { id: 'lego', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Lego', owner: 'dad' } },
+    { id: 'socks', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Socks', owner: 'me', claimedBy: 'dad', claimedAt: '2025-12-01' } },
+  ]
+  const edges: GiftEdge[] = [
+    { id: 'e1', source: 'root', target: 'bella' },
+    { id: 'e2', source: 'root', target: 'dad' },
+    { id: 'e3', source: 'bella', target: 'lego' },
+    { id: 'e4', source: 'dad', target: 'socks' },
+    { id: 'x1', source: 'bella', target: 'dad', data: { kind: 'exchange', owner: 'dad' } },
+  ]
+  return { nodes, edges }
+}
+
+const data = (g: { nodes: GiftNode[] }, id: string) => g.nodes.find((n) => n.id === id)?.data as any
+
+describe('profile removal', () => {
+  it('hands nodes, links, claims and pairings to another profile', () => {
+    const g = reassignProfile(graph(), 'dad', 'mum')
+    expect(data(g, 'bella').owner).toBe('mum')
+    expect(data(g, 'lego').owner).toBe('mum')
+    expect(data(g, 'dad')).toMatchObject({ owner: 'me', profileId: 'mum' })
+    expect(data(g, 'socks')).toMatchObject({ claimedBy: 'mum', claimedAt: '2025-12-01' })
+    expect(g.edges.find((e) => e.id === 'x1')!.data!.owner).toBe('mum')
+  })
+
+  it('deletes owned nodes and clears references without a new owner', () => {
+    const g = reassignProfile(graph(), 'dad')
+    expect(g.nodes.map((n) => n.id)).toEqual(['root', 'dad', 'socks'])
+    expect(g.edges.map((e) => e.id)).toEqual(['e2', 'e4'])
+    expect(data(g, 'dad').profileId).toBeUndefined()
+    expect(data(g, 'socks').claimedBy).toBeUndefined()
+    expect(data(g, 'socks').claimedAt).toBeUndefined()
+  })
+
+  it("deletes other profiles' ideas for a deleted person", () => {
+    const { nodes, edges } = graph()
+    nodes.push({ id: 'kite', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Kite', owner: 'me' } })
+    edges.push({ id: 'e5', source: 'bella', target: 'kite' })
+    const g = reassignProfile({ nodes, edges }, 'dad')
+    expect(g.nodes.map((n) => n.id)).toEqual(['root', 'dad', 'socks'])
+    expect(g.edges.map((e) => e.id)).toEqual(['e2', 'e4'])
+    expect(data(reassignProfile({ nodes, edges }, 'dad', 'mum'), 'kite').owner).toBe('me')
+  })
+
+  it('drops dangling shares and carries over only what the merged profile gave', () => {
+    const profiles: Profile[] = [
+      { id: 'me', name: 'Me', shareWith: ['dad', 'mum'], shareRoles: { dad: 'editor' } },
+      { id: 'dad', name: 'Dad', shareWith: ['gran', 'mum'], shareRoles: { gran: 'editor' } },
+      { id: 'mum', name: 'Mum', shareWith: ['me'] },
+      { id: 'gran', name: 'Gran', shareWith: [] },
+    ]
+    expect(removeProfile(profiles, 'dad')).toEqual([
+      { id: 'me', name: 'Me', shareWith: ['mum'] },
+      { id: 'mum', name: 'Mum', shareWith: ['me'] },
+      { id: 'gran', name: 'Gran', shareWith: [] },
+    ])
+    expect(removeProfile(profiles, 'dad', 'mum')).toEqual([
+      { id: 'me', name: 'Me', shareWith: ['mum'] },
+      { id: 'mum', name: 'Mum', shareWith: ['me', 'gran'], shareRoles: { gran: 'editor' } },
+      { id: 'gran', name: 'Gran', shareWith: [] },
+    ])
+  })
+})
+
+describe('profile colors', () => {
+  it('picks a color nobody uses, even past the palette', () => {
+    expect(pickProfileColor([PROFILE_COLORS[0].toUpperCase()])).toBe(PROFILE_COLORS[1])
+    const taken: string[] = [...PROFILE_COLORS]
+    for (let i = 0; i < 20; i++) taken.push(pickProfileColor(taken))
+    expect(new Set(taken).size).toBe(taken.length)
+  })
+
+  it('moves duplicate and colliding colors to free ones', () => {
+    // Find two ids whose hashed colors collide
+    const a = 'me'
+    const b = Array.from({ length: 100 }, (_, i) => `p${i}`).find((id) => colorForProfile(id) === colorForProfile(a))!
+    const profiles = assignProfileColors([
+      { id: a, name: 'A', shareWith: [] },
+      { id: b, name: 'B', shareWith: [] },
+      { id: 'c', name: 'C', color: '#123456', shareWith: [] },
+      { id: 'd', name: 'D', color: '#123456', shareWith: [] },
+    ])
+    const colors = profiles.map((p) => p.color)
+    expect(colors[0]).toBe(colorForProfile(a))
+    expect(colors[2]).toBe('#123456')
+    expect(new Set(colors).size).toBe(4)
+  })
+
+  it('keeps group colors apart from profile colors', () => {
+    const taken: string[] = []
+    const profiles = assignProfileColors([{ id: 'me', name: 'Me', color: '#123456', shareWith: [] }], taken)
+    const groups = assignProfileColors([
+      { id: 'g1', name: 'Kids', members: ['me'], color: '#123456' },
+      { id: 'g2', name: 'Parents', members: [] },
+    ], taken)
+    expect(profiles[0].color).toBe('#123456')
+    expect(groups.every((g) => g.color)).toBe(true)
+    expect(new Set([...profiles, ...groups].map((o) => o.color)).size).toBe(3)
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { parseExportJSON, validateExport } from '@/lib/schema'
+import { CURRENT_EXPORT_VERSION, migrateExport, parseExportJSON, validateExport } from '@/lib/schema'
 
 describe('schema parsing', () => {
   it('parses a valid export', () => {
@@ -26,3 +26,208 @@ describe('schema parsing', () => {
   })
 })
 
+
+describe('budget fields', () => {
+  it('round-trips price, currency, quantity and budget', () => {
+    const input = {
+      version: 1,
+      nodes: [
+        { id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: 'Root' } },
+        { id: 'p1', type: 'person', position: { x: 0, y: 0 }, data: { label: 'Bella', budget: 75 } },
+        { id: 'i1', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Lego', price: 19.99, currency: 'USD', quantity: 2 } },
+      ],
+      edges: [],
+      profiles: [],
+    }
+    const res = parseExportJSON(JSON.stringify(input))
+    expect(res.ok).toBe(true)
+    if (res.ok) {
+      expect(res.data.nodes[1].data).toMatchObject({ budget: 75 })
+      expect(res.data.nodes[2].data).toMatchObject({ price: 19.99, currency: 'USD', quantity: 2 })
+    }
+  })
+
+  it('rejects negative prices', () => {
+    const input = {
+      nodes: [{ id: 'i1', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Lego', price: -1 } }],
+      edges: [],
+      profiles: [],
+    }
+    expect(parseExportJSON(JSON.stringify(input)).ok).toBe(false)
+  })
+})
+
+describe('product fields', () => {
+  it('round-trips link, store, picture and variant', () => {
+    const product = { url: 'https://www.etsy.com/listing/1/scarf', store: 'Etsy', imageId: 'img_1', variant: { size: 'M', color: 'Navy' } }
+    const input = {
+      nodes: [{ id: 'i1', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Scarf', ...product } }],
+      edges: [],
+      profiles: [],
+    }
+    const res = parseExportJSON(JSON.stringify(input))
+    expect(res.ok).toBe(true)
+    if (res.ok) expect(res.data.nodes[0].data).toMatchObject(product)
+  })
+
+  it('rejects links that are not http or https', () => {
+    const input = {
+      nodes: [{ id: 'i1', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Scarf', url: 'javascript:alert(1)' } }],
+      edges: [],
+      profiles: [],
+    }
+    expect(parseExportJSON(JSON.stringify(input)).ok).toBe(false)
+  })
+})
+
+describe('profile locks', () => {
+  it('round-trips a profile lock and sealed idea text', () => {
+    const sealed = { iv: 'aXY=', data: 'ZGF0YQ==' }
+    const lock = { salt: 'c2FsdA==', iterations: 310000, check: sealed }
+    const input = {
+      nodes: [{ id: 'i1', type: 'idea', position: { x: 0, y: 0 }, data: { owner: 'me', title: 'Private idea', sealed } }],
+      edges: [],
+      profiles: [{ id: 'me', name: 'Me', shareWith: [], lock }],
+    }
+    const res = parseExportJSON(JSON.stringify(input))
+    expect(res.ok).toBe(true)
+    if (res.ok) {
+      expect(res.data.profiles[0].lock).toEqual(lock)
+      expect((res.data.nodes[0].data as any).sealed).toEqual(sealed)
+    }
+  })
+})
+
+describe('idea status migration', () => {
+  it('upgrades legacy purchased/pending values', () => {
+    const input = {
+      nodes: [
+        { id: 'i1', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Lego', status: 'purchased' } },
+        { id: 'i2', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Socks', status: 'pending' } },
+        { id: 'i3', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Book', status: 'wrapped', statusHistory: [{ status: 'pending', at: '2025-12-01T00:00:00.000Z' }] } },
+      ],
+      edges: [],
+      profiles: [],
+    }
+    const res = parseExportJSON(JSON.stringify(input))
+    expect(res.ok).toBe(true)
+    if (res.ok) {
+      expect(res.data.nodes.map((n: any) => n.data.status)).toEqual(['ordered', 'considering', 'wrapped'])
+      expect((res.data.nodes[2].data as any).statusHistory[0].status).toBe('considering')
+    }
+  })
+
+  it('rejects unknown statuses', () => {
+    const input = {
+      nodes: [{ id: 'i1', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Lego', status: 'lost' } }],
+      edges: [],
+      profiles: [],
+    }
+    expect(parseExportJSON(JSON.stringify(input)).ok).toBe(false)
+  })
+})
+
+describe('export migrations', () => {
+  const v1 = {
+    nodes: [
+      { id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: 'Root' } },
+      { id: 'p1', type: 'person', position: { x: 0, y: 0 }, data: { label: 'Bella', ideas: [{ status: 'purchased' }, 'scarf'] } },
+      { id: 'i1', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Lego', status: 'purchased' } },
+    ],
+    edges: [{ id: 'e1', source: 'root', target: 'p1' }],
+    profiles: [{ id: 'me', name: 'Me', shareWith: [] }],
+  }
+
+  it('treats files without a version as V1 and upgrades them', () => {
+    const res = parseExportJSON(JSON.stringify(v1))
+    expect(res.ok).toBe(true)
+    if (res.ok) {
+      expect(res.data.version).toBe(CURRENT_EXPORT_VERSION)
+      expect(res.data.statusPipeline).toEqual(['considering', 'ordered', 'shipped', 'received', 'wrapped', 'given'])
+      expect((res.data.nodes[1].data as any).ideas).toEqual([{ status: 'ordered' }, 'scarf'])
+      expect(validateExport(res.data)).toBe(true)
+    }
+  })
+
+  it('upgrades explicit V1 files', () => {
+    const res = migrateExport({ ...v1, version: 1 })
+    expect(res.ok).toBe(true)
+    if (res.ok) expect(res.data.version).toBe(CURRENT_EXPORT_VERSION)
+  })
+
+  it('wraps a V2 graph into a season named after its root', () => {
+    const v2 = {
+      version: 2,
+      nodes: [
+        { id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: '🎄 Christmas 2024 - Gift Map' } },
+        { id: 'i1', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Lego', status: 'wrapped' } },
+      ],
+      edges: [],
+      profiles: [],
+      statusPipeline: ['considering', 'wrapped'],
+    }
+    const res = migrateExport(v2)
+    expect(res.ok).toBe(true)
+    if (res.ok) {
+      expect(res.data.nodes).toEqual(v2.nodes)
+      expect(res.data.statusPipeline).toEqual(['considering', 'wrapped'])
+      expect(res.data.seasons).toHaveLength(1)
+      expect(res.data.seasons[0].name).toBe('🎄 Christmas 2024')
+      expect(res.data.currentSeasonId).toBe(res.data.seasons[0].id)
+    }
+  })
+
+  it('passes V3 files through unchanged', () => {
+    const v3 = {
+      version: 3,
+      nodes: [{ id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: 'Birthdays - Gift Map' } }],
+      edges: [],
+      profiles: [],
+      statusPipeline: ['considering', 'given'],
+      seasons: [
+        { id: 's1', name: 'Christmas 2025', createdAt: '2025-11-01T00:00:00.000Z', graph: { nodes: [], edges: [] } },
+        { id: 's2', name: 'Birthdays', createdAt: '2026-01-01T00:00:00.000Z' },
+      ],
+      currentSeasonId: 's2',
+    }
+    const res = migrateExport(v3)
+    expect(res.ok).toBe(true)
+    if (res.ok) expect(res.data).toEqual(v3)
+  })
+
+  it('rejects a V3 file whose current season is missing', () => {
+    const res = migrateExport({
+      version: 3,
+      nodes: [],
+      edges: [],
+      profiles: [],
+      statusPipeline: ['considering'],
+      seasons: [{ id: 's1', name: 'Christmas', createdAt: '2025-11-01T00:00:00.000Z' }],
+      currentSeasonId: 'nope',
+    })
+    expect(res.ok).toBe(false)
+  })
+
+  it('rejects legacy statuses in V2 files', () => {
+    const res = migrateExport({
+      version: 2,
+      nodes: [{ id: 'i1', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Lego', status: 'purchased' } }],
+      edges: [],
+      profiles: [],
+      statusPipeline: ['considering'],
+    })
+    expect(res.ok).toBe(false)
+  })
+
+  it('reports files from a newer app version', () => {
+    const res = parseExportJSON(JSON.stringify({ ...v1, version: CURRENT_EXPORT_VERSION + 1 }))
+    expect(res.ok).toBe(false)
+    if (!res.ok) expect(res.error).toMatch(/newer version/)
+  })
+
+  it('rejects malformed versions and non-JSON input', () => {
+    expect(migrateExport({ ...v1, version: 'two' })).toEqual({ ok: false, error: 'invalid_version' })
+    expect(migrateExport(null)).toEqual({ ok: false, error: 'not_an_object' })
+    expect(parseExportJSON('{nope')).toEqual({ ok: false, error: 'invalid_json' })
+  })
+})
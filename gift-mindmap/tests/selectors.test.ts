@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest'
+import { budgetByPerson, budgetByProfile, filterByProfiles, ideaCost, redactForRecipient, viewableNodes, visibleProfileIds } from '@/store/selectors'
+import { pastGiftsFor } from '@/lib/seasons'
+import type { GiftEdge, GiftNode } from '@/types/gift'
+
+function graph() {
+  const nodes: GiftNode[] = [
+    { id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: 'Root' } },
+    { id: 'p1', type: 'person', position: { x: 0, y: 0 }, data: { label: 'Bella', owner: 'me', budget: 50 } },
+    { id: 'p2', type: 'person', position: { x: 0, y: 0 }, data: { label: 'Mike', owner: 'me' } },
+    { id: 'i1', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Lego', owner: 'me', price: 30, status: 'ordered' } },
+    { id: 'i2', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Socks', owner: 'me', price: 5, quantity: 3, status: 'considering' } },
+    { id: 'i3', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Book', owner: 'me', price: 12, currency: 'EUR' } },
+  ]
+  const edges: GiftEdge[] = [
+    { id: 'e1', source: 'root', target: 'p1' },
+    { id: 'e2', source: 'root', target: 'p2' },
+    { id: 'e3', source: 'p1', target: 'i1' },
+    { id: 'e4', source: 'p1', target: 'i2' },
+    { id: 'e5', source: 'p2', target: 'i3' },
+  ]
+  return { nodes, edges }
+}
+
+describe('budget selectors', () => {
+  it('multiplies price by quantity', () => {
+    expect(ideaCost({ title: 'x', price: 4, quantity: 3 })).toBe(12)
+    expect(ideaCost({ title: 'x' })).toBe(0)
+  })
+
+  it('totals spent and planned per person', () => {
+    const { nodes, edges } = graph()
+    const totals = budgetByPerson(nodes, edges)
+    expect(totals.p1).toMatchObject({ budget: 50, planned: 45, spent: 30, state: 'ok' })
+    expect(totals.p2).toMatchObject({ planned: 12, spent: 0, currency: 'EUR', state: 'none' })
+  })
+
+  it('flags persons whose plans or spending exceed the budget', () => {
+    const { nodes, edges } = graph()
+    const withLowBudget = nodes.map((n) => (n.id === 'p1' && n.type === 'person' ? { ...n, data: { ...n.data, budget: 40 } } : n))
+    expect(budgetByPerson(withLowBudget, edges).p1.state).toBe('over_planned')
+    const withTinyBudget = nodes.map((n) => (n.id === 'p1' && n.type === 'person' ? { ...n, data: { ...n.data, budget: 20 } } : n))
+    expect(budgetByPerson(withTinyBudget, edges).p1.state).toBe('over_spent')
+  })
+
+  it('totals per owning profile', () => {
+    const { nodes, edges } = graph()
+    const totals = budgetByProfile(nodes, edges)
+    expect(totals.me).toMatchObject({ budget: 50, planned: 57, spent: 30, state: 'over_planned' })
+  })
+})
+
+describe('past gifts', () => {
+  it('lists purchased ideas for the same person name in other seasons', () => {
+    const { nodes, edges } = graph()
+    const seasons = [
+      { id: 'old', name: 'Christmas 2024', createdAt: '', graph: { nodes, edges } },
+      { id: 'now', name: 'Christmas 2025', createdAt: '' },
+    ]
+    const all = (n: GiftNode[]) => n
+    const gifts = pastGiftsFor(seasons, 'now', '  bella ', all)
+    expect(gifts).toEqual([{ seasonId: 'old', seasonName: 'Christmas 2024', title: 'Lego', status: 'ordered' }])
+    expect(pastGiftsFor(seasons, 'old', 'Bella', all)).toEqual([])
+  })
+
+  it('shows nothing from a profile that has not shared with the viewer', () => {
+    const { nodes, edges } = graph()
+    const seasons = [{ id: 'old', name: 'Christmas 2024', createdAt: '', graph: { nodes, edges } }]
+    const profiles = [{ id: 'me', name: 'Me', shareWith: [] }, { id: 'other', name: 'Other', shareWith: [] }]
+    const visibleTo = (viewer: string) => (n: GiftNode[], e: GiftEdge[]) =>
+      viewableNodes(n, e, viewer, visibleProfileIds(profiles, viewer, true, ['me', 'other']))
+    expect(pastGiftsFor(seasons, 'now', 'Bella', visibleTo('other'))).toEqual([])
+    expect(pastGiftsFor(seasons, 'now', 'Bella', visibleTo('me'))).toHaveLength(1)
+  })
+
+  it('skips sealed ideas', () => {
+    const { nodes, edges } = graph()
+    const sealed = nodes.map((n) => (n.id === 'i1' && n.type === 'idea' ? { ...n, data: { ...n.data, sealed: { iv: 'x', data: 'y' } } } : n))
+    const seasons = [{ id: 'old', name: 'Christmas 2024', createdAt: '', graph: { nodes: sealed, edges } }]
+    expect(pastGiftsFor(seasons, 'now', 'Bella', (n) => n)).toEqual([])
+  })
+})
+
+describe('recipient secrecy', () => {
+  const pos = { x: 0, y: 0 }
+  const nodes: GiftNode[] = [
+    { id: 'root', type: 'root', position: pos, data: { label: 'Root' } },
+    { id: 'p1', type: 'person', position: pos, data: { label: 'Bella', owner: 'mom', profileId: 'bella' } },
+    { id: 'i1', type: 'idea', position: pos, data: { title: 'Lego', owner: 'mom', notes: 'hide in closet', status: 'wrapped', claimedBy: 'dad', price: 40 } },
+    { id: 'i2', type: 'idea', position: pos, data: { title: 'Scarf', owner: 'bella', notes: 'my wish', status: 'considering' } },
+  ]
+  const edges: GiftEdge[] = [
+    { id: 'e1', source: 'root', target: 'p1' },
+    { id: 'e2', source: 'p1', target: 'i1' },
+    { id: 'e3', source: 'p1', target: 'i2' },
+  ]
+
+  it('reduces other profiles\' gifts for the recipient to their title', () => {
+    const redacted = redactForRecipient(nodes, edges, 'bella')
+    expect(redacted.find((n) => n.id === 'i1')!.data).toEqual({ owner: 'mom', title: 'Lego', __color: undefined })
+    expect(redacted.find((n) => n.id === 'i2')!.data).toMatchObject({ notes: 'my wish' })
+  })
+
+  it('leaves everyone else\'s view untouched', () => {
+    expect(redactForRecipient(nodes, edges, 'dad')).toBe(nodes)
+    const { nodes: visible } = filterByProfiles(nodes, edges, ['mom'], 'dad')
+    expect(visible.find((n) => n.id === 'i1')!.data).toMatchObject({ claimedBy: 'dad', notes: 'hide in closet' })
+  })
+
+  it('keeps recipient budgets from revealing purchases', () => {
+    const { nodes: visible } = filterByProfiles(nodes, edges, ['mom', 'bella'], 'bella')
+    expect(budgetByPerson(visible, edges).p1.spent).toBe(0)
+  })
+
+  it('only includes tree profiles that shared with the viewer', () => {
+    const profiles = [
+      { id: 'mom', name: 'Mom', shareWith: ['dad'] },
+      { id: 'dad', name: 'Dad', shareWith: [] },
+      { id: 'kid', name: 'Kid', shareWith: [] },
+    ]
+    expect([...visibleProfileIds(profiles, 'dad', false, ['mom'])]).toEqual(['dad'])
+    expect([...visibleProfileIds(profiles, 'dad', true, ['mom', 'kid'])]).toEqual(['dad', 'mom'])
+    expect(visibleProfileIds(profiles, undefined, true, ['mom']).size).toBe(0)
+  })
+
+  it('shows group-owned nodes to members and honours sharing with a group', () => {
+    const groups = [{ id: 'parents', name: 'Parents', members: ['mom', 'dad'] }]
+    const profiles = [
+      { id: 'mom', name: 'Mom', shareWith: [] },
+      { id: 'gran', name: 'Gran', shareWith: [], shareWithGroups: ['parents'] },
+      { id: 'kid', name: 'Kid', shareWith: [] },
+    ]
+    expect([...visibleProfileIds(profiles, 'dad', false, [], groups)]).toEqual(['dad', 'parents'])
+    expect([...visibleProfileIds(profiles, 'dad', true, ['gran', 'kid'], groups)]).toEqual(['dad', 'parents', 'gran'])
+    expect([...visibleProfileIds(profiles, 'kid', true, ['gran'], groups)]).toEqual(['kid'])
+    const owned: GiftNode[] = [{ id: 'p2', type: 'person', position: pos, data: { label: 'Ted', owner: 'parents' } }]
+    const all = nodes.concat(owned)
+    expect(filterByProfiles(all, edges, ['parents'], 'dad', groups).nodes.map((n) => n.id)).toEqual(['root', 'p1', 'i1', 'p2'])
+    expect(filterByProfiles(all, edges, ['bella'], 'dad', groups).nodes.map((n) => n.id)).toEqual(['root', 'i2'])
+  })
+})
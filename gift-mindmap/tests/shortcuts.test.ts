@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { findShortcut, formatCombo, isTypingTarget, matchesCombo, SHORTCUTS } from '@/lib/shortcuts'
+
+const key = (k: string, mods: { ctrl?: boolean; meta?: boolean; shift?: boolean; alt?: boolean } = {}) => ({
+  key: k,
+  ctrlKey: !!mods.ctrl,
+  metaKey: !!mods.meta,
+  shiftKey: !!mods.shift,
+  altKey: !!mods.alt,
+})
+
+// Just enough of an element for isTypingTarget
+const el = (tagName: string, opts: { editable?: boolean; inMonaco?: boolean } = {}) => ({
+  tagName,
+  isContentEditable: !!opts.editable,
+  closest: (sel: string) => (sel === '.monaco-editor' && opts.inMonaco ? {} : null),
+}) as unknown as EventTarget
+
+describe('shortcut matching', () => {
+  it('treats Ctrl and Cmd alike and tells undo from redo by shift', () => {
+    expect(findShortcut(key('z', { ctrl: true }))?.id).toBe('undo')
+    expect(findShortcut(key('z', { meta: true }))?.id).toBe('undo')
+    expect(findShortcut(key('Z', { meta: true, shift: true }))?.id).toBe('redo')
+    expect(findShortcut(key('y', { ctrl: true }))?.id).toBe('redo')
+  })
+
+  it('does not fire single-key shortcuts with modifiers held', () => {
+    expect(findShortcut(key('p'))?.id).toBe('togglePurchased')
+    expect(findShortcut(key('p', { ctrl: true }))).toBeUndefined()
+    expect(findShortcut(key('P', { shift: true }))).toBeUndefined()
+  })
+
+  it('accepts symbols that need shift on the keyboard', () => {
+    expect(findShortcut(key('?', { shift: true }))?.id).toBe('showHelp')
+    expect(matchesCombo(key('Delete'), 'delete')).toBe(true)
+  })
+
+  it('has no combo claimed by two shortcuts', () => {
+    const combos = SHORTCUTS.flatMap((s) => s.combos)
+    expect(new Set(combos).size).toBe(combos.length)
+  })
+})
+
+describe('typing suppression', () => {
+  it('ignores keys typed into fields, editable content and Monaco', () => {
+    expect(isTypingTarget(el('INPUT'))).toBe(true)
+    expect(isTypingTarget(el('TEXTAREA'))).toBe(true)
+    expect(isTypingTarget(el('DIV', { editable: true }))).toBe(true)
+    expect(isTypingTarget(el('DIV', { inMonaco: true }))).toBe(true)
+    expect(isTypingTarget(el('DIV'))).toBe(false)
+    expect(isTypingTarget(null)).toBe(false)
+  })
+})
+
+describe('formatCombo', () => {
+  it('uses platform conventions', () => {
+    expect(formatCombo('mod+shift+z', true)).toBe('⌘⇧Z')
+    expect(formatCombo('mod+shift+z', false)).toBe('Ctrl+Shift+Z')
+    expect(formatCombo('backspace', false)).toBe('⌫')
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { createLocalStorageAdapter, createMemoryAdapter, migrateKeys, withMigration } from '@/lib/storage'
+import { DEFAULT_AI_SETTINGS, clearStoredData, loadAiSettings, saveAiSettings } from '@/lib/settings'
+
+// Minimal Web Storage stand-in; the test environment has no DOM
+function fakeLocalStorage(initial: Record<string, string> = {}): Storage {
+  const data = new Map(Object.entries(initial))
+  return {
+    get length() { return data.size },
+    key: (i: number) => [...data.keys()][i] ?? null,
+    getItem: (k: string) => data.get(k) ?? null,
+    setItem: (k: string, v: string) => { data.set(k, v) },
+    removeItem: (k: string) => { data.delete(k) },
+    clear: () => data.clear(),
+  }
+}
+
+describe('storage adapters', () => {
+  it('memory and localStorage adapters share the same contract', async () => {
+    for (const adapter of [createMemoryAdapter(), createLocalStorageAdapter(fakeLocalStorage())]) {
+      expect(await adapter.get('a')).toBeNull()
+      await adapter.set('gift-mindmap/a', '1')
+      await adapter.set('other', '2')
+      expect(await adapter.get('gift-mindmap/a')).toBe('1')
+      expect(await adapter.keys('gift-mindmap/')).toEqual(['gift-mindmap/a'])
+      await adapter.remove('gift-mindmap/a')
+      expect(await adapter.keys()).toEqual(['other'])
+    }
+  })
+})
+
+describe('legacy key migration', () => {
+  it('moves app keys across without clobbering newer data and leaves the AI settings', async () => {
+    const source = createLocalStorageAdapter(fakeLocalStorage({
+      'gift-mindmap/state/v1': 'old-state',
+      'gift-mindmap/slots/v1': 'old-slots',
+      'live-code-editor-storage': 'editor',
+      openai_api_key: 'secret',
+      'other-app': 'theirs',
+    }))
+    const target = createMemoryAdapter({ 'gift-mindmap/slots/v1': 'new-slots' })
+    const moved = await migrateKeys(source, target)
+    expect(moved.sort()).toEqual(['gift-mindmap/slots/v1', 'gift-mindmap/state/v1', 'live-code-editor-storage'])
+    expect(await target.get('gift-mindmap/state/v1')).toBe('old-state')
+    expect(await target.get('gift-mindmap/slots/v1')).toBe('new-slots')
+    expect(await target.get('openai_api_key')).toBeNull()
+    expect((await source.keys()).sort()).toEqual(['openai_api_key', 'other-app'])
+  })
+
+  it('migrates transparently before the first read', async () => {
+    const source = createLocalStorageAdapter(fakeLocalStorage({ 'gift-mindmap/state/v1': 'old-state' }))
+    const adapter = withMigration(createMemoryAdapter(), source)
+    expect(adapter.kind).toBe('memory')
+    expect(await adapter.get('gift-mindmap/state/v1')).toBe('old-state')
+    expect(await source.get('gift-mindmap/state/v1')).toBeNull()
+  })
+})
+
+describe('ai settings', () => {
+  it('reads and writes the settings through the adapter and keeps API keys on clear', async () => {
+    const storage = createMemoryAdapter({ ai_model: 'gpt-4o-mini', 'gift-mindmap/state/v1': 'state' })
+    expect(await loadAiSettings(storage)).toEqual({ ...DEFAULT_AI_SETTINGS, model: 'gpt-4o-mini' })
+    expect(await saveAiSettings({ provider: 'anthropic', anthropicApiKey: 'sk-ant-1' }, storage)).toBe(true)
+    expect(await loadAiSettings(storage)).toMatchObject({ provider: 'anthropic', anthropicApiKey: 'sk-ant-1' })
+    await saveAiSettings({ model: '' }, storage)
+    await clearStoredData(storage, storage)
+    expect(await storage.keys()).toEqual(['anthropic_api_key'])
+  })
+})
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest'
-import { useGiftStore } from '@/store/giftStore'
+import { loadIdeaImage, saveIdeaImage, useGiftStore } from '@/store/giftStore'
+import { createMemoryBlobStore, setBlobStore } from '@/lib/images'
+import { filterByProfiles } from '@/store/selectors'
 
 function resetStore() {
   const s = useGiftStore.getState()
@@ -8,12 +10,19 @@ function resetStore() {
     edges: [],
     profiles: [{ id: 'me', name: 'Me', color: '#000', shareWith: [] }],
     currentProfileId: 'me',
+    unlockedProfiles: [],
+    groups: [],
     treeMode: false,
     treeProfiles: ['me'],
+    statusPipeline: ['considering', 'ordered', 'shipped', 'received', 'wrapped', 'given'],
+    statusFilter: [],
+    exchange: { participants: [], exclusions: [], households: [], avoidPrevious: true, previous: [] },
     selectedId: undefined,
+    selectedIds: [],
     messages: [],
     past: [],
     future: [],
+    branches: [],
   } as any)
 }
 
@@ -43,13 +52,747 @@ describe('gift store actions', () => {
     const ideaId = useGiftStore.getState().addIdea(owner, personId, 'Socks', '')
     useGiftStore.getState().togglePurchased(ideaId)
     let idea = useGiftStore.getState().nodes.find(n => n.id === ideaId) as any
-    expect(idea.data.status).toBe('purchased')
+    expect(idea.data.status).toBe('ordered')
     useGiftStore.getState().undo()
     idea = useGiftStore.getState().nodes.find(n => n.id === ideaId) as any
-    expect(idea.data.status).toBe('pending')
+    expect(idea.data.status).toBe('considering')
     useGiftStore.getState().redo()
     idea = useGiftStore.getState().nodes.find(n => n.id === ideaId) as any
-    expect(idea.data.status).toBe('purchased')
+    expect(idea.data.status).toBe('ordered')
+  })
+
+  it('advances and rewinds through the status pipeline with timestamps', () => {
+    const owner = useGiftStore.getState().currentProfileId
+    const personId = useGiftStore.getState().addPerson(owner, 'Bella')
+    const ideaId = useGiftStore.getState().addIdea(owner, personId, 'Lego', '')
+    const status = () => (useGiftStore.getState().nodes.find(n => n.id === ideaId) as any).data
+    useGiftStore.getState().advanceStatus(ideaId)
+    useGiftStore.getState().advanceStatus(ideaId)
+    expect(status().status).toBe('shipped')
+    useGiftStore.getState().rewindStatus(ideaId)
+    expect(status().status).toBe('ordered')
+    expect(status().statusHistory.map((t: any) => t.status)).toEqual(['considering', 'ordered', 'shipped', 'ordered'])
+    expect(typeof status().statusHistory[0].at).toBe('string')
+  })
+
+  it('skips stages that are not in the configured pipeline', () => {
+    useGiftStore.getState().setStatusPipeline(['considering', 'ordered', 'given'])
+    const owner = useGiftStore.getState().currentProfileId
+    const personId = useGiftStore.getState().addPerson(owner, 'Mike')
+    const ideaId = useGiftStore.getState().addIdea(owner, personId, 'Book', '')
+    useGiftStore.getState().advanceStatus(ideaId)
+    useGiftStore.getState().advanceStatus(ideaId)
+    const idea = useGiftStore.getState().nodes.find(n => n.id === ideaId) as any
+    expect(idea.data.status).toBe('given')
+  })
+
+  it('drops links that are not http or https', () => {
+    const personId = useGiftStore.getState().addPerson('me', 'Bella')
+    const ideaId = useGiftStore.getState().addIdea('me', personId, 'Scarf', '', { url: 'javascript:alert(1)', store: 'Etsy' })
+    const data = () => (useGiftStore.getState().nodes.find(n => n.id === ideaId) as any).data
+    expect(data()).toMatchObject({ store: 'Etsy' })
+    expect(data().url).toBeUndefined()
+    useGiftStore.getState().updateIdea(ideaId, { url: 'https://www.etsy.com/listing/1' })
+    useGiftStore.getState().updateIdea(ideaId, { url: 'javascript:alert(1)', title: 'Wool scarf' })
+    expect(data()).toMatchObject({ title: 'Wool scarf', url: 'https://www.etsy.com/listing/1' })
+  })
+
+  it('always keeps considering so new ideas start out not purchased', () => {
+    useGiftStore.getState().setStatusPipeline(['ordered', 'given'])
+    expect(useGiftStore.getState().statusPipeline).toEqual(['considering', 'ordered', 'given'])
+    const owner = useGiftStore.getState().currentProfileId
+    const personId = useGiftStore.getState().addPerson(owner, 'Mike')
+    const ideaId = useGiftStore.getState().addIdea(owner, personId, 'Book', '')
+    expect((useGiftStore.getState().nodes.find(n => n.id === ideaId) as any).data.status).toBe('considering')
+    useGiftStore.getState().setStatusPipeline([])
+    expect(useGiftStore.getState().statusPipeline).toEqual(['considering'])
   })
 })
 
+
+describe('history', () => {
+  beforeEach(() => resetStore())
+
+  it('labels entries after the action that made them', () => {
+    const personId = useGiftStore.getState().addPerson('me', 'Bella')
+    useGiftStore.getState().addIdea('me', personId, 'Lego set', '')
+    expect(useGiftStore.getState().past.map(e => e.label)).toEqual(["Added person 'Bella'", "Added idea 'Lego set'"])
+  })
+
+  it('undoes a whole drag in one step and ignores selection changes', () => {
+    const personId = useGiftStore.getState().addPerson('me', 'Bella')
+    const start = useGiftStore.getState().nodes.find(n => n.id === personId)!.position
+    for (let x = 1; x <= 20; x++) {
+      useGiftStore.getState().onNodesChange([{ type: 'position', id: personId, position: { x, y: 0 }, dragging: true }])
+    }
+    useGiftStore.getState().onNodesChange([{ type: 'select', id: personId, selected: true }])
+    expect(useGiftStore.getState().past.map(e => e.label)).toEqual(["Added person 'Bella'", "Moved 'Bella'"])
+    useGiftStore.getState().undo()
+    expect(useGiftStore.getState().nodes.find(n => n.id === personId)!.position).toEqual(start)
+    useGiftStore.getState().redo()
+    expect(useGiftStore.getState().nodes.find(n => n.id === personId)!.position).toEqual({ x: 20, y: 0 })
+  })
+
+  it('jumps to any entry and keeps abandoned edits as a branch', () => {
+    const personId = useGiftStore.getState().addPerson('me', 'Bella')
+    useGiftStore.getState().addIdea('me', personId, 'Lego', '')
+    useGiftStore.getState().undo()
+    useGiftStore.getState().addIdea('me', personId, 'Book', '')
+    const titles = () => useGiftStore.getState().nodes.filter(n => n.type === 'idea').map(n => (n.data as any).title)
+    expect(titles()).toEqual(['Book'])
+    const lego = useGiftStore.getState().branches[0].entries[0]
+    expect(lego.label).toBe("Added idea 'Lego'")
+    useGiftStore.getState().jumpToHistory(lego.id)
+    expect(titles()).toEqual(['Lego'])
+  })
+
+  it('restores deleted nodes and their edges in place', () => {
+    const personId = useGiftStore.getState().addPerson('me', 'Bella')
+    useGiftStore.getState().addIdea('me', personId, 'Lego', '')
+    const before = { nodes: useGiftStore.getState().nodes, edges: useGiftStore.getState().edges }
+    useGiftStore.getState().deleteNode(personId)
+    useGiftStore.getState().undo()
+    expect(useGiftStore.getState().nodes).toEqual(before.nodes)
+    expect(useGiftStore.getState().edges).toEqual(before.edges)
+  })
+})
+
+describe('multi-select and bulk actions', () => {
+  beforeEach(() => resetStore())
+
+  function family() {
+    const store = useGiftStore.getState()
+    const bella = store.addPerson('me', 'Bella')
+    const mike = store.addPerson('me', 'Mike')
+    const ideas = ['Lego', 'Socks', 'Book'].map((t) => store.addIdea('me', bella, t, ''))
+    return { bella, mike, ideas, entries: useGiftStore.getState().past.length }
+  }
+  const data = (id: string) => (useGiftStore.getState().nodes.find(n => n.id === id) as any)?.data
+
+  it('tracks shift-click and marquee selection without touching the nodes', () => {
+    const { ideas } = family()
+    const nodesBefore = useGiftStore.getState().nodes
+    useGiftStore.getState().onNodesChange([{ type: 'select', id: ideas[0], selected: true }, { type: 'select', id: ideas[1], selected: true }])
+    expect(useGiftStore.getState().selectedIds).toEqual([ideas[0], ideas[1]])
+    expect(useGiftStore.getState().selectedId).toBe(ideas[1])
+    expect(useGiftStore.getState().nodes).toBe(nodesBefore)
+    useGiftStore.getState().onNodesChange([{ type: 'select', id: ideas[1], selected: false }])
+    expect(useGiftStore.getState().selectedIds).toEqual([ideas[0]])
+    expect(useGiftStore.getState().selectedId).toBe(ideas[0])
+  })
+
+  it('marks many ideas purchased in one undoable step', () => {
+    const { ideas, entries } = family()
+    useGiftStore.getState().setIdeasPurchased(ideas, true)
+    expect(ideas.map(id => data(id).status)).toEqual(['ordered', 'ordered', 'ordered'])
+    expect(useGiftStore.getState().past).toHaveLength(entries + 1)
+    expect(useGiftStore.getState().past.at(-1)!.label).toBe('Marked 3 ideas purchased')
+    useGiftStore.getState().undo()
+    expect(ideas.map(id => data(id).status)).toEqual(['considering', 'considering', 'considering'])
+  })
+
+  it('moves ideas to another person', () => {
+    const { mike, ideas } = family()
+    useGiftStore.getState().moveIdeas(ideas.slice(0, 2), mike)
+    const parentOf = (id: string) => useGiftStore.getState().edges.filter(e => e.target === id).map(e => e.source)
+    expect(parentOf(ideas[0])).toEqual([mike])
+    expect(parentOf(ideas[1])).toEqual([mike])
+    expect(parentOf(ideas[2])).not.toEqual([mike])
+    useGiftStore.getState().undo()
+    expect(parentOf(ideas[0])).not.toEqual([mike])
+  })
+
+  it('changes owner, recolors and deletes as single entries', () => {
+    const { bella, ideas, entries } = family()
+    const store = useGiftStore.getState()
+    store.setOwner(ideas, 'dad')
+    store.recolorNodes([bella, ...ideas], '#ff0000')
+    useGiftStore.getState().setSelection([bella, ideas[0]])
+    useGiftStore.getState().deleteNodes(['root', bella, ideas[0]])
+    expect(useGiftStore.getState().past).toHaveLength(entries + 3)
+    expect(data('root')).toBeDefined()
+    expect(data(bella)).toBeUndefined()
+    // The ideas now belong to dad, so only he may delete them
+    expect(data(ideas[0])).toBeDefined()
+    expect(useGiftStore.getState().selectedIds).toEqual([ideas[0]])
+    useGiftStore.getState().undo()
+    expect(data(bella).color).toBe('#ff0000')
+    expect(data(ideas[1]).owner).toBe('dad')
+    useGiftStore.getState().undo()
+    expect(data(bella).color).toBeUndefined()
+  })
+})
+
+describe('reparenting', () => {
+  beforeEach(() => resetStore())
+
+  const parentOf = (id: string) => useGiftStore.getState().edges.filter(e => e.target === id).map(e => e.source)
+
+  it('moves an idea onto another person as one labelled entry', () => {
+    const store = useGiftStore.getState()
+    const bella = store.addPerson('me', 'Bella')
+    const mike = store.addPerson('me', 'Mike')
+    const lego = store.addIdea('me', bella, 'Lego', '')
+    expect(useGiftStore.getState().reparentIdea(lego, mike)).toEqual({ ok: true })
+    expect(parentOf(lego)).toEqual([mike])
+    expect(useGiftStore.getState().past.at(-1)!.label).toBe("Moved 'Lego' to 'Mike'")
+    useGiftStore.getState().undo()
+    expect(parentOf(lego)).toEqual([bella])
+  })
+
+  it('refuses to reparent onto non-person nodes or the current parent', () => {
+    const store = useGiftStore.getState()
+    const bella = store.addPerson('me', 'Bella')
+    const lego = store.addIdea('me', bella, 'Lego', '')
+    const socks = store.addIdea('me', bella, 'Socks', '')
+    const entries = useGiftStore.getState().past.length
+    expect(useGiftStore.getState().reparentIdea(lego, socks).ok).toBe(false)
+    expect(useGiftStore.getState().reparentIdea(lego, bella).ok).toBe(false)
+    expect(useGiftStore.getState().reparentIdea(bella, 'root').ok).toBe(false)
+    expect(parentOf(lego)).toEqual([bella])
+    expect(useGiftStore.getState().past).toHaveLength(entries)
+  })
+
+  it('ignores connections that would break the tree', () => {
+    const store = useGiftStore.getState()
+    const bella = store.addPerson('me', 'Bella')
+    const mike = store.addPerson('me', 'Mike')
+    const lego = store.addIdea('me', bella, 'Lego', '')
+    const socks = store.addIdea('me', mike, 'Socks', '')
+    const edges = useGiftStore.getState().edges
+    for (const [source, target] of [[lego, socks], [mike, lego], [bella, mike], ['root', bella]]) {
+      useGiftStore.getState().onConnect({ source, target, sourceHandle: null, targetHandle: null })
+    }
+    expect(useGiftStore.getState().edges).toBe(edges)
+  })
+
+  it('reattaches a detached person to the root', () => {
+    const bella = useGiftStore.getState().addPerson('me', 'Bella')
+    useGiftStore.setState({ edges: [] })
+    useGiftStore.getState().onConnect({ source: 'root', target: bella, sourceHandle: null, targetHandle: null })
+    expect(parentOf(bella)).toEqual(['root'])
+  })
+})
+
+describe('csv import', () => {
+  beforeEach(() => resetStore())
+
+  it('adds planned people and ideas as one undoable step', () => {
+    const bella = useGiftStore.getState().addPerson('me', 'Bella')
+    const entries = useGiftStore.getState().past.length
+    const res = useGiftStore.getState().importCsv({
+      existingPeople: { bella: bella },
+      newPeople: ['Grandpa Joe'],
+      ideas: [
+        { row: 2, person: 'Bella', title: 'Book', status: 'given', price: 12 },
+        { row: 3, person: 'grandpa joe', title: 'Tie' },
+      ],
+      skipped: [],
+    })
+    expect(res).toEqual({ people: 1, ideas: 2 })
+    const { nodes, edges, past } = useGiftStore.getState()
+    const joe = nodes.find((n) => n.type === 'person' && n.data.label === 'Grandpa Joe')!
+    const parentOf = (title: string) => edges.find((e) => e.target === nodes.find((n) => n.type === 'idea' && n.data.title === title)!.id)!.source
+    expect(parentOf('Book')).toBe(bella)
+    expect(parentOf('Tie')).toBe(joe.id)
+    expect(nodes.find((n) => n.type === 'idea' && n.data.title === 'Tie')!.data).toMatchObject({ owner: 'me', status: 'considering' })
+    expect(past).toHaveLength(entries + 1)
+    expect(past.at(-1)!.label).toBe('Imported 2 ideas from CSV')
+    useGiftStore.getState().undo()
+    expect(useGiftStore.getState().nodes.some((n) => n.type === 'person' && n.data.label === 'Grandpa Joe')).toBe(false)
+  })
+})
+
+describe('duplicate resolutions', () => {
+  beforeEach(() => resetStore())
+
+  it('only lets the idea owner record a decision', () => {
+    const personId = useGiftStore.getState().addPerson('me', 'Bella')
+    const mine = useGiftStore.getState().addIdea('me', personId, 'Lego', '')
+    useGiftStore.getState().shareWithToggle('other')
+    useGiftStore.getState().setShareRole('other', 'editor')
+    useGiftStore.setState({ currentProfileId: 'other' })
+    const theirs = useGiftStore.getState().addIdea('other', personId, 'Lego', '')
+    useGiftStore.setState({ currentProfileId: 'me' })
+    useGiftStore.getState().setConflictResolution(mine, theirs, 'claimed')
+    useGiftStore.getState().setConflictResolution(theirs, mine, 'dismissed')
+    const data = (id: string) => (useGiftStore.getState().nodes.find(n => n.id === id) as any).data
+    expect(data(mine).conflicts).toEqual({ [theirs]: 'claimed' })
+    expect(data(theirs).conflicts).toBeUndefined()
+    useGiftStore.getState().setConflictResolution(mine, theirs)
+    expect(data(mine).conflicts).toEqual({})
+  })
+})
+
+describe('claims', () => {
+  beforeEach(() => resetStore())
+
+  it('lets family members claim but never the recipient', () => {
+    const personId = useGiftStore.getState().addPerson('me', 'Bella')
+    useGiftStore.getState().linkPersonToProfile(personId, 'bella')
+    const ideaId = useGiftStore.getState().addIdea('me', personId, 'Lego', '')
+    useGiftStore.getState().shareWithToggle('bella')
+    useGiftStore.getState().shareWithToggle('dad')
+    const claimedBy = () => (useGiftStore.getState().nodes.find(n => n.id === ideaId) as any).data.claimedBy
+
+    useGiftStore.setState({ currentProfileId: 'bella' })
+    useGiftStore.getState().claimIdea(ideaId)
+    expect(claimedBy()).toBeUndefined()
+
+    useGiftStore.setState({ currentProfileId: 'dad' })
+    useGiftStore.getState().claimIdea(ideaId)
+    expect(claimedBy()).toBe('dad')
+
+    useGiftStore.setState({ currentProfileId: 'me' })
+    useGiftStore.getState().claimIdea(ideaId)
+    useGiftStore.getState().unclaimIdea(ideaId)
+    expect(claimedBy()).toBe('dad')
+
+    useGiftStore.setState({ currentProfileId: 'dad' })
+    useGiftStore.getState().unclaimIdea(ideaId)
+    expect(claimedBy()).toBeUndefined()
+  })
+})
+
+describe('gift exchange', () => {
+  beforeEach(() => resetStore())
+
+  it('writes pairings as edges only the giver can see', () => {
+    const store = useGiftStore.getState()
+    const ids = ['dan', 'bella', 'mike'].map((name) => {
+      const id = store.addPerson('me', name)
+      store.linkPersonToProfile(id, `profile_${name}`)
+      return id
+    })
+    store.setExchangeConfig({ participants: ids })
+    const res = useGiftStore.getState().runExchangeDraw(7)
+    expect(res.ok).toBe(true)
+
+    const { nodes, edges } = useGiftStore.getState()
+    const pairs = edges.filter(e => e.data?.kind === 'exchange')
+    expect(pairs).toHaveLength(3)
+    const danEdge = pairs.find(e => e.source === ids[0])!
+    expect(danEdge.data?.owner).toBe('profile_dan')
+    expect(danEdge.label).toBeTruthy()
+    expect(filterByProfiles(nodes, edges, ['me'], 'profile_dan').edges.filter(e => e.data?.kind === 'exchange')).toEqual([danEdge])
+    expect(filterByProfiles(nodes, edges, ['me'], 'profile_bella').edges.some(e => e === danEdge)).toBe(false)
+
+    useGiftStore.getState().runExchangeDraw(8)
+    expect(useGiftStore.getState().edges.filter(e => e.data?.kind === 'exchange')).toHaveLength(3)
+    useGiftStore.getState().clearExchange()
+    expect(useGiftStore.getState().edges.some(e => e.data?.kind === 'exchange')).toBe(false)
+  })
+})
+
+describe('seasons', () => {
+  beforeEach(() => {
+    resetStore()
+    useGiftStore.setState({ seasons: [{ id: 's2025', name: 'Christmas 2025', createdAt: '2025-11-01T00:00:00.000Z' }], currentSeasonId: 's2025' })
+  })
+
+  it('clones people into a new season and keeps the old graph archived', () => {
+    const owner = useGiftStore.getState().currentProfileId
+    const personId = useGiftStore.getState().addPerson(owner, 'Bella')
+    useGiftStore.getState().addIdea(owner, personId, 'Lego', '')
+    const seasonId = useGiftStore.getState().addSeason('Christmas 2026', { clonePeopleFrom: 's2025' })
+
+    const s = useGiftStore.getState()
+    expect(s.currentSeasonId).toBe(seasonId)
+    expect(s.nodes.filter(n => n.type === 'person').map(n => (n.data as any).label)).toEqual(['Bella'])
+    expect(s.nodes.some(n => n.type === 'idea')).toBe(false)
+    expect(s.nodes.find(n => n.type === 'person')!.id).not.toBe(personId)
+    expect(s.seasons.find(x => x.id === 's2025')!.graph!.nodes.some(n => n.type === 'idea')).toBe(true)
+
+    useGiftStore.getState().switchSeason('s2025')
+    expect(useGiftStore.getState().nodes.find(n => n.id === personId)).toBeTruthy()
+    expect(useGiftStore.getState().seasons.find(x => x.id === 's2025')!.graph).toBeUndefined()
+  })
+
+  it('keeps each season\'s exchange rules when switching', () => {
+    const a = useGiftStore.getState().addPerson('me', 'Bella')
+    const b = useGiftStore.getState().addPerson('me', 'Mike')
+    useGiftStore.getState().setExchangeConfig({ participants: [a, b], exclusions: [[a, b]], households: [[a, b]], avoidPrevious: false })
+    const rules = useGiftStore.getState().exchange
+    const next = useGiftStore.getState().addSeason('Christmas 2026')
+    expect(useGiftStore.getState().exchange.exclusions).toEqual([])
+    useGiftStore.getState().setExchangeConfig({ avoidPrevious: true })
+    useGiftStore.getState().switchSeason('s2025')
+    expect(useGiftStore.getState().exchange).toEqual(rules)
+    expect(useGiftStore.getState().seasons.find(x => x.id === 's2025')!.exchange).toBeUndefined()
+    useGiftStore.getState().switchSeason(next)
+    expect(useGiftStore.getState().exchange.avoidPrevious).toBe(true)
+    expect(useGiftStore.getState().exportState().seasons.find(x => x.id === 's2025')!.exchange).toEqual(rules)
+  })
+
+  it('exports every season without duplicating the active graph', () => {
+    useGiftStore.getState().addSeason('Birthdays')
+    const exported = useGiftStore.getState().exportState()
+    expect(exported.version).toBe(3)
+    expect(exported.seasons.map(x => x.name)).toEqual(['Christmas 2025', 'Birthdays'])
+    expect(exported.seasons[1].graph).toBeUndefined()
+    expect(exported.seasons[0].graph).toBeDefined()
+  })
+
+  it('starts the history over on import so undo cannot mix two maps', () => {
+    useGiftStore.getState().addPerson('me', 'Bella')
+    const exported = useGiftStore.getState().exportState()
+    useGiftStore.getState().addSeason('Birthdays')
+    useGiftStore.getState().addPerson('me', 'Mike')
+    useGiftStore.getState().importState(exported)
+    expect(useGiftStore.getState().past).toEqual([])
+    expect(useGiftStore.getState().seasons.map(x => x.name)).toEqual(['Christmas 2025'])
+  })
+})
+
+describe('permissions', () => {
+  beforeEach(() => resetStore())
+
+  const data = (id: string) => (useGiftStore.getState().nodes.find(n => n.id === id) as any)?.data
+
+  // me owns Bella and her idea, and shares the profile with dad
+  function shared(role?: 'viewer' | 'editor') {
+    const store = useGiftStore.getState()
+    const bella = store.addPerson('me', 'Bella')
+    const mike = store.addPerson('me', 'Mike')
+    const lego = store.addIdea('me', bella, 'Lego', '')
+    store.shareWithToggle('dad')
+    if (role) useGiftStore.getState().setShareRole('dad', role)
+    useGiftStore.setState({ currentProfileId: 'dad' })
+    return { bella, mike, lego, entries: useGiftStore.getState().past.length }
+  }
+
+  it('keeps a shared viewer from changing anything of the owner', () => {
+    const { bella, mike, lego, entries } = shared()
+    const before = useGiftStore.getState().nodes
+    const store = useGiftStore.getState()
+    store.updatePerson(bella, { label: 'Hacked' })
+    store.updateIdea(lego, { title: 'Hacked' })
+    store.togglePurchased(lego)
+    store.setIdeaStatus(lego, 'given')
+    store.setIdeasPurchased([lego], true)
+    store.recolorNodes([bella, lego], '#ff0000')
+    store.setOwner([bella, lego], 'dad')
+    store.linkPersonToProfile(bella, 'dad')
+    store.moveIdeas([lego], mike)
+    expect(store.reparentIdea(lego, mike).ok).toBe(false)
+    store.deleteNode(lego)
+    store.deleteNodes([bella, lego])
+    store.onNodesChange([{ type: 'position', id: bella, position: { x: 999, y: 999 } }, { type: 'remove', id: lego }])
+    store.onEdgesChange(useGiftStore.getState().edges.map((e) => ({ type: 'remove' as const, id: e.id })))
+    expect(store.addIdea('dad', bella, 'Sneaky', '')).toBe('')
+    expect(store.addPerson('me', 'Impostor')).toBe('')
+    expect(useGiftStore.getState().nodes).toEqual(before)
+    expect(useGiftStore.getState().edges).toHaveLength(3)
+    expect(useGiftStore.getState().past).toHaveLength(entries)
+  })
+
+  it('still lets a viewer claim what they can see', () => {
+    const { lego } = shared()
+    useGiftStore.getState().claimIdea(lego)
+    expect(data(lego).claimedBy).toBe('dad')
+  })
+
+  it('lets an editor edit and add but not delete or give away', () => {
+    const { bella, lego } = shared('editor')
+    const store = useGiftStore.getState()
+    store.updateIdea(lego, { title: 'Duplo' })
+    const socks = store.addIdea('dad', bella, 'Socks', '')
+    store.deleteNode(lego)
+    store.setOwner([lego], 'dad')
+    store.updateIdea(lego, { owner: 'dad', claimedBy: 'dad', claimedAt: '2025-01-01', sealed: { iv: '', data: '' } })
+    store.updatePerson(bella, { owner: 'dad', profileId: 'dad' })
+    expect(data(lego)).toMatchObject({ title: 'Duplo', owner: 'me' })
+    expect(data(lego).claimedBy).toBeUndefined()
+    expect(data(lego).sealed).toBeUndefined()
+    expect(data(bella)).toMatchObject({ owner: 'me' })
+    expect(data(bella).profileId).toBeUndefined()
+    expect(data(socks)).toMatchObject({ title: 'Socks', owner: 'dad' })
+    store.deleteNode(socks)
+    expect(data(socks)).toBeUndefined()
+  })
+
+  it('loses access when the share is withdrawn', () => {
+    const { lego } = shared('editor')
+    useGiftStore.setState({ currentProfileId: 'me' })
+    useGiftStore.getState().shareWithToggle('dad')
+    useGiftStore.setState({ currentProfileId: 'dad' })
+    useGiftStore.getState().updateIdea(lego, { title: 'Duplo' })
+    expect(data(lego).title).toBe('Lego')
+  })
+
+  it("keeps undo, history jumps, layout resets and imports from touching the owner's nodes", () => {
+    const { bella, lego, entries } = shared()
+    const before = useGiftStore.getState().nodes
+    const store = useGiftStore.getState()
+    const node = (id: string) => useGiftStore.getState().nodes.find(n => n.id === id)
+    store.undo()
+    store.jumpToHistory(0)
+    expect(useGiftStore.getState().nodes).toEqual(before)
+    expect(useGiftStore.getState().past).toHaveLength(entries)
+    store.resetLayout()
+    expect(node(bella)).toEqual(before.find(n => n.id === bella))
+    expect(node(lego)).toEqual(before.find(n => n.id === lego))
+    expect(store.importState({ ...store.exportState(), nodes: [] })).toEqual({ ok: false, error: 'not_allowed' })
+    expect(data(bella).label).toBe('Bella')
+    expect(data(lego).title).toBe('Lego')
+  })
+})
+
+describe('passphrase-protected profiles', () => {
+  beforeEach(() => resetStore())
+
+  const idea = (id: string) => (useGiftStore.getState().nodes.find(n => n.id === id) as any)?.data
+
+  it('encrypts titles and notes in exports and keeps the profile shut until unlocked', async () => {
+    const store = useGiftStore.getState()
+    const dad = store.addProfile('Dad')
+    const bella = store.addPerson('me', 'Bella')
+    const lego = store.addIdea('me', bella, 'Lego', 'The big set')
+    expect(await store.setPassphrase('123')).toEqual({ ok: false, error: 'too_short' })
+    expect(await store.setPassphrase('hunter22')).toEqual({ ok: true })
+
+    // Still readable in memory while unlocked, sealed in anything written out
+    expect(idea(lego).title).toBe('Lego')
+    const exported = await useGiftStore.getState().exportSealedState()
+    expect(JSON.stringify(exported)).not.toMatch(/Lego|big set/)
+
+    await useGiftStore.getState().lockProfile('me')
+    expect(useGiftStore.getState().currentProfileId).toBe(dad)
+    expect(idea(lego).title).toBe('Private idea')
+    expect(idea(lego)).not.toHaveProperty('notes')
+    useGiftStore.getState().setCurrentProfile('me')
+    expect(useGiftStore.getState().currentProfileId).toBe(dad)
+
+    expect(await useGiftStore.getState().unlockProfile('me', 'wrong one')).toEqual({ ok: false, error: 'wrong_passphrase' })
+    expect(await useGiftStore.getState().unlockProfile('me', 'hunter22')).toEqual({ ok: true })
+    expect(idea(lego)).toMatchObject({ title: 'Lego', notes: 'The big set' })
+    useGiftStore.getState().setCurrentProfile('me')
+    expect(useGiftStore.getState().currentProfileId).toBe('me')
+  })
+
+  it('cycles past locked profiles', async () => {
+    const store = useGiftStore.getState()
+    const dad = store.addProfile('Dad')
+    const mom = store.addProfile('Mom')
+    store.setCurrentProfile(mom)
+    await useGiftStore.getState().setPassphrase('hunter22')
+    useGiftStore.getState().setCurrentProfile(dad)
+    await useGiftStore.getState().setPassphrase('hunter22')
+    await useGiftStore.getState().lockProfile(dad)
+    expect(useGiftStore.getState().currentProfileId).toBe('me')
+
+    useGiftStore.getState().cycleProfile(1)
+    expect(useGiftStore.getState().currentProfileId).toBe(mom)
+    useGiftStore.getState().cycleProfile(-1)
+    expect(useGiftStore.getState().currentProfileId).toBe('me')
+    useGiftStore.getState().cycleProfile(-1)
+    expect(useGiftStore.getState().currentProfileId).toBe(mom)
+
+    await useGiftStore.getState().lockProfile(mom)
+    useGiftStore.getState().cycleProfile(1)
+    expect(useGiftStore.getState().currentProfileId).toBe('me')
+  })
+
+  it('imports a sealed export locked and opens it with the passphrase', async () => {
+    const store = useGiftStore.getState()
+    const bella = store.addPerson('me', 'Bella')
+    const lego = store.addIdea('me', bella, 'Lego', '')
+    await store.setPassphrase('hunter22')
+    const exported = await useGiftStore.getState().exportSealedState()
+
+    useGiftStore.getState().importState(exported)
+    expect(useGiftStore.getState().currentProfileId).toBeUndefined()
+    expect(idea(lego).sealed).toBeDefined()
+    useGiftStore.getState().updateIdea(lego, { title: 'Changed' })
+    expect(idea(lego).title).toBe('Private idea')
+
+    await useGiftStore.getState().unlockProfile('me', 'hunter22')
+    expect(idea(lego).title).toBe('Lego')
+    useGiftStore.getState().setCurrentProfile('me')
+    expect(await useGiftStore.getState().removePassphrase('hunter22')).toEqual({ ok: true })
+    expect(JSON.stringify(await useGiftStore.getState().exportSealedState())).toContain('Lego')
+  })
+
+  it('seals product details and pictures along with the title', async () => {
+    const blobs = createMemoryBlobStore()
+    setBlobStore(blobs)
+    const store = useGiftStore.getState()
+    store.addProfile('Dad')
+    const bella = store.addPerson('me', 'Bella')
+    const lego = store.addIdea('me', bella, 'Lego', '', {
+      url: 'https://shop.example/lego-castle', store: 'Brickshop', price: 129.5, variant: { size: 'Extra large', color: 'Teal green' },
+    })
+    const image = await saveIdeaImage('me', new Blob(['png-bytes'], { type: 'image/png' }))
+    if (!image.ok) throw new Error('image not saved')
+    useGiftStore.getState().updateIdea(lego, { imageId: image.imageId })
+    await useGiftStore.getState().setPassphrase('hunter22')
+
+    const exported = JSON.stringify(await useGiftStore.getState().exportSealedState())
+    expect(exported).not.toMatch(/Lego|lego-castle|Brickshop|129\.5|Extra large|Teal green/)
+    expect(exported).not.toContain(image.imageId)
+    expect(await (await blobs.get(image.imageId))?.text()).not.toContain('png-bytes')
+    expect(await (await loadIdeaImage(image.imageId))?.text()).toBe('png-bytes')
+
+    await useGiftStore.getState().lockProfile('me')
+    expect(await loadIdeaImage(image.imageId)).toBeNull()
+    await useGiftStore.getState().unlockProfile('me', 'hunter22')
+    expect(idea(lego)).toMatchObject({ store: 'Brickshop', price: 129.5, imageId: image.imageId })
+    useGiftStore.getState().setCurrentProfile('me')
+    await useGiftStore.getState().removePassphrase('hunter22')
+    expect((await blobs.get(image.imageId))?.type).toBe('image/png')
+    setBlobStore(undefined)
+  })
+})
+
+describe('profile management', () => {
+  beforeEach(() => resetStore())
+
+  const owners = () => useGiftStore.getState().nodes.filter(n => n.type !== 'root').map(n => (n.data as any).owner)
+
+  it('renames and recolors only the current profile, keeping colors unique', () => {
+    const store = useGiftStore.getState()
+    const dad = store.addProfile('Dad')
+    expect(store.renameProfile('me', '  Mum ')).toEqual({ ok: true })
+    expect(store.renameProfile(dad, 'Papa')).toEqual({ ok: false, error: 'not_allowed' })
+    expect(store.renameProfile('me', ' ')).toEqual({ ok: false, error: 'empty_name' })
+    const dadColor = useGiftStore.getState().profiles.find(p => p.id === dad)!.color!
+    expect(dadColor).not.toBe('#000')
+    expect(store.recolorProfile('me', dadColor.toUpperCase())).toEqual({ ok: false, error: 'color_taken' })
+    expect(store.recolorProfile('me', '#abcdef')).toEqual({ ok: true })
+    expect(useGiftStore.getState().profiles[0]).toMatchObject({ name: 'Mum', color: '#abcdef' })
+  })
+
+  it('deletes a profile, reassigning or deleting its nodes', () => {
+    const store = useGiftStore.getState()
+    const dad = store.addProfile('Dad')
+    const bella = store.addPerson('me', 'Bella')
+    store.addIdea('me', bella, 'Lego', '')
+    expect(store.deleteProfile(dad)).toEqual({ ok: false, error: 'not_allowed' })
+    expect(store.deleteProfile('me', dad)).toEqual({ ok: true })
+    expect(useGiftStore.getState().currentProfileId).toBe(dad)
+    expect(useGiftStore.getState().profiles.map(p => p.id)).toEqual([dad])
+    expect(owners()).toEqual([dad, dad])
+    expect(useGiftStore.getState().past).toEqual([])
+    expect(useGiftStore.getState().deleteProfile(dad)).toEqual({ ok: false, error: 'last_profile' })
+
+    const mum = useGiftStore.getState().addProfile('Mum')
+    useGiftStore.getState().deleteProfile(dad)
+    expect(useGiftStore.getState().currentProfileId).toBe(mum)
+    expect(useGiftStore.getState().nodes.map(n => n.id)).toEqual(['root'])
+  })
+
+  it('merges into another profile and cleans up sharing', () => {
+    const store = useGiftStore.getState()
+    const dad = store.addProfile('Dad')
+    store.addPerson('me', 'Bella')
+    store.shareWithToggle(dad)
+    useGiftStore.getState().setTreeProfiles(['me'])
+    expect(store.mergeProfiles('me', 'me')).toEqual({ ok: false, error: 'same_profile' })
+    expect(store.mergeProfiles('me', dad)).toEqual({ ok: true })
+    const s = useGiftStore.getState()
+    expect(s.profiles).toEqual([expect.objectContaining({ id: dad, shareWith: [] })])
+    expect(s.treeProfiles).toEqual([dad])
+    expect(owners()).toEqual([dad])
+  })
+})
+
+describe('groups', () => {
+  beforeEach(() => resetStore())
+
+  it('lets any member edit group-owned nodes and keeps others out', () => {
+    const store = useGiftStore.getState()
+    const mum = store.addProfile('Mum')
+    const kid = store.addProfile('Kid')
+    const parents = store.addGroup('Parents')
+    store.setGroupMember(parents, mum, true)
+    const bella = store.addPerson(parents, 'Bella')
+    expect(bella).not.toBe('')
+    store.setCurrentProfile(mum)
+    useGiftStore.getState().updatePerson(bella, { label: 'Bella B' })
+    expect(useGiftStore.getState().addIdea(parents, bella, 'Lego', '')).not.toBe('')
+    store.setCurrentProfile(kid)
+    expect(useGiftStore.getState().addPerson(parents, 'Other')).toBe('')
+    useGiftStore.getState().updatePerson(bella, { label: 'Nope' })
+    expect(useGiftStore.getState().nodes.find(n => n.id === bella)!.data).toMatchObject({ label: 'Bella B' })
+    // Only members can change the group
+    useGiftStore.getState().setGroupMember(parents, kid, true)
+    expect(useGiftStore.getState().groups[0].members).toEqual(['me', mum])
+  })
+
+  it('covers every member when sharing with a group', () => {
+    const store = useGiftStore.getState()
+    const dad = store.addProfile('Dad')
+    const parents = store.addGroup('Parents')
+    const bella = store.addPerson('me', 'Bella')
+    store.shareWithGroupToggle(parents)
+    store.setShareRole(parents, 'editor')
+    store.setCurrentProfile(dad)
+    useGiftStore.getState().updatePerson(bella, { label: 'Nope' })
+    expect(useGiftStore.getState().nodes.find(n => n.id === bella)!.data).toMatchObject({ label: 'Bella' })
+    store.setCurrentProfile('me')
+    useGiftStore.getState().setGroupMember(parents, dad, true)
+    store.setCurrentProfile(dad)
+    useGiftStore.getState().updatePerson(bella, { label: 'Bella B' })
+    expect(useGiftStore.getState().nodes.find(n => n.id === bella)!.data).toMatchObject({ label: 'Bella B' })
+  })
+
+  it('hands group nodes to the current profile on delete and forgets the sharing', () => {
+    const store = useGiftStore.getState()
+    const parents = store.addGroup('Parents')
+    const bella = store.addPerson(parents, 'Bella')
+    store.shareWithGroupToggle(parents)
+    store.setShareRole(parents, 'editor')
+    store.deleteGroup(parents)
+    const s = useGiftStore.getState()
+    expect(s.groups).toEqual([])
+    expect(s.nodes.find(n => n.id === bella)!.data).toMatchObject({ owner: 'me' })
+    expect(s.profiles[0]).toMatchObject({ shareWithGroups: [], shareRoles: {} })
+    expect(s.past).toEqual([])
+  })
+
+  it('only lets the last member delete a group', () => {
+    const store = useGiftStore.getState()
+    const dad = store.addProfile('Dad')
+    const parents = store.addGroup('Parents')
+    store.setGroupMember(parents, dad, true)
+    const bella = store.addPerson(parents, 'Bella')
+    const entries = useGiftStore.getState().past.length
+    useGiftStore.getState().deleteGroup(parents)
+    expect(useGiftStore.getState().groups).toHaveLength(1)
+    expect(useGiftStore.getState().nodes.find(n => n.id === bella)!.data).toMatchObject({ owner: parents })
+    expect(useGiftStore.getState().past).toHaveLength(entries)
+  })
+
+  it('names the group nodes are given to', () => {
+    const store = useGiftStore.getState()
+    const parents = store.addGroup('Parents')
+    const bella = store.addPerson('me', 'Bella')
+    store.setOwner([bella], parents)
+    expect(useGiftStore.getState().past.at(-1)!.label).toBe('Gave 1 node to Parents')
+  })
+
+  it("drops a group with its last member and hands the group's nodes on", () => {
+    const store = useGiftStore.getState()
+    const dad = store.addProfile('Dad')
+    const mine = store.addGroup('Mine')
+    const bella = store.addPerson(mine, 'Bella')
+    const lego = store.addIdea(mine, bella, 'Lego', '')
+    useGiftStore.getState().deleteProfile('me')
+    const s = useGiftStore.getState()
+    expect(s.groups).toEqual([])
+    expect(s.nodes.filter(n => n.id === bella || n.id === lego).map(n => (n.data as any).owner)).toEqual([dad, dad])
+  })
+
+  it('round-trips groups through export and drops deleted profiles from them', () => {
+    const store = useGiftStore.getState()
+    const dad = store.addProfile('Dad')
+    const parents = store.addGroup('Parents')
+    store.setGroupMember(parents, dad, true)
+    const exported = store.exportState()
+    expect(exported.groups).toEqual([expect.objectContaining({ id: parents, members: ['me', dad] })])
+    useGiftStore.getState().deleteProfile('me', dad)
+    expect(useGiftStore.getState().groups[0].members).toEqual([dad])
+    useGiftStore.getState().importState(exported)
+    expect(useGiftStore.getState().groups[0].members).toEqual(['me', dad])
+  })
+})
@@ -0,0 +1,254 @@
+import { describe, it, expect } from 'vitest'
+import { mergeRemote, snapshotOf, type SyncedState } from '@/lib/crdt'
+import { createMemoryRelay, createReplica, httpTransport, isNewReplica, joinRound, recordLocal, syncRound, withoutForbidden, type SyncTransport } from '@/lib/sync'
+import { createMemoryAdapter } from '@/lib/storage'
+import { reassignProfile, removeProfile } from '@/lib/profiles'
+import { startSync, useGiftStore } from '@/store/giftStore'
+import type { GiftNode } from '@/types/gift'
+import { createSyncServer } from '../server/sync-server.js'
+
+const season = { id: 's1', name: 'Christmas', createdAt: '2025-01-01T00:00:00.000Z' }
+const root: GiftNode = { id: 'root', type: 'root', position: { x: 0, y: 0 }, data: { label: 'Christmas' } }
+const bella: GiftNode = { id: 'bella', type: 'person', position: { x: 100, y: 0 }, data: { label: 'Bella', owner: 'me' } }
+const lego: GiftNode = { id: 'lego', type: 'idea', position: { x: 200, y: 0 }, data: { title: 'Lego', owner: 'me', status: 'considering' } }
+
+const blank = (): SyncedState => ({ nodes: [], edges: [], profiles: [], seasons: [season], currentSeasonId: 's1' })
+
+// A device as the store drives it: record, sync, check, merge. Edits are made as `author`.
+function device(id: string, state: SyncedState, author = 'me') {
+  let replica = createReplica(id)
+  return {
+    get state() { return state },
+    get pending() { return replica.pending.length },
+    edit(fn: (s: SyncedState) => SyncedState) { state = fn(state) },
+    async sync(transport: SyncTransport) {
+      const joining = isNewReplica(replica)
+      if (!joining) replica = recordLocal(replica, state, author)
+      const res = joining ? await joinRound(replica, transport, state) : await syncRound(replica, transport)
+      replica = res.replica
+      if (res.result.ok) {
+        const merged = mergeRemote(state, snapshotOf(state), replica.base, replica.doc, res.result.changed)
+        state = withoutForbidden(state, merged.state, res.result.changed)
+        replica = { ...replica, base: merged.base }
+      }
+      return res.result
+    },
+  }
+}
+
+const renameIdea = (title: string) => (s: SyncedState) => ({ ...s, nodes: s.nodes.map((n) => (n.id === 'lego' && n.type === 'idea' ? { ...n, data: { ...n.data, title } } : n)) })
+
+describe('sync', () => {
+  it('queues edits while offline and converges once both devices are back', async () => {
+    const relay = createMemoryRelay()
+    const laptop = device('laptop', { ...blank(), nodes: [root, bella, lego], edges: [{ id: 'e1', source: 'bella', target: 'lego' }], profiles: [{ id: 'me', name: 'Me', shareWith: [] }] })
+    const phone = device('phone', blank())
+    await laptop.sync(relay)
+    await phone.sync(relay)
+    expect(phone.state.nodes.map((n) => n.id)).toEqual(['root', 'bella', 'lego'])
+
+    relay.online = false
+    laptop.edit(renameIdea('Lego City'))
+    phone.edit((s) => ({
+      ...s,
+      nodes: s.nodes.map((n) => (n.id === 'lego' && n.type === 'idea' ? { ...n, data: { ...n.data, status: 'ordered' } } : n)),
+      profiles: s.profiles.concat({ id: 'dad', name: 'Dad', shareWith: [] }),
+    }))
+    expect(await phone.sync(relay)).toEqual({ ok: false, error: 'offline' })
+    expect(phone.pending).toBeGreaterThan(0)
+
+    relay.online = true
+    await laptop.sync(relay)
+    await phone.sync(relay)
+    await laptop.sync(relay)
+    expect(phone.pending).toBe(0)
+    expect(snapshotOf(laptop.state)).toEqual(snapshotOf(phone.state))
+    expect(laptop.state.nodes.find((n) => n.id === 'lego')!.data).toMatchObject({ title: 'Lego City', status: 'ordered' })
+    expect(laptop.state.profiles.map((p) => p.id)).toEqual(['me', 'dad'])
+  })
+
+  it('deletes on one device win over edits made elsewhere at the same time', async () => {
+    const relay = createMemoryRelay()
+    const laptop = device('laptop', { ...blank(), nodes: [root, lego] })
+    const phone = device('phone', blank())
+    await laptop.sync(relay)
+    await phone.sync(relay)
+    laptop.edit((s) => ({ ...s, nodes: s.nodes.filter((n) => n.id !== 'lego') }))
+    phone.edit(renameIdea('Duplo'))
+    await laptop.sync(relay)
+    await phone.sync(relay)
+    await laptop.sync(relay)
+    expect(phone.state.nodes.map((n) => n.id)).toEqual(['root'])
+    expect(laptop.state.nodes.map((n) => n.id)).toEqual(['root'])
+  })
+
+  it('keeps out remote changes the author may not make', async () => {
+    const relay = createMemoryRelay()
+    const profiles = [{ id: 'me', name: 'Me', shareWith: ['dad'] }, { id: 'dad', name: 'Dad', shareWith: [] }]
+    const laptop = device('laptop', { ...blank(), nodes: [root, bella, lego], edges: [{ id: 'e1', source: 'bella', target: 'lego' }], profiles })
+    const phone = device('phone', blank(), 'dad')
+    await laptop.sync(relay)
+    await phone.sync(relay)
+
+    // Dad only views me's nodes, and can't give himself more
+    phone.edit(renameIdea('Socks'))
+    phone.edit((s) => ({
+      ...s,
+      nodes: s.nodes.filter((n) => n.id !== 'bella'),
+      profiles: s.profiles.map((p) => (p.id === 'me' ? { ...p, shareRoles: { dad: 'editor' as const } } : p)),
+    }))
+    await phone.sync(relay)
+    await laptop.sync(relay)
+    expect(laptop.state.nodes.map((n) => n.id).sort()).toEqual(['bella', 'lego', 'root'])
+    expect(laptop.state.nodes.find((n) => n.id === 'lego')!.data).toMatchObject({ title: 'Lego' })
+    expect(laptop.state.profiles[0].shareRoles).toBeUndefined()
+
+    // The laptop puts its version back everywhere
+    await laptop.sync(relay)
+    await phone.sync(relay)
+    expect(snapshotOf(phone.state)).toEqual(snapshotOf(laptop.state))
+  })
+
+  it('accepts a profile deleting itself and handing its nodes on', async () => {
+    const relay = createMemoryRelay()
+    const dadsIdea: GiftNode = { id: 'kite', type: 'idea', position: { x: 0, y: 0 }, data: { title: 'Kite', owner: 'dad' } }
+    const profiles = [{ id: 'me', name: 'Me', shareWith: ['dad'] }, { id: 'dad', name: 'Dad', shareWith: ['me'] }]
+    const laptop = device('laptop', { ...blank(), nodes: [root, bella, dadsIdea], edges: [{ id: 'e1', source: 'bella', target: 'kite' }], profiles })
+    const phone = device('phone', blank(), 'dad')
+    await laptop.sync(relay)
+    await phone.sync(relay)
+    phone.edit((s) => ({ ...s, ...reassignProfile(s, 'dad', 'me'), profiles: removeProfile(s.profiles, 'dad') }))
+    await phone.sync(relay)
+    await laptop.sync(relay)
+    expect(laptop.state.profiles).toEqual([{ id: 'me', name: 'Me', shareWith: [] }])
+    expect(laptop.state.nodes.find((n) => n.id === 'kite')!.data).toMatchObject({ owner: 'me' })
+  })
+
+  it('relays through the Node sync server for devices with the token', async () => {
+    const server = await createSyncServer({ token: 'family-secret', origin: 'http://app.home' })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const url = `http://127.0.0.1:${server.address().port}/`
+    const config = { url, token: 'family-secret' }
+    try {
+      const laptop = device('laptop', { ...blank(), nodes: [root, lego] })
+      const phone = device('phone', blank())
+      expect(await laptop.sync(httpTransport(config))).toEqual({ ok: true, changed: [] })
+      await phone.sync(httpTransport(config))
+      expect(phone.state.nodes).toEqual([root, lego])
+      const auth = { Authorization: 'Bearer family-secret' }
+      expect((await fetch(`${url}ops`, { method: 'POST', headers: auth, body: '{"ops":[{"key":1}]}' })).status).toBe(400)
+      const huge = await fetch(`${url}ops`, { method: 'POST', headers: auth, body: 'x'.repeat(6 * 1024 * 1024) })
+      expect(huge.status).toBe(413)
+      expect(await huge.json()).toEqual({ error: 'too_large' })
+
+      expect(await httpTransport({ url, token: 'guess' }).pull(0)).toEqual({ ok: false, error: 'unauthorized' })
+      expect((await fetch(`${url}ops?since=0`)).status).toBe(401)
+      const preflight = await fetch(`${url}ops`, { method: 'OPTIONS' })
+      expect(preflight.headers.get('access-control-allow-origin')).toBe('http://app.home')
+      expect(preflight.headers.get('access-control-allow-headers')).toContain('Authorization')
+    } finally {
+      await new Promise((resolve) => server.close(resolve))
+    }
+    expect(await httpTransport(config).pull(0)).toEqual({ ok: false, error: 'offline' })
+    await expect(createSyncServer({ token: '' })).rejects.toThrow()
+  })
+})
+
+describe('store sync', () => {
+  // Taken before any test replaces it: the graph, profile and season every device starts with
+  const seed = useGiftStore.getState().exportState()
+
+  it('joins with the shared state instead of pushing its own seed graph', async () => {
+    const relay = createMemoryRelay()
+    const laptop = device('laptop', { ...seed, seasons: [{ ...seed.seasons[0], createdAt: '2024-11-01T00:00:00.000Z' }] })
+    laptop.edit((s) => ({
+      ...s,
+      nodes: s.nodes.filter((n) => n.id !== 'p_0').map((n) => (n.type === 'root' ? { ...n, data: { label: 'Our Christmas' } } : n)),
+      profiles: s.profiles.map((p) => (p.id === 'me' ? { ...p, name: 'Mum' } : p)),
+    }))
+    await laptop.sync(relay)
+    const before = await relay.pull(0)
+
+    const sync = startSync(relay, { interval: 60_000, delay: 60_000, storage: createMemoryAdapter() })
+    try {
+      await sync.syncNow()
+      const s = useGiftStore.getState()
+      expect(s.nodes.map((n) => n.id)).toEqual(laptop.state.nodes.map((n) => n.id))
+      expect(s.nodes.find((n) => n.id === 'root')!.data).toMatchObject({ label: 'Our Christmas' })
+      expect(s.profiles.find((p) => p.id === 'me')!.name).toBe('Mum')
+      expect(s.seasons[0].createdAt).toBe('2024-11-01T00:00:00.000Z')
+      // Nothing was pushed back over the laptop's state
+      await sync.syncNow()
+      const after = await relay.pull(0)
+      expect(after.ok && after.cursor).toBe(before.ok && before.cursor)
+      await laptop.sync(relay)
+      expect(laptop.state.nodes.some((n) => n.id === 'p_0')).toBe(false)
+    } finally {
+      sync.stop()
+    }
+  })
+
+  it('pushes local edits, merges remote ones and keeps protected ideas encrypted', async () => {
+    useGiftStore.getState().importState({
+      version: 3,
+      nodes: [root],
+      edges: [],
+      profiles: [{ id: 'me', name: 'Me', color: '#000', shareWith: [] }],
+      currentProfileId: 'me',
+      statusPipeline: ['considering', 'ordered', 'given'],
+      seasons: [season],
+      currentSeasonId: 's1',
+    })
+    const relay = createMemoryRelay()
+    const sync = startSync(relay, { interval: 60_000, delay: 60_000, storage: createMemoryAdapter() })
+    const phone = device('phone', blank())
+    try {
+      const person = useGiftStore.getState().addPerson('me', 'Bella')
+      await sync.syncNow()
+      expect(useGiftStore.getState().sync).toMatchObject({ state: 'synced', pending: 0 })
+      await phone.sync(relay)
+      expect(phone.state.nodes.find((n) => n.id === person)!.data).toMatchObject({ label: 'Bella', owner: 'me' })
+
+      phone.edit((s) => ({ ...s, nodes: s.nodes.map((n) => (n.id === person && n.type === 'person' ? { ...n, data: { ...n.data, label: 'Bella B' } } : n)) }))
+      await phone.sync(relay)
+      await sync.syncNow()
+      expect(useGiftStore.getState().nodes.find((n) => n.id === person)!.data).toMatchObject({ label: 'Bella B' })
+
+      await useGiftStore.getState().setPassphrase('hunter22')
+      useGiftStore.getState().addIdea('me', person, 'Lego', 'The big set')
+      await sync.syncNow()
+      const pulled = await relay.pull(0)
+      expect(JSON.stringify(pulled)).not.toMatch(/Lego|big set/)
+      // Nothing changed, so nothing is sent again
+      await sync.syncNow()
+      const again = await relay.pull(0)
+      expect(again.ok && again.cursor).toBe(pulled.ok && pulled.cursor)
+    } finally {
+      sync.stop()
+    }
+    expect(useGiftStore.getState().sync.state).toBe('off')
+  })
+
+  it('does not start another round for changes it pulled in', async () => {
+    const relay = createMemoryRelay()
+    let pulls = 0
+    const counted: SyncTransport = { push: (ops) => relay.push(ops), pull: (cursor) => { pulls++; return relay.pull(cursor) } }
+    const sync = startSync(counted, { interval: 60_000, delay: 10, storage: createMemoryAdapter() })
+    const phone = device('phone', blank())
+    try {
+      await sync.syncNow()
+      await phone.sync(relay)
+      phone.edit(renameIdea('Duplo'))
+      phone.edit((s) => ({ ...s, profiles: s.profiles.concat({ id: 'dad', name: 'Dad', shareWith: [] }) }))
+      await phone.sync(relay)
+      await sync.syncNow()
+      expect(useGiftStore.getState().profiles.some((p) => p.id === 'dad')).toBe(true)
+      const before = pulls
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      await sync.syncNow()
+      expect(pulls).toBe(before + 1)
+    } finally {
+      sync.stop()
+    }
+  })
+})